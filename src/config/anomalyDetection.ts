@@ -0,0 +1,82 @@
+/**
+ * Anomaly Detection
+ * Thresholds and fields for flagging suspicious metric values when they are saved
+ */
+
+export const ANOMALY_THRESHOLDS = {
+  // Change against the previous period of the same type (x3 up or down at 200)
+  percentChange: 200,
+  // Values below this on both sides are not compared by percentage (1 -> 3 incidents is not a typo)
+  percentChangeMinValue: 10,
+  // Distance from the company's own earlier periods, in standard deviations
+  historyZScore: 3,
+  historyMinPeriods: 3,
+  historyMaxPeriods: 12,
+  // Distance from companies in the same industry for the same period, in standard deviations
+  peerZScore: 3,
+  peerMinCompanies: 5,
+};
+
+// total: grows with company size, compared per employee across peers; rate: compared as is
+export type AnomalyFieldScale = 'total' | 'rate';
+
+export interface AnomalyField {
+  field: string;
+  scale: AnomalyFieldScale;
+}
+
+const fields = (scale: AnomalyFieldScale, names: string[]): AnomalyField[] =>
+  names.map(field => ({ field, scale }));
+
+export const ENVIRONMENTAL_ANOMALY_FIELDS: AnomalyField[] = [
+  ...fields('total', [
+    'totalEnergyConsumption', 'electricityKwh', 'fuelLitres', 'coalTonnes',
+    'scope1Emissions', 'scope2Emissions', 'scope3Emissions',
+    'waterUsageKL', 'totalWasteTonnes', 'hazardousWasteTonnes', 'nonHazardousWasteTonnes', 'recycledWasteTonnes',
+  ]),
+  ...fields('rate', ['renewableEnergyPercent', 'nonRenewableEnergyPercent', 'emissionsIntensity']),
+];
+
+export const SOCIAL_ANOMALY_FIELDS: AnomalyField[] = [
+  ...fields('total', [
+    'totalEmployeesPermanent', 'totalEmployeesContractual', 'accidentIncidents', 'nearMissIncidents', 'csrSpend',
+  ]),
+  ...fields('rate', [
+    'femalePercentWorkforce', 'womenInManagementPercent', 'totalTrainingHoursPerEmployee',
+    'employeeTurnoverPercent', 'medianRemuneration', 'payRatio', 'csrSpendPercent',
+  ]),
+];
+
+export const GOVERNANCE_ANOMALY_FIELDS: AnomalyField[] = [
+  ...fields('rate', ['boardMembers', 'independentDirectors', 'boardDiversityPercent', 'complianceViolations']),
+];
+
+export interface PlausibilityCheck {
+  fields: string[];
+  message: string;
+  isImplausible: (values: Record<string, any>) => boolean; // Only called when every field has a value
+}
+
+// Values that cannot be right whatever the company's history
+export const ENVIRONMENTAL_PLAUSIBILITY_CHECKS: PlausibilityCheck[] = [
+  {
+    fields: ['renewableEnergyPercent', 'nonRenewableEnergyPercent'],
+    message: 'Renewable and non-renewable energy should add up to 100%',
+    isImplausible: v => Math.abs(v.renewableEnergyPercent + v.nonRenewableEnergyPercent - 100) > 0.5
+  },
+  {
+    fields: ['recycledWasteTonnes', 'totalWasteTonnes'],
+    message: 'Recycled waste cannot be more than the total waste generated',
+    isImplausible: v => v.recycledWasteTonnes > v.totalWasteTonnes
+  },
+];
+
+export const SOCIAL_PLAUSIBILITY_CHECKS: PlausibilityCheck[] = [];
+
+export const GOVERNANCE_PLAUSIBILITY_CHECKS: PlausibilityCheck[] = [
+  {
+    fields: ['independentDirectors', 'boardMembers'],
+    message: 'Independent directors cannot outnumber the board',
+    isImplausible: v => v.independentDirectors > v.boardMembers
+  },
+];
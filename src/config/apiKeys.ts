@@ -0,0 +1,21 @@
+/**
+ * API Keys
+ * Format and limits of the company API keys used for machine-to-machine access
+ */
+
+// Keys look like etk_<48 hex characters>; the prefix tells authenticate a key from a JWT
+export const API_KEY_PREFIX = 'etk_';
+
+// Characters of the key kept in clear so people can tell their keys apart
+export const API_KEY_DISPLAY_LENGTH = 12;
+
+// Requests per key per minute, unless the key sets its own limit
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+export const MAX_RATE_LIMIT_PER_MINUTE = 1000;
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// lastUsedAt is written at most this often per key
+export const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// How long a rotated key keeps working so integrations can switch over
+export const MAX_ROTATION_GRACE_MINUTES = 7 * 24 * 60;
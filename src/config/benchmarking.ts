@@ -0,0 +1,86 @@
+/**
+ * Industry Benchmarking
+ * Peer cohorts, benchmarked metrics and the minimum cohort size that keeps peers anonymous
+ */
+
+// Cohorts with fewer peers than this (not counting the company benchmarked) show no figures
+export const MIN_BENCHMARK_COHORT_SIZE = 10;
+
+export interface EmployeeBand {
+  label: string;
+  min: number;
+  max: number;
+}
+
+// Company.employeeCount ranges from 10 to 500
+export const EMPLOYEE_BANDS: EmployeeBand[] = [
+  { label: '10-49', min: 10, max: 49 },
+  { label: '50-99', min: 50, max: 99 },
+  { label: '100-249', min: 100, max: 249 },
+  { label: '250-500', min: 250, max: 500 },
+];
+
+export const getEmployeeBand = (employeeCount: number): string =>
+  EMPLOYEE_BANDS.find(band => employeeCount >= band.min && employeeCount <= band.max)?.label || 'Other';
+
+export interface BenchmarkInputs {
+  company: { employeeCount?: number; annualRevenue?: number };
+  score: { overallScore: number; environmentalScore: number; socialScore: number; governanceScore: number };
+  environmental: Record<string, any> | null;
+  social: Record<string, any> | null;
+}
+
+export interface BenchmarkMetric {
+  key: string;
+  label: string;
+  unit: string;
+  higherIsBetter: boolean; // Percentiles are flipped for lower-is-better metrics, so a higher percentile is always better
+  value: (inputs: BenchmarkInputs) => number | null;
+}
+
+const CRORE = 10000000;
+
+const positive = (value: any): number | null => (typeof value === 'number' && value > 0 ? value : null);
+
+const ratio = (numerator: number | null, denominator: number | null): number | null =>
+  numerator !== null && denominator !== null ? numerator / denominator : null;
+
+// Peers are compared for the same period, so quarterly intensities are only compared with quarterly ones
+export const BENCHMARK_METRICS: BenchmarkMetric[] = [
+  { key: 'overallScore', label: 'Overall ESG score', unit: 'score', higherIsBetter: true, value: ({ score }) => score.overallScore },
+  { key: 'environmentalScore', label: 'Environmental score', unit: 'score', higherIsBetter: true, value: ({ score }) => score.environmentalScore },
+  { key: 'socialScore', label: 'Social score', unit: 'score', higherIsBetter: true, value: ({ score }) => score.socialScore },
+  { key: 'governanceScore', label: 'Governance score', unit: 'score', higherIsBetter: true, value: ({ score }) => score.governanceScore },
+  {
+    key: 'energyPerEmployeeKwh',
+    label: 'Electricity per employee',
+    unit: 'kWh',
+    higherIsBetter: false,
+    value: ({ environmental, company }) => ratio(positive(environmental?.electricityKwh), positive(company.employeeCount))
+  },
+  {
+    key: 'emissionsPerCroreRevenue',
+    label: 'Scope 1+2 emissions per crore revenue',
+    unit: 'tCO2e',
+    higherIsBetter: false,
+    value: ({ environmental, company }) => {
+      const emissions = (environmental?.scope1Emissions || 0) + (environmental?.scope2Emissions || 0);
+      const revenue = positive(company.annualRevenue);
+      return ratio(positive(emissions), revenue !== null ? revenue / CRORE : null);
+    }
+  },
+  {
+    key: 'femalePercentWorkforce',
+    label: 'Women in the workforce',
+    unit: '%',
+    higherIsBetter: true,
+    value: ({ social }) => (typeof social?.femalePercentWorkforce === 'number' ? social.femalePercentWorkforce : null)
+  },
+  {
+    key: 'trainingHoursPerEmployee',
+    label: 'Training hours per employee',
+    unit: 'hours',
+    higherIsBetter: true,
+    value: ({ social }) => (typeof social?.totalTrainingHoursPerEmployee === 'number' ? social.totalTrainingHoursPerEmployee : null)
+  },
+];
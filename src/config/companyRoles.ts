@@ -0,0 +1,123 @@
+/**
+ * Company Roles
+ * The permissions a company member can hold and the built-in roles that grant them
+ */
+
+export type PermissionModule = 'environment' | 'social' | 'governance';
+
+export type Permission =
+  | 'company.read'
+  | 'company.manage'
+  | 'members.manage'
+  | 'roles.manage'
+  | 'metrics.environment.write'
+  | 'metrics.social.write'
+  | 'metrics.governance.write'
+  | 'facilities.write'
+  | 'evidence.upload'
+  | 'evidence.delete'
+  | 'tasks.write'
+  | 'targets.write'
+  | 'periods.manage'
+  | 'reviews.submit'
+  | 'reviews.approve'
+  | 'score.calculate'
+  | 'report.export';
+
+export const PERMISSIONS: Record<Permission, string> = {
+  'company.read': 'View the company, its data, scores and dashboards',
+  'company.manage': 'Edit company details, plan and trial',
+  'members.manage': 'Add and remove members and change their roles',
+  'roles.manage': 'Create, edit and delete custom roles',
+  'metrics.environment.write': 'Enter, import and change environmental data (including facilities and scope 3)',
+  'metrics.social.write': 'Enter, import and change social data',
+  'metrics.governance.write': 'Enter, import and change governance data',
+  'facilities.write': 'Add, edit and remove facilities',
+  'evidence.upload': 'Upload evidence and link it to data',
+  'evidence.delete': 'Delete evidence',
+  'tasks.write': 'Create, update and delete tasks',
+  'targets.write': 'Create, edit and delete targets',
+  'periods.manage': 'Move reporting periods through their lifecycle',
+  'reviews.submit': 'Submit periods for review and withdraw submissions',
+  'reviews.approve': "Approve or reject other members' submissions",
+  'score.calculate': 'Calculate the ESG score',
+  'report.export': 'Export ESG and BRSR reports',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export const PERMISSION_MODULES: PermissionModule[] = ['environment', 'social', 'governance'];
+
+export const getModuleWritePermission = (module: PermissionModule): Permission => `metrics.${module}.write`;
+
+export type BuiltInRole = 'owner' | 'esg-manager' | 'data-contributor' | 'viewer' | 'auditor';
+
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  builtIn: boolean;
+}
+
+const DATA_PERMISSIONS: Permission[] = [
+  'metrics.environment.write',
+  'metrics.social.write',
+  'metrics.governance.write',
+  'facilities.write',
+  'evidence.upload',
+  'tasks.write',
+];
+
+export const BUILT_IN_ROLES: Record<BuiltInRole, RoleDefinition> = {
+  owner: {
+    key: 'owner',
+    name: 'Owner',
+    description: 'Full control of the company, its members and roles',
+    permissions: ALL_PERMISSIONS,
+    builtIn: true,
+  },
+  'esg-manager': {
+    key: 'esg-manager',
+    name: 'ESG Manager',
+    description: 'Runs ESG reporting - all data, reviews, scores and reports, but not company settings or members',
+    permissions: ALL_PERMISSIONS.filter(permission => !['company.manage', 'members.manage', 'roles.manage'].includes(permission)),
+    builtIn: true,
+  },
+  'data-contributor': {
+    key: 'data-contributor',
+    name: 'Data Contributor',
+    description: 'Enters data for the modules assigned to them and submits it for review',
+    permissions: ['company.read', ...DATA_PERMISSIONS, 'reviews.submit'],
+    builtIn: true,
+  },
+  viewer: {
+    key: 'viewer',
+    name: 'Viewer',
+    description: 'Read-only access to data, scores and reports',
+    permissions: ['company.read', 'report.export'],
+    builtIn: true,
+  },
+  auditor: {
+    key: 'auditor',
+    name: 'External Auditor',
+    description: 'Read-only access that can approve or reject submitted periods',
+    permissions: ['company.read', 'report.export', 'reviews.approve'],
+    builtIn: true,
+  },
+};
+
+export const BUILT_IN_ROLE_KEYS = Object.keys(BUILT_IN_ROLES) as BuiltInRole[];
+
+export const isBuiltInRole = (key: string): key is BuiltInRole => key in BUILT_IN_ROLES;
+
+// Role given to users attached through User.companyId before memberships existed
+export const LEGACY_MEMBER_ROLES: Record<'USER' | 'AUDITOR', BuiltInRole> = {
+  USER: 'esg-manager',
+  AUDITOR: 'auditor',
+};
+
+// Roles stored before the permission matrix existed
+export const RENAMED_ROLES: Record<string, BuiltInRole> = {
+  editor: 'esg-manager',
+};
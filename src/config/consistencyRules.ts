@@ -0,0 +1,88 @@
+/**
+ * Consistency Rules
+ * Built-in cross-field rules, stored as data the first time rules are loaded so admins can edit and extend them
+ */
+
+export type RuleModule = 'environment' | 'social' | 'governance';
+
+// blocking: the save is refused, warning: saved and flagged for the data-quality dashboard
+export type RuleSeverity = 'blocking' | 'warning';
+
+export type RuleOperator = '==' | '<=' | '>=';
+
+export type RuleTermSource = 'metrics' | 'company';
+
+/**
+ * A value on one side of a rule - a metric or company field, optionally scaled and divided by another field
+ */
+export interface RuleTerm {
+  field: string;
+  source?: RuleTermSource; // Defaults to metrics
+  multiplier?: number;
+  divideBy?: {
+    field: string;
+    source?: RuleTermSource;
+  };
+}
+
+/**
+ * The terms of each side are summed, then compared with the operator
+ * The rule is only checked when every field it uses has a value
+ */
+export interface ConsistencyRuleDefinition {
+  key: string;
+  module: RuleModule;
+  name: string;
+  message: string;
+  severity: RuleSeverity;
+  left: RuleTerm[];
+  operator: RuleOperator;
+  right: RuleTerm[];
+  tolerancePercent: number; // Allowed difference, as a percentage of the right side
+  periodTypes?: Array<'month' | 'quarter' | 'financial-year'>; // Defaults to every period type
+}
+
+export const RULE_OPERATORS: RuleOperator[] = ['==', '<=', '>='];
+
+export const DEFAULT_CONSISTENCY_RULES: ConsistencyRuleDefinition[] = [
+  {
+    key: 'waste-split',
+    module: 'environment',
+    name: 'Waste split',
+    message: 'Hazardous and non-hazardous waste should add up to the total waste',
+    severity: 'blocking',
+    left: [{ field: 'hazardousWasteTonnes' }, { field: 'nonHazardousWasteTonnes' }],
+    operator: '==',
+    right: [{ field: 'totalWasteTonnes' }],
+    tolerancePercent: 1
+  },
+  {
+    key: 'water-sources',
+    module: 'environment',
+    name: 'Water sources',
+    message: 'Surface, ground, municipal and other water should add up to the water usage',
+    severity: 'warning',
+    left: [
+      { field: 'waterSourceSurface' },
+      { field: 'waterSourceGroundwater' },
+      { field: 'waterSourceMunicipal' },
+      { field: 'waterSourceOther' }
+    ],
+    operator: '==',
+    right: [{ field: 'waterUsageKL' }],
+    tolerancePercent: 1
+  },
+  {
+    // Revenue is annual, so only financial years are compared
+    key: 'csr-spend-percent',
+    module: 'social',
+    name: 'CSR spend %',
+    message: 'CSR spend % should match CSR spend over the company\'s annual revenue',
+    severity: 'warning',
+    left: [{ field: 'csrSpendPercent' }],
+    operator: '==',
+    right: [{ field: 'csrSpend', multiplier: 100, divideBy: { field: 'annualRevenue', source: 'company' } }],
+    tolerancePercent: 5,
+    periodTypes: ['financial-year']
+  },
+];
@@ -0,0 +1,81 @@
+/**
+ * Emission Factor Library
+ * Versioned factor sets used to derive Scope 1 and Scope 2 emissions from activity data
+ */
+
+export type FuelType = 'diesel' | 'petrol' | 'lpg';
+
+export interface EmissionFactor {
+  value: number; // kg CO2e per unit of activity
+  unit: string; // Activity unit the factor applies to
+  source: string;
+}
+
+export interface EmissionFactorSet {
+  factorSet: string; // Family of factors (grid + fuel sources)
+  version: string;
+  name: string;
+  effectiveFrom: string; // Start of the financial year the grid factor describes
+  electricity: EmissionFactor; // Scope 2 (location-based) grid factor
+  fuels: Record<FuelType, EmissionFactor>; // Scope 1 stationary/mobile combustion
+  coal: EmissionFactor; // Scope 1 solid fuel combustion
+}
+
+export const EMISSION_FACTOR_SET_ID = 'IN-CEA-IPCC2006';
+
+/**
+ * IPCC 2006 default combustion factors (converted to volume using typical Indian fuel densities)
+ * These do not change between CEA database releases
+ */
+const IPCC_2006_FUELS: Record<FuelType, EmissionFactor> = {
+  diesel: { value: 2.68, unit: 'litre', source: 'IPCC 2006 Guidelines, Vol. 2, Table 3.2.1 (Gas/Diesel Oil)' },
+  petrol: { value: 2.31, unit: 'litre', source: 'IPCC 2006 Guidelines, Vol. 2, Table 3.2.1 (Motor Gasoline)' },
+  lpg: { value: 1.56, unit: 'litre', source: 'IPCC 2006 Guidelines, Vol. 2, Table 2.2 (Liquefied Petroleum Gases)' },
+};
+
+const IPCC_2006_COAL: EmissionFactor = {
+  value: 2420,
+  unit: 'tonne',
+  source: 'IPCC 2006 Guidelines, Vol. 2, Table 2.2 (Other Bituminous Coal)',
+};
+
+/**
+ * Factor sets keyed by version
+ * Versions follow the CEA CO2 Baseline Database release used for the grid factor
+ */
+export const EMISSION_FACTOR_SETS: Record<string, EmissionFactorSet> = {
+  '19.0': {
+    factorSet: EMISSION_FACTOR_SET_ID,
+    version: '19.0',
+    name: 'CEA CO2 Baseline Database v19 + IPCC 2006',
+    effectiveFrom: '2022-04-01',
+    electricity: { value: 0.716, unit: 'kWh', source: 'CEA CO2 Baseline Database v19, weighted average (FY 2022-23)' },
+    fuels: IPCC_2006_FUELS,
+    coal: IPCC_2006_COAL,
+  },
+  '20.0': {
+    factorSet: EMISSION_FACTOR_SET_ID,
+    version: '20.0',
+    name: 'CEA CO2 Baseline Database v20 + IPCC 2006',
+    effectiveFrom: '2023-04-01',
+    electricity: { value: 0.727, unit: 'kWh', source: 'CEA CO2 Baseline Database v20, weighted average (FY 2023-24)' },
+    fuels: IPCC_2006_FUELS,
+    coal: IPCC_2006_COAL,
+  },
+};
+
+export const DEFAULT_EMISSION_FACTOR_VERSION = '20.0';
+
+/**
+ * Get a factor set by version (defaults to the latest release)
+ */
+export function getEmissionFactorSet(version?: string): EmissionFactorSet | undefined {
+  return EMISSION_FACTOR_SETS[version || DEFAULT_EMISSION_FACTOR_VERSION];
+}
+
+/**
+ * Get all available factor sets
+ */
+export function getAllEmissionFactorSets(): EmissionFactorSet[] {
+  return Object.values(EMISSION_FACTOR_SETS);
+}
@@ -0,0 +1,61 @@
+/**
+ * Facility Roll-up Rules
+ * How facility-level metrics combine into the company-level record for a period
+ */
+
+export type AggregationMethod = 'sum' | 'weighted-average';
+
+export interface AggregationRule {
+  field: string;
+  method: AggregationMethod;
+  // Weighted averages use the first of these fields that every contributing facility reports,
+  // and fall back to a simple average when none is reported everywhere
+  weightFields?: string[];
+}
+
+const ENERGY_WEIGHTS = ['totalEnergyConsumption', 'electricityKwh'];
+const HEADCOUNT_WEIGHTS = ['totalEmployeesPermanent'];
+
+export const ENVIRONMENTAL_AGGREGATION: AggregationRule[] = [
+  { field: 'totalEnergyConsumption', method: 'sum' },
+  { field: 'electricityKwh', method: 'sum' },
+  { field: 'fuelLitres', method: 'sum' },
+  { field: 'coalTonnes', method: 'sum' },
+  { field: 'renewableEnergyPercent', method: 'weighted-average', weightFields: ENERGY_WEIGHTS },
+  { field: 'nonRenewableEnergyPercent', method: 'weighted-average', weightFields: ENERGY_WEIGHTS },
+  { field: 'scope1Emissions', method: 'sum' },
+  { field: 'scope2Emissions', method: 'sum' },
+  { field: 'waterUsageKL', method: 'sum' },
+  { field: 'waterSourceSurface', method: 'sum' },
+  { field: 'waterSourceGroundwater', method: 'sum' },
+  { field: 'waterSourceMunicipal', method: 'sum' },
+  { field: 'waterSourceOther', method: 'sum' },
+  { field: 'totalWasteTonnes', method: 'sum' },
+  { field: 'hazardousWasteTonnes', method: 'sum' },
+  { field: 'nonHazardousWasteTonnes', method: 'sum' },
+  { field: 'recycledWasteTonnes', method: 'sum' },
+  { field: 'divertedFromDisposalTonnes', method: 'sum' },
+];
+
+export const SOCIAL_AGGREGATION: AggregationRule[] = [
+  { field: 'totalEmployeesPermanent', method: 'sum' },
+  { field: 'totalEmployeesContractual', method: 'sum' },
+  { field: 'femalePercentWorkforce', method: 'weighted-average', weightFields: HEADCOUNT_WEIGHTS },
+  { field: 'womenInManagementPercent', method: 'weighted-average', weightFields: HEADCOUNT_WEIGHTS },
+  { field: 'accidentIncidents', method: 'sum' },
+  { field: 'nearMissIncidents', method: 'sum' },
+  { field: 'totalTrainingHoursPerEmployee', method: 'weighted-average', weightFields: HEADCOUNT_WEIGHTS },
+  { field: 'safetyDrillsConducted', method: 'sum' },
+  { field: 'employeeTurnoverPercent', method: 'weighted-average', weightFields: HEADCOUNT_WEIGHTS },
+];
+
+// Company-level fields that are owned by the roll-up once facilities report for a period
+// Emission inputs are included because Scope 1/2 are calculated per facility
+export const ROLLED_UP_ENVIRONMENTAL_FIELDS = [
+  ...ENVIRONMENTAL_AGGREGATION.map(rule => rule.field),
+  'fuelType',
+  'emissionFactorVersion',
+  'emissionsOverride',
+  'carbonEmissionsTons',
+];
+export const ROLLED_UP_SOCIAL_FIELDS = SOCIAL_AGGREGATION.map(rule => rule.field);
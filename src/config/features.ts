@@ -146,6 +146,13 @@ export const FEATURES: Record<string, Feature> = {
     plans: ['enterprise'],
     enabled: true,
   },
+  CUSTOM_ROLES: {
+    id: 'custom_roles',
+    name: 'Custom Roles',
+    description: 'Define company roles with your own permission sets',
+    plans: ['enterprise'],
+    enabled: true,
+  },
   ON_PREMISE_DEPLOYMENT: {
     id: 'on_premise_deployment',
     name: 'On-Premise Deployment',
@@ -0,0 +1,36 @@
+/**
+ * Group Consolidation
+ * How subsidiaries' metrics combine into group-level figures under each reporting boundary
+ */
+
+import { AggregationRule, ENVIRONMENTAL_AGGREGATION, SOCIAL_AGGREGATION } from './facilityAggregation';
+
+// equity-share: each entity counts in proportion to the group's effective equity in it
+// operational-control: entities the group controls count in full, the rest not at all
+export type ConsolidationBoundary = 'equity-share' | 'operational-control';
+
+export const CONSOLIDATION_BOUNDARIES: ConsolidationBoundary[] = ['equity-share', 'operational-control'];
+
+export const DEFAULT_CONSOLIDATION_BOUNDARY: ConsolidationBoundary = 'operational-control';
+
+// Summed fields are scaled by each entity's inclusion share; averages are weighted by the scaled weight fields
+export const GROUP_ENVIRONMENTAL_AGGREGATION: AggregationRule[] = [
+  ...ENVIRONMENTAL_AGGREGATION,
+  { field: 'scope3Emissions', method: 'sum' },
+];
+
+export const GROUP_SOCIAL_AGGREGATION: AggregationRule[] = SOCIAL_AGGREGATION;
+
+// Figures shown per entity in the contribution breakdown
+export const CONTRIBUTION_FIELDS = [
+  { field: 'scope1Emissions', label: 'Scope 1 emissions', unit: 'tCO2e' },
+  { field: 'scope2Emissions', label: 'Scope 2 emissions', unit: 'tCO2e' },
+  { field: 'scope3Emissions', label: 'Scope 3 emissions', unit: 'tCO2e' },
+  { field: 'totalEnergyConsumption', label: 'Energy', unit: 'kWh' },
+  { field: 'waterUsageKL', label: 'Water usage', unit: 'KL' },
+  { field: 'totalWasteTonnes', label: 'Total waste', unit: 'tonnes' },
+  { field: 'totalEmployeesPermanent', label: 'Permanent employees', unit: 'count' },
+];
+
+// Groups nest at most this deep below the parent
+export const MAX_GROUP_DEPTH = 5;
@@ -0,0 +1,25 @@
+/**
+ * Legacy Metric Fields
+ * Fields from the original metric forms and the canonical field each one maps onto
+ */
+
+export interface LegacyFieldMapping {
+  legacy: string;
+  canonical: string;
+  fromUnit?: string; // Legacy unit when it differs from the canonical field's unit
+}
+
+export const ENVIRONMENTAL_LEGACY_FIELDS: LegacyFieldMapping[] = [
+  { legacy: 'electricityUsageKwh', canonical: 'electricityKwh' },
+  { legacy: 'fuelConsumptionLitres', canonical: 'fuelLitres' },
+  { legacy: 'wasteGeneratedKg', canonical: 'totalWasteTonnes', fromUnit: 'kg' },
+];
+
+// femaleEmployees is a headcount - it is converted to femalePercentWorkforce separately
+export const SOCIAL_LEGACY_FIELDS: LegacyFieldMapping[] = [
+  { legacy: 'totalEmployees', canonical: 'totalEmployeesPermanent' }, // No permanent/contractual split was recorded
+  { legacy: 'avgTrainingHours', canonical: 'totalTrainingHoursPerEmployee' },
+  { legacy: 'workplaceIncidents', canonical: 'accidentIncidents' },
+];
+
+export const LEGACY_FEMALE_HEADCOUNT_FIELD = 'femaleEmployees';
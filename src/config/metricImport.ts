@@ -0,0 +1,125 @@
+/**
+ * Metric Import Templates
+ * Columns of the downloadable spreadsheet for each metric module
+ */
+
+export type ImportModule = 'environment' | 'social' | 'governance';
+
+export interface ImportColumn {
+  field: string; // Metric field the column is stored in
+  header: string; // Column heading in the template (the field name is also accepted)
+}
+
+const column = (field: string, header: string): ImportColumn => ({ field, header });
+
+// Every template starts with the period the row is recorded against
+const PERIOD_COLUMN = column('period', 'Period');
+
+// Computed values (emission calculation, roll-ups, legacy fields) are not importable
+export const IMPORT_COLUMNS: Record<ImportModule, ImportColumn[]> = {
+  environment: [
+    PERIOD_COLUMN,
+    column('totalEnergyConsumption', 'Total Energy Consumption'),
+    column('electricityKwh', 'Electricity'),
+    column('fuelLitres', 'Fuel'),
+    column('fuelType', 'Fuel Type'),
+    column('coalTonnes', 'Coal'),
+    column('renewableEnergyPercent', 'Renewable Energy %'),
+    column('nonRenewableEnergyPercent', 'Non-Renewable Energy %'),
+    column('scope1Emissions', 'Scope 1 Emissions'),
+    column('scope2Emissions', 'Scope 2 Emissions'),
+    column('scope3Emissions', 'Scope 3 Emissions'),
+    column('carbonEmissionsTons', 'Carbon Emissions'),
+    column('emissionsIntensity', 'Emissions Intensity'),
+    column('emissionFactorVersion', 'Emission Factor Version'),
+    column('waterUsageKL', 'Water Usage'),
+    column('waterSourceSurface', 'Water - Surface'),
+    column('waterSourceGroundwater', 'Water - Groundwater'),
+    column('waterSourceMunicipal', 'Water - Municipal'),
+    column('waterSourceOther', 'Water - Other'),
+    column('totalWasteTonnes', 'Total Waste'),
+    column('hazardousWasteTonnes', 'Hazardous Waste'),
+    column('nonHazardousWasteTonnes', 'Non-Hazardous Waste'),
+    column('recycledWasteTonnes', 'Recycled Waste'),
+    column('divertedFromDisposalTonnes', 'Waste Diverted from Disposal'),
+    column('wastewaterTreatmentMetrics', 'Wastewater Treatment'),
+    column('waterReuseRecyclingPractices', 'Water Reuse / Recycling'),
+    column('recyclingInitiatives', 'Recycling Initiatives'),
+    column('materialsReuse', 'Materials Reuse'),
+    column('energySavingsPrograms', 'Energy Savings Programs'),
+    column('waterEfficiencyImprovements', 'Water Efficiency Improvements'),
+    column('environmentalPolicyExists', 'Environmental Policy Exists'),
+    column('environmentalPolicyDocument', 'Environmental Policy Document'),
+    column('complianceWithLocalLaws', 'Complies with Local Laws'),
+    column('environmentalRiskAssessments', 'Environmental Risk Assessments'),
+    column('riskAssessmentDetails', 'Risk Assessment Details'),
+  ],
+  social: [
+    PERIOD_COLUMN,
+    column('totalEmployeesPermanent', 'Permanent Employees'),
+    column('totalEmployeesContractual', 'Contractual Employees'),
+    column('femalePercentWorkforce', 'Female % of Workforce'),
+    column('womenInManagementPercent', 'Women in Management %'),
+    column('vulnerableGroupsRepresentation', 'Vulnerable Groups Representation'),
+    column('accidentIncidents', 'Accident Incidents'),
+    column('nearMissIncidents', 'Near-Miss Incidents'),
+    column('totalTrainingHoursPerEmployee', 'Training Hours per Employee'),
+    column('safetyDrillsConducted', 'Safety Drills Conducted'),
+    column('healthSafetyPolicies', 'Health & Safety Policies'),
+    column('awarenessSessions', 'Awareness Sessions'),
+    column('fairWagePolicyExists', 'Fair Wage Policy Exists'),
+    column('fairWagePolicyDetails', 'Fair Wage Policy Details'),
+    column('medianRemuneration', 'Median Remuneration'),
+    column('payRatio', 'Pay Ratio'),
+    column('grievanceRedressalMechanism', 'Grievance Redressal Mechanism'),
+    column('humanRightsTraining', 'Human Rights Training'),
+    column('accessibilityMeasures', 'Accessibility Measures'),
+    column('accessibilityMeasuresDetails', 'Accessibility Measures Details'),
+    column('antiHarassmentProcessExists', 'Anti-Harassment Process Exists'),
+    column('antiHarassmentProcessDetails', 'Anti-Harassment Process Details'),
+    column('csrSpend', 'CSR Spend'),
+    column('csrSpendPercent', 'CSR Spend %'),
+    column('csrActivities', 'CSR Activities'),
+    column('communityEngagementPrograms', 'Community Engagement Programs'),
+    column('impactAssessments', 'Impact Assessments'),
+    column('keyStakeholderGroups', 'Key Stakeholder Groups'),
+    column('engagementFrequency', 'Engagement Frequency'),
+    column('engagementType', 'Engagement Type'),
+    column('communicationOutcomes', 'Communication Outcomes'),
+    column('employeeTurnoverPercent', 'Employee Turnover %'),
+  ],
+  governance: [
+    PERIOD_COLUMN,
+    column('boardMembers', 'Board Members'),
+    column('independentDirectors', 'Independent Directors'),
+    column('boardDiversityPercent', 'Board Diversity %'),
+    column('esgCommitteeExists', 'ESG Committee Exists'),
+    column('esgCommitteeStructure', 'ESG Committee Structure'),
+    column('boardEsgDiscussionFrequency', 'Board ESG Discussion Frequency'),
+    column('codeOfConductExists', 'Code of Conduct Exists'),
+    column('codeOfConductDetails', 'Code of Conduct Details'),
+    column('antiCorruptionPolicy', 'Anti-Corruption Policy'),
+    column('antiCorruptionPolicyDetails', 'Anti-Corruption Policy Details'),
+    column('whistleblowerPolicyExists', 'Whistleblower Policy Exists'),
+    column('whistleblowerPolicyDetails', 'Whistleblower Policy Details'),
+    column('dataPrivacyPolicy', 'Data Privacy Policy'),
+    column('identifiedEsgRisks', 'Identified ESG Risks'),
+    column('riskMitigationPlans', 'Risk Mitigation Plans'),
+    column('monitoringEscalationMechanisms', 'Monitoring & Escalation Mechanisms'),
+    column('complianceViolations', 'Compliance Violations'),
+    column('auditResults', 'Audit Results'),
+    column('materialEsgRisksDisclosed', 'Material ESG Risks Disclosed'),
+    column('materialEsgRisksDetails', 'Material ESG Risks Details'),
+    column('reportingGovernancePolicies', 'Reporting Governance Policies'),
+    column('thirdPartyAuditExists', 'Third-Party Audit Exists'),
+    column('thirdPartyAuditDetails', 'Third-Party Audit Details'),
+    column('supplierEsgGuidelinesExists', 'Supplier ESG Guidelines Exist'),
+    column('supplierEsgGuidelinesDetails', 'Supplier ESG Guidelines Details'),
+    column('fairBusinessPractices', 'Fair Business Practices'),
+    column('contractualGovernanceClauses', 'Contractual Governance Clauses'),
+  ],
+};
+
+// Largest upload accepted, and most data rows read from one file
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 500;
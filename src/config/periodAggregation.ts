@@ -0,0 +1,46 @@
+/**
+ * Period Roll-up Rules
+ * How month and quarter records combine into quarter and financial-year records
+ */
+
+// sum: meter-style totals, average: rates over the period, last: point-in-time values, any: policy flags (OR)
+export type PeriodAggregationMethod = 'sum' | 'average' | 'last' | 'any';
+
+export interface PeriodAggregationRule {
+  field: string;
+  method: PeriodAggregationMethod;
+}
+
+const rules = (method: PeriodAggregationMethod, fields: string[]): PeriodAggregationRule[] =>
+  fields.map(field => ({ field, method }));
+
+export const ENVIRONMENTAL_PERIOD_AGGREGATION: PeriodAggregationRule[] = [
+  ...rules('sum', [
+    'totalEnergyConsumption', 'electricityKwh', 'fuelLitres', 'coalTonnes',
+    'scope1Emissions', 'scope2Emissions', 'scope3Emissions', 'carbonEmissionsTons',
+    'waterUsageKL', 'waterSourceSurface', 'waterSourceGroundwater', 'waterSourceMunicipal', 'waterSourceOther',
+    'totalWasteTonnes', 'hazardousWasteTonnes', 'nonHazardousWasteTonnes', 'recycledWasteTonnes', 'divertedFromDisposalTonnes',
+  ]),
+  ...rules('average', ['renewableEnergyPercent', 'nonRenewableEnergyPercent', 'emissionsIntensity']),
+  ...rules('last', ['fuelType', 'emissionFactorVersion']),
+  ...rules('any', ['environmentalPolicyExists', 'complianceWithLocalLaws', 'environmentalRiskAssessments']),
+];
+
+export const SOCIAL_PERIOD_AGGREGATION: PeriodAggregationRule[] = [
+  ...rules('sum', ['accidentIncidents', 'nearMissIncidents', 'safetyDrillsConducted', 'csrSpend']),
+  ...rules('average', ['csrSpendPercent', 'employeeTurnoverPercent', 'totalTrainingHoursPerEmployee']),
+  ...rules('last', [
+    'totalEmployeesPermanent', 'totalEmployeesContractual', 'femalePercentWorkforce', 'womenInManagementPercent',
+    'medianRemuneration', 'payRatio',
+  ]),
+  ...rules('any', ['fairWagePolicyExists', 'accessibilityMeasures', 'antiHarassmentProcessExists']),
+];
+
+export const GOVERNANCE_PERIOD_AGGREGATION: PeriodAggregationRule[] = [
+  ...rules('sum', ['complianceViolations']),
+  ...rules('last', ['boardMembers', 'independentDirectors', 'boardDiversityPercent']),
+  ...rules('any', [
+    'esgCommitteeExists', 'codeOfConductExists', 'antiCorruptionPolicy', 'whistleblowerPolicyExists',
+    'materialEsgRisksDisclosed', 'thirdPartyAuditExists', 'supplierEsgGuidelinesExists', 'dataPrivacyPolicy',
+  ]),
+];
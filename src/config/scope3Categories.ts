@@ -0,0 +1,94 @@
+/**
+ * GHG Protocol Scope 3 Categories
+ * The 15 upstream/downstream categories plus default activity factors where a common one exists
+ */
+
+export type Scope3CategoryId =
+  | 'purchased_goods_services'
+  | 'capital_goods'
+  | 'fuel_energy_related'
+  | 'upstream_transportation'
+  | 'waste_generated'
+  | 'business_travel'
+  | 'employee_commuting'
+  | 'upstream_leased_assets'
+  | 'downstream_transportation'
+  | 'processing_sold_products'
+  | 'use_of_sold_products'
+  | 'end_of_life_treatment'
+  | 'downstream_leased_assets'
+  | 'franchises'
+  | 'investments';
+
+export type Scope3Method = 'spend' | 'activity';
+
+export type Scope3ActivityUnit = 'km' | 'tonne-km' | 'kg';
+
+export interface Scope3Category {
+  id: Scope3CategoryId;
+  number: number; // GHG Protocol category number (1-15)
+  name: string;
+  direction: 'upstream' | 'downstream';
+  defaultActivityFactor?: {
+    unit: Scope3ActivityUnit;
+    value: number; // kg CO2e per unit
+    source: string;
+  };
+}
+
+export const SCOPE3_CATEGORIES: Record<Scope3CategoryId, Scope3Category> = {
+  purchased_goods_services: { id: 'purchased_goods_services', number: 1, name: 'Purchased goods and services', direction: 'upstream' },
+  capital_goods: { id: 'capital_goods', number: 2, name: 'Capital goods', direction: 'upstream' },
+  fuel_energy_related: { id: 'fuel_energy_related', number: 3, name: 'Fuel- and energy-related activities', direction: 'upstream' },
+  upstream_transportation: {
+    id: 'upstream_transportation',
+    number: 4,
+    name: 'Upstream transportation and distribution',
+    direction: 'upstream',
+    defaultActivityFactor: { unit: 'tonne-km', value: 0.107, source: 'DEFRA 2023, HGV (all diesel) average laden' },
+  },
+  waste_generated: {
+    id: 'waste_generated',
+    number: 5,
+    name: 'Waste generated in operations',
+    direction: 'upstream',
+    defaultActivityFactor: { unit: 'kg', value: 0.467, source: 'DEFRA 2023, commercial and industrial waste to landfill' },
+  },
+  business_travel: {
+    id: 'business_travel',
+    number: 6,
+    name: 'Business travel',
+    direction: 'upstream',
+    defaultActivityFactor: { unit: 'km', value: 0.152, source: 'DEFRA 2023, domestic flight average passenger' },
+  },
+  employee_commuting: {
+    id: 'employee_commuting',
+    number: 7,
+    name: 'Employee commuting',
+    direction: 'upstream',
+    defaultActivityFactor: { unit: 'km', value: 0.105, source: 'DEFRA 2023, average bus passenger' },
+  },
+  upstream_leased_assets: { id: 'upstream_leased_assets', number: 8, name: 'Upstream leased assets', direction: 'upstream' },
+  downstream_transportation: {
+    id: 'downstream_transportation',
+    number: 9,
+    name: 'Downstream transportation and distribution',
+    direction: 'downstream',
+    defaultActivityFactor: { unit: 'tonne-km', value: 0.107, source: 'DEFRA 2023, HGV (all diesel) average laden' },
+  },
+  processing_sold_products: { id: 'processing_sold_products', number: 10, name: 'Processing of sold products', direction: 'downstream' },
+  use_of_sold_products: { id: 'use_of_sold_products', number: 11, name: 'Use of sold products', direction: 'downstream' },
+  end_of_life_treatment: { id: 'end_of_life_treatment', number: 12, name: 'End-of-life treatment of sold products', direction: 'downstream' },
+  downstream_leased_assets: { id: 'downstream_leased_assets', number: 13, name: 'Downstream leased assets', direction: 'downstream' },
+  franchises: { id: 'franchises', number: 14, name: 'Franchises', direction: 'downstream' },
+  investments: { id: 'investments', number: 15, name: 'Investments', direction: 'downstream' },
+};
+
+export const SCOPE3_CATEGORY_IDS = Object.keys(SCOPE3_CATEGORIES) as Scope3CategoryId[];
+
+/**
+ * Get all Scope 3 categories in GHG Protocol order
+ */
+export function getAllScope3Categories(): Scope3Category[] {
+  return Object.values(SCOPE3_CATEGORIES).sort((a, b) => a.number - b.number);
+}
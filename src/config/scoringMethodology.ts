@@ -0,0 +1,133 @@
+/**
+ * ESG Scoring Methodology
+ * Default weights and rule bands used when no methodology has been configured by an admin
+ */
+
+export type BandOperator = '>' | '>=' | '<' | '<=' | '==';
+
+/**
+ * A rule band - the first band whose comparison matches the input awards its points
+ */
+export interface ScoreBand {
+  op: BandOperator;
+  value: number;
+  points: number;
+}
+
+export interface ScoringWeights {
+  environmental: number;
+  social: number;
+  governance: number;
+}
+
+export interface ScoringRules {
+  environmental: {
+    baseScore: number;
+    energyPerEmployeeKwh: ScoreBand[];
+    wastePerEmployeeKg: ScoreBand[];
+    waterPerEmployeeKL: ScoreBand[];
+    carbonPerEmployeeTonnes: ScoreBand[];
+    renewablePointsPerPercent: number;
+  };
+  social: {
+    baseScore: number;
+    femalePercent: ScoreBand[];
+    trainingHours: ScoreBand[];
+    incidentRatePercent: ScoreBand[];
+    turnoverPercent: ScoreBand[];
+  };
+  governance: {
+    baseScore: number;
+    boardIndependenceRatio: ScoreBand[];
+    antiCorruptionPolicyPoints: number;
+    dataPrivacyPolicyPoints: number;
+    complianceViolations: ScoreBand[];
+  };
+}
+
+/**
+ * Per-industry overrides - any rule given here replaces the default rule for that pillar
+ */
+export type IndustryRuleOverrides = {
+  [P in keyof ScoringRules]?: Partial<ScoringRules[P]>;
+};
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  environmental: 0.4,
+  social: 0.3,
+  governance: 0.3,
+};
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  environmental: {
+    baseScore: 100,
+    // Penalize high energy usage (>500 kWh per employee/month is poor)
+    energyPerEmployeeKwh: [
+      { op: '>', value: 500, points: -15 },
+      { op: '>', value: 300, points: -8 },
+      { op: '<', value: 150, points: 5 },
+    ],
+    // Less than 50kg per employee is good
+    wastePerEmployeeKg: [
+      { op: '>', value: 100, points: -15 },
+      { op: '>', value: 50, points: -8 },
+      { op: '>=', value: 0, points: 5 },
+    ],
+    waterPerEmployeeKL: [
+      { op: '>', value: 5, points: -10 },
+      { op: '<', value: 2, points: 5 },
+    ],
+    carbonPerEmployeeTonnes: [
+      { op: '>', value: 5, points: -10 },
+      { op: '<', value: 2, points: 5 },
+    ],
+    renewablePointsPerPercent: 0.3,
+  },
+  social: {
+    baseScore: 50,
+    femalePercent: [
+      { op: '>=', value: 40, points: 25 },
+      { op: '>=', value: 30, points: 18 },
+      { op: '>=', value: 20, points: 12 },
+      { op: '>=', value: 10, points: 6 },
+    ],
+    trainingHours: [
+      { op: '>=', value: 40, points: 25 },
+      { op: '>=', value: 24, points: 18 },
+      { op: '>=', value: 12, points: 12 },
+      { op: '>=', value: 6, points: 6 },
+    ],
+    incidentRatePercent: [
+      { op: '==', value: 0, points: 25 },
+      { op: '<', value: 1, points: 18 },
+      { op: '<', value: 3, points: 10 },
+      { op: '>=', value: 3, points: -10 },
+    ],
+    turnoverPercent: [
+      { op: '<', value: 5, points: 25 },
+      { op: '<', value: 10, points: 18 },
+      { op: '<', value: 15, points: 12 },
+      { op: '<', value: 25, points: 6 },
+      { op: '>=', value: 25, points: -5 },
+    ],
+  },
+  governance: {
+    baseScore: 50,
+    boardIndependenceRatio: [
+      { op: '>=', value: 0.5, points: 30 },
+      { op: '>=', value: 0.33, points: 20 },
+      { op: '>=', value: 0.25, points: 10 },
+    ],
+    antiCorruptionPolicyPoints: 20,
+    dataPrivacyPolicyPoints: 20,
+    // Major penalty for repeated violations
+    complianceViolations: [
+      { op: '==', value: 0, points: 30 },
+      { op: '==', value: 1, points: 15 },
+      { op: '==', value: 2, points: 5 },
+      { op: '>', value: 2, points: -20 },
+    ],
+  },
+};
+
+export const DEFAULT_METHODOLOGY_NAME = 'EcoTrack Standard';
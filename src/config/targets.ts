@@ -0,0 +1,41 @@
+/**
+ * Targets
+ * Metrics a company can set reduction or improvement targets on, and how progress is judged
+ */
+
+export type TargetModule = 'environment' | 'social' | 'governance';
+
+export interface TargetMetric {
+  key: string;
+  module: TargetModule;
+  field: string;
+  label: string;
+  unit: string;
+}
+
+export const TARGET_METRICS: TargetMetric[] = [
+  { key: 'scope1Emissions', module: 'environment', field: 'scope1Emissions', label: 'Scope 1 emissions', unit: 'tCO2e' },
+  { key: 'scope2Emissions', module: 'environment', field: 'scope2Emissions', label: 'Scope 2 emissions', unit: 'tCO2e' },
+  { key: 'scope3Emissions', module: 'environment', field: 'scope3Emissions', label: 'Scope 3 emissions', unit: 'tCO2e' },
+  { key: 'electricityKwh', module: 'environment', field: 'electricityKwh', label: 'Electricity', unit: 'kWh' },
+  { key: 'renewableEnergyPercent', module: 'environment', field: 'renewableEnergyPercent', label: 'Renewable energy', unit: '%' },
+  { key: 'waterUsageKL', module: 'environment', field: 'waterUsageKL', label: 'Water usage', unit: 'KL' },
+  { key: 'totalWasteTonnes', module: 'environment', field: 'totalWasteTonnes', label: 'Total waste', unit: 'tonnes' },
+  { key: 'femalePercentWorkforce', module: 'social', field: 'femalePercentWorkforce', label: 'Women in the workforce', unit: '%' },
+  { key: 'womenInManagementPercent', module: 'social', field: 'womenInManagementPercent', label: 'Women in management', unit: '%' },
+  { key: 'totalTrainingHoursPerEmployee', module: 'social', field: 'totalTrainingHoursPerEmployee', label: 'Training hours per employee', unit: 'hours' },
+  { key: 'accidentIncidents', module: 'social', field: 'accidentIncidents', label: 'Accident incidents', unit: 'count' },
+  { key: 'boardDiversityPercent', module: 'governance', field: 'boardDiversityPercent', label: 'Board diversity', unit: '%' },
+  { key: 'complianceViolations', module: 'governance', field: 'complianceViolations', label: 'Compliance violations', unit: 'count' },
+];
+
+export const getTargetMetric = (key: string): TargetMetric | undefined => TARGET_METRICS.find(metric => metric.key === key);
+
+export const TARGET_SETTINGS = {
+  // Within this share of the trajectory value still counts as on track
+  onTrackTolerancePercent: 2,
+  // Off-track tasks are High priority when the gap is at least this share of the trajectory value
+  highPriorityGapPercent: 10,
+  // Days to act on an off-track target
+  taskDueDays: 14,
+};
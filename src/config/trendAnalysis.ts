@@ -0,0 +1,45 @@
+/**
+ * Trend Analysis
+ * Series shown in multi-year trends and the settings of the forecast
+ */
+
+export type TrendSource = 'score' | 'environment' | 'social' | 'governance';
+
+export interface TrendMetric {
+  key: string;
+  source: TrendSource; // ESG score or the approved metric record of the period
+  field: string;
+  label: string;
+  unit: string;
+  max?: number; // Forecasts are capped here (all series are floored at 0)
+}
+
+const score = (field: string, label: string): TrendMetric => ({ key: field, source: 'score', field, label, unit: 'score', max: 100 });
+
+export const TREND_METRICS: TrendMetric[] = [
+  score('overallScore', 'Overall ESG score'),
+  score('environmentalScore', 'Environmental score'),
+  score('socialScore', 'Social score'),
+  score('governanceScore', 'Governance score'),
+  { key: 'electricityKwh', source: 'environment', field: 'electricityKwh', label: 'Electricity', unit: 'kWh' },
+  { key: 'scope1Emissions', source: 'environment', field: 'scope1Emissions', label: 'Scope 1 emissions', unit: 'tCO2e' },
+  { key: 'scope2Emissions', source: 'environment', field: 'scope2Emissions', label: 'Scope 2 emissions', unit: 'tCO2e' },
+  { key: 'waterUsageKL', source: 'environment', field: 'waterUsageKL', label: 'Water usage', unit: 'KL' },
+  { key: 'totalWasteTonnes', source: 'environment', field: 'totalWasteTonnes', label: 'Total waste', unit: 'tonnes' },
+  { key: 'renewableEnergyPercent', source: 'environment', field: 'renewableEnergyPercent', label: 'Renewable energy', unit: '%', max: 100 },
+  { key: 'femalePercentWorkforce', source: 'social', field: 'femalePercentWorkforce', label: 'Women in the workforce', unit: '%', max: 100 },
+  { key: 'totalTrainingHoursPerEmployee', source: 'social', field: 'totalTrainingHoursPerEmployee', label: 'Training hours per employee', unit: 'hours' },
+  { key: 'accidentIncidents', source: 'social', field: 'accidentIncidents', label: 'Accident incidents', unit: 'count' },
+  { key: 'boardDiversityPercent', source: 'governance', field: 'boardDiversityPercent', label: 'Board diversity', unit: '%', max: 100 },
+  { key: 'complianceViolations', source: 'governance', field: 'complianceViolations', label: 'Compliance violations', unit: 'count' },
+];
+
+export const FORECAST_SETTINGS = {
+  periods: 4,
+  // Fewer points than this and no forecast is made
+  minPoints: 3,
+  // The seasonal model needs every month/quarter seen in this many years
+  seasonalMinYears: 2,
+  // 95% confidence band
+  confidenceZ: 1.96,
+};
@@ -0,0 +1,91 @@
+/**
+ * Unit Registry
+ * Units metric values can be submitted and reported in, and the canonical unit each metric is stored in
+ */
+
+export type UnitDimension = 'energy' | 'mass' | 'volume' | 'emissions' | 'currency';
+
+export interface UnitDefinition {
+  unit: string; // Key used in submissions and preferences
+  name: string;
+  dimension: UnitDimension;
+  toBase: number; // Multiplier to the dimension's base unit
+  source?: string;
+}
+
+// Base unit per dimension (toBase = 1)
+export const BASE_UNITS: Record<UnitDimension, string> = {
+  energy: 'kWh',
+  mass: 'kg',
+  volume: 'L',
+  emissions: 'kgCO2e',
+  currency: 'INR',
+};
+
+export const UNITS: Record<string, UnitDefinition> = {
+  // Energy
+  kWh: { unit: 'kWh', name: 'Kilowatt-hours', dimension: 'energy', toBase: 1 },
+  MWh: { unit: 'MWh', name: 'Megawatt-hours', dimension: 'energy', toBase: 1000 },
+  GWh: { unit: 'GWh', name: 'Gigawatt-hours', dimension: 'energy', toBase: 1000000 },
+  MJ: { unit: 'MJ', name: 'Megajoules', dimension: 'energy', toBase: 1 / 3.6 },
+  GJ: { unit: 'GJ', name: 'Gigajoules', dimension: 'energy', toBase: 1000 / 3.6 },
+  'L-diesel': {
+    unit: 'L-diesel',
+    name: 'Litres of diesel',
+    dimension: 'energy',
+    toBase: 9.94, // 43.0 TJ/Gg NCV at 0.832 kg/L
+    source: 'IPCC 2006 Guidelines, Vol. 2, Table 1.2 (Gas/Diesel Oil net calorific value)',
+  },
+
+  // Mass
+  g: { unit: 'g', name: 'Grams', dimension: 'mass', toBase: 0.001 },
+  kg: { unit: 'kg', name: 'Kilograms', dimension: 'mass', toBase: 1 },
+  t: { unit: 't', name: 'Tonnes', dimension: 'mass', toBase: 1000 },
+  lb: { unit: 'lb', name: 'Pounds', dimension: 'mass', toBase: 0.45359237 },
+
+  // Volume
+  L: { unit: 'L', name: 'Litres', dimension: 'volume', toBase: 1 },
+  kL: { unit: 'kL', name: 'Kilolitres', dimension: 'volume', toBase: 1000 },
+  m3: { unit: 'm3', name: 'Cubic metres', dimension: 'volume', toBase: 1000 },
+  ML: { unit: 'ML', name: 'Megalitres', dimension: 'volume', toBase: 1000000 },
+  gal: { unit: 'gal', name: 'US gallons', dimension: 'volume', toBase: 3.785411784 },
+
+  // Emissions
+  kgCO2e: { unit: 'kgCO2e', name: 'Kilograms CO2e', dimension: 'emissions', toBase: 1 },
+  tCO2e: { unit: 'tCO2e', name: 'Tonnes CO2e', dimension: 'emissions', toBase: 1000 },
+
+  // Currency (Indian numbering)
+  INR: { unit: 'INR', name: 'Rupees', dimension: 'currency', toBase: 1 },
+  lakh: { unit: 'lakh', name: 'Lakh rupees', dimension: 'currency', toBase: 100000 },
+  crore: { unit: 'crore', name: 'Crore rupees', dimension: 'currency', toBase: 10000000 },
+};
+
+/**
+ * Canonical unit each numeric metric is stored in
+ * Fields not listed (counts, percentages, hours) are unitless and only accept plain numbers
+ */
+export const ENVIRONMENTAL_METRIC_UNITS: Record<string, string> = {
+  totalEnergyConsumption: 'kWh',
+  electricityKwh: 'kWh',
+  fuelLitres: 'L',
+  coalTonnes: 't',
+  scope1Emissions: 'tCO2e',
+  scope2Emissions: 'tCO2e',
+  scope3Emissions: 'tCO2e',
+  carbonEmissionsTons: 'tCO2e',
+  waterUsageKL: 'kL',
+  waterSourceSurface: 'kL',
+  waterSourceGroundwater: 'kL',
+  waterSourceMunicipal: 'kL',
+  waterSourceOther: 'kL',
+  totalWasteTonnes: 't',
+  hazardousWasteTonnes: 't',
+  nonHazardousWasteTonnes: 't',
+  recycledWasteTonnes: 't',
+  divertedFromDisposalTonnes: 't',
+};
+
+export const SOCIAL_METRIC_UNITS: Record<string, string> = {
+  medianRemuneration: 'INR',
+  csrSpend: 'INR',
+};
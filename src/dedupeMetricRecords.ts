@@ -0,0 +1,74 @@
+import dotenv from 'dotenv';
+import { connectDatabase } from './config/database';
+import MetricRevision from './models/MetricRevision';
+import { METRIC_MODULES, MetricModule } from './services/metricRecordService';
+import { toSnapshot, diffSnapshots, allocateRevisions } from './services/revisionService';
+
+dotenv.config();
+
+/**
+ * Remove duplicate company + period metric records and build the unique indexes
+ * The newest record (the one every reader used) is kept; older ones are archived as revisions
+ * Usage: npm run migrate:dedupe-metrics [-- --dry-run]
+ */
+const dryRun = process.argv.includes('--dry-run');
+
+const dedupe = async () => {
+  try {
+    await connectDatabase();
+
+    console.log(`🔁 Removing duplicate metric records${dryRun ? ' (dry run - nothing is saved)' : ''}...\n`);
+
+    for (const module of Object.keys(METRIC_MODULES) as MetricModule[]) {
+      const { model } = METRIC_MODULES[module];
+      const groups = await model.aggregate([
+        { $group: { _id: { companyId: '$companyId', period: '$period' }, ids: { $push: '$_id' }, count: { $sum: 1 } } },
+        { $match: { count: { $gt: 1 } } }
+      ]);
+      let removed = 0;
+
+      for (const group of groups) {
+        const records = await model.find({ _id: { $in: group.ids } }).sort({ createdAt: 1 }).lean();
+        const kept: any = records[records.length - 1];
+        const duplicates: any[] = records.slice(0, -1);
+
+        console.log(`   ${module} ${group._id.companyId} ${group._id.period}: keeping ${kept._id}, archiving ${duplicates.map(d => d._id).join(', ')}`);
+        if (dryRun) continue;
+
+        // Each removed record keeps its final state as a revision under its own id
+        for (const duplicate of duplicates) {
+          const last = await MetricRevision.findOne({ module, recordId: duplicate._id }).sort({ revision: -1 });
+          const snapshot = toSnapshot(duplicate);
+          await MetricRevision.create({
+            module,
+            recordId: duplicate._id,
+            companyId: duplicate.companyId,
+            period: duplicate.period,
+            revision: await allocateRevisions(module, duplicate._id),
+            source: 'system',
+            changes: diffSnapshots(last?.snapshot || {}, snapshot),
+            snapshot,
+            createdAt: duplicate.updatedAt || duplicate.createdAt
+          });
+        }
+
+        await model.deleteMany({ _id: { $in: duplicates.map(d => d._id) } });
+        removed += duplicates.length;
+      }
+
+      if (!dryRun) {
+        await model.syncIndexes();
+      }
+      console.log(`✅ ${model.modelName}: ${groups.length} duplicated period(s), ${removed} record(s) archived\n`);
+    }
+
+    console.log('💡 TIP: Archived records are listed at GET /api/revisions/<module>/<recordId>.\n');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error removing duplicate metric records:', error);
+    process.exit(1);
+  }
+};
+
+dedupe();
@@ -1,11 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { ICompany } from '../models/Company';
+import { Permission } from '../config/companyRoles';
+import { ApiKeyRestriction } from '../services/membershipService';
+import { isApiKey, authenticateApiKey, consumeRateLimit } from '../services/apiKeyService';
 
 export interface AuthRequest extends Request {
   userId?: string;
+  apiKey?: ApiKeyRestriction; // Set when the request authenticated with a company API key
+  company?: ICompany; // Set by the company access check
+  companyRole?: string;
+  companyPermissions?: Permission[];
 }
 
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+/**
+ * Accepts a JWT from /api/auth/login or a company API key, both as a Bearer token
+ * An API key acts as the member who created it, limited to its company and scopes, and is rate limited
+ */
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     // Get token from Authorization header
     const authHeader = req.header('Authorization');
@@ -15,6 +27,30 @@ export const authenticate = (req: AuthRequest, res: Response, next: NextFunction
       return res.status(401).json({ error: 'Authentication required' });
     }
 
+    if (isApiKey(token)) {
+      const { apiKey, error, status } = await authenticateApiKey(token, req.ip);
+      if (!apiKey) {
+        return res.status(status || 401).json({ error });
+      }
+
+      const rateLimit = consumeRateLimit(apiKey);
+      res.setHeader('X-RateLimit-Limit', rateLimit.limit);
+      res.setHeader('X-RateLimit-Remaining', rateLimit.remaining);
+      res.setHeader('X-RateLimit-Reset', rateLimit.resetSeconds);
+      if (!rateLimit.allowed) {
+        res.setHeader('Retry-After', rateLimit.resetSeconds);
+        return res.status(429).json({ error: 'Rate limit exceeded for this API key', retryAfter: rateLimit.resetSeconds });
+      }
+
+      req.userId = apiKey.createdBy.toString();
+      req.apiKey = {
+        keyId: apiKey._id.toString(),
+        companyId: apiKey.companyId.toString(),
+        scopes: apiKey.scopes
+      };
+      return next();
+    }
+
     try {
       const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret') as { userId: string };
       req.userId = decoded.userId;
@@ -28,3 +64,12 @@ export const authenticate = (req: AuthRequest, res: Response, next: NextFunction
   }
 };
 
+/**
+ * Middleware for routes that need a signed-in person rather than an API key, e.g. managing keys
+ */
+export const requireUserSession = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.apiKey) {
+    return res.status(403).json({ error: 'This route cannot be used with an API key' });
+  }
+  next();
+};
@@ -0,0 +1,56 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { ICompany } from '../models/Company';
+import { Permission } from '../config/companyRoles';
+import { getCompanyAccess, hasPermission } from '../services/membershipService';
+
+/**
+ * Check the user is a member of the company and their role grants the permission
+ * Answers 404 (not a member) or 403 (permission missing) itself and returns null; otherwise sets
+ * req.company, req.companyRole and req.companyPermissions. For routes that find the company through a record.
+ * API keys are limited to their own company and scopes.
+ */
+export const authorizeCompany = async (
+  req: AuthRequest,
+  res: Response,
+  companyId: any,
+  permission: Permission
+): Promise<ICompany | null> => {
+  const access = companyId && req.userId ? await getCompanyAccess(companyId.toString(), req.userId, req.apiKey) : null;
+  if (!access) {
+    res.status(404).json({ error: 'Company not found or unauthorized' });
+    return null;
+  }
+
+  if (req.apiKey && !req.apiKey.scopes.includes(permission)) {
+    res.status(403).json({ error: `The API key does not have the ${permission} scope`, permission });
+    return null;
+  }
+
+  if (!hasPermission(access, permission)) {
+    res.status(403).json({ error: `The ${access.role} role does not have the ${permission} permission`, permission });
+    return null;
+  }
+
+  req.company = access.company;
+  req.companyRole = access.role;
+  req.companyPermissions = access.permissions;
+  return access.company;
+};
+
+/**
+ * Middleware to require a permission in the company in :companyId (or the body's companyId)
+ * The company is attached as req.company
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (await authorizeCompany(req, res, req.params.companyId || req.body?.companyId, permission)) {
+        next();
+      }
+    } catch (error) {
+      console.error('Company permission check error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  };
+}
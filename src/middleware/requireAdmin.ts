@@ -3,7 +3,7 @@ import { AuthRequest } from './auth';
 import User from '../models/User';
 
 /**
- * Middleware to require ADMIN role
+ * Middleware to require ADMIN role - from a signed-in admin, never an API key
  */
 export const requireAdmin = async (
   req: AuthRequest,
@@ -15,6 +15,10 @@ export const requireAdmin = async (
       return res.status(401).json({ error: 'Authentication required' });
     }
 
+    if (req.apiKey) {
+      return res.status(403).json({ error: 'Admin routes cannot be used with an API key' });
+    }
+
     const user = await User.findById(req.userId);
     
     if (!user) {
@@ -1,16 +1,37 @@
 import { Request, Response, NextFunction } from 'express';
-import { hasFeatureAccess } from '../config/features';
+import { hasFeatureAccess, getFeature, PlanType } from '../config/features';
+import { AuthRequest } from './auth';
 import User from '../models/User';
-import Company from '../models/Company';
+import Company, { ICompany } from '../models/Company';
+import { findPrimaryCompany } from '../services/membershipService';
+
+/**
+ * Whether a plan, with the company's custom features and overrides, gives access to a feature
+ */
+export const companyHasFeature = (company: ICompany | null, plan: PlanType | undefined, featureId: string): boolean => {
+  // Check plan-based feature access (plans moved from the user to the company)
+  const hasPlanAccess = !!plan && hasFeatureAccess(plan, featureId);
+
+  // Check company-level custom features, stored by feature id
+  const feature = getFeature(featureId);
+  const customFeatures = company?.customFeatures || [];
+  const hasCustomFeature = customFeatures.includes(featureId) || (!!feature && customFeatures.includes(feature.id));
+
+  // An override can switch a feature off for the company
+  const isDisabled = !!feature && company?.featureOverrides?.[feature.id] === false;
+
+  return !isDisabled && (hasPlanAccess || hasCustomFeature);
+};
 
 /**
  * Middleware to check if user's plan has access to a feature
- * Also checks for company-level custom features
+ * Also checks for company-level custom features and overrides
+ * The plan is the company's in the URL (:companyId), or else the user's own company
  */
 export function requireFeature(featureId: string) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const userId = (req as any).user?.id;
+      const userId = (req as AuthRequest).userId;
       if (!userId) {
         return res.status(401).json({ error: 'Authentication required' });
       }
@@ -21,17 +42,14 @@ export function requireFeature(featureId: string) {
         return res.status(404).json({ error: 'User not found' });
       }
 
-      // Check plan-based feature access
-      const hasPlanAccess = hasFeatureAccess(user.plan, featureId);
-      
-      // Check company-level custom features
-      const company = await Company.findOne({ userId: user._id });
-      const customFeatures = company?.customFeatures || [];
-      const hasCustomFeature = customFeatures.includes(featureId);
+      const company = req.params.companyId
+        ? await Company.findById(req.params.companyId)
+        : await findPrimaryCompany(user._id.toString(), (req as AuthRequest).apiKey);
 
-      if (!hasPlanAccess && !hasCustomFeature) {
+      if (!companyHasFeature(company, company?.plan || user.plan, featureId)) {
+        const feature = getFeature(featureId);
         return res.status(403).json({
-          error: `Feature '${featureId}' is not available for your plan`,
+          error: `Feature '${feature?.name || featureId}' is not available for your plan`,
           requiredPlan: 'upgrade',
         });
       }
@@ -45,4 +63,3 @@ export function requireFeature(featureId: string) {
     }
   };
 }
-
@@ -0,0 +1,80 @@
+import { Model } from 'mongoose';
+import dotenv from 'dotenv';
+import { connectDatabase } from './config/database';
+import EnvironmentalMetrics from './models/EnvironmentalMetrics';
+import SocialMetrics from './models/SocialMetrics';
+import { ENVIRONMENTAL_LEGACY_FIELDS, SOCIAL_LEGACY_FIELDS, LEGACY_FEMALE_HEADCOUNT_FIELD } from './config/legacyFields';
+import { getLegacyFieldUpdate, migrateLegacyFields, LegacyPillar } from './services/metricAccessor';
+import { rollUpParentPeriods } from './services/periodService';
+
+dotenv.config();
+
+/**
+ * Convert legacy metric fields into their canonical fields
+ * Usage: npm run migrate:legacy-fields [-- --dry-run]
+ */
+const dryRun = process.argv.includes('--dry-run');
+
+const MIGRATIONS: Array<{ model: Model<any>; pillar: LegacyPillar; legacyFields: string[]; label: string }> = [
+  {
+    model: EnvironmentalMetrics,
+    pillar: 'environmental',
+    legacyFields: ENVIRONMENTAL_LEGACY_FIELDS.map(mapping => mapping.legacy),
+    label: 'Environmental'
+  },
+  {
+    model: SocialMetrics,
+    pillar: 'social',
+    legacyFields: [...SOCIAL_LEGACY_FIELDS.map(mapping => mapping.legacy), LEGACY_FEMALE_HEADCOUNT_FIELD],
+    label: 'Social'
+  }
+];
+
+const migrate = async () => {
+  try {
+    await connectDatabase();
+
+    console.log(`🔁 Migrating legacy metric fields${dryRun ? ' (dry run - nothing is saved)' : ''}...\n`);
+
+    // Company + period pairs whose quarter and FY roll-ups need recomputing
+    const changedPeriods = new Map<string, { companyId: string; period: string }>();
+
+    for (const { model, pillar, legacyFields, label } of MIGRATIONS) {
+      const query = { $or: legacyFields.map(field => ({ [field]: { $exists: true } })) };
+      const records = await model.find(query);
+      let migrated = 0;
+
+      for (const record of records) {
+        const { set, unset } = getLegacyFieldUpdate(record, pillar);
+        console.log(`   ${label} ${record.companyId} ${record.period}: set ${JSON.stringify(set)}, remove ${unset.join(', ')}`);
+
+        if (!dryRun && migrateLegacyFields(record, pillar)) {
+          await record.save();
+          migrated++;
+          changedPeriods.set(`${record.companyId}:${record.period}`, {
+            companyId: record.companyId.toString(),
+            period: record.period
+          });
+        }
+      }
+
+      console.log(`✅ ${label}: ${records.length} record(s) with legacy fields, ${migrated} migrated\n`);
+    }
+
+    for (const { companyId, period } of changedPeriods.values()) {
+      await rollUpParentPeriods(companyId, period);
+    }
+    if (changedPeriods.size > 0) {
+      console.log(`🔄 Recomputed quarter/FY roll-ups for ${changedPeriods.size} period(s)`);
+    }
+
+    console.log('\n💡 TIP: Stored ESG scores are not recalculated - recalculate them to pick up the canonical values.\n');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error migrating legacy fields:', error);
+    process.exit(1);
+  }
+};
+
+migrate();
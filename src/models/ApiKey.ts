@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ALL_PERMISSIONS, Permission } from '../config/companyRoles';
+import { DEFAULT_RATE_LIMIT_PER_MINUTE, MAX_RATE_LIMIT_PER_MINUTE } from '../config/apiKeys';
+
+/**
+ * A company API key for integrations - only its SHA-256 hash is stored, the key itself is shown once
+ * Requests made with it act as the member who created it, limited to the company and the key's scopes
+ */
+export interface IApiKey extends Document {
+  companyId: mongoose.Types.ObjectId;
+  name: string;
+  keyPrefix: string; // First characters of the key, for display
+  keyHash: string;
+  scopes: Permission[];
+  rateLimitPerMinute: number;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  rotatedFromId?: mongoose.Types.ObjectId; // The key this one replaced
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  keyPrefix: {
+    type: String,
+    required: true
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  scopes: [{
+    type: String,
+    enum: ALL_PERMISSIONS
+  }],
+  rateLimitPerMinute: {
+    type: Number,
+    min: 1,
+    max: MAX_RATE_LIMIT_PER_MINUTE,
+    default: DEFAULT_RATE_LIMIT_PER_MINUTE
+  },
+  expiresAt: Date,
+  lastUsedAt: Date,
+  lastUsedIp: String,
+  revokedAt: Date,
+  revokedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  rotatedFromId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ApiKey'
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+ApiKeySchema.index({ companyId: 1, createdAt: -1 });
+
+export default mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type CommentTargetType = 'environment' | 'social' | 'governance' | 'evidence' | 'task';
+
+export interface IComment {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  body: string;
+  mentions: mongoose.Types.ObjectId[]; // Company users @mentioned in the body
+  createdAt: Date;
+}
+
+export interface ICommentThread extends Document {
+  companyId: mongoose.Types.ObjectId;
+  targetType: CommentTargetType;
+  targetId: mongoose.Types.ObjectId;
+  field?: string; // Metric field the thread is about (metric records only)
+  period?: string; // Period of the metric record or evidence, for the period-close view
+  status: 'Open' | 'Resolved';
+  comments: IComment[];
+  createdBy: mongoose.Types.ObjectId;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommentSchema: Schema = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  body: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  mentions: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const CommentThreadSchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  targetType: {
+    type: String,
+    enum: ['environment', 'social', 'governance', 'evidence', 'task'],
+    required: true
+  },
+  targetId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  field: {
+    type: String,
+    trim: true
+  },
+  period: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['Open', 'Resolved'],
+    default: 'Open'
+  },
+  comments: [CommentSchema],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  resolvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  resolvedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+CommentThreadSchema.index({ companyId: 1, targetType: 1, targetId: 1 });
+CommentThreadSchema.index({ companyId: 1, period: 1, status: 1 });
+
+export default mongoose.model<ICommentThread>('CommentThread', CommentThreadSchema);
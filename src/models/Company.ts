@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { ConsolidationBoundary, CONSOLIDATION_BOUNDARIES } from '../config/groupConsolidation';
 
 export interface ICompany extends Document {
   userId: mongoose.Types.ObjectId;
@@ -20,6 +21,10 @@ export interface ICompany extends Document {
   subscriptionStartDate?: Date; // When paid subscription started
   customFeatures?: string[]; // Array of custom feature IDs enabled for this company
   featureOverrides?: Record<string, boolean>; // Override specific features
+  parentCompanyId?: mongoose.Types.ObjectId; // Parent entity when this company is a subsidiary in a group
+  equitySharePercent?: number; // Parent's equity share in this entity
+  operationalControl?: boolean; // Whether the parent has operational control of this entity
+  consolidationBoundary?: ConsolidationBoundary; // Default boundary for this company's group reports
   createdAt: Date;
   updatedAt: Date;
 }
@@ -111,10 +116,31 @@ const CompanySchema: Schema = new Schema({
     type: Map,
     of: Boolean,
     default: {}
+  },
+  parentCompanyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    default: null
+  },
+  equitySharePercent: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 100
+  },
+  operationalControl: {
+    type: Boolean,
+    default: true
+  },
+  consolidationBoundary: {
+    type: String,
+    enum: CONSOLIDATION_BOUNDARIES
   }
 }, {
   timestamps: true
 });
 
+CompanySchema.index({ parentCompanyId: 1 });
+
 export default mongoose.model<ICompany>('Company', CompanySchema);
 
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PermissionModule, PERMISSION_MODULES } from '../config/companyRoles';
+
+/**
+ * A user's membership of a company - every route authorises through these, not Company.userId
+ */
+export interface ICompanyMember extends Document {
+  companyId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  role: string; // A built-in role key or one of the company's custom role keys
+  modules?: PermissionModule[]; // Limits the role's metric write permissions to these modules (Data Contributors)
+  addedBy?: mongoose.Types.ObjectId; // Unset for memberships backfilled from Company.userId / User.companyId
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CompanyMemberSchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  role: {
+    type: String,
+    required: true
+  },
+  modules: {
+    type: [{ type: String, enum: PERMISSION_MODULES }],
+    default: undefined
+  },
+  addedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+CompanyMemberSchema.index({ companyId: 1, userId: 1 }, { unique: true });
+CompanyMemberSchema.index({ userId: 1 });
+CompanyMemberSchema.index({ companyId: 1, role: 1 });
+
+export default mongoose.model<ICompanyMember>('CompanyMember', CompanyMemberSchema);
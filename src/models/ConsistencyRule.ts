@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RuleModule, RuleSeverity, RuleOperator, RuleTerm } from '../config/consistencyRules';
+
+export interface IConsistencyRule extends Document {
+  key: string;
+  module: RuleModule;
+  name: string;
+  message: string;
+  severity: RuleSeverity;
+  left: RuleTerm[];
+  operator: RuleOperator;
+  right: RuleTerm[];
+  tolerancePercent: number;
+  periodTypes: Array<'month' | 'quarter' | 'financial-year'>; // Empty for every period type
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RuleTermSchema = new Schema({
+  field: { type: String, required: true, trim: true },
+  source: { type: String, enum: ['metrics', 'company'], default: 'metrics' },
+  multiplier: { type: Number },
+  divideBy: {
+    type: new Schema({
+      field: { type: String, required: true, trim: true },
+      source: { type: String, enum: ['metrics', 'company'], default: 'metrics' }
+    }, { _id: false }),
+    default: undefined
+  }
+}, { _id: false });
+
+const ConsistencyRuleSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  module: {
+    type: String,
+    enum: ['environment', 'social', 'governance'],
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  message: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  severity: {
+    type: String,
+    enum: ['blocking', 'warning'],
+    default: 'warning'
+  },
+  left: {
+    type: [RuleTermSchema],
+    required: true
+  },
+  operator: {
+    type: String,
+    enum: ['==', '<=', '>='],
+    required: true
+  },
+  right: {
+    type: [RuleTermSchema],
+    required: true
+  },
+  tolerancePercent: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  periodTypes: [{
+    type: String,
+    enum: ['month', 'quarter', 'financial-year']
+  }],
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+ConsistencyRuleSchema.index({ module: 1, isActive: 1 });
+
+export default mongoose.model<IConsistencyRule>('ConsistencyRule', ConsistencyRuleSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ALL_PERMISSIONS, Permission } from '../config/companyRoles';
+
+/**
+ * A role a company defines itself (Enterprise plan) - members reference it by key like a built-in role
+ */
+export interface ICustomRole extends Document {
+  companyId: mongoose.Types.ObjectId;
+  key: string; // e.g. 'plant-engineer', unique within the company and never a built-in role key
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CustomRoleSchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  key: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  permissions: [{
+    type: String,
+    enum: ALL_PERMISSIONS
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+CustomRoleSchema.index({ companyId: 1, key: 1 }, { unique: true });
+
+export default mongoose.model<ICustomRole>('CustomRole', CustomRoleSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// period-change: jump from the previous period, history: outlier against earlier periods,
+// peer: outlier against the industry, implausible: values that contradict each other,
+// consistency: a warning-severity consistency rule that failed
+export type DataQualityFlagType = 'period-change' | 'history' | 'peer' | 'implausible' | 'consistency';
+
+export interface IDataQualityFlag extends Document {
+  companyId: mongoose.Types.ObjectId;
+  module: 'environment' | 'social' | 'governance';
+  recordId: mongoose.Types.ObjectId;
+  period: string;
+  type: DataQualityFlagType;
+  fields: string[];
+  message: string;
+  ruleKey?: string; // Consistency rule that raised the flag
+  value?: number;
+  baseline?: number; // Previous value, average or other side of the rule the value was compared with
+  score?: number; // Percentage change or z-score
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Flags are replaced every time their record is saved
+const DataQualityFlagSchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  module: {
+    type: String,
+    enum: ['environment', 'social', 'governance'],
+    required: true
+  },
+  recordId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['period-change', 'history', 'peer', 'implausible', 'consistency'],
+    required: true
+  },
+  fields: [{
+    type: String
+  }],
+  message: {
+    type: String,
+    required: true
+  },
+  ruleKey: {
+    type: String
+  },
+  value: {
+    type: Number
+  },
+  baseline: {
+    type: Number
+  },
+  score: {
+    type: Number
+  }
+}, {
+  timestamps: true
+});
+
+DataQualityFlagSchema.index({ companyId: 1, period: -1 });
+DataQualityFlagSchema.index({ recordId: 1 });
+
+export default mongoose.model<IDataQualityFlag>('DataQualityFlag', DataQualityFlagSchema);
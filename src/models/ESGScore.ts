@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { ScoreContribution } from '../services/esgScoring';
 
 export interface IESGScore extends Document {
   companyId: mongoose.Types.ObjectId;
@@ -7,6 +8,8 @@ export interface IESGScore extends Document {
   governanceScore: number;
   overallScore: number;
   period: string;
+  methodologyVersion?: number; // ScoringMethodology version that produced this score
+  contributions: ScoreContribution[]; // Rule-by-rule breakdown of how each pillar score was reached
   calculatedAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -46,6 +49,23 @@ const ESGScoreSchema: Schema = new Schema({
     type: String,
     required: true
   },
+  methodologyVersion: {
+    type: Number,
+    min: 1
+  },
+  contributions: [{
+    _id: false,
+    pillar: {
+      type: String,
+      enum: ['Environmental', 'Social', 'Governance'],
+      required: true
+    },
+    rule: { type: String, required: true },
+    label: { type: String, required: true },
+    input: { type: Schema.Types.Mixed, default: null },
+    band: { type: String, default: null },
+    points: { type: Number, required: true }
+  }],
   calculatedAt: {
     type: Date,
     default: Date.now
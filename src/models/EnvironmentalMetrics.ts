@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { trackRevisions } from "../services/revisionService";
 
 export interface IEnvironmentalMetrics extends Document {
   companyId: mongoose.Types.ObjectId;
@@ -8,12 +9,30 @@ export interface IEnvironmentalMetrics extends Document {
   totalEnergyConsumption?: number;
   electricityKwh?: number;
   fuelLitres?: number;
+  fuelType?: 'diesel' | 'petrol' | 'lpg';
+  coalTonnes?: number;
   renewableEnergyPercent?: number;
   nonRenewableEnergyPercent?: number;
   scope1Emissions?: number;
   scope2Emissions?: number;
   scope3Emissions?: number;
   emissionsIntensity?: number;
+  emissionFactorVersion?: string; // Requested factor set version (defaults to latest)
+  emissionsOverride?: {
+    scope1Emissions?: number;
+    scope2Emissions?: number;
+    reason: string;
+    overriddenAt?: Date;
+  };
+  emissionsCalculation?: {
+    factorSet: string;
+    factorVersion: string;
+    scope1Method: 'calculated' | 'override' | 'manual';
+    scope2Method: 'calculated' | 'override' | 'manual';
+    scope1Calculated?: number;
+    scope2Calculated?: number;
+    calculatedAt: Date;
+  };
 
   // Tab 2: Water & Waste
   waterUsageKL?: number;
@@ -42,6 +61,23 @@ export interface IEnvironmentalMetrics extends Document {
   environmentalRiskAssessments?: boolean;
   riskAssessmentDetails?: string;
 
+  // Original value and unit for fields submitted in a non-canonical unit
+  submittedValues?: Map<string, { value: number; unit: string }>;
+
+  // Set when the aggregated fields are derived from shorter periods (months or quarters)
+  periodRollup?: {
+    granularity: 'month' | 'quarter';
+    sourcePeriods: string[];
+    complete: boolean; // Every month / quarter of the period has data
+    rolledUpAt: Date;
+  };
+
+  // Set when the aggregated fields are derived from facility metrics
+  facilityRollup?: {
+    facilityCount: number;
+    rolledUpAt: Date;
+  };
+
   // Legacy fields (for backward compatibility)
   electricityUsageKwh?: number;
   fuelConsumptionLitres?: number;
@@ -68,12 +104,36 @@ const EnvironmentalMetricsSchema: Schema = new Schema(
     totalEnergyConsumption: { type: Number, min: 0 },
     electricityKwh: { type: Number, min: 0 },
     fuelLitres: { type: Number, min: 0 },
+    fuelType: { type: String, enum: ["diesel", "petrol", "lpg"], default: "diesel" },
+    coalTonnes: { type: Number, min: 0 },
     renewableEnergyPercent: { type: Number, min: 0, max: 100 },
     nonRenewableEnergyPercent: { type: Number, min: 0, max: 100 },
     scope1Emissions: { type: Number, min: 0 },
     scope2Emissions: { type: Number, min: 0 },
     scope3Emissions: { type: Number, min: 0 },
     emissionsIntensity: { type: Number, min: 0 },
+    emissionFactorVersion: { type: String },
+    emissionsOverride: {
+      type: {
+        scope1Emissions: { type: Number, min: 0 },
+        scope2Emissions: { type: Number, min: 0 },
+        reason: { type: String, required: true, trim: true },
+        overriddenAt: { type: Date, default: Date.now },
+      },
+      default: undefined,
+    },
+    emissionsCalculation: {
+      type: {
+        factorSet: { type: String, required: true },
+        factorVersion: { type: String, required: true },
+        scope1Method: { type: String, enum: ["calculated", "override", "manual"], required: true },
+        scope2Method: { type: String, enum: ["calculated", "override", "manual"], required: true },
+        scope1Calculated: { type: Number, min: 0 },
+        scope2Calculated: { type: Number, min: 0 },
+        calculatedAt: { type: Date, default: Date.now },
+      },
+      default: undefined,
+    },
 
     // Tab 2: Water & Waste
     waterUsageKL: { type: Number, min: 0 },
@@ -102,6 +162,39 @@ const EnvironmentalMetricsSchema: Schema = new Schema(
     environmentalRiskAssessments: { type: Boolean, default: false },
     riskAssessmentDetails: { type: String },
 
+    // Original value and unit for fields submitted in a non-canonical unit
+    submittedValues: {
+      type: Map,
+      of: new Schema(
+        {
+          value: { type: Number, required: true },
+          unit: { type: String, required: true },
+        },
+        { _id: false },
+      ),
+      default: undefined,
+    },
+
+    // Set when the aggregated fields are derived from shorter periods (months or quarters)
+    periodRollup: {
+      type: {
+        granularity: { type: String, enum: ["month", "quarter"], required: true },
+        sourcePeriods: { type: [String], default: [] },
+        complete: { type: Boolean, default: false },
+        rolledUpAt: { type: Date, default: Date.now },
+      },
+      default: undefined,
+    },
+
+    // Set when the aggregated fields are derived from facility metrics
+    facilityRollup: {
+      type: {
+        facilityCount: { type: Number, required: true, min: 1 },
+        rolledUpAt: { type: Date, default: Date.now },
+      },
+      default: undefined,
+    },
+
     // Legacy fields (for backward compatibility)
     electricityUsageKwh: { type: Number, min: 0 },
     fuelConsumptionLitres: { type: Number, min: 0 },
@@ -114,6 +207,10 @@ const EnvironmentalMetricsSchema: Schema = new Schema(
   },
 );
 
+// One record per company per period
+EnvironmentalMetricsSchema.index({ companyId: 1, period: 1 }, { unique: true });
+EnvironmentalMetricsSchema.plugin(trackRevisions, { module: "environment" });
+
 export default mongoose.model<IEnvironmentalMetrics>(
   "EnvironmentalMetrics",
   EnvironmentalMetricsSchema,
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IFacility extends Document {
+  companyId: mongoose.Types.ObjectId;
+  name: string;
+  code?: string; // Internal plant / site code
+  type: 'Plant' | 'Office' | 'Warehouse' | 'Other';
+  location: string;
+  consentToOperate?: {
+    reference?: string; // CTO number issued by the pollution control board
+    authority?: string; // e.g. "MPCB"
+    validUntil?: Date;
+  };
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FacilitySchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  code: {
+    type: String,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: ['Plant', 'Office', 'Warehouse', 'Other'],
+    default: 'Plant'
+  },
+  location: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  consentToOperate: {
+    reference: { type: String, trim: true },
+    authority: { type: String, trim: true },
+    validUntil: { type: Date }
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+FacilitySchema.index({ companyId: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IFacility>('Facility', FacilitySchema);
@@ -0,0 +1,149 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { trackRevisions } from '../services/revisionService';
+
+export interface IFacilityEnvironmental {
+  totalEnergyConsumption?: number;
+  electricityKwh?: number;
+  fuelLitres?: number;
+  fuelType?: 'diesel' | 'petrol' | 'lpg';
+  coalTonnes?: number;
+  renewableEnergyPercent?: number;
+  nonRenewableEnergyPercent?: number;
+  scope1Emissions?: number;
+  scope2Emissions?: number;
+  carbonEmissionsTons?: number;
+  emissionFactorVersion?: string;
+  emissionsCalculation?: {
+    factorSet: string;
+    factorVersion: string;
+    scope1Method: 'calculated' | 'override' | 'manual';
+    scope2Method: 'calculated' | 'override' | 'manual';
+    scope1Calculated?: number;
+    scope2Calculated?: number;
+    calculatedAt: Date;
+  };
+  waterUsageKL?: number;
+  waterSourceSurface?: number;
+  waterSourceGroundwater?: number;
+  waterSourceMunicipal?: number;
+  waterSourceOther?: number;
+  totalWasteTonnes?: number;
+  hazardousWasteTonnes?: number;
+  nonHazardousWasteTonnes?: number;
+  recycledWasteTonnes?: number;
+  divertedFromDisposalTonnes?: number;
+  submittedValues?: Map<string, { value: number; unit: string }>;
+}
+
+export interface IFacilitySocial {
+  totalEmployeesPermanent?: number;
+  totalEmployeesContractual?: number;
+  femalePercentWorkforce?: number;
+  womenInManagementPercent?: number;
+  accidentIncidents?: number;
+  nearMissIncidents?: number;
+  totalTrainingHoursPerEmployee?: number;
+  safetyDrillsConducted?: number;
+  employeeTurnoverPercent?: number;
+}
+
+export interface IFacilityMetrics extends Document {
+  companyId: mongoose.Types.ObjectId;
+  facilityId: mongoose.Types.ObjectId;
+  period: string;
+  environmental: IFacilityEnvironmental;
+  social: IFacilitySocial;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FacilityEnvironmentalSchema: Schema = new Schema({
+  totalEnergyConsumption: { type: Number, min: 0 },
+  electricityKwh: { type: Number, min: 0 },
+  fuelLitres: { type: Number, min: 0 },
+  fuelType: { type: String, enum: ['diesel', 'petrol', 'lpg'], default: 'diesel' },
+  coalTonnes: { type: Number, min: 0 },
+  renewableEnergyPercent: { type: Number, min: 0, max: 100 },
+  nonRenewableEnergyPercent: { type: Number, min: 0, max: 100 },
+  scope1Emissions: { type: Number, min: 0 },
+  scope2Emissions: { type: Number, min: 0 },
+  carbonEmissionsTons: { type: Number, min: 0 },
+  emissionFactorVersion: { type: String },
+  emissionsCalculation: {
+    type: {
+      factorSet: { type: String, required: true },
+      factorVersion: { type: String, required: true },
+      scope1Method: { type: String, enum: ['calculated', 'override', 'manual'], required: true },
+      scope2Method: { type: String, enum: ['calculated', 'override', 'manual'], required: true },
+      scope1Calculated: { type: Number, min: 0 },
+      scope2Calculated: { type: Number, min: 0 },
+      calculatedAt: { type: Date, default: Date.now }
+    },
+    default: undefined
+  },
+  waterUsageKL: { type: Number, min: 0 },
+  waterSourceSurface: { type: Number, min: 0 },
+  waterSourceGroundwater: { type: Number, min: 0 },
+  waterSourceMunicipal: { type: Number, min: 0 },
+  waterSourceOther: { type: Number, min: 0 },
+  totalWasteTonnes: { type: Number, min: 0 },
+  hazardousWasteTonnes: { type: Number, min: 0 },
+  nonHazardousWasteTonnes: { type: Number, min: 0 },
+  recycledWasteTonnes: { type: Number, min: 0 },
+  divertedFromDisposalTonnes: { type: Number, min: 0 },
+  // Original value and unit for fields submitted in a non-canonical unit
+  submittedValues: {
+    type: Map,
+    of: new Schema({
+      value: { type: Number, required: true },
+      unit: { type: String, required: true }
+    }, { _id: false }),
+    default: undefined
+  }
+}, { _id: false });
+
+const FacilitySocialSchema: Schema = new Schema({
+  totalEmployeesPermanent: { type: Number, min: 0 },
+  totalEmployeesContractual: { type: Number, min: 0 },
+  femalePercentWorkforce: { type: Number, min: 0, max: 100 },
+  womenInManagementPercent: { type: Number, min: 0, max: 100 },
+  accidentIncidents: { type: Number, min: 0 },
+  nearMissIncidents: { type: Number, min: 0 },
+  totalTrainingHoursPerEmployee: { type: Number, min: 0 },
+  safetyDrillsConducted: { type: Number, min: 0 },
+  employeeTurnoverPercent: { type: Number, min: 0, max: 100 }
+}, { _id: false });
+
+const FacilityMetricsSchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  facilityId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Facility',
+    required: true
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  environmental: {
+    type: FacilityEnvironmentalSchema,
+    default: () => ({})
+  },
+  social: {
+    type: FacilitySocialSchema,
+    default: () => ({})
+  }
+}, {
+  timestamps: true
+});
+
+// One record per facility per period
+FacilityMetricsSchema.index({ facilityId: 1, period: 1 }, { unique: true });
+FacilityMetricsSchema.index({ companyId: 1, period: 1 });
+FacilityMetricsSchema.plugin(trackRevisions, { module: 'facility' });
+
+export default mongoose.model<IFacilityMetrics>('FacilityMetrics', FacilityMetricsSchema);
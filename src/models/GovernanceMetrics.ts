@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { trackRevisions } from '../services/revisionService';
 
 export interface IGovernanceMetrics extends Document {
   companyId: mongoose.Types.ObjectId;
@@ -40,6 +41,14 @@ export interface IGovernanceMetrics extends Document {
   fairBusinessPractices?: string;
   contractualGovernanceClauses?: string;
   
+  // Set when the aggregated fields are derived from shorter periods (months or quarters)
+  periodRollup?: {
+    granularity: 'month' | 'quarter';
+    sourcePeriods: string[];
+    complete: boolean; // Every month / quarter of the period has data
+    rolledUpAt: Date;
+  };
+
   // Legacy fields (for backward compatibility)
   dataPrivacyPolicy?: boolean;
   
@@ -94,11 +103,26 @@ const GovernanceMetricsSchema: Schema = new Schema({
   fairBusinessPractices: { type: String },
   contractualGovernanceClauses: { type: String },
   
+  // Set when the aggregated fields are derived from shorter periods (months or quarters)
+  periodRollup: {
+    type: {
+      granularity: { type: String, enum: ['month', 'quarter'], required: true },
+      sourcePeriods: { type: [String], default: [] },
+      complete: { type: Boolean, default: false },
+      rolledUpAt: { type: Date, default: Date.now }
+    },
+    default: undefined
+  },
+  
   // Legacy fields (for backward compatibility)
   dataPrivacyPolicy: { type: Boolean, default: false }
 }, {
   timestamps: true
 });
 
+// One record per company per period
+GovernanceMetricsSchema.index({ companyId: 1, period: 1 }, { unique: true });
+GovernanceMetricsSchema.plugin(trackRevisions, { module: 'governance' });
+
 export default mongoose.model<IGovernanceMetrics>('GovernanceMetrics', GovernanceMetricsSchema);
 
@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ScoreContribution } from '../services/esgScoring';
+import { ConsolidationBoundary, CONSOLIDATION_BOUNDARIES } from '../config/groupConsolidation';
+
+export interface IGroupEntity {
+  companyId: mongoose.Types.ObjectId;
+  name: string;
+  parentCompanyId?: mongoose.Types.ObjectId;
+  depth: number; // 0 for the group parent
+  equitySharePercent: number; // Group's effective equity (product of the shares down the chain)
+  operationalControl: boolean; // Group controls every link down to this entity
+  inclusionPercent: number; // Share of the entity's figures counted under the boundary
+  missingModules: string[]; // Modules with no approved record for the period
+  contributions: Record<string, { value: number; percentOfGroup: number | null }>; // CONTRIBUTION_FIELDS as counted in the group
+  eliminatedScope3Tonnes: number; // Scope 3 bought from other included entities
+  brsrReadiness: number | null;
+}
+
+export interface IGroupBRSRArea {
+  area: string;
+  covered: number;
+  total: number;
+  missing: number;
+  requirements: {
+    id: string;
+    requirement: string;
+    covered: boolean;
+    missingEntities: string[]; // Entities that do not cover the requirement yet
+  }[];
+}
+
+/**
+ * A group-level snapshot for one period and boundary - replaced each time the group is consolidated
+ * Kept apart from ESGScore so company-level scores and their history are unaffected
+ */
+export interface IGroupConsolidation extends Document {
+  groupCompanyId: mongoose.Types.ObjectId;
+  period: string;
+  boundary: ConsolidationBoundary;
+  entities: IGroupEntity[];
+  environmental: Record<string, number | undefined>;
+  social: Record<string, number | undefined>;
+  eliminatedScope3Tonnes: number;
+  esgScore: {
+    environmentalScore: number;
+    socialScore: number;
+    governanceScore: number;
+    overallScore: number;
+    methodologyVersion?: number;
+    contributions: ScoreContribution[];
+  } | null;
+  scoreError?: string | null; // Why the group could not be scored, e.g. no approved governance record
+  brsrReadiness: {
+    overallReadiness: number;
+    breakdown: IGroupBRSRArea[];
+  };
+  calculatedBy: mongoose.Types.ObjectId;
+  calculatedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GroupConsolidationSchema: Schema = new Schema({
+  groupCompanyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  boundary: {
+    type: String,
+    enum: CONSOLIDATION_BOUNDARIES,
+    required: true
+  },
+  entities: [{
+    _id: false,
+    companyId: { type: Schema.Types.ObjectId, ref: 'Company', required: true },
+    name: { type: String, required: true },
+    parentCompanyId: { type: Schema.Types.ObjectId, ref: 'Company' },
+    depth: { type: Number, required: true },
+    equitySharePercent: { type: Number, required: true },
+    operationalControl: { type: Boolean, required: true },
+    inclusionPercent: { type: Number, required: true },
+    missingModules: [{ type: String }],
+    contributions: { type: Schema.Types.Mixed, default: {} },
+    eliminatedScope3Tonnes: { type: Number, default: 0 },
+    brsrReadiness: { type: Number, default: null }
+  }],
+  environmental: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  social: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  eliminatedScope3Tonnes: {
+    type: Number,
+    default: 0
+  },
+  esgScore: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  scoreError: String,
+  brsrReadiness: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  calculatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  calculatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+GroupConsolidationSchema.index({ groupCompanyId: 1, period: 1, boundary: 1 }, { unique: true });
+
+export default mongoose.model<IGroupConsolidation>('GroupConsolidation', GroupConsolidationSchema);
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RevisionModule } from './MetricRevision';
+
+// Pending: waiting for a reviewer, Approved/Rejected: reviewed, Withdrawn: pulled back by the submitter
+export type ReviewStatus = 'Pending' | 'Approved' | 'Rejected' | 'Withdrawn';
+
+export interface IReviewedRecord {
+  module: RevisionModule;
+  recordId: mongoose.Types.ObjectId;
+  revision: number; // Revision submitted - the data an approval covers
+}
+
+export interface IFieldComment {
+  module: RevisionModule;
+  recordId?: mongoose.Types.ObjectId; // Facility metrics record the field is on (facility comments only)
+  field: string; // Dotted path for nested values
+  comment: string;
+}
+
+export interface IMetricReview extends Document {
+  companyId: mongoose.Types.ObjectId;
+  period: string;
+  status: ReviewStatus;
+  records: IReviewedRecord[];
+  submittedBy: mongoose.Types.ObjectId;
+  submittedAt: Date;
+  reviewerId?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  comment?: string; // Overall reviewer comment
+  fieldComments: IFieldComment[]; // Reasons for a rejection, per field
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MetricReviewSchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['Pending', 'Approved', 'Rejected', 'Withdrawn'],
+    default: 'Pending'
+  },
+  records: [{
+    _id: false,
+    module: { type: String, enum: ['environment', 'social', 'governance', 'facility'], required: true },
+    recordId: { type: Schema.Types.ObjectId, required: true },
+    revision: { type: Number, required: true, min: 1 }
+  }],
+  submittedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  submittedAt: {
+    type: Date,
+    default: Date.now
+  },
+  reviewerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  comment: {
+    type: String,
+    trim: true
+  },
+  fieldComments: [{
+    _id: false,
+    module: { type: String, enum: ['environment', 'social', 'governance', 'facility'], required: true },
+    recordId: { type: Schema.Types.ObjectId },
+    field: { type: String, required: true },
+    comment: { type: String, required: true, trim: true }
+  }]
+}, {
+  timestamps: true
+});
+
+MetricReviewSchema.index({ companyId: 1, period: 1, status: 1 });
+MetricReviewSchema.index({ status: 1, submittedAt: 1 });
+
+export default mongoose.model<IMetricReview>('MetricReview', MetricReviewSchema);
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type RevisionModule = 'environment' | 'social' | 'governance' | 'facility';
+
+// form: metric forms, import: spreadsheet import, restore: restored revision, system: roll-ups and scripts,
+// delete: the record was deleted (the snapshot is its state when deleted)
+export type RevisionSource = 'form' | 'import' | 'restore' | 'system' | 'delete';
+
+export interface IFieldChange {
+  field: string; // Dotted path for nested values (e.g. emissionsCalculation.scope1Method)
+  from?: any;
+  to?: any;
+}
+
+export interface IMetricRevision extends Document {
+  module: RevisionModule;
+  recordId: mongoose.Types.ObjectId;
+  companyId: mongoose.Types.ObjectId;
+  facilityId?: mongoose.Types.ObjectId;
+  period: string;
+  revision: number; // 1 for the first save of a record
+  userId?: mongoose.Types.ObjectId; // Unset for system saves
+  source: RevisionSource;
+  restoredFrom?: number; // Revision a restore copied
+  changes: IFieldChange[];
+  snapshot: Record<string, any>; // Full record after the save
+  createdAt: Date;
+}
+
+// Revisions are only ever inserted - there is no update path
+const MetricRevisionSchema: Schema = new Schema({
+  module: {
+    type: String,
+    enum: ['environment', 'social', 'governance', 'facility'],
+    required: true
+  },
+  recordId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  facilityId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Facility'
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  revision: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  source: {
+    type: String,
+    enum: ['form', 'import', 'restore', 'system', 'delete'],
+    default: 'system'
+  },
+  restoredFrom: {
+    type: Number
+  },
+  changes: [{
+    _id: false,
+    field: { type: String, required: true },
+    from: { type: Schema.Types.Mixed },
+    to: { type: Schema.Types.Mixed }
+  }],
+  snapshot: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  // Set explicitly so baseline revisions can carry the record's original save time
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+MetricRevisionSchema.index({ module: 1, recordId: 1, revision: 1 }, { unique: true });
+MetricRevisionSchema.index({ companyId: 1, createdAt: -1 });
+
+export default mongoose.model<IMetricRevision>('MetricRevision', MetricRevisionSchema);
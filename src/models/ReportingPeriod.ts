@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Open: data can be entered, Submitted: sent for review, Reviewed: checked, Locked: closed for changes
+export type PeriodStatus = 'Open' | 'Submitted' | 'Reviewed' | 'Locked';
+
+export interface IPeriodTransition {
+  from: PeriodStatus;
+  to: PeriodStatus;
+  userId: mongoose.Types.ObjectId;
+  reason?: string; // Required when an admin reopens a locked period
+  at: Date;
+}
+
+export interface IReportingPeriod extends Document {
+  companyId: mongoose.Types.ObjectId;
+  period: string;
+  status: PeriodStatus;
+  transitions: IPeriodTransition[];
+  lockedAt?: Date;
+  lockedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Periods without a document are Open
+const ReportingPeriodSchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['Open', 'Submitted', 'Reviewed', 'Locked'],
+    default: 'Open'
+  },
+  transitions: [{
+    _id: false,
+    from: { type: String, enum: ['Open', 'Submitted', 'Reviewed', 'Locked'], required: true },
+    to: { type: String, enum: ['Open', 'Submitted', 'Reviewed', 'Locked'], required: true },
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    reason: { type: String, trim: true },
+    at: { type: Date, default: Date.now }
+  }],
+  lockedAt: {
+    type: Date
+  },
+  lockedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+ReportingPeriodSchema.index({ companyId: 1, period: 1 }, { unique: true });
+
+export default mongoose.model<IReportingPeriod>('ReportingPeriod', ReportingPeriodSchema);
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RevisionModule } from './MetricRevision';
+
+/**
+ * Last revision number handed out for a record - incremented atomically so concurrent saves never share one
+ */
+export interface IRevisionCounter extends Document {
+  module: RevisionModule;
+  recordId: mongoose.Types.ObjectId;
+  revision: number;
+}
+
+const RevisionCounterSchema: Schema = new Schema({
+  module: {
+    type: String,
+    enum: ['environment', 'social', 'governance', 'facility'],
+    required: true
+  },
+  recordId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  revision: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+});
+
+RevisionCounterSchema.index({ module: 1, recordId: 1 }, { unique: true });
+
+export default mongoose.model<IRevisionCounter>('RevisionCounter', RevisionCounterSchema);
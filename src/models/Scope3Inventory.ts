@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { Scope3CategoryId, Scope3Method, Scope3ActivityUnit, SCOPE3_CATEGORY_IDS } from '../config/scope3Categories';
+
+export interface IScope3Line {
+  category: Scope3CategoryId;
+  method: Scope3Method;
+  description?: string;
+  spendInr?: number; // Spend-based: amount spent in INR
+  activityValue?: number; // Activity-based: quantity in activityUnit
+  activityUnit?: Scope3ActivityUnit;
+  factor: number; // kg CO2e per INR (spend) or per activity unit (activity)
+  factorSource?: string;
+  emissionsTonnes: number;
+  counterpartyCompanyId?: mongoose.Types.ObjectId; // Group entity the goods or services came from - eliminated on consolidation
+}
+
+export interface IScope3Inventory extends Document {
+  companyId: mongoose.Types.ObjectId;
+  period: string;
+  lines: IScope3Line[];
+  categoryTotals: Array<{ category: Scope3CategoryId; emissionsTonnes: number }>;
+  totalEmissionsTonnes: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const Scope3LineSchema: Schema = new Schema({
+  category: {
+    type: String,
+    enum: SCOPE3_CATEGORY_IDS,
+    required: true
+  },
+  method: {
+    type: String,
+    enum: ['spend', 'activity'],
+    required: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  spendInr: { type: Number, min: 0 },
+  activityValue: { type: Number, min: 0 },
+  activityUnit: {
+    type: String,
+    enum: ['km', 'tonne-km', 'kg']
+  },
+  factor: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  factorSource: {
+    type: String,
+    trim: true
+  },
+  emissionsTonnes: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  counterpartyCompanyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  }
+});
+
+const Scope3InventorySchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  lines: {
+    type: [Scope3LineSchema],
+    default: []
+  },
+  categoryTotals: [{
+    _id: false,
+    category: { type: String, enum: SCOPE3_CATEGORY_IDS },
+    emissionsTonnes: { type: Number, min: 0 }
+  }],
+  totalEmissionsTonnes: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, {
+  timestamps: true
+});
+
+// One inventory per company and period
+Scope3InventorySchema.index({ companyId: 1, period: 1 }, { unique: true });
+
+export default mongoose.model<IScope3Inventory>('Scope3Inventory', Scope3InventorySchema);
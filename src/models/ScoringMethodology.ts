@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ScoringRules, ScoringWeights, IndustryRuleOverrides } from '../config/scoringMethodology';
+
+export interface IScoringMethodology extends Document {
+  name: string;
+  version: number;
+  description?: string;
+  isActive: boolean; // Methodology used for new score calculations
+  weights: ScoringWeights;
+  rules: ScoringRules;
+  industryRules: Array<{
+    industry: string;
+    rules: IndustryRuleOverrides;
+  }>;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScoringMethodologySchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    unique: true,
+    min: 1
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  isActive: {
+    type: Boolean,
+    default: false
+  },
+  weights: {
+    environmental: { type: Number, required: true, min: 0, max: 1 },
+    social: { type: Number, required: true, min: 0, max: 1 },
+    governance: { type: Number, required: true, min: 0, max: 1 }
+  },
+  rules: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  industryRules: [{
+    _id: false,
+    industry: {
+      type: String,
+      required: true,
+      enum: ['Manufacturing', 'IT/Software', 'Textiles', 'Pharmaceuticals', 'Food Processing', 'Automotive', 'Chemicals', 'Others']
+    },
+    rules: {
+      type: Schema.Types.Mixed,
+      default: {}
+    }
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+ScoringMethodologySchema.index({ isActive: 1 });
+
+export default mongoose.model<IScoringMethodology>('ScoringMethodology', ScoringMethodologySchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { trackRevisions } from '../services/revisionService';
 
 export interface ISocialMetrics extends Document {
   companyId: mongoose.Types.ObjectId;
@@ -46,6 +47,23 @@ export interface ISocialMetrics extends Document {
   engagementType?: string;
   communicationOutcomes?: string;
   
+  // Original value and unit for fields submitted in a non-canonical unit
+  submittedValues?: Map<string, { value: number; unit: string }>;
+
+  // Set when the aggregated fields are derived from shorter periods (months or quarters)
+  periodRollup?: {
+    granularity: 'month' | 'quarter';
+    sourcePeriods: string[];
+    complete: boolean; // Every month / quarter of the period has data
+    rolledUpAt: Date;
+  };
+
+  // Set when the aggregated fields are derived from facility metrics
+  facilityRollup?: {
+    facilityCount: number;
+    rolledUpAt: Date;
+  };
+
   // Legacy fields (for backward compatibility)
   totalEmployees?: number;
   femaleEmployees?: number;
@@ -110,6 +128,36 @@ const SocialMetricsSchema: Schema = new Schema({
   engagementType: { type: String },
   communicationOutcomes: { type: String },
   
+  // Original value and unit for fields submitted in a non-canonical unit
+  submittedValues: {
+    type: Map,
+    of: new Schema({
+      value: { type: Number, required: true },
+      unit: { type: String, required: true }
+    }, { _id: false }),
+    default: undefined
+  },
+
+  // Set when the aggregated fields are derived from shorter periods (months or quarters)
+  periodRollup: {
+    type: {
+      granularity: { type: String, enum: ['month', 'quarter'], required: true },
+      sourcePeriods: { type: [String], default: [] },
+      complete: { type: Boolean, default: false },
+      rolledUpAt: { type: Date, default: Date.now }
+    },
+    default: undefined
+  },
+
+  // Set when the aggregated fields are derived from facility metrics
+  facilityRollup: {
+    type: {
+      facilityCount: { type: Number, required: true, min: 1 },
+      rolledUpAt: { type: Date, default: Date.now }
+    },
+    default: undefined
+  },
+
   // Legacy fields (for backward compatibility)
   totalEmployees: { type: Number, min: 0 },
   femaleEmployees: { type: Number, min: 0 },
@@ -120,5 +168,9 @@ const SocialMetricsSchema: Schema = new Schema({
   timestamps: true
 });
 
+// One record per company per period
+SocialMetricsSchema.index({ companyId: 1, period: 1 }, { unique: true });
+SocialMetricsSchema.plugin(trackRevisions, { module: 'social' });
+
 export default mongoose.model<ISocialMetrics>('SocialMetrics', SocialMetricsSchema);
 
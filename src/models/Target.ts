@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TARGET_METRICS } from '../config/targets';
+
+export type TargetTrajectory = 'linear' | 'milestones';
+
+export interface ITargetMilestone {
+  year: number;
+  value: number;
+}
+
+/**
+ * A reduction or improvement goal on one metric, e.g. Scope 2 emissions down 30% by 2030
+ * Years are deadlines: the target applies to the last period of the baseline's type that ends in the year
+ * (December, Q4, or the FY ending in March of it)
+ */
+export interface ITarget extends Document {
+  companyId: mongoose.Types.ObjectId;
+  name?: string;
+  metricKey: string; // Key in TARGET_METRICS
+  baselinePeriod: string; // Also sets the period type progress is tracked in
+  baselineValue: number;
+  targetYear: number;
+  targetValue: number;
+  trajectory: TargetTrajectory; // Straight line from baseline to target, or through custom milestones
+  milestones: ITargetMilestone[];
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId; // Off-track tasks are assigned to this user
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TargetSchema: Schema = new Schema({
+  companyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  name: {
+    type: String,
+    trim: true
+  },
+  metricKey: {
+    type: String,
+    enum: TARGET_METRICS.map(metric => metric.key),
+    required: true
+  },
+  baselinePeriod: {
+    type: String,
+    required: true
+  },
+  baselineValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  targetYear: {
+    type: Number,
+    required: true
+  },
+  targetValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  trajectory: {
+    type: String,
+    enum: ['linear', 'milestones'],
+    default: 'linear'
+  },
+  milestones: [{
+    _id: false,
+    year: { type: Number, required: true },
+    value: { type: Number, required: true, min: 0 }
+  }],
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+TargetSchema.index({ companyId: 1, metricKey: 1 });
+
+export default mongoose.model<ITarget>('Target', TargetSchema);
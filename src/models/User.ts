@@ -1,12 +1,15 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { UnitDimension } from '../config/units';
 
 export interface IUser extends Document {
   email: string;
   password: string;
   name: string;
   companyId?: mongoose.Types.ObjectId; // Company (client) this user belongs to
+  activeCompanyId?: mongoose.Types.ObjectId; // Company the user is working in when they are a member of several
   plan?: 'starter' | 'pro' | 'enterprise'; // Deprecated: Plan is now on Company. Kept for backward compatibility
   role: 'ADMIN' | 'USER' | 'AUDITOR';
+  preferredUnits?: Partial<Record<UnitDimension, string>>; // Display units for reports, by dimension
   resetToken?: string;
   resetTokenExpiry?: Date;
   createdAt: Date;
@@ -35,6 +38,11 @@ const UserSchema: Schema = new Schema({
     ref: 'Company',
     default: null
   },
+  activeCompanyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company',
+    default: null
+  },
   plan: {
     type: String,
     enum: ['starter', 'pro', 'enterprise'],
@@ -46,6 +54,16 @@ const UserSchema: Schema = new Schema({
     enum: ['ADMIN', 'USER', 'AUDITOR'],
     default: 'USER'
   },
+  preferredUnits: {
+    type: {
+      energy: { type: String },
+      mass: { type: String },
+      volume: { type: String },
+      emissions: { type: String },
+      currency: { type: String }
+    },
+    default: undefined
+  },
   resetToken: {
     type: String,
     default: null
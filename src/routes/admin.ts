@@ -4,10 +4,22 @@ import crypto from 'crypto';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User';
 import Company from '../models/Company';
+import CompanyMember from '../models/CompanyMember';
+import ESGScore from '../models/ESGScore';
+import ScoringMethodology from '../models/ScoringMethodology';
+import ConsistencyRule from '../models/ConsistencyRule';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { requireAdmin } from '../middleware/requireAdmin';
 import { emailService } from '../services/emailService';
 import { canAddUser } from '../services/userLimitService';
+import { getActiveMethodology, getNextMethodologyVersion, validateMethodology } from '../services/methodologyService';
+import { getConsistencyRules, validateConsistencyRule } from '../services/consistencyService';
+import { RULE_OPERATORS } from '../config/consistencyRules';
+import { transitionPeriod } from '../services/periodLockService';
+import { isValidPeriod } from '../services/periodService';
+import { addCompanyMember, removeCompanyMember } from '../services/membershipService';
+import { LEGACY_MEMBER_ROLES } from '../config/companyRoles';
+import { validateMemberRole } from '../services/roleService';
 
 const router = express.Router();
 
@@ -27,6 +39,8 @@ router.post(
     body('companyId').optional().isMongoId().withMessage('Invalid company ID'),
     body('plan').optional().isIn(['starter', 'pro', 'enterprise']),
     body('role').optional().isIn(['USER', 'ADMIN', 'AUDITOR']),
+    body('companyRole').optional().isString().trim().notEmpty(),
+    body('companyModules').optional().isArray(),
     body('sendInvitation').optional().isBoolean()
   ],
   async (req: Request, res: Response) => {
@@ -36,7 +50,7 @@ router.post(
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { email, name, companyId, plan = 'starter', role = 'USER', sendInvitation = true } = req.body;
+      const { email, name, companyId, companyRole, companyModules, plan = 'starter', role = 'USER', sendInvitation = true } = req.body;
 
       // Check if user exists
       const existingUser = await User.findOne({ email });
@@ -55,6 +69,13 @@ router.post(
             maxUsers: limitCheck.maxUsers
           });
         }
+
+        if (companyRole) {
+          const roleError = await validateMemberRole(companyId, companyRole, companyModules);
+          if (roleError) {
+            return res.status(400).json({ error: roleError });
+          }
+        }
       }
 
       // Admins should not have a companyId (they're system-level)
@@ -76,6 +97,12 @@ router.post(
 
       await user.save();
 
+      // Company users get a membership (by default ESG Managers, or External Auditors for auditors)
+      if (finalCompanyId) {
+        const memberRole = companyRole || LEGACY_MEMBER_ROLES[role as 'USER' | 'AUDITOR'];
+        await addCompanyMember(finalCompanyId, user._id.toString(), memberRole, undefined, companyRole ? companyModules : undefined);
+      }
+
       // Send invitation email if requested
       if (sendInvitation) {
         try {
@@ -294,6 +321,12 @@ router.delete('/users/:id', async (req: Request, res: Response) => {
 
     await user.deleteOne();
 
+    // Company ownership passes to another owner where the user was one
+    const memberships = await CompanyMember.find({ userId: user._id });
+    for (const member of memberships) {
+      await removeCompanyMember(member);
+    }
+
     res.json({ message: 'User deleted successfully' });
   } catch (error) {
     console.error('Delete user error:', error);
@@ -404,6 +437,7 @@ router.post(
       // Link user to company
       user.companyId = company._id;
       await user.save();
+      await addCompanyMember(company._id.toString(), user._id.toString(), 'owner');
 
       // Always send client onboarding email with complete details
       try {
@@ -465,5 +499,425 @@ router.post(
   }
 );
 
-export default router;
+/**
+ * Get all scoring methodologies (Admin only)
+ * GET /api/admin/methodologies
+ */
+router.get('/methodologies', async (req: Request, res: Response) => {
+  try {
+    // Make sure the built-in default exists as version 1
+    await getActiveMethodology();
+
+    const [methodologies, usage] = await Promise.all([
+      ScoringMethodology.find().sort({ version: -1 }),
+      ESGScore.aggregate([{ $group: { _id: '$methodologyVersion', count: { $sum: 1 } } }])
+    ]);
+    const usageByVersion = new Map(usage.map((u: any) => [u._id, u.count]));
+
+    res.json({
+      methodologies: methodologies.map(m => ({
+        ...m.toObject(),
+        scoreCount: usageByVersion.get(m.version) || 0
+      }))
+    });
+  } catch (error) {
+    console.error('Get methodologies error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+/**
+ * Get scoring methodology by ID (Admin only)
+ * GET /api/admin/methodologies/:id
+ */
+router.get('/methodologies/:id', async (req: Request, res: Response) => {
+  try {
+    const methodology = await ScoringMethodology.findById(req.params.id);
+
+    if (!methodology) {
+      return res.status(404).json({ error: 'Methodology not found' });
+    }
+
+    const scoreCount = await ESGScore.countDocuments({ methodologyVersion: methodology.version });
+
+    res.json({ methodology, scoreCount });
+  } catch (error) {
+    console.error('Get methodology error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+/**
+ * Create a new scoring methodology version (Admin only)
+ * POST /api/admin/methodologies
+ * Omitted weights/rules are copied from the active methodology
+ */
+router.post(
+  '/methodologies',
+  [
+    body('name').trim().notEmpty().withMessage('Name is required'),
+    body('description').optional().trim(),
+    body('weights').optional().isObject(),
+    body('rules').optional().isObject(),
+    body('industryRules').optional().isArray(),
+    body('industryRules.*.industry').optional().isIn(['Manufacturing', 'IT/Software', 'Textiles', 'Pharmaceuticals', 'Food Processing', 'Automotive', 'Chemicals', 'Others']).withMessage('Invalid industry'),
+    body('activate').optional().isBoolean()
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, description, weights, rules, industryRules, activate = false } = req.body;
+
+      const validationErrors = validateMethodology({ weights, rules, industryRules });
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid scoring methodology', validationErrors });
+      }
+
+      const base = await getActiveMethodology();
+      const version = await getNextMethodologyVersion();
+
+      const methodology = new ScoringMethodology({
+        name,
+        version,
+        description,
+        isActive: false,
+        weights: weights || base.weights,
+        rules: rules || base.rules,
+        industryRules: industryRules || base.industryRules,
+        createdBy: (req as AuthRequest).userId
+      });
+      await methodology.save();
+
+      if (activate) {
+        await ScoringMethodology.updateMany({ _id: { $ne: methodology._id } }, { $set: { isActive: false } });
+        methodology.isActive = true;
+        await methodology.save();
+      }
+
+      res.status(201).json({
+        message: 'Scoring methodology created successfully',
+        methodology
+      });
+    } catch (error) {
+      console.error('Create methodology error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+/**
+ * Update scoring methodology (Admin only)
+ * PUT /api/admin/methodologies/:id
+ * Only allowed while no ESG score has been calculated with it, so existing scores stay reproducible
+ */
+router.put(
+  '/methodologies/:id',
+  [
+    body('name').optional().trim().notEmpty(),
+    body('description').optional().trim(),
+    body('weights').optional().isObject(),
+    body('rules').optional().isObject(),
+    body('industryRules').optional().isArray(),
+    body('industryRules.*.industry').optional().isIn(['Manufacturing', 'IT/Software', 'Textiles', 'Pharmaceuticals', 'Food Processing', 'Automotive', 'Chemicals', 'Others']).withMessage('Invalid industry')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const methodology = await ScoringMethodology.findById(req.params.id);
+      if (!methodology) {
+        return res.status(404).json({ error: 'Methodology not found' });
+      }
+
+      const scoreCount = await ESGScore.countDocuments({ methodologyVersion: methodology.version });
+      if (scoreCount > 0) {
+        return res.status(409).json({
+          error: `Methodology version ${methodology.version} has been used by ${scoreCount} score(s). Create a new version instead.`,
+          scoreCount
+        });
+      }
+
+      const { name, description, weights, rules, industryRules } = req.body;
+
+      const validationErrors = validateMethodology({ weights, rules, industryRules });
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid scoring methodology', validationErrors });
+      }
+
+      if (name) methodology.name = name;
+      if (description !== undefined) methodology.description = description;
+      if (weights) methodology.weights = weights;
+      if (rules) {
+        methodology.rules = rules;
+        methodology.markModified('rules');
+      }
+      if (industryRules) {
+        methodology.industryRules = industryRules;
+        methodology.markModified('industryRules');
+      }
+
+      await methodology.save();
+
+      res.json({
+        message: 'Scoring methodology updated successfully',
+        methodology
+      });
+    } catch (error) {
+      console.error('Update methodology error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+/**
+ * Make a methodology the active one for new score calculations (Admin only)
+ * POST /api/admin/methodologies/:id/activate
+ */
+router.post('/methodologies/:id/activate', async (req: Request, res: Response) => {
+  try {
+    const methodology = await ScoringMethodology.findById(req.params.id);
+    if (!methodology) {
+      return res.status(404).json({ error: 'Methodology not found' });
+    }
+
+    await ScoringMethodology.updateMany({ _id: { $ne: methodology._id } }, { $set: { isActive: false } });
+    methodology.isActive = true;
+    await methodology.save();
+
+    res.json({
+      message: `Scoring methodology version ${methodology.version} is now active`,
+      methodology
+    });
+  } catch (error) {
+    console.error('Activate methodology error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+/**
+ * Delete scoring methodology (Admin only)
+ * DELETE /api/admin/methodologies/:id
+ */
+router.delete('/methodologies/:id', async (req: Request, res: Response) => {
+  try {
+    const methodology = await ScoringMethodology.findById(req.params.id);
+    if (!methodology) {
+      return res.status(404).json({ error: 'Methodology not found' });
+    }
+
+    if (methodology.isActive) {
+      return res.status(400).json({ error: 'Cannot delete the active methodology' });
+    }
+
+    const scoreCount = await ESGScore.countDocuments({ methodologyVersion: methodology.version });
+    if (scoreCount > 0) {
+      return res.status(409).json({
+        error: `Methodology version ${methodology.version} has been used by ${scoreCount} score(s) and cannot be deleted`,
+        scoreCount
+      });
+    }
+
+    await methodology.deleteOne();
+
+    res.json({ message: 'Scoring methodology deleted successfully' });
+  } catch (error) {
+    console.error('Delete methodology error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Shared by create and update - everything is optional on update
+const consistencyRuleValidators = (optional: boolean) => {
+  const field = (name: string) => optional ? body(name).optional() : body(name);
+  return [
+    field('module').isIn(['environment', 'social', 'governance']).withMessage('Module must be one of environment, social, governance'),
+    field('name').trim().notEmpty().withMessage('Name is required'),
+    field('message').trim().notEmpty().withMessage('Message is required'),
+    field('severity').isIn(['blocking', 'warning']).withMessage('Severity must be blocking or warning'),
+    field('operator').isIn(RULE_OPERATORS).withMessage(`Operator must be one of ${RULE_OPERATORS.join(', ')}`),
+    field('left').isArray({ min: 1 }).withMessage('Left must be a non-empty array of terms'),
+    field('right').isArray({ min: 1 }).withMessage('Right must be a non-empty array of terms'),
+    body('tolerancePercent').optional().isFloat({ min: 0 }).withMessage('Tolerance must be a non-negative percentage'),
+    body('periodTypes').optional().isArray(),
+    body('periodTypes.*').isIn(['month', 'quarter', 'financial-year']).withMessage('Invalid period type'),
+    body('isActive').optional().isBoolean()
+  ];
+};
+
+const CONSISTENCY_RULE_FIELDS = [
+  'module', 'name', 'message', 'severity', 'left', 'operator', 'right', 'tolerancePercent', 'periodTypes', 'isActive'
+];
+
+/**
+ * Get all consistency rules, including inactive ones (Admin only)
+ * GET /api/admin/consistency-rules
+ */
+router.get('/consistency-rules', async (req: Request, res: Response) => {
+  try {
+    // Stores the built-in rules if none exist yet
+    await getConsistencyRules();
+
+    const rules = await ConsistencyRule.find().sort({ module: 1, key: 1 });
+    res.json({ rules });
+  } catch (error) {
+    console.error('Get consistency rules error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+/**
+ * Create a consistency rule (Admin only)
+ * POST /api/admin/consistency-rules
+ * Terms read numeric metric fields of the rule's module, or company fields with source 'company'
+ */
+router.post(
+  '/consistency-rules',
+  [
+    body('key').trim().matches(/^[a-z0-9-]+$/).withMessage('Key must be lowercase letters, digits and dashes'),
+    ...consistencyRuleValidators(false)
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const validationErrors = validateConsistencyRule(req.body);
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid consistency rule', validationErrors });
+      }
+
+      await getConsistencyRules();
+      if (await ConsistencyRule.exists({ key: req.body.key })) {
+        return res.status(409).json({ error: `A consistency rule with key ${req.body.key} already exists` });
+      }
 
+      const rule = new ConsistencyRule({
+        key: req.body.key,
+        ...Object.fromEntries(CONSISTENCY_RULE_FIELDS.filter(field => req.body[field] !== undefined).map(field => [field, req.body[field]])),
+        createdBy: (req as AuthRequest).userId
+      });
+      await rule.save();
+
+      res.status(201).json({
+        message: 'Consistency rule created successfully',
+        rule
+      });
+    } catch (error) {
+      console.error('Create consistency rule error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+/**
+ * Update a consistency rule (Admin only)
+ * PUT /api/admin/consistency-rules/:id
+ * Applies to the next save - stored records are not re-checked
+ */
+router.put('/consistency-rules/:id', consistencyRuleValidators(true), async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const rule = await ConsistencyRule.findById(req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Consistency rule not found' });
+    }
+
+    CONSISTENCY_RULE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) rule.set(field, req.body[field]);
+    });
+
+    const validationErrors = validateConsistencyRule(rule.toObject());
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid consistency rule', validationErrors });
+    }
+
+    await rule.save();
+
+    res.json({
+      message: 'Consistency rule updated successfully',
+      rule
+    });
+  } catch (error) {
+    console.error('Update consistency rule error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+/**
+ * Delete a consistency rule (Admin only)
+ * DELETE /api/admin/consistency-rules/:id
+ * Built-in rules can be switched off with isActive instead
+ */
+router.delete('/consistency-rules/:id', async (req: Request, res: Response) => {
+  try {
+    const rule = await ConsistencyRule.findById(req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Consistency rule not found' });
+    }
+
+    await rule.deleteOne();
+
+    res.json({ message: 'Consistency rule deleted successfully' });
+  } catch (error) {
+    console.error('Delete consistency rule error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+/**
+ * Reopen a locked reporting period so its data can change again (Admin only)
+ * POST /api/admin/periods/:companyId/:period/reopen
+ * The reason is kept in the period's transition history
+ */
+router.post(
+  '/periods/:companyId/:period/reopen',
+  [
+    body('reason').trim().notEmpty().withMessage('A reason is required to reopen a locked period')
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { companyId, period } = req.params;
+      if (!isValidPeriod(period)) {
+        return res.status(400).json({ error: 'Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)' });
+      }
+
+      const company = await Company.findById(companyId);
+      if (!company) {
+        return res.status(404).json({ error: 'Company not found' });
+      }
+
+      const { reportingPeriod, error } = await transitionPeriod(companyId, period, 'Open', (req as AuthRequest).userId as string, {
+        reason: req.body.reason,
+        isAdmin: true
+      });
+      if (error) {
+        return res.status(409).json({ error });
+      }
+
+      res.json({ message: `Period ${period} has been reopened`, reportingPeriod });
+    } catch (error) {
+      console.error('Reopen period error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,142 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import ApiKey, { IApiKey } from '../models/ApiKey';
+import { authenticate, requireUserSession, AuthRequest } from '../middleware/auth';
+import { requirePermission } from '../middleware/companyAccess';
+import { requireFeature } from '../middleware/requireFeature';
+import { createApiKey, rotateApiKey, isApiKeyActive, validateApiKeySettings } from '../services/apiKeyService';
+import { MAX_ROTATION_GRACE_MINUTES } from '../config/apiKeys';
+
+const router = express.Router();
+
+// Keys are managed by signed-in owners (company.manage), never through another key
+const manageKeys = [authenticate, requireUserSession, requirePermission('company.manage')];
+
+const KEY_SHOWN_ONCE = 'Store the key now - it cannot be shown again';
+
+const describeApiKey = (apiKey: IApiKey) => ({ ...apiKey.toObject(), active: isApiKeyActive(apiKey) });
+
+// GET API keys of a company, newest first (never the keys themselves)
+router.get('/:companyId', ...manageKeys, async (req: AuthRequest, res: Response) => {
+  try {
+    const apiKeys = await ApiKey.find({ companyId: req.params.companyId })
+      .populate('createdBy', 'name email')
+      .sort({ createdAt: -1 });
+    res.json({ apiKeys: apiKeys.map(describeApiKey) });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Issue an API key (API Access feature) - scopes are permission keys, within the creator's own
+router.post(
+  '/:companyId',
+  ...manageKeys,
+  requireFeature('API_ACCESS'),
+  [
+    body('name').isString().trim().notEmpty().withMessage('Name is required'),
+    body('scopes').isArray().withMessage('Scopes must be a list of permissions'),
+    body('rateLimitPerMinute').optional().isInt().toInt(),
+    body('expiresAt').optional().isISO8601().toDate()
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, scopes, rateLimitPerMinute, expiresAt } = req.body;
+      const validationErrors = validateApiKeySettings({ name, scopes, rateLimitPerMinute, expiresAt }, req.companyPermissions || []);
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid API key', validationErrors });
+      }
+
+      const { apiKey, key } = await createApiKey(req.params.companyId, req.userId as string, {
+        name,
+        scopes,
+        rateLimitPerMinute,
+        expiresAt
+      });
+
+      res.status(201).json({
+        message: KEY_SHOWN_ONCE,
+        apiKey: describeApiKey(apiKey),
+        key
+      });
+    } catch (error) {
+      console.error('Create API key error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// POST Rotate a key - a new key with the same settings; the old one stops now or after graceMinutes
+router.post(
+  '/:companyId/:keyId/rotate',
+  ...manageKeys,
+  requireFeature('API_ACCESS'),
+  [
+    body('graceMinutes').optional().isInt({ min: 0, max: MAX_ROTATION_GRACE_MINUTES })
+      .withMessage(`Grace period must be between 0 and ${MAX_ROTATION_GRACE_MINUTES} minutes`).toInt()
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const apiKey = await ApiKey.findOne({ _id: req.params.keyId, companyId: req.params.companyId });
+      if (!apiKey) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+      if (!isApiKeyActive(apiKey)) {
+        return res.status(409).json({ error: 'Revoked or expired keys cannot be rotated' });
+      }
+
+      // The new key is issued by whoever rotates it, so its scopes must be within their permissions
+      const validationErrors = validateApiKeySettings(apiKey.toObject(), req.companyPermissions || []);
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid API key', validationErrors });
+      }
+
+      const { apiKey: replacement, key } = await rotateApiKey(apiKey, req.userId as string, req.body.graceMinutes);
+
+      res.status(201).json({
+        message: KEY_SHOWN_ONCE,
+        apiKey: describeApiKey(replacement),
+        key,
+        previousKey: describeApiKey(apiKey)
+      });
+    } catch (error) {
+      console.error('Rotate API key error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// DELETE Revoke a key - it stops working at once and stays listed (allowed without API Access so keys can be cleaned up)
+router.delete('/:companyId/:keyId', ...manageKeys, async (req: AuthRequest, res: Response) => {
+  try {
+    const apiKey = await ApiKey.findOne({ _id: req.params.keyId, companyId: req.params.companyId });
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+    if (apiKey.revokedAt) {
+      return res.status(409).json({ error: 'The API key is already revoked' });
+    }
+
+    apiKey.revokedAt = new Date();
+    apiKey.set('revokedBy', req.userId);
+    await apiKey.save();
+
+    res.json({ message: 'API key revoked', apiKey: describeApiKey(apiKey) });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
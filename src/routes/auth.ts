@@ -4,8 +4,10 @@ import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, requireUserSession, AuthRequest } from '../middleware/auth';
 import { emailService } from '../services/emailService';
+import { getUnitPreferenceErrors } from '../services/unitService';
+import { findPrimaryCompany } from '../services/membershipService';
 
 const router = express.Router();
 
@@ -87,6 +89,8 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    const activeCompany = await findPrimaryCompany(user._id.toString(), req.apiKey);
+
     res.json({
       user: {
         id: user._id,
@@ -94,6 +98,8 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
         name: user.name,
         plan: user.plan,
         role: user.role || 'USER',
+        activeCompanyId: activeCompany?._id || null,
+        preferredUnits: user.preferredUnits || {},
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
       }
@@ -210,8 +216,18 @@ router.post(
 router.put(
   '/profile',
   authenticate,
+  requireUserSession,
   [
-    body('name').optional().trim().notEmpty().withMessage('Name cannot be empty')
+    body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
+    body('preferredUnits')
+      .optional()
+      .custom(value => {
+        const unitErrors = getUnitPreferenceErrors(value);
+        if (unitErrors.length > 0) {
+          throw new Error(unitErrors.join('; '));
+        }
+        return true;
+      })
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -220,7 +236,7 @@ router.put(
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { name } = req.body;
+      const { name, preferredUnits } = req.body;
       const user = await User.findById(req.userId);
 
       if (!user) {
@@ -230,6 +246,14 @@ router.put(
       // Update name if provided
       if (name) {
         user.name = name;
+      }
+
+      // Report display units - replaces the previous preferences
+      if (preferredUnits) {
+        user.preferredUnits = preferredUnits;
+      }
+
+      if (user.isModified()) {
         await user.save();
       }
 
@@ -241,6 +265,7 @@ router.put(
           name: user.name,
           plan: user.plan,
           role: user.role || 'USER',
+          preferredUnits: user.preferredUnits || {},
           createdAt: user.createdAt,
           updatedAt: user.updatedAt
         }
@@ -256,6 +281,7 @@ router.put(
 router.post(
   '/change-password',
   authenticate,
+  requireUserSession,
   [
     body('currentPassword').notEmpty().withMessage('Current password is required'),
     body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters')
@@ -0,0 +1,252 @@
+import express, { Response } from 'express';
+import mongoose from 'mongoose';
+import { body, param, validationResult } from 'express-validator';
+import CommentThread, { IComment } from '../models/CommentThread';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { ApiKeyRestriction } from '../services/membershipService';
+import {
+  getCompanyUsers,
+  isCompanyUser,
+  isKeyAllowed,
+  getCommentWritePermission,
+  resolveCommentTarget,
+  parseMentions,
+  notifyThreadComment
+} from '../services/commentService';
+
+const router = express.Router();
+
+const commentBodyValidator = body('body').isString().trim().notEmpty().withMessage('Comment is required');
+const companyIdValidator = param('companyId').isMongoId().withMessage('Invalid company ID');
+const threadIdValidator = param('id').isMongoId().withMessage('Invalid thread ID');
+
+// Load a thread the user can take part in (a user of its company) - to read it, or to comment on or resolve it
+const findAccessibleThread = async (id: string, userId?: string, apiKey?: ApiKeyRestriction, write = false) => {
+  const thread = await CommentThread.findById(id);
+  if (!thread || !userId) {
+    return null;
+  }
+  const permission = write ? getCommentWritePermission(thread.targetType) : 'company.read';
+  if (!(await isCompanyUser(userId, thread.companyId.toString(), apiKey, permission))) {
+    return null;
+  }
+  return thread;
+};
+
+// GET Company users that can be @mentioned (mention them as @email)
+router.get('/company/:companyId/users', authenticate, [companyIdValidator], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const users = await getCompanyUsers(req.params.companyId);
+    if (!users.some(user => user._id === req.userId) || !isKeyAllowed(req.apiKey, req.params.companyId, 'company.read')) {
+      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    }
+
+    res.json({ users });
+  } catch (error) {
+    console.error('Get comment users error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Threads of a company (?targetType&targetId&field&period&status to filter)
+router.get('/company/:companyId', authenticate, [companyIdValidator], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { companyId } = req.params;
+    if (!(await isCompanyUser(req.userId as string, companyId, req.apiKey))) {
+      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    }
+
+    const query: any = { companyId };
+    ['targetType', 'targetId', 'field', 'period', 'status'].forEach(key => {
+      if (typeof req.query[key] === 'string') query[key] = req.query[key];
+    });
+
+    const threads = await CommentThread.find(query)
+      .populate('comments.userId', 'name email')
+      .sort({ updatedAt: -1 });
+
+    res.json({ threads });
+  } catch (error) {
+    console.error('Get comment threads error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Start a thread on a metric field, an evidence item or a task
+router.post(
+  '/company/:companyId',
+  authenticate,
+  [
+    companyIdValidator,
+    body('targetType').isIn(['environment', 'social', 'governance', 'evidence', 'task'])
+      .withMessage('Target type must be one of environment, social, governance, evidence, task'),
+    body('targetId').isMongoId().withMessage('Invalid target ID'),
+    body('field').optional().isString().trim(),
+    commentBodyValidator
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { companyId } = req.params;
+      const { targetType, targetId, field } = req.body;
+      const companyUsers = await getCompanyUsers(companyId);
+      if (!companyUsers.some(user => user._id === req.userId) || !isKeyAllowed(req.apiKey, companyId, getCommentWritePermission(targetType))) {
+        return res.status(404).json({ error: 'Company not found or unauthorized' });
+      }
+
+      const { target, error } = await resolveCommentTarget(companyId, targetType, targetId, field || undefined);
+      if (!target) {
+        return res.status(400).json({ error });
+      }
+
+      const { mentions, unknown } = parseMentions(req.body.body, companyUsers);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: 'Only users of this company can be mentioned', unknownMentions: unknown });
+      }
+
+      const thread = new CommentThread({
+        companyId,
+        targetType,
+        targetId,
+        field: field || undefined,
+        period: target.period,
+        createdBy: req.userId,
+        comments: [{ userId: req.userId, body: req.body.body, mentions }]
+      });
+      await thread.save();
+
+      await notifyThreadComment(thread, thread.comments[0]);
+
+      res.status(201).json({ message: 'Thread started', thread });
+    } catch (error) {
+      console.error('Create comment thread error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// GET Single thread
+router.get('/threads/:id', authenticate, [threadIdValidator], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const thread = await findAccessibleThread(req.params.id, req.userId, req.apiKey);
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found or unauthorized' });
+    }
+
+    await thread.populate('comments.userId', 'name email');
+    res.json({ thread });
+  } catch (error) {
+    console.error('Get comment thread error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Reply to a thread (replying to a resolved thread reopens it)
+router.post(
+  '/threads/:id/comments',
+  authenticate,
+  [threadIdValidator, commentBodyValidator],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const thread = await findAccessibleThread(req.params.id, req.userId, req.apiKey, true);
+      if (!thread) {
+        return res.status(404).json({ error: 'Thread not found or unauthorized' });
+      }
+
+      const { mentions, unknown } = parseMentions(req.body.body, await getCompanyUsers(thread.companyId.toString()));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: 'Only users of this company can be mentioned', unknownMentions: unknown });
+      }
+
+      const comment: IComment = {
+        _id: new mongoose.Types.ObjectId(),
+        userId: new mongoose.Types.ObjectId(req.userId),
+        body: req.body.body,
+        mentions: mentions.map(userId => new mongoose.Types.ObjectId(userId)),
+        createdAt: new Date()
+      };
+      thread.comments.push(comment);
+      thread.set({ status: 'Open', resolvedBy: undefined, resolvedAt: undefined });
+      await thread.save();
+
+      await notifyThreadComment(thread, comment);
+
+      res.status(201).json({ message: 'Comment added', thread });
+    } catch (error) {
+      console.error('Add comment error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// POST Resolve a thread
+router.post('/threads/:id/resolve', authenticate, [threadIdValidator], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const thread = await findAccessibleThread(req.params.id, req.userId, req.apiKey, true);
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found or unauthorized' });
+    }
+
+    thread.set({ status: 'Resolved', resolvedBy: req.userId, resolvedAt: new Date() });
+    await thread.save();
+
+    res.json({ message: 'Thread resolved', thread });
+  } catch (error) {
+    console.error('Resolve thread error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Reopen a resolved thread
+router.post('/threads/:id/unresolve', authenticate, [threadIdValidator], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const thread = await findAccessibleThread(req.params.id, req.userId, req.apiKey, true);
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found or unauthorized' });
+    }
+
+    thread.set({ status: 'Open', resolvedBy: undefined, resolvedAt: undefined });
+    await thread.save();
+
+    res.json({ message: 'Thread reopened', thread });
+  } catch (error) {
+    console.error('Unresolve thread error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
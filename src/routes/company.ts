@@ -1,14 +1,40 @@
 import express, { Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import Company from '../models/Company';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import User from '../models/User';
+import CompanyMember from '../models/CompanyMember';
+import GroupConsolidation from '../models/GroupConsolidation';
+import ApiKey from '../models/ApiKey';
+import { authenticate, requireUserSession, AuthRequest } from '../middleware/auth';
+import { authorizeCompany } from '../middleware/companyAccess';
+import {
+  addCompanyMember,
+  findMemberCompanies,
+  findPrimaryCompany,
+  getCompanyMembers,
+  getMemberChangeConflict,
+  removeCompanyMember
+} from '../services/membershipService';
+import { canAddUser } from '../services/userLimitService';
+import { validateMemberRole } from '../services/roleService';
 
 const router = express.Router();
 
-// Create company
+// Members who can manage members but are not owners themselves cannot touch owner memberships
+const OWNER_ONLY_ERROR = 'Only owners can add, change or remove owners';
+
+// Profile fields members with company.manage can edit - never the owner, plan or features (the plan changes
+// through /api/plans), nor group links (through /api/groups, which checks both companies and rejects cycles)
+const EDITABLE_COMPANY_FIELDS = [
+  'name', 'legalName', 'cin', 'gst', 'industry', 'employeeCount', 'annualRevenue',
+  'location', 'locations', 'reportingYear', 'consolidationBoundary'
+];
+
+// Create company (signed-in users only - an API key is limited to its own company)
 router.post(
   '/',
   authenticate,
+  requireUserSession,
   [
     body('name').trim().notEmpty(),
     body('industry').notEmpty(),
@@ -24,12 +50,16 @@ router.post(
         return res.status(400).json({ errors: errors.array() });
       }
 
+      // Group links are set through /api/groups, which checks both companies and rejects cycles
+      const { parentCompanyId, equitySharePercent, operationalControl, ...fields } = req.body;
+
       const company = new Company({
         userId: req.userId,
-        ...req.body
+        ...fields
       });
 
       await company.save();
+      await addCompanyMember(company._id.toString(), req.userId as string, 'owner');
 
       res.status(201).json({
         message: 'Company created successfully',
@@ -42,48 +72,82 @@ router.post(
   }
 );
 
-// Get all companies for user (must come before /:id route)
+// Get all companies the user is a member of, with their role and permissions (must come before /:id route)
+// activeCompanyId is the company used where a route does not name one
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const companies = await Company.find({ userId: req.userId });
-    res.json({ companies });
+    const [memberships, activeCompany] = await Promise.all([
+      findMemberCompanies(req.userId as string, req.apiKey),
+      findPrimaryCompany(req.userId as string, req.apiKey)
+    ]);
+    const companies = memberships.map(({ company, role, permissions }) => ({ ...company.toObject(), memberRole: role, permissions }));
+    res.json({ companies, activeCompanyId: activeCompany?._id || null });
   } catch (error) {
     console.error('Get companies error:', error);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
+// Switch the active company (must come before /:id route) - a user setting, not for API keys
+router.put(
+  '/active',
+  authenticate,
+  requireUserSession,
+  [body('companyId').isMongoId().withMessage('Invalid company ID')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const company = await authorizeCompany(req, res, req.body.companyId, 'company.read');
+      if (!company) {
+        return;
+      }
+
+      await User.updateOne({ _id: req.userId }, { $set: { activeCompanyId: company._id } });
+
+      res.json({
+        message: `Switched to ${company.name}`,
+        company,
+        memberRole: req.companyRole,
+        permissions: req.companyPermissions
+      });
+    } catch (error) {
+      console.error('Switch active company error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
 // Get company by ID
 router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const company = await Company.findOne({
-      _id: req.params.id,
-      userId: req.userId
-    });
-
+    const company = await authorizeCompany(req, res, req.params.id, 'company.read');
     if (!company) {
-      return res.status(404).json({ error: 'Company not found' });
+      return;
     }
 
-    res.json({ company });
+    res.json({ company, memberRole: req.companyRole, permissions: req.companyPermissions });
   } catch (error) {
     console.error('Get company error:', error);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-// Update company
+// Update company profile (signed-in users only)
 router.put(
   '/:id',
   authenticate,
+  requireUserSession,
   [
     body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
     body('industry').optional().notEmpty().withMessage('Industry cannot be empty'),
     body('employeeCount').optional().isInt({ min: 10, max: 500 }).withMessage('Employee count must be between 10 and 500'),
     body('annualRevenue').optional().isNumeric().withMessage('Annual revenue must be a number'),
     body('location').optional().trim().notEmpty().withMessage('Location cannot be empty'),
-    body('reportingYear').optional().isInt({ min: 2020, max: 2030 }).withMessage('Reporting year must be between 2020 and 2030'),
-    body('plan').optional().isIn(['starter', 'pro', 'enterprise']).withMessage('Plan must be starter, pro, or enterprise')
+    body('reportingYear').optional().isInt({ min: 2020, max: 2030 }).withMessage('Reporting year must be between 2020 and 2030')
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -104,20 +168,21 @@ router.put(
         return res.status(400).json({ error: 'Invalid company ID format' });
       }
 
-      // Check if company exists and belongs to user
-      const existingCompany = await Company.findOne({
-        _id: id,
-        userId: userId
-      });
-
+      // Check the user is a member who can manage the company
+      const existingCompany = await authorizeCompany(req, res, id, 'company.manage');
       if (!existingCompany) {
-        return res.status(404).json({ error: 'Company not found or you do not have permission to update it' });
+        return;
       }
 
+      const update: Record<string, any> = {};
+      EDITABLE_COMPANY_FIELDS
+        .filter(field => req.body[field] !== undefined)
+        .forEach(field => { update[field] = req.body[field]; });
+
       // Update company
-      const company = await Company.findOneAndUpdate(
-        { _id: id, userId: userId },
-        req.body,
+      const company = await Company.findByIdAndUpdate(
+        id,
+        update,
         { new: true, runValidators: true }
       );
 
@@ -150,15 +215,18 @@ router.put(
 // Delete company
 router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const company = await Company.findOneAndDelete({
-      _id: req.params.id,
-      userId: req.userId
-    });
-
+    const company = await authorizeCompany(req, res, req.params.id, 'company.manage');
     if (!company) {
-      return res.status(404).json({ error: 'Company not found' });
+      return;
     }
 
+    await company.deleteOne();
+    await CompanyMember.deleteMany({ companyId: company._id });
+    // Subsidiaries become standalone companies
+    await Company.updateMany({ parentCompanyId: company._id }, { $set: { parentCompanyId: null } });
+    await GroupConsolidation.deleteMany({ groupCompanyId: company._id });
+    await ApiKey.deleteMany({ companyId: company._id });
+
     res.json({
       message: 'Company deleted successfully'
     });
@@ -168,5 +236,172 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get the members of a company with their roles
+router.get('/:id/members', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const company = await authorizeCompany(req, res, req.params.id, 'company.read');
+    if (!company) {
+      return;
+    }
+
+    const members = await getCompanyMembers(company._id.toString());
+    res.json({ members });
+  } catch (error) {
+    console.error('Get company members error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Add an existing user to a company with a built-in or custom role (counts towards the plan's user limit)
+// modules limits the role's metric write permissions, e.g. a Data Contributor for environment only
+router.post(
+  '/:id/members',
+  authenticate,
+  [
+    body('email').isEmail().normalizeEmail(),
+    body('role').isString().trim().notEmpty().withMessage('Role is required'),
+    body('modules').optional().isArray()
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const company = await authorizeCompany(req, res, req.params.id, 'members.manage');
+      if (!company) {
+        return;
+      }
+
+      const { role, modules } = req.body;
+      if (role === 'owner' && req.companyRole !== 'owner') {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const roleError = await validateMemberRole(company._id.toString(), role, modules);
+      if (roleError) {
+        return res.status(400).json({ error: roleError });
+      }
+
+      const user = await User.findOne({ email: req.body.email });
+      if (!user) {
+        return res.status(404).json({ error: 'No user with this email exists' });
+      }
+
+      const existing = await CompanyMember.findOne({ companyId: company._id, userId: user._id });
+      if (existing) {
+        return res.status(409).json({ error: `${user.email} is already a ${existing.role} of this company` });
+      }
+
+      const limitCheck = await canAddUser(company._id.toString());
+      if (!limitCheck.canAdd) {
+        return res.status(403).json({
+          error: limitCheck.message || 'User limit reached for this company',
+          currentCount: limitCheck.currentCount,
+          maxUsers: limitCheck.maxUsers
+        });
+      }
+
+      const member = await addCompanyMember(company._id.toString(), user._id.toString(), role, req.userId, modules);
+
+      res.status(201).json({
+        message: 'Member added successfully',
+        member
+      });
+    } catch (error) {
+      console.error('Add company member error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// Change a member's role and module limit (modules: null removes the limit)
+router.put(
+  '/:id/members/:userId',
+  authenticate,
+  [
+    body('role').isString().trim().notEmpty().withMessage('Role is required'),
+    body('modules').optional({ nullable: true }).isArray()
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const company = await authorizeCompany(req, res, req.params.id, 'members.manage');
+      if (!company) {
+        return;
+      }
+
+      const member = await CompanyMember.findOne({ companyId: company._id, userId: req.params.userId });
+      if (!member) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      const { role } = req.body;
+      if ((role === 'owner' || member.role === 'owner') && req.companyRole !== 'owner') {
+        return res.status(403).json({ error: OWNER_ONLY_ERROR });
+      }
+
+      const modules = req.body.modules === undefined ? member.modules : req.body.modules || undefined;
+      const roleError = await validateMemberRole(company._id.toString(), role, modules);
+      if (roleError) {
+        return res.status(400).json({ error: roleError });
+      }
+
+      const conflict = await getMemberChangeConflict(member, role);
+      if (conflict) {
+        return res.status(409).json({ error: conflict });
+      }
+
+      member.role = role;
+      member.modules = modules;
+      await member.save();
+
+      res.json({
+        message: 'Member role updated successfully',
+        member
+      });
+    } catch (error) {
+      console.error('Update company member error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// Remove a member from a company (members can also remove themselves)
+router.delete('/:id/members/:userId', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const isSelf = req.params.userId === req.userId;
+    const company = await authorizeCompany(req, res, req.params.id, isSelf ? 'company.read' : 'members.manage');
+    if (!company) {
+      return;
+    }
+
+    const member = await CompanyMember.findOne({ companyId: company._id, userId: req.params.userId });
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (!isSelf && member.role === 'owner' && req.companyRole !== 'owner') {
+      return res.status(403).json({ error: OWNER_ONLY_ERROR });
+    }
+
+    const conflict = await getMemberChangeConflict(member);
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+
+    await removeCompanyMember(member);
+    res.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Remove company member error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 export default router;
 
@@ -1,26 +1,16 @@
 import express, { Response } from 'express';
-import Company from '../models/Company';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { requirePermission } from '../middleware/companyAccess';
 import { calculateBRSRReadiness } from '../services/complianceService';
 
 const router = express.Router();
 
 // Get Compliance Dashboard
-router.get('/dashboard/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/dashboard/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
     const { companyId } = req.params;
     const { period } = req.query;
 
-    // Verify company ownership
-    const company = await Company.findOne({
-      _id: companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
-    }
-
     // Get current period or latest
     const currentYear = new Date().getFullYear();
     const currentQuarter = Math.floor((new Date().getMonth() + 3) / 3);
@@ -1,13 +1,24 @@
 import express, { Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import ESGScore from '../models/ESGScore';
-import Company from '../models/Company';
+import { ICompany } from '../models/Company';
 import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
 import SocialMetrics from '../models/SocialMetrics';
 import GovernanceMetrics from '../models/GovernanceMetrics';
+import Facility from '../models/Facility';
+import FacilityMetrics from '../models/FacilityMetrics';
+import User from '../models/User';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import { calculateESGScore } from '../services/esgScoring';
+import { requirePermission } from '../middleware/companyAccess';
+import { requireFeature } from '../middleware/requireFeature';
+import { calculateESGScore, simulateESGScore, ScoreContribution } from '../services/esgScoring';
+import { getPeriodLockConflict } from '../services/periodLockService';
+import { isValidPeriod, findMetricsForPeriod, PeriodType } from '../services/periodService';
+import { getBenchmark } from '../services/benchmarkService';
+import { getTrends } from '../services/trendService';
+import { findApprovedReview, findLatestApprovedPeriod, findApprovedFacilityMetrics } from '../services/reviewService';
 import { generatePDFReport, generateExcelReport } from '../services/reportGenerator';
+import { generateBRSRExcel, generateBRSRInstance } from '../services/brsrReportGenerator';
 import {
   getRiskLevel,
   getEnvironmentalCompleteness,
@@ -16,6 +27,8 @@ import {
   getOverallCompleteness,
   getImpactExplanation
 } from '../services/dataCompleteness';
+import { getConsistencyRules, evaluateConsistencyRules, getInconsistentFields } from '../services/consistencyService';
+import { RuleModule } from '../config/consistencyRules';
 
 const router = express.Router();
 
@@ -23,7 +36,11 @@ const router = express.Router();
 router.post(
   '/calculate/:companyId',
   authenticate,
-  [body('period').notEmpty()],
+  requirePermission('score.calculate'),
+  [
+    body('period').notEmpty(),
+    body('methodologyVersion').optional().isInt({ min: 1 }).withMessage('Methodology version must be a positive integer')
+  ],
   async (req: AuthRequest, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -32,23 +49,20 @@ router.post(
       }
 
       const { companyId } = req.params;
-      const { period } = req.body;
+      const { period, methodologyVersion } = req.body;
 
-      // Verify company ownership
-      const company = await Company.findOne({
-        _id: companyId,
-        userId: req.userId
-      });
-
-      if (!company) {
-        return res.status(404).json({ error: 'Company not found or unauthorized' });
+      // The stored score of a locked period is the one that was reported
+      const lockConflict = await getPeriodLockConflict(companyId, period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
       }
 
       // Check if all required metrics exist before calculating
       const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
-        EnvironmentalMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-        SocialMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-        GovernanceMetrics.findOne({ companyId, period }).sort({ createdAt: -1 })
+        EnvironmentalMetrics.findOne({ companyId, period }),
+        SocialMetrics.findOne({ companyId, period }),
+        // Governance is often captured once for the quarter or FY
+        findMetricsForPeriod(GovernanceMetrics, companyId, period)
       ]);
 
       const missingMetrics: string[] = [];
@@ -65,8 +79,18 @@ router.post(
         });
       }
 
+      // Scores are only calculated from reviewed data
+      const approvedReview = await findApprovedReview(companyId, period);
+      if (!approvedReview) {
+        return res.status(409).json({
+          error: `Cannot calculate ESG score: metrics for period ${period} have not been approved`,
+          period,
+          suggestion: `Submit the period for review (POST /api/reviews/${companyId}/${period}/submit) and have it approved before calculating scores.`
+        });
+      }
+
       // Calculate scores
-      const scores = await calculateESGScore(companyId, period);
+      const scores = await calculateESGScore(companyId, period, methodologyVersion !== undefined ? Number(methodologyVersion) : undefined);
 
       // Save or update ESG score
       let esgScore = await ESGScore.findOne({ companyId, period });
@@ -76,6 +100,8 @@ router.post(
         esgScore.socialScore = scores.socialScore;
         esgScore.governanceScore = scores.governanceScore;
         esgScore.overallScore = scores.overallScore;
+        esgScore.methodologyVersion = scores.methodologyVersion;
+        esgScore.contributions = scores.contributions;
         esgScore.calculatedAt = new Date();
         await esgScore.save();
       } else {
@@ -98,20 +124,94 @@ router.post(
   }
 );
 
-// Get ESG Score
-router.get('/score/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
-  try {
-    const { companyId } = req.params;
+// Metric fields a simulation patch may not touch
+const SIMULATION_PROTECTED_FIELDS = ['_id', '__v', 'companyId', 'userId', 'period', 'createdAt', 'updatedAt', 'emissionsCalculation'];
 
-    // Verify company ownership
-    const company = await Company.findOne({
-      _id: companyId,
-      userId: req.userId
-    });
+// Simulate ESG Score (what-if, nothing is saved)
+router.post(
+  '/simulate/:companyId',
+  authenticate,
+  requirePermission('company.read'),
+  [
+    body('period').notEmpty(),
+    body('methodologyVersion').optional().isInt({ min: 1 }).withMessage('Methodology version must be a positive integer'),
+    body('environmental').optional().isObject().withMessage('environmental must be an object of metric fields'),
+    body('social').optional().isObject().withMessage('social must be an object of metric fields'),
+    body('governance').optional().isObject().withMessage('governance must be an object of metric fields')
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { companyId } = req.params;
+      const { period, methodologyVersion, environmental, social, governance } = req.body;
+
+      // Only fields that exist on the metric models can be patched
+      const unknownFields: string[] = [];
+      const checkFields = (pillar: string, patch: Record<string, any> | undefined, model: { schema: { path: (field: string) => any } }) => {
+        Object.keys(patch || {}).forEach(field => {
+          if (SIMULATION_PROTECTED_FIELDS.includes(field) || !model.schema.path(field)) {
+            unknownFields.push(`${pillar}.${field}`);
+          }
+        });
+      };
+      checkFields('environmental', environmental, EnvironmentalMetrics);
+      checkFields('social', social, SocialMetrics);
+      checkFields('governance', governance, GovernanceMetrics);
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+      if (unknownFields.length > 0) {
+        return res.status(400).json({ error: `Cannot simulate unknown or protected fields: ${unknownFields.join(', ')}` });
+      }
+
+      const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
+        EnvironmentalMetrics.exists({ companyId, period }),
+        SocialMetrics.exists({ companyId, period }),
+        GovernanceMetrics.exists({ companyId, period })
+      ]);
+
+      const missingMetrics: string[] = [];
+      if (!envMetrics) missingMetrics.push('Environmental');
+      if (!socialMetrics) missingMetrics.push('Social');
+      if (!govMetrics) missingMetrics.push('Governance');
+
+      if (missingMetrics.length > 0) {
+        return res.status(400).json({
+          error: `Cannot simulate ESG score: Missing ${missingMetrics.join(', ')} metrics for period ${period}`,
+          missingMetrics,
+          period
+        });
+      }
+
+      // Simulations start from the approved data the stored score uses
+      if (!(await findApprovedReview(companyId, period))) {
+        return res.status(409).json({
+          error: `Cannot simulate ESG score: metrics for period ${period} have not been approved`,
+          period
+        });
+      }
+
+      const simulation = await simulateESGScore(
+        companyId,
+        period,
+        { environmental, social, governance },
+        methodologyVersion !== undefined ? Number(methodologyVersion) : undefined
+      );
+
+      res.json({ simulation });
+    } catch (error: any) {
+      console.error('Simulate ESG score error:', error);
+      res.status(500).json({ error: error.message || 'Server error' });
     }
+  }
+);
+
+// Get ESG Score
+router.get('/score/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId } = req.params;
 
     // Get stored scores
     let scores = await ESGScore.find({ companyId }).sort({ period: -1 });
@@ -139,6 +239,12 @@ router.get('/score/:companyId', authenticate, async (req: AuthRequest, res: Resp
         const calculatedScores = [];
         for (const period of sortedPeriods.slice(0, 12)) { // Limit to 12 periods, newest first
           try {
+            const lockConflict = await getPeriodLockConflict(companyId, period);
+            if (lockConflict) {
+              console.warn(`Skipping period ${period} - ${lockConflict}`);
+              continue;
+            }
+
             const scoreData = await calculateESGScore(companyId, period);
             
             // Validate scores are not NaN before saving
@@ -155,6 +261,8 @@ router.get('/score/:companyId', authenticate, async (req: AuthRequest, res: Resp
               esgScore.socialScore = scoreData.socialScore;
               esgScore.governanceScore = scoreData.governanceScore;
               esgScore.overallScore = scoreData.overallScore;
+              esgScore.methodologyVersion = scoreData.methodologyVersion;
+              esgScore.contributions = scoreData.contributions;
               esgScore.calculatedAt = new Date();
               await esgScore.save();
             } else {
@@ -190,34 +298,40 @@ router.get('/score/:companyId', authenticate, async (req: AuthRequest, res: Resp
 });
 
 // Get ESG Scorecard (detailed view with trends and breakdown)
-router.get('/scorecard/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/scorecard/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
     const { companyId } = req.params;
     const { period } = req.query;
+    const facilityId = typeof req.query.facilityId === 'string' ? req.query.facilityId : undefined;
 
-    // Verify company ownership
-    const company = await Company.findOne({
-      _id: companyId,
-      userId: req.userId
-    });
+    const company = req.company as ICompany;
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    // Without a facility the scorecard shows the company roll-up
+    const facilities = await Facility.find({ companyId }).sort({ name: 1 });
+    const facility = facilityId ? facilities.find(f => f._id.toString() === facilityId) : undefined;
+    if (facilityId && !facility) {
+      return res.status(404).json({ error: 'Facility not found' });
     }
 
     // Get all periods that have metrics (real-time data)
-    const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
-      EnvironmentalMetrics.find({ companyId }).sort({ period: -1 }),
-      SocialMetrics.find({ companyId }).sort({ period: -1 }),
-      GovernanceMetrics.find({ companyId }).sort({ period: -1 })
-    ]);
+    let allPeriods: string[];
+    if (facility) {
+      const facilityPeriods: string[] = await FacilityMetrics.distinct('period', { facilityId: facility._id });
+      allPeriods = facilityPeriods.sort().reverse();
+    } else {
+      const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
+        EnvironmentalMetrics.find({ companyId }).sort({ period: -1 }),
+        SocialMetrics.find({ companyId }).sort({ period: -1 }),
+        GovernanceMetrics.find({ companyId }).sort({ period: -1 })
+      ]);
 
-    // Get unique periods from all metrics
-    const allPeriods = Array.from(new Set([
-      ...envMetrics.map(m => m.period),
-      ...socialMetrics.map(m => m.period),
-      ...govMetrics.map(m => m.period)
-    ])).sort().reverse();
+      // Get unique periods from all metrics
+      allPeriods = Array.from(new Set([
+        ...envMetrics.map(m => m.period),
+        ...socialMetrics.map(m => m.period),
+        ...govMetrics.map(m => m.period)
+      ])).sort().reverse();
+    }
 
     if (allPeriods.length === 0) {
       return res.json({
@@ -245,18 +359,22 @@ router.get('/scorecard/:companyId', authenticate, async (req: AuthRequest, res:
       environmentalScore: number;
       socialScore: number;
       governanceScore: number;
+      methodologyVersion: number;
+      contributions: ScoreContribution[];
       calculatedAt: Date;
     }> = [];
 
     for (const p of allPeriods.slice(0, 12)) { // Limit to last 12 periods for performance
       try {
-        const scores = await calculateESGScore(companyId, p);
+        const scores = await calculateESGScore(companyId, p, undefined, facilityId);
         calculatedScores.push({
           period: p,
           overallScore: scores.overallScore,
           environmentalScore: scores.environmentalScore,
           socialScore: scores.socialScore,
           governanceScore: scores.governanceScore,
+          methodologyVersion: scores.methodologyVersion,
+          contributions: scores.contributions,
           calculatedAt: new Date()
         });
       } catch (error) {
@@ -285,16 +403,30 @@ router.get('/scorecard/:companyId', authenticate, async (req: AuthRequest, res:
       : null;
 
     // Get metrics for the target period to calculate completeness
-    const [envMetric, socialMetric, govMetric] = await Promise.all([
-      EnvironmentalMetrics.findOne({ companyId, period: targetPeriod }).sort({ createdAt: -1 }),
-      SocialMetrics.findOne({ companyId, period: targetPeriod }).sort({ createdAt: -1 }),
-      GovernanceMetrics.findOne({ companyId, period: targetPeriod }).sort({ createdAt: -1 })
+    const [envMetric, socialMetric, govMetric, facilityMetric] = await Promise.all([
+      EnvironmentalMetrics.findOne({ companyId, period: targetPeriod }),
+      SocialMetrics.findOne({ companyId, period: targetPeriod }),
+      GovernanceMetrics.findOne({ companyId, period: targetPeriod }),
+      facility ? FacilityMetrics.findOne({ facilityId: facility._id, period: targetPeriod }) : null
     ]);
+    const envData = facility ? facilityMetric?.toObject().environmental : envMetric?.toObject();
+    const socialData = facility ? facilityMetric?.toObject().social : socialMetric?.toObject();
+
+    // Values that break a consistency rule don't count towards completeness
+    const consistencyRules = await getConsistencyRules();
+    const findInconsistentFields = (module: RuleModule, data: any): string[] => getInconsistentFields(evaluateConsistencyRules(
+      consistencyRules.filter(rule => rule.module === module),
+      { ...data, period: targetPeriod },
+      company
+    ));
 
     // Calculate data completeness
-    const envCompleteness = envMetric ? getEnvironmentalCompleteness(envMetric.toObject()) : { completeness: 0, completed: [], missing: [], missingCritical: [] };
-    const socialCompleteness = socialMetric ? getSocialCompleteness(socialMetric.toObject()) : { completeness: 0, completed: [], missing: [], missingCritical: [] };
-    const govCompleteness = govMetric ? getGovernanceCompleteness(govMetric.toObject()) : { completeness: 0, completed: [], missing: [], missingCritical: [] };
+    const noCompleteness = { completeness: 0, completed: [], missing: [], missingCritical: [], inconsistent: [] };
+    const envCompleteness = envData ? getEnvironmentalCompleteness(envData, findInconsistentFields('environment', envData)) : noCompleteness;
+    const socialCompleteness = socialData ? getSocialCompleteness(socialData, findInconsistentFields('social', socialData)) : noCompleteness;
+    const govCompleteness = govMetric
+      ? getGovernanceCompleteness(govMetric.toObject(), findInconsistentFields('governance', govMetric.toObject()))
+      : noCompleteness;
     const overallCompleteness = getOverallCompleteness(envCompleteness.completeness, socialCompleteness.completeness, govCompleteness.completeness);
 
     // Calculate risk levels
@@ -319,6 +451,7 @@ router.get('/scorecard/:companyId', authenticate, async (req: AuthRequest, res:
       environmentalCompleted: envCompleteness.completed,
       environmentalMissing: envCompleteness.missing,
       environmentalMissingCritical: envCompleteness.missingCritical,
+      environmentalInconsistent: envCompleteness.inconsistent,
       environmentalImpact: getImpactExplanation('Environmental', currentScore.environmentalScore, envCompleteness.missingCritical),
       socialScore: currentScore.socialScore,
       socialGrade: getScoreGrade(currentScore.socialScore),
@@ -328,6 +461,7 @@ router.get('/scorecard/:companyId', authenticate, async (req: AuthRequest, res:
       socialCompleted: socialCompleteness.completed,
       socialMissing: socialCompleteness.missing,
       socialMissingCritical: socialCompleteness.missingCritical,
+      socialInconsistent: socialCompleteness.inconsistent,
       socialImpact: getImpactExplanation('Social', currentScore.socialScore, socialCompleteness.missingCritical),
       governanceScore: currentScore.governanceScore,
       governanceGrade: getScoreGrade(currentScore.governanceScore),
@@ -337,7 +471,10 @@ router.get('/scorecard/:companyId', authenticate, async (req: AuthRequest, res:
       governanceCompleted: govCompleteness.completed,
       governanceMissing: govCompleteness.missing,
       governanceMissingCritical: govCompleteness.missingCritical,
+      governanceInconsistent: govCompleteness.inconsistent,
       governanceImpact: getImpactExplanation('Governance', currentScore.governanceScore, govCompleteness.missingCritical),
+      methodologyVersion: currentScore.methodologyVersion,
+      contributions: currentScore.contributions,
       calculatedAt: currentScore.calculatedAt.toISOString(),
       previousPeriod: previousScore ? {
         period: previousScore.period,
@@ -376,7 +513,9 @@ router.get('/scorecard/:companyId', authenticate, async (req: AuthRequest, res:
       company: {
         name: company.name,
         industry: company.industry
-      }
+      },
+      facility: facility ? { _id: facility._id, name: facility.name, location: facility.location } : null,
+      facilities: facilities.map(f => ({ _id: f._id, name: f.name }))
     });
   } catch (error: any) {
     console.error('Get ESG scorecard error:', error);
@@ -384,30 +523,70 @@ router.get('/scorecard/:companyId', authenticate, async (req: AuthRequest, res:
   }
 });
 
-// Generate Report
-router.get('/report/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+// Industry benchmark: percentile position against anonymised peers (?period, defaults to the latest scored period)
+router.get('/benchmark/:companyId', authenticate, requirePermission('company.read'), requireFeature('ADVANCED_ANALYTICS'), async (req: AuthRequest, res: Response) => {
   try {
     const { companyId } = req.params;
-    const { format = 'json', period } = req.query;
+    const period = typeof req.query.period === 'string' ? req.query.period : undefined;
 
-    // Verify company ownership
-    const company = await Company.findOne({
-      _id: companyId,
-      userId: req.userId
-    });
+    if (period && !isValidPeriod(period)) {
+      return res.status(400).json({ error: 'Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)' });
+    }
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    const { benchmark, error } = await getBenchmark(companyId, period);
+    if (!benchmark) {
+      return res.status(404).json({ error });
     }
 
+    res.json({ benchmark });
+  } catch (error) {
+    console.error('Get benchmark error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Multi-year trends with forecasts (?granularity=month|quarter|financial-year, defaults to the most reported)
+router.get('/trends/:companyId', authenticate, requirePermission('company.read'), requireFeature('MULTI_YEAR_TREND_ANALYSIS'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const granularity = typeof req.query.granularity === 'string' ? req.query.granularity : undefined;
+
+    if (granularity && !['month', 'quarter', 'financial-year'].includes(granularity)) {
+      return res.status(400).json({ error: 'Granularity must be one of month, quarter, financial-year' });
+    }
+
+    const { trends, error } = await getTrends(companyId, granularity as PeriodType | undefined);
+    if (!trends) {
+      return res.status(404).json({ error });
+    }
+
+    res.json({ trends });
+  } catch (error) {
+    console.error('Get trends error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Generate Report
+router.get('/report/:companyId', authenticate, requirePermission('report.export'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const { format = 'json', period } = req.query;
+    const facilityId = typeof req.query.facilityId === 'string' ? req.query.facilityId : undefined;
+
+    const company = req.company as ICompany;
+
     // Validate period if provided
     if (period && typeof period !== 'string') {
       return res.status(400).json({ error: 'Invalid period parameter' });
     }
 
+    // Quantities are rendered in the requesting user's preferred units
+    const user = format === 'pdf' || format === 'excel' ? await User.findById(req.userId).select('preferredUnits') : null;
+
     if (format === 'pdf') {
       try {
-        const buffer = await generatePDFReport(companyId, period as string);
+        const buffer = await generatePDFReport(companyId, period as string, facilityId, user?.preferredUnits);
         res.contentType('application/pdf');
         res.send(buffer);
       } catch (error: any) {
@@ -419,7 +598,7 @@ router.get('/report/:companyId', authenticate, async (req: AuthRequest, res: Res
       }
     } else if (format === 'excel') {
       try {
-        const buffer = await generateExcelReport(companyId, period as string);
+        const buffer = await generateExcelReport(companyId, period as string, facilityId, user?.preferredUnits);
         res.contentType('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
         res.send(buffer);
       } catch (error: any) {
@@ -429,6 +608,28 @@ router.get('/report/:companyId', authenticate, async (req: AuthRequest, res: Res
           details: 'Please ensure ESG scores are calculated for the specified period'
         });
       }
+    } else if (facilityId) {
+      // Facility reports are scored live from the facility's approved metrics
+      const facility = await Facility.findOne({ _id: facilityId, companyId });
+      if (!facility) {
+        return res.status(404).json({ error: 'Facility not found' });
+      }
+
+      const latest = period
+        ? await FacilityMetrics.findOne({ facilityId, period })
+        : await FacilityMetrics.findOne({ facilityId }).sort({ period: -1 });
+      const facilityMetrics = latest && await findApprovedFacilityMetrics(companyId, facilityId, latest.period);
+
+      const esgScore = facilityMetrics
+        ? { period: facilityMetrics.period, ...(await calculateESGScore(companyId, facilityMetrics.period, undefined, facilityId)) }
+        : null;
+
+      res.json({
+        company,
+        facility,
+        facilityMetrics,
+        esgScore
+      });
     } else {
       // Return JSON report
       let esgScore;
@@ -449,5 +650,44 @@ router.get('/report/:companyId', authenticate, async (req: AuthRequest, res: Res
   }
 });
 
+// Generate BRSR export (SEBI section A/B/C layout + BRSR Core)
+router.get('/brsr/:companyId', authenticate, requirePermission('report.export'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const { format = 'excel', period } = req.query;
+
+    if (period && typeof period !== 'string') {
+      return res.status(400).json({ error: 'Invalid period parameter' });
+    }
+
+    // Default to the latest period with approved data
+    let reportPeriod = period as string | undefined;
+    if (!reportPeriod) {
+      const latest = await findLatestApprovedPeriod(companyId);
+      if (!latest) {
+        return res.status(400).json({ error: 'No approved metrics found. Please provide a period or submit metrics for review first.' });
+      }
+      reportPeriod = latest;
+    }
+
+    if (format === 'json') {
+      const instance = await generateBRSRInstance(companyId, reportPeriod);
+      return res.json(instance);
+    }
+
+    if (format !== 'excel') {
+      return res.status(400).json({ error: 'Format must be excel or json' });
+    }
+
+    const buffer = await generateBRSRExcel(companyId, reportPeriod);
+    res.setHeader('Content-Disposition', `attachment; filename="BRSR-${reportPeriod}.xlsx"`);
+    res.contentType('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.send(buffer);
+  } catch (error: any) {
+    console.error('Generate BRSR export error:', error);
+    res.status(500).json({ error: error.message || 'Server error' });
+  }
+});
+
 export default router;
 
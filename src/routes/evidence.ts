@@ -4,8 +4,9 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import Evidence from '../models/Evidence';
-import Company from '../models/Company';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { requirePermission, authorizeCompany } from '../middleware/companyAccess';
+import { getPeriodLockConflict } from '../services/periodLockService';
 
 const router = express.Router();
 
@@ -43,20 +44,10 @@ const upload = multer({
 });
 
 // Get Evidence Dashboard Summary
-router.get('/dashboard/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/dashboard/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
     const { companyId } = req.params;
 
-    // Verify company ownership
-    const company = await Company.findOne({
-      _id: companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
-    }
-
     // Get all evidence for the company
     const allEvidence = await Evidence.find({ companyId });
 
@@ -104,6 +95,7 @@ router.get('/dashboard/:companyId', authenticate, async (req: AuthRequest, res:
 router.post(
   '/upload/:companyId',
   authenticate,
+  requirePermission('evidence.upload'),
   upload.single('file'),
   [
     body('evidenceType').notEmpty().withMessage('Evidence type is required'),
@@ -123,18 +115,6 @@ router.post(
       const { companyId } = req.params;
       const { evidenceType, esgArea, linkedTo, expiryDate, tags } = req.body;
 
-      // Verify company ownership
-      const company = await Company.findOne({
-        _id: companyId,
-        userId: req.userId
-      });
-
-      if (!company) {
-        // Delete uploaded file if company not found
-        fs.unlinkSync(req.file.path);
-        return res.status(404).json({ error: 'Company not found or unauthorized' });
-      }
-
       // Determine status
       let status: 'Linked' | 'Missing' | 'Pending' = 'Pending';
       if (linkedTo && linkedTo.trim() !== '') {
@@ -151,6 +131,15 @@ router.post(
         }
       }
 
+      // Evidence for a locked period is part of its closed record
+      if (parsedTags?.period) {
+        const lockConflict = await getPeriodLockConflict(companyId, parsedTags.period);
+        if (lockConflict) {
+          fs.unlinkSync(req.file.path);
+          return res.status(409).json({ error: lockConflict });
+        }
+      }
+
       const evidence = new Evidence({
         companyId,
         userId: req.userId,
@@ -205,13 +194,20 @@ router.put(
       const { id } = req.params;
       const { linkedTo } = req.body;
 
-      const evidence = await Evidence.findOne({
-        _id: id,
-        userId: req.userId
-      });
-
+      const evidence = await Evidence.findById(id);
       if (!evidence) {
-        return res.status(404).json({ error: 'Evidence not found or unauthorized' });
+        return res.status(404).json({ error: 'Evidence not found' });
+      }
+
+      if (!(await authorizeCompany(req, res, evidence.companyId, 'evidence.upload'))) {
+        return;
+      }
+
+      if (evidence.tags?.period) {
+        const lockConflict = await getPeriodLockConflict(evidence.companyId.toString(), evidence.tags.period);
+        if (lockConflict) {
+          return res.status(409).json({ error: lockConflict });
+        }
       }
 
       evidence.linkedTo = linkedTo;
@@ -230,21 +226,11 @@ router.put(
 );
 
 // Get All Evidence for Company
-router.get('/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
     const { companyId } = req.params;
     const { esgArea, status } = req.query;
 
-    // Verify company ownership
-    const company = await Company.findOne({
-      _id: companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
-    }
-
     const query: any = { companyId };
     if (esgArea) query.esgArea = esgArea;
     if (status) query.status = status;
@@ -261,13 +247,20 @@ router.get('/:companyId', authenticate, async (req: AuthRequest, res: Response)
 // Delete Evidence
 router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const evidence = await Evidence.findOne({
-      _id: req.params.id,
-      userId: req.userId
-    });
-
+    const evidence = await Evidence.findById(req.params.id);
     if (!evidence) {
-      return res.status(404).json({ error: 'Evidence not found or unauthorized' });
+      return res.status(404).json({ error: 'Evidence not found' });
+    }
+
+    if (!(await authorizeCompany(req, res, evidence.companyId, 'evidence.delete'))) {
+      return;
+    }
+
+    if (evidence.tags?.period) {
+      const lockConflict = await getPeriodLockConflict(evidence.companyId.toString(), evidence.tags.period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
     }
 
     // Delete file from filesystem
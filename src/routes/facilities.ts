@@ -0,0 +1,408 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { ICompany } from '../models/Company';
+import Facility from '../models/Facility';
+import FacilityMetrics from '../models/FacilityMetrics';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { requirePermission, authorizeCompany } from '../middleware/companyAccess';
+import { getCompanyAccess, hasPermission, ApiKeyRestriction } from '../services/membershipService';
+import { Permission } from '../config/companyRoles';
+import { applyEmissionCalculation } from '../services/emissionCalculator';
+import { rollUpFacilityMetrics } from '../services/facilityService';
+import { isValidPeriod } from '../services/periodService';
+import { normaliseQuantities, mergeSubmittedValues } from '../services/unitService';
+import { setRevisionAuthor, recordDeletion } from '../services/revisionService';
+import { getPeriodLockConflict } from '../services/periodLockService';
+import { EMISSION_FACTOR_SETS } from '../config/emissionFactors';
+import { ENVIRONMENTAL_METRIC_UNITS } from '../config/units';
+
+const router = express.Router();
+
+// Facility details (shared by create and update)
+const facilityValidators = [
+  body('type').optional().isIn(['Plant', 'Office', 'Warehouse', 'Other']),
+  body('consentToOperate').optional().isObject(),
+  body('consentToOperate.validUntil').optional({ nullable: true }).isISO8601().withMessage('Consent validity must be a date'),
+  body('isActive').optional().isBoolean()
+];
+
+// Facility metric fields (shared by create and update) - ranges are enforced by the model
+const facilityMetricsValidators = [
+  body('environmental').optional().isObject(),
+  body('social').optional().isObject(),
+  body('environmental.fuelType').optional().isIn(['diesel', 'petrol', 'lpg']),
+  body('environmental.emissionFactorVersion').optional().isIn(Object.keys(EMISSION_FACTOR_SETS)),
+  body('environmental.renewableEnergyPercent').optional().isFloat({ min: 0, max: 100 }),
+  body('environmental.nonRenewableEnergyPercent').optional().isFloat({ min: 0, max: 100 }),
+  body('social.femalePercentWorkforce').optional().isFloat({ min: 0, max: 100 }),
+  body('social.womenInManagementPercent').optional().isFloat({ min: 0, max: 100 }),
+  body('social.employeeTurnoverPercent').optional().isFloat({ min: 0, max: 100 })
+];
+
+// Convert { value, unit } environmental submissions to canonical units before validation
+const normaliseEnvironmentalUnits = (req: AuthRequest, res: Response, next: Function) => {
+  if (!req.body.environmental) {
+    res.locals.submittedValues = {};
+    return next();
+  }
+
+  const { values, submittedValues, errors } = normaliseQuantities(req.body.environmental, ENVIRONMENTAL_METRIC_UNITS, 'environmental.');
+  if (errors.length > 0) {
+    return res.status(400).json({ errors });
+  }
+
+  req.body.environmental = values;
+  res.locals.submittedValues = submittedValues;
+  next();
+};
+
+// Scope 1/2 and carbon totals are derived per facility, never submitted
+const stripDerivedEmissionFields = (environmental: any) => {
+  const { emissionsCalculation, carbonEmissionsTons, ...rest } = environmental || {};
+  return rest;
+};
+
+// Merge submitted environmental and social values into stored facility metrics (shared by create-or-update and update)
+const applyFacilityMetricsUpdate = (metrics: any, environmental: any, social: any, submittedValues: any) => {
+  if (environmental) {
+    const current = metrics.toObject().environmental;
+    const submitted = stripDerivedEmissionFields(environmental);
+    metrics.set('environmental', {
+      ...current,
+      ...submitted,
+      submittedValues: mergeSubmittedValues(current?.submittedValues, submitted, submittedValues, ENVIRONMENTAL_METRIC_UNITS)
+    });
+  }
+  if (social) {
+    metrics.set('social', { ...metrics.toObject().social, ...social });
+  }
+  applyEmissionCalculation(metrics.environmental);
+};
+
+// Load a facility whose company gives the user all the permissions
+const findAccessibleFacility = async (
+  facilityId: string,
+  userId: string | undefined,
+  permissions: Permission[],
+  apiKey?: ApiKeyRestriction
+) => {
+  const facility = await Facility.findById(facilityId);
+  if (!facility || !userId) {
+    return null;
+  }
+
+  const access = await getCompanyAccess(facility.companyId.toString(), userId, apiKey);
+  return access && permissions.every(permission => hasPermission(access, permission)) ? facility : null;
+};
+
+// Facility metrics hold environmental and social values - changing each needs that module's permission
+const getFacilityMetricsPermissions = (environmental: any, social: any): Permission[] => [
+  'company.read',
+  ...(environmental ? ['metrics.environment.write' as const] : []),
+  ...(social ? ['metrics.social.write' as const] : [])
+];
+
+// POST Facility
+router.post(
+  '/',
+  authenticate,
+  [
+    body('companyId').notEmpty(),
+    body('name').trim().notEmpty(),
+    body('location').trim().notEmpty(),
+    ...facilityValidators
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const company = await authorizeCompany(req, res, req.body.companyId, 'facilities.write');
+      if (!company) {
+        return;
+      }
+
+      const existing = await Facility.findOne({ companyId: company._id, name: req.body.name });
+      if (existing) {
+        return res.status(409).json({ error: `A facility named ${req.body.name} already exists`, facilityId: existing._id });
+      }
+
+      const { name, code, type, location, consentToOperate, isActive } = req.body;
+      const facility = new Facility({ companyId: company._id, name, code, type, location, consentToOperate, isActive });
+      await facility.save();
+
+      res.status(201).json({
+        message: 'Facility created successfully',
+        facility
+      });
+    } catch (error) {
+      console.error('Create facility error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// GET Facility metrics for a facility (optionally one period)
+router.get('/metrics/:facilityId', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const facility = await findAccessibleFacility(req.params.facilityId, req.userId, ['company.read'], req.apiKey);
+    if (!facility) {
+      return res.status(404).json({ error: 'Facility not found or unauthorized' });
+    }
+
+    const query: any = { facilityId: facility._id };
+    if (req.query.period) query.period = req.query.period;
+
+    const metrics = await FacilityMetrics.find(query).sort({ period: -1 });
+    res.json({ facility, metrics });
+  } catch (error) {
+    console.error('Get facility metrics error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Facility metrics for a period
+router.post(
+  '/metrics',
+  authenticate,
+  normaliseEnvironmentalUnits,
+  [
+    body('facilityId').notEmpty(),
+    body('period')
+      .notEmpty()
+      .custom(isValidPeriod)
+      .withMessage('Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)'),
+    ...facilityMetricsValidators
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { facilityId, period, environmental, social } = req.body;
+
+      const facility = await findAccessibleFacility(facilityId, req.userId, getFacilityMetricsPermissions(environmental, social), req.apiKey);
+      if (!facility) {
+        return res.status(404).json({ error: 'Facility not found or unauthorized' });
+      }
+
+      const lockConflict = await getPeriodLockConflict(facility.companyId.toString(), period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+
+      // One record per facility and period - submitting again updates it
+      const existing = await FacilityMetrics.findOne({ facilityId, period });
+      if (existing) {
+        applyFacilityMetricsUpdate(existing, environmental, social, res.locals.submittedValues);
+        setRevisionAuthor(existing, req.userId);
+        await existing.save();
+
+        await rollUpFacilityMetrics(facility.companyId.toString(), period);
+
+        return res.json({ message: 'Facility metrics updated successfully', metrics: existing });
+      }
+
+      const submitted = stripDerivedEmissionFields(environmental);
+      const metrics = new FacilityMetrics({
+        companyId: facility.companyId,
+        facilityId: facility._id,
+        period,
+        environmental: {
+          ...submitted,
+          submittedValues: mergeSubmittedValues(undefined, submitted, res.locals.submittedValues, ENVIRONMENTAL_METRIC_UNITS)
+        },
+        social: social || {}
+      });
+      applyEmissionCalculation(metrics.environmental as any);
+      setRevisionAuthor(metrics, req.userId);
+      await metrics.save();
+
+      await rollUpFacilityMetrics(facility.companyId.toString(), period);
+
+      res.status(201).json({
+        message: 'Facility metrics saved successfully',
+        metrics
+      });
+    } catch (error) {
+      console.error('Save facility metrics error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// PUT update Facility metrics
+router.put(
+  '/metrics/:id',
+  authenticate,
+  normaliseEnvironmentalUnits,
+  facilityMetricsValidators,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const metrics = await FacilityMetrics.findById(req.params.id);
+      if (!metrics) {
+        return res.status(404).json({ error: 'Facility metrics not found' });
+      }
+
+      const facility = await findAccessibleFacility(metrics.facilityId.toString(), req.userId, getFacilityMetricsPermissions(req.body.environmental, req.body.social), req.apiKey);
+      if (!facility) {
+        return res.status(404).json({ error: 'Facility not found or unauthorized' });
+      }
+
+      const lockConflict = await getPeriodLockConflict(metrics.companyId.toString(), metrics.period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+
+      applyFacilityMetricsUpdate(metrics, req.body.environmental, req.body.social, res.locals.submittedValues);
+      setRevisionAuthor(metrics, req.userId);
+      await metrics.save();
+
+      await rollUpFacilityMetrics(metrics.companyId.toString(), metrics.period);
+
+      res.json({ message: 'Facility metrics updated successfully', metrics });
+    } catch (error) {
+      console.error('Update facility metrics error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// DELETE Facility metrics
+router.delete('/metrics/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const metrics = await FacilityMetrics.findById(req.params.id);
+    if (!metrics) {
+      return res.status(404).json({ error: 'Facility metrics not found' });
+    }
+
+    const facility = await findAccessibleFacility(metrics.facilityId.toString(), req.userId, getFacilityMetricsPermissions(true, true), req.apiKey);
+    if (!facility) {
+      return res.status(404).json({ error: 'Facility not found or unauthorized' });
+    }
+
+    const lockConflict = await getPeriodLockConflict(metrics.companyId.toString(), metrics.period);
+    if (lockConflict) {
+      return res.status(409).json({ error: lockConflict });
+    }
+
+    await recordDeletion('facility', metrics, req.userId);
+    await FacilityMetrics.findByIdAndDelete(req.params.id);
+    await rollUpFacilityMetrics(metrics.companyId.toString(), metrics.period);
+
+    res.json({ message: 'Facility metrics deleted successfully' });
+  } catch (error) {
+    console.error('Delete facility metrics error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Facility by ID (must come before /:companyId to avoid route conflicts)
+router.get('/id/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const facility = await findAccessibleFacility(req.params.id, req.userId, ['company.read'], req.apiKey);
+    if (!facility) {
+      return res.status(404).json({ error: 'Facility not found or unauthorized' });
+    }
+
+    res.json({ facility });
+  } catch (error) {
+    console.error('Get facility error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET all facilities for a company
+router.get('/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const company = req.company as ICompany;
+
+    const facilities = await Facility.find({ companyId: company._id }).sort({ name: 1 });
+    res.json({ facilities });
+  } catch (error) {
+    console.error('Get facilities error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// PUT update Facility
+router.put(
+  '/:id',
+  authenticate,
+  [
+    body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
+    body('location').optional().trim().notEmpty().withMessage('Location cannot be empty'),
+    ...facilityValidators
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const facility = await findAccessibleFacility(req.params.id, req.userId, ['facilities.write'], req.apiKey);
+      if (!facility) {
+        return res.status(404).json({ error: 'Facility not found or unauthorized' });
+      }
+
+      const { name, code, type, location, consentToOperate, isActive } = req.body;
+      const updates = Object.fromEntries(
+        Object.entries({ name, code, type, location, consentToOperate, isActive }).filter(([, value]) => value !== undefined)
+      );
+      facility.set(updates);
+      await facility.save();
+
+      res.json({ message: 'Facility updated successfully', facility });
+    } catch (error) {
+      console.error('Update facility error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// DELETE Facility (and its metrics - affected periods are rolled up again)
+router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const facility = await findAccessibleFacility(req.params.id, req.userId, ['facilities.write'], req.apiKey);
+    if (!facility) {
+      return res.status(404).json({ error: 'Facility not found or unauthorized' });
+    }
+
+    const periods: string[] = await FacilityMetrics.distinct('period', { facilityId: facility._id });
+
+    // Removing its metrics would change the company totals of every period it reported
+    for (const period of periods) {
+      const lockConflict = await getPeriodLockConflict(facility.companyId.toString(), period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+    }
+
+    for (const metrics of await FacilityMetrics.find({ facilityId: facility._id })) {
+      await recordDeletion('facility', metrics, req.userId);
+    }
+    await FacilityMetrics.deleteMany({ facilityId: facility._id });
+    await Facility.findByIdAndDelete(facility._id);
+
+    for (const period of periods) {
+      await rollUpFacilityMetrics(facility.companyId.toString(), period);
+    }
+
+    res.json({ message: 'Facility deleted successfully' });
+  } catch (error) {
+    console.error('Delete facility error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
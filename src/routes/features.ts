@@ -1,10 +1,11 @@
 import express, { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
-import { authenticate } from '../middleware/auth';
+import { authenticate, AuthRequest } from '../middleware/auth';
 import { requireAdmin } from '../middleware/requireAdmin';
 import { getAllFeatures, getPlanFeatures, getFeature, hasFeatureAccess } from '../config/features';
 import User from '../models/User';
 import Company from '../models/Company';
+import { findPrimaryCompany } from '../services/membershipService';
 
 const router = express.Router();
 
@@ -25,7 +26,7 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
     const planFeatures = getPlanFeatures(user.plan);
 
     // Get company custom features
-    const company = await Company.findOne({ userId: user._id });
+    const company = await findPrimaryCompany(user._id.toString(), (req as AuthRequest).apiKey);
     const customFeatures = company?.customFeatures || [];
     const featureOverrides = company?.featureOverrides || {};
 
@@ -91,7 +92,7 @@ router.get('/check/:featureId', authenticate, async (req: Request, res: Response
     const hasPlanAccess = hasFeatureAccess(user.plan, featureId);
 
     // Check custom features
-    const company = await Company.findOne({ userId: user._id });
+    const company = await findPrimaryCompany(user._id.toString(), (req as AuthRequest).apiKey);
     const customFeatures = company?.customFeatures || [];
     const hasCustomFeature = customFeatures.includes(featureId);
 
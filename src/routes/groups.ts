@@ -0,0 +1,172 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import Company from '../models/Company';
+import GroupConsolidation from '../models/GroupConsolidation';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { authorizeCompany, requirePermission } from '../middleware/companyAccess';
+import { getGroupEntities, getGroupLinkConflict, consolidateGroup } from '../services/consolidationService';
+import { isValidPeriod } from '../services/periodService';
+import {
+  ConsolidationBoundary,
+  CONSOLIDATION_BOUNDARIES,
+  DEFAULT_CONSOLIDATION_BOUNDARY,
+  CONTRIBUTION_FIELDS
+} from '../config/groupConsolidation';
+
+const router = express.Router();
+
+const PERIOD_ERROR = 'Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)';
+
+// GET Group structure below a company, with each entity's own and effective (group) ownership
+router.get('/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const company = req.company!;
+    const [members, parent] = await Promise.all([
+      getGroupEntities(company._id.toString()),
+      company.parentCompanyId ? Company.findById(company.parentCompanyId).select('name') : null
+    ]);
+
+    res.json({
+      parent: parent ? { companyId: parent._id, name: parent.name } : null,
+      consolidationBoundary: company.consolidationBoundary || DEFAULT_CONSOLIDATION_BOUNDARY,
+      entities: members.map(member => ({
+        companyId: member.company._id,
+        name: member.company.name,
+        industry: member.company.industry,
+        parentCompanyId: member.depth > 0 ? member.company.parentCompanyId : null,
+        depth: member.depth,
+        equitySharePercent: member.company.equitySharePercent ?? 100,
+        operationalControl: member.company.operationalControl !== false,
+        effectiveEquitySharePercent: member.equitySharePercent,
+        controlledByGroup: member.operationalControl
+      }))
+    });
+  } catch (error) {
+    console.error('Get group error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// PUT Link a company to its parent entity (or unlink with parentCompanyId null)
+// Needs company.manage in both companies - the parent's group figures will include this company's data
+router.put(
+  '/:companyId/parent',
+  authenticate,
+  requirePermission('company.manage'),
+  [
+    body('parentCompanyId').optional({ values: 'null' }).isMongoId().withMessage('Invalid parent company ID'),
+    body('equitySharePercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Equity share must be between 0 and 100'),
+    body('operationalControl').optional().isBoolean()
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const company = req.company!;
+      const { parentCompanyId, equitySharePercent, operationalControl } = req.body;
+
+      if (parentCompanyId) {
+        const parent = await authorizeCompany(req, res, parentCompanyId, 'company.manage');
+        if (!parent) {
+          return;
+        }
+
+        const conflict = await getGroupLinkConflict(company._id.toString(), parent._id.toString());
+        if (conflict) {
+          return res.status(409).json({ error: conflict });
+        }
+      }
+
+      if (parentCompanyId !== undefined) company.set('parentCompanyId', parentCompanyId || null);
+      if (equitySharePercent !== undefined) company.set('equitySharePercent', Number(equitySharePercent));
+      if (operationalControl !== undefined) company.set('operationalControl', operationalControl === true || operationalControl === 'true');
+      await company.save();
+
+      res.json({
+        message: company.parentCompanyId ? 'Company linked to its parent' : 'Company is no longer part of a group',
+        company
+      });
+    } catch (error) {
+      console.error('Link group company error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// POST Consolidate the group below a company for a period - the company's boundary unless one is given
+router.post(
+  '/:companyId/consolidate',
+  authenticate,
+  requirePermission('score.calculate'),
+  [
+    body('period').notEmpty(),
+    body('boundary').optional().isIn(CONSOLIDATION_BOUNDARIES)
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const company = req.company!;
+      const { period } = req.body;
+      if (!isValidPeriod(period)) {
+        return res.status(400).json({ error: PERIOD_ERROR });
+      }
+
+      if (!(await Company.exists({ parentCompanyId: company._id }))) {
+        return res.status(400).json({ error: `${company.name} has no subsidiaries to consolidate` });
+      }
+
+      const boundary: ConsolidationBoundary = req.body.boundary || company.consolidationBoundary || DEFAULT_CONSOLIDATION_BOUNDARY;
+      const consolidation = await consolidateGroup(company._id.toString(), period, boundary, req.userId as string);
+
+      res.json({
+        message: consolidation.esgScore
+          ? 'Group consolidated successfully'
+          : 'Group consolidated without a score',
+        consolidation,
+        fields: CONTRIBUTION_FIELDS
+      });
+    } catch (error) {
+      console.error('Consolidate group error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// GET Consolidated report for a period (?boundary, by default the company's): group figures, score,
+// BRSR readiness and each entity's contribution
+router.get('/:companyId/consolidation', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const company = req.company!;
+    const { period } = req.query;
+    if (typeof period !== 'string' || !isValidPeriod(period)) {
+      return res.status(400).json({ error: PERIOD_ERROR });
+    }
+
+    const boundary = req.query.boundary || company.consolidationBoundary || DEFAULT_CONSOLIDATION_BOUNDARY;
+    if (!CONSOLIDATION_BOUNDARIES.includes(boundary as ConsolidationBoundary)) {
+      return res.status(400).json({ error: `Boundary must be one of ${CONSOLIDATION_BOUNDARIES.join(', ')}` });
+    }
+
+    const consolidation = await GroupConsolidation.findOne({ groupCompanyId: company._id, period, boundary });
+    if (!consolidation) {
+      return res.status(404).json({
+        error: `The group has not been consolidated for ${period} (${boundary})`,
+        suggestion: `POST /api/groups/${company._id}/consolidate with the period to consolidate it`
+      });
+    }
+
+    res.json({ consolidation, fields: CONTRIBUTION_FIELDS });
+  } catch (error) {
+    console.error('Get group consolidation error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
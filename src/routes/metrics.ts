@@ -1,29 +1,107 @@
 import express, { Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, validationResult, ValidationChain } from 'express-validator';
+import multer from 'multer';
 import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
 import SocialMetrics from '../models/SocialMetrics';
 import GovernanceMetrics from '../models/GovernanceMetrics';
-import Company from '../models/Company';
+import { ICompany } from '../models/Company';
+import Scope3Inventory from '../models/Scope3Inventory';
+import DataQualityFlag from '../models/DataQualityFlag';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { requirePermission, authorizeCompany } from '../middleware/companyAccess';
+import { buildScope3Lines, summariseScope3Lines, rollUpScope3 } from '../services/scope3Service';
+import { getAllScope3Categories } from '../config/scope3Categories';
+import { EMISSION_FACTOR_SETS, DEFAULT_EMISSION_FACTOR_VERSION, getAllEmissionFactorSets } from '../config/emissionFactors';
+import { UNITS, BASE_UNITS, ENVIRONMENTAL_METRIC_UNITS, SOCIAL_METRIC_UNITS } from '../config/units';
+import { normaliseQuantities } from '../services/unitService';
+import { translateLegacySubmission, LegacyPillar } from '../services/metricAccessor';
+import { createMetricRecord, updateMetricRecord, getRollupConflict, getIdentityConflict } from '../services/metricRecordService';
+import { clearDataQualityFlags } from '../services/anomalyService';
+import { recordDeletion } from '../services/revisionService';
+import { getPeriodLockConflict, getPeriodLifecycles } from '../services/periodLockService';
+import { buildImportTemplate, parseImportFile, importMetricRows, isImportModule } from '../services/metricImportService';
+import { ImportModule, MAX_IMPORT_FILE_SIZE } from '../config/metricImport';
+import { getModuleWritePermission } from '../config/companyRoles';
+import {
+  isValidPeriod,
+  getPeriodConflict,
+  rollUpParentPeriods,
+  formatMonth,
+  formatFinancialYear
+} from '../services/periodService';
 
 const router = express.Router();
 
-// Middleware to verify company ownership
-const verifyCompanyOwnership = async (req: AuthRequest, res: Response, next: Function) => {
-  try {
-    const company = await Company.findOne({
-      _id: req.body.companyId,
-      userId: req.userId
-    });
+// Emission activity and override fields (shared by create and update)
+const emissionValidators = [
+  body('fuelType').optional().isIn(['diesel', 'petrol', 'lpg']),
+  body('coalTonnes').optional().isNumeric(),
+  body('emissionFactorVersion').optional().isIn(Object.keys(EMISSION_FACTOR_SETS)),
+  body('emissionsOverride.scope1Emissions').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('emissionsOverride.scope2Emissions').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('emissionsOverride.reason')
+    .if(body('emissionsOverride').exists({ checkNull: true }))
+    .trim()
+    .notEmpty()
+    .withMessage('A reason is required when overriding calculated emissions'),
+];
+
+// Month (2025-04), calendar quarter (2025-Q2) or Indian financial year (FY2025-26)
+const periodValidator = body('period')
+  .notEmpty()
+  .custom(isValidPeriod)
+  .withMessage('Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)');
+
+// Environmental values (shared by create, update and import)
+// All other fields are optional - validation happens at model level
+const environmentalValueValidators = [
+  body('electricityKwh').optional().isNumeric(),
+  body('fuelLitres').optional().isNumeric(),
+  body('scope1Emissions').optional().isNumeric(),
+  body('scope2Emissions').optional().isNumeric(),
+  body('scope3Emissions').optional().isNumeric(),
+  body('waterUsageKL').optional().isNumeric(),
+  body('totalWasteTonnes').optional().isNumeric(),
+  body('carbonEmissionsTons').optional().isNumeric(),
+  body('renewableEnergyPercent').optional().isFloat({ min: 0, max: 100 }),
+  ...emissionValidators,
+];
+
+// Checks applied to each imported row, matching the POST route of each module
+const importValidators: Record<ImportModule, ValidationChain[]> = {
+  environment: [periodValidator, ...environmentalValueValidators],
+  social: [periodValidator],
+  governance: [periodValidator]
+};
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+// Spreadsheet uploads are parsed in memory
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE
+  },
+  fileFilter: (req, file, cb) => {
+    // CSV mimetypes vary by platform, so only the extension is checked
+    if (/\.(xlsx|csv)$/i.test(file.originalname)) {
+      return cb(null, true);
+    } else {
+      cb(new Error('Only Excel (.xlsx) and CSV files can be imported'));
     }
+  }
+});
 
-    next();
-  } catch (error) {
-    res.status(500).json({ error: 'Server error' });
+// Rewrite legacy fields as canonical ones and convert { value, unit } submissions before validation
+// The original quantities are kept on res.locals for the handler to store
+const normaliseMetricValues = (pillar: LegacyPillar, fieldUnits: Record<string, string>) => (req: AuthRequest, res: Response, next: Function) => {
+  const translated = translateLegacySubmission(req.body, pillar);
+  const { values, submittedValues, errors } = normaliseQuantities(translated.values, fieldUnits);
+  if (translated.errors.length > 0 || errors.length > 0) {
+    return res.status(400).json({ errors: [...translated.errors, ...errors] });
   }
+
+  req.body = values;
+  res.locals.submittedValues = submittedValues;
+  next();
 };
 
 // GET Available Periods
@@ -54,40 +132,148 @@ router.get('/periods', authenticate, async (req: AuthRequest, res: Response) =>
       }
     }
     
-    // Also add annual periods (optional - if needed)
-    // for (let year = currentYear - 2; year <= currentYear + 2; year++) {
-    //   periods.push(`${year}-Annual`);
-    // }
+    // Months for monthly capture of meter readings (last 2 years up to the current month)
+    const currentMonth = new Date().getMonth() + 1;
+    const months: string[] = [];
+    for (let year = currentYear - 2; year <= currentYear; year++) {
+      const lastMonth = year === currentYear ? currentMonth : 12;
+      for (let month = 1; month <= lastMonth; month++) {
+        months.push(formatMonth(year, month));
+      }
+    }
+
+    // Indian financial years (April-March) covering the same span
+    const financialYears: string[] = [];
+    for (let year = currentYear - 3; year <= currentYear + 2; year++) {
+      financialYears.push(formatFinancialYear(year));
+    }
     
-    res.json({ periods });
+    res.json({ periods, months, financialYears });
   } catch (error) {
     console.error('Get periods error:', error);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
+// GET Unit registry and the canonical unit of each metric
+router.get('/units', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({
+      units: Object.values(UNITS),
+      baseUnits: BASE_UNITS,
+      metricUnits: {
+        environmental: ENVIRONMENTAL_METRIC_UNITS,
+        social: SOCIAL_METRIC_UNITS
+      }
+    });
+  } catch (error) {
+    console.error('Get units error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Emission factor library
+router.get('/emission-factors', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    res.json({
+      defaultVersion: DEFAULT_EMISSION_FACTOR_VERSION,
+      factorSets: getAllEmissionFactorSets()
+    });
+  } catch (error) {
+    console.error('Get emission factors error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Import template for a metric module (?format=csv for a CSV header row)
+router.get('/import/template/:module', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { module } = req.params;
+    if (!isImportModule(module)) {
+      return res.status(400).json({ error: 'Module must be one of environment, social, governance' });
+    }
+
+    const format = req.query.format === 'csv' ? 'csv' : 'xlsx';
+    const buffer = await buildImportTemplate(module, format);
+
+    res.setHeader('Content-Disposition', `attachment; filename="${module}-metrics-import.${format}"`);
+    res.contentType(format === 'csv' ? 'text/csv' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.send(buffer);
+  } catch (error) {
+    console.error('Get import template error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Import metrics from a filled-in template (multipart: file, companyId, dryRun)
+// Valid rows are upserted by period, invalid rows are reported and skipped
+router.post(
+  '/import/:module',
+  authenticate,
+  importUpload.single('file'),
+  [body('companyId').notEmpty()],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { module } = req.params;
+      if (!isImportModule(module)) {
+        return res.status(400).json({ error: 'Module must be one of environment, social, governance' });
+      }
+
+      if (!(await authorizeCompany(req, res, req.body.companyId, getModuleWritePermission(module)))) {
+        return;
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const dryRun = String(req.body.dryRun ?? req.query.dryRun) === 'true';
+      const { rows, unknownColumns, fileErrors } = await parseImportFile(module, req.file.buffer, req.file.originalname);
+      if (fileErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid import file', fileErrors });
+      }
+
+      const results = await importMetricRows(module, req.body.companyId, rows, importValidators[module], req.userId, dryRun);
+      const summary = {
+        totalRows: results.length,
+        validRows: results.filter(result => result.action !== 'skip').length,
+        invalidRows: results.filter(result => result.action === 'skip').length,
+        created: results.filter(result => result.action === 'create').length,
+        updated: results.filter(result => result.action === 'update').length,
+        flaggedRows: results.filter(result => (result.warnings || []).length > 0).length
+      };
+
+      res.json({
+        message: dryRun
+          ? `Dry run: ${summary.validRows} of ${summary.totalRows} rows would be imported`
+          : `Imported ${summary.validRows} of ${summary.totalRows} rows`,
+        dryRun,
+        summary,
+        unknownColumns,
+        rows: results
+      });
+    } catch (error) {
+      console.error('Import metrics error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
 // POST Environmental Metrics
 router.post(
   '/environment',
   authenticate,
-  verifyCompanyOwnership,
+  requirePermission('metrics.environment.write'),
+  normaliseMetricValues('environmental', ENVIRONMENTAL_METRIC_UNITS),
   [
     body('companyId').notEmpty(),
-    body('period').notEmpty(),
-    // All other fields are optional - validation happens at model level
-    body('electricityKwh').optional().isNumeric(),
-    body('fuelLitres').optional().isNumeric(),
-    body('scope1Emissions').optional().isNumeric(),
-    body('scope2Emissions').optional().isNumeric(),
-    body('scope3Emissions').optional().isNumeric(),
-    body('waterUsageKL').optional().isNumeric(),
-    body('totalWasteTonnes').optional().isNumeric(),
-    // Legacy fields for backward compatibility
-    body('electricityUsageKwh').optional().isNumeric(),
-    body('fuelConsumptionLitres').optional().isNumeric(),
-    body('wasteGeneratedKg').optional().isNumeric(),
-    body('carbonEmissionsTons').optional().isNumeric(),
-    body('renewableEnergyPercent').optional().isFloat({ min: 0, max: 100 }),
+    periodValidator,
+    ...environmentalValueValidators,
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -96,12 +282,40 @@ router.post(
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const metrics = new EnvironmentalMetrics(req.body);
-      await metrics.save();
+      const lockConflict = await getPeriodLockConflict(req.body.companyId, req.body.period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+
+      // One record per company and period - submitting again updates it
+      const existing = await EnvironmentalMetrics.findOne({ companyId: req.body.companyId, period: req.body.period });
+      if (existing) {
+        const rollupConflict = getRollupConflict('environment', existing, req.body);
+        if (rollupConflict) {
+          return res.status(409).json(rollupConflict);
+        }
+
+        const { warnings, error, violations } = await updateMetricRecord('environment', existing, req.body, res.locals.submittedValues, req.userId);
+        if (error) {
+          return res.status(400).json({ error, violations });
+        }
+        return res.json({ message: 'Environmental metrics updated successfully', metrics: existing, warnings });
+      }
+
+      const periodConflict = await getPeriodConflict(EnvironmentalMetrics, req.body.companyId, req.body.period);
+      if (periodConflict) {
+        return res.status(409).json({ error: periodConflict });
+      }
+
+      const { metrics, warnings, error, violations } = await createMetricRecord('environment', req.body, res.locals.submittedValues, req.userId);
+      if (error) {
+        return res.status(400).json({ error, violations });
+      }
 
       res.status(201).json({
         message: 'Environmental metrics saved successfully',
-        metrics
+        metrics,
+        warnings
       });
     } catch (error) {
       console.error('Save environmental metrics error:', error);
@@ -114,10 +328,11 @@ router.post(
 router.post(
   '/social',
   authenticate,
-  verifyCompanyOwnership,
+  requirePermission('metrics.social.write'),
+  normaliseMetricValues('social', SOCIAL_METRIC_UNITS),
   [
     body('companyId').notEmpty(),
-    body('period').notEmpty()
+    periodValidator
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -135,8 +350,8 @@ router.post(
         if (value > 100) {
           // If value > 100, it might be a count instead of percentage
           // Calculate percentage if totalEmployees is available
-          if (body.totalEmployeesPermanent || body.totalEmployees || body.femaleEmployees) {
-            const total = Number(body.totalEmployeesPermanent || body.totalEmployees || 0);
+          if (body.totalEmployeesPermanent) {
+            const total = Number(body.totalEmployeesPermanent || 0);
             if (total > 0) {
               body.femalePercentWorkforce = Math.min(100, Math.round((value / total) * 100 * 100) / 100);
             } else {
@@ -166,12 +381,40 @@ router.post(
         body.employeeTurnoverPercent = Math.max(0, Math.min(100, value));
       }
 
-      const metrics = new SocialMetrics(body);
-      await metrics.save();
+      const lockConflict = await getPeriodLockConflict(body.companyId, body.period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+
+      // One record per company and period - submitting again updates it
+      const existing = await SocialMetrics.findOne({ companyId: body.companyId, period: body.period });
+      if (existing) {
+        const rollupConflict = getRollupConflict('social', existing, body);
+        if (rollupConflict) {
+          return res.status(409).json(rollupConflict);
+        }
+
+        const { warnings, error, violations } = await updateMetricRecord('social', existing, body, res.locals.submittedValues, req.userId);
+        if (error) {
+          return res.status(400).json({ error, violations });
+        }
+        return res.json({ message: 'Social metrics updated successfully', metrics: existing, warnings });
+      }
+
+      const periodConflict = await getPeriodConflict(SocialMetrics, body.companyId, body.period);
+      if (periodConflict) {
+        return res.status(409).json({ error: periodConflict });
+      }
+
+      const { metrics, warnings, error, violations } = await createMetricRecord('social', body, res.locals.submittedValues, req.userId);
+      if (error) {
+        return res.status(400).json({ error, violations });
+      }
 
       res.status(201).json({
         message: 'Social metrics saved successfully',
-        metrics
+        metrics,
+        warnings
       });
     } catch (error) {
       console.error('Save social metrics error:', error);
@@ -184,10 +427,10 @@ router.post(
 router.post(
   '/governance',
   authenticate,
-  verifyCompanyOwnership,
+  requirePermission('metrics.governance.write'),
   [
     body('companyId').notEmpty(),
-    body('period').notEmpty()
+    periodValidator
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -196,12 +439,40 @@ router.post(
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const metrics = new GovernanceMetrics(req.body);
-      await metrics.save();
+      const lockConflict = await getPeriodLockConflict(req.body.companyId, req.body.period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+
+      // One record per company and period - submitting again updates it
+      const existing = await GovernanceMetrics.findOne({ companyId: req.body.companyId, period: req.body.period });
+      if (existing) {
+        const rollupConflict = getRollupConflict('governance', existing, req.body);
+        if (rollupConflict) {
+          return res.status(409).json(rollupConflict);
+        }
+
+        const { warnings, error, violations } = await updateMetricRecord('governance', existing, req.body, {}, req.userId);
+        if (error) {
+          return res.status(400).json({ error, violations });
+        }
+        return res.json({ message: 'Governance metrics updated successfully', metrics: existing, warnings });
+      }
+
+      const periodConflict = await getPeriodConflict(GovernanceMetrics, req.body.companyId, req.body.period);
+      if (periodConflict) {
+        return res.status(409).json({ error: periodConflict });
+      }
+
+      const { metrics, warnings, error, violations } = await createMetricRecord('governance', req.body, {}, req.userId);
+      if (error) {
+        return res.status(400).json({ error, violations });
+      }
 
       res.status(201).json({
         message: 'Governance metrics saved successfully',
-        metrics
+        metrics,
+        warnings
       });
     } catch (error) {
       console.error('Save governance metrics error:', error);
@@ -218,13 +489,8 @@ router.get('/environment/id/:id', authenticate, async (req: AuthRequest, res: Re
       return res.status(404).json({ error: 'Metric not found' });
     }
 
-    const company = await Company.findOne({
-      _id: metric.companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    if (!(await authorizeCompany(req, res, metric.companyId, 'company.read'))) {
+      return;
     }
 
     res.json({ metric });
@@ -235,17 +501,8 @@ router.get('/environment/id/:id', authenticate, async (req: AuthRequest, res: Re
 });
 
 // GET all environmental metrics for a company
-router.get('/environment/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/environment/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
-    const company = await Company.findOne({
-      _id: req.params.companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
-    }
-
     const metrics = await EnvironmentalMetrics.find({ companyId: req.params.companyId }).sort({ period: -1 });
     res.json({ metrics });
   } catch (error) {
@@ -262,13 +519,8 @@ router.get('/social/id/:id', authenticate, async (req: AuthRequest, res: Respons
       return res.status(404).json({ error: 'Metric not found' });
     }
 
-    const company = await Company.findOne({
-      _id: metric.companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    if (!(await authorizeCompany(req, res, metric.companyId, 'company.read'))) {
+      return;
     }
 
     res.json({ metric });
@@ -279,17 +531,8 @@ router.get('/social/id/:id', authenticate, async (req: AuthRequest, res: Respons
 });
 
 // GET all social metrics for a company
-router.get('/social/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/social/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
-    const company = await Company.findOne({
-      _id: req.params.companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
-    }
-
     const metrics = await SocialMetrics.find({ companyId: req.params.companyId }).sort({ period: -1 });
     res.json({ metrics });
   } catch (error) {
@@ -306,13 +549,8 @@ router.get('/governance/id/:id', authenticate, async (req: AuthRequest, res: Res
       return res.status(404).json({ error: 'Metric not found' });
     }
 
-    const company = await Company.findOne({
-      _id: metric.companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    if (!(await authorizeCompany(req, res, metric.companyId, 'company.read'))) {
+      return;
     }
 
     res.json({ metric });
@@ -323,17 +561,8 @@ router.get('/governance/id/:id', authenticate, async (req: AuthRequest, res: Res
 });
 
 // GET all governance metrics for a company
-router.get('/governance/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/governance/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
-    const company = await Company.findOne({
-      _id: req.params.companyId,
-      userId: req.userId
-    });
-
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
-    }
-
     const metrics = await GovernanceMetrics.find({ companyId: req.params.companyId }).sort({ period: -1 });
     res.json({ metrics });
   } catch (error) {
@@ -346,21 +575,10 @@ router.get('/governance/:companyId', authenticate, async (req: AuthRequest, res:
 router.put(
   '/environment/:id',
   authenticate,
+  normaliseMetricValues('environmental', ENVIRONMENTAL_METRIC_UNITS),
   [
     // All fields are optional for updates
-    body('electricityKwh').optional().isNumeric(),
-    body('fuelLitres').optional().isNumeric(),
-    body('scope1Emissions').optional().isNumeric(),
-    body('scope2Emissions').optional().isNumeric(),
-    body('scope3Emissions').optional().isNumeric(),
-    body('waterUsageKL').optional().isNumeric(),
-    body('totalWasteTonnes').optional().isNumeric(),
-    // Legacy fields for backward compatibility
-    body('electricityUsageKwh').optional().isNumeric(),
-    body('fuelConsumptionLitres').optional().isNumeric(),
-    body('wasteGeneratedKg').optional().isNumeric(),
-    body('carbonEmissionsTons').optional().isNumeric(),
-    body('renewableEnergyPercent').optional().isFloat({ min: 0, max: 100 }),
+    ...environmentalValueValidators,
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -374,19 +592,31 @@ router.put(
         return res.status(404).json({ error: 'Metrics not found' });
       }
 
-      const company = await Company.findOne({
-        _id: metrics.companyId,
-        userId: req.userId
-      });
+      if (!(await authorizeCompany(req, res, metrics.companyId, 'metrics.environment.write'))) {
+        return;
+      }
 
-      if (!company) {
-        return res.status(404).json({ error: 'Company not found or unauthorized' });
+      const identityConflict = getIdentityConflict(metrics, req.body);
+      if (identityConflict) {
+        return res.status(400).json(identityConflict);
       }
 
-      Object.assign(metrics, req.body);
-      await metrics.save();
+      const lockConflict = await getPeriodLockConflict(metrics.companyId.toString(), metrics.period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+
+      const rollupConflict = getRollupConflict('environment', metrics, req.body);
+      if (rollupConflict) {
+        return res.status(409).json(rollupConflict);
+      }
 
-      res.json({ message: 'Environmental metrics updated successfully', metrics });
+      const { warnings, error, violations } = await updateMetricRecord('environment', metrics, req.body, res.locals.submittedValues, req.userId);
+      if (error) {
+        return res.status(400).json({ error, violations });
+      }
+
+      res.json({ message: 'Environmental metrics updated successfully', metrics, warnings });
     } catch (error) {
       console.error('Update environmental metrics error:', error);
       res.status(500).json({ error: 'Server error' });
@@ -395,20 +625,25 @@ router.put(
 );
 
 // PUT update social metrics
-router.put('/social/:id', authenticate, async (req: AuthRequest, res: Response) => {
+router.put('/social/:id', authenticate, normaliseMetricValues('social', SOCIAL_METRIC_UNITS), async (req: AuthRequest, res: Response) => {
   try {
     const metrics = await SocialMetrics.findById(req.params.id);
     if (!metrics) {
       return res.status(404).json({ error: 'Metrics not found' });
     }
 
-    const company = await Company.findOne({
-      _id: metrics.companyId,
-      userId: req.userId
-    });
+    if (!(await authorizeCompany(req, res, metrics.companyId, 'metrics.social.write'))) {
+      return;
+    }
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    const identityConflict = getIdentityConflict(metrics, req.body);
+    if (identityConflict) {
+      return res.status(400).json(identityConflict);
+    }
+
+    const lockConflict = await getPeriodLockConflict(metrics.companyId.toString(), metrics.period);
+    if (lockConflict) {
+      return res.status(409).json({ error: lockConflict });
     }
 
     // Validate and normalize percentage fields (0-100)
@@ -420,8 +655,8 @@ router.put('/social/:id', authenticate, async (req: AuthRequest, res: Response)
       if (value > 100) {
         // If value > 100, it might be a count instead of percentage
         // Calculate percentage if totalEmployees is available
-        if (body.totalEmployeesPermanent || body.totalEmployees || body.femaleEmployees) {
-          const total = Number(body.totalEmployeesPermanent || body.totalEmployees || 0);
+        if (body.totalEmployeesPermanent) {
+          const total = Number(body.totalEmployeesPermanent || 0);
           if (total > 0) {
             body.femalePercentWorkforce = Math.min(100, Math.round((value / total) * 100 * 100) / 100);
           } else {
@@ -451,10 +686,17 @@ router.put('/social/:id', authenticate, async (req: AuthRequest, res: Response)
       body.employeeTurnoverPercent = Math.max(0, Math.min(100, value));
     }
 
-    Object.assign(metrics, body);
-    await metrics.save();
+    const rollupConflict = getRollupConflict('social', metrics, body);
+    if (rollupConflict) {
+      return res.status(409).json(rollupConflict);
+    }
+
+    const { warnings, error, violations } = await updateMetricRecord('social', metrics, body, res.locals.submittedValues, req.userId);
+    if (error) {
+      return res.status(400).json({ error, violations });
+    }
 
-    res.json({ message: 'Social metrics updated successfully', metrics });
+    res.json({ message: 'Social metrics updated successfully', metrics, warnings });
   } catch (error) {
     console.error('Update social metrics error:', error);
     res.status(500).json({ error: 'Server error' });
@@ -469,19 +711,31 @@ router.put('/governance/:id', authenticate, async (req: AuthRequest, res: Respon
       return res.status(404).json({ error: 'Metrics not found' });
     }
 
-    const company = await Company.findOne({
-      _id: metrics.companyId,
-      userId: req.userId
-    });
+    if (!(await authorizeCompany(req, res, metrics.companyId, 'metrics.governance.write'))) {
+      return;
+    }
+
+    const identityConflict = getIdentityConflict(metrics, req.body);
+    if (identityConflict) {
+      return res.status(400).json(identityConflict);
+    }
+
+    const lockConflict = await getPeriodLockConflict(metrics.companyId.toString(), metrics.period);
+    if (lockConflict) {
+      return res.status(409).json({ error: lockConflict });
+    }
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    const rollupConflict = getRollupConflict('governance', metrics, req.body);
+    if (rollupConflict) {
+      return res.status(409).json(rollupConflict);
     }
 
-    Object.assign(metrics, req.body);
-    await metrics.save();
+    const { warnings, error, violations } = await updateMetricRecord('governance', metrics, req.body, {}, req.userId);
+    if (error) {
+      return res.status(400).json({ error, violations });
+    }
 
-    res.json({ message: 'Governance metrics updated successfully', metrics });
+    res.json({ message: 'Governance metrics updated successfully', metrics, warnings });
   } catch (error) {
     console.error('Update governance metrics error:', error);
     res.status(500).json({ error: 'Server error' });
@@ -496,16 +750,19 @@ router.delete('/environment/:id', authenticate, async (req: AuthRequest, res: Re
       return res.status(404).json({ error: 'Metrics not found' });
     }
 
-    const company = await Company.findOne({
-      _id: metrics.companyId,
-      userId: req.userId
-    });
+    if (!(await authorizeCompany(req, res, metrics.companyId, 'metrics.environment.write'))) {
+      return;
+    }
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    const lockConflict = await getPeriodLockConflict(metrics.companyId.toString(), metrics.period);
+    if (lockConflict) {
+      return res.status(409).json({ error: lockConflict });
     }
 
+    await recordDeletion('environment', metrics, req.userId);
     await EnvironmentalMetrics.findByIdAndDelete(req.params.id);
+    await clearDataQualityFlags(req.params.id);
+    await rollUpParentPeriods(metrics.companyId.toString(), metrics.period);
     res.json({ message: 'Environmental metrics deleted successfully' });
   } catch (error) {
     console.error('Delete environmental metrics error:', error);
@@ -521,16 +778,19 @@ router.delete('/social/:id', authenticate, async (req: AuthRequest, res: Respons
       return res.status(404).json({ error: 'Metrics not found' });
     }
 
-    const company = await Company.findOne({
-      _id: metrics.companyId,
-      userId: req.userId
-    });
+    if (!(await authorizeCompany(req, res, metrics.companyId, 'metrics.social.write'))) {
+      return;
+    }
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    const lockConflict = await getPeriodLockConflict(metrics.companyId.toString(), metrics.period);
+    if (lockConflict) {
+      return res.status(409).json({ error: lockConflict });
     }
 
+    await recordDeletion('social', metrics, req.userId);
     await SocialMetrics.findByIdAndDelete(req.params.id);
+    await clearDataQualityFlags(req.params.id);
+    await rollUpParentPeriods(metrics.companyId.toString(), metrics.period);
     res.json({ message: 'Social metrics deleted successfully' });
   } catch (error) {
     console.error('Delete social metrics error:', error);
@@ -546,16 +806,19 @@ router.delete('/governance/:id', authenticate, async (req: AuthRequest, res: Res
       return res.status(404).json({ error: 'Metrics not found' });
     }
 
-    const company = await Company.findOne({
-      _id: metrics.companyId,
-      userId: req.userId
-    });
+    if (!(await authorizeCompany(req, res, metrics.companyId, 'metrics.governance.write'))) {
+      return;
+    }
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+    const lockConflict = await getPeriodLockConflict(metrics.companyId.toString(), metrics.period);
+    if (lockConflict) {
+      return res.status(409).json({ error: lockConflict });
     }
 
+    await recordDeletion('governance', metrics, req.userId);
     await GovernanceMetrics.findByIdAndDelete(req.params.id);
+    await clearDataQualityFlags(req.params.id);
+    await rollUpParentPeriods(metrics.companyId.toString(), metrics.period);
     res.json({ message: 'Governance metrics deleted successfully' });
   } catch (error) {
     console.error('Delete governance metrics error:', error);
@@ -563,21 +826,186 @@ router.delete('/governance/:id', authenticate, async (req: AuthRequest, res: Res
   }
 });
 
-// GET Data Collection Hub Status
-router.get('/collection-hub/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+// GET Scope 3 categories (GHG Protocol)
+router.get('/scope3/categories', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const { companyId } = req.params;
+    res.json({ categories: getAllScope3Categories() });
+  } catch (error) {
+    console.error('Get Scope 3 categories error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-    // Verify company ownership
-    const company = await Company.findOne({
-      _id: companyId,
-      userId: req.userId
-    });
+// POST Scope 3 inventory
+router.post(
+  '/scope3',
+  authenticate,
+  requirePermission('metrics.environment.write'),
+  [
+    body('companyId').notEmpty(),
+    body('period').notEmpty(),
+    body('lines').isArray().withMessage('Lines must be an array')
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { companyId, period } = req.body;
+
+      const lockConflict = await getPeriodLockConflict(companyId, period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+
+      const existing = await Scope3Inventory.findOne({ companyId, period });
+      if (existing) {
+        return res.status(409).json({
+          error: `Scope 3 inventory already exists for period ${period}`,
+          inventoryId: existing._id
+        });
+      }
+
+      const { lines, errors: lineErrors } = buildScope3Lines(req.body.lines);
+      if (lineErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid Scope 3 lines', lineErrors });
+      }
+
+      const inventory = new Scope3Inventory({
+        companyId,
+        period,
+        lines,
+        ...summariseScope3Lines(lines)
+      });
+      await inventory.save();
+
+      await rollUpScope3(companyId, period, inventory.totalEmissionsTonnes);
+
+      res.status(201).json({
+        message: 'Scope 3 inventory saved successfully',
+        inventory
+      });
+    } catch (error) {
+      console.error('Save Scope 3 inventory error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// GET Scope 3 inventory by ID (must come before /scope3/:companyId to avoid route conflicts)
+router.get('/scope3/id/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const inventory = await Scope3Inventory.findById(req.params.id);
+    if (!inventory) {
+      return res.status(404).json({ error: 'Scope 3 inventory not found' });
+    }
+
+    if (!(await authorizeCompany(req, res, inventory.companyId, 'company.read'))) {
+      return;
+    }
+
+    res.json({ inventory });
+  } catch (error) {
+    console.error('Get Scope 3 inventory by ID error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET all Scope 3 inventories for a company
+router.get('/scope3/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const query: any = { companyId: req.params.companyId };
+    if (req.query.period) query.period = req.query.period;
+
+    const inventories = await Scope3Inventory.find(query).sort({ period: -1 });
+    res.json({ inventories });
+  } catch (error) {
+    console.error('Get Scope 3 inventories error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// PUT update Scope 3 inventory (replaces all lines)
+router.put(
+  '/scope3/:id',
+  authenticate,
+  [body('lines').isArray().withMessage('Lines must be an array')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const inventory = await Scope3Inventory.findById(req.params.id);
+      if (!inventory) {
+        return res.status(404).json({ error: 'Scope 3 inventory not found' });
+      }
+
+      if (!(await authorizeCompany(req, res, inventory.companyId, 'metrics.environment.write'))) {
+        return;
+      }
+
+      const lockConflict = await getPeriodLockConflict(inventory.companyId.toString(), inventory.period);
+      if (lockConflict) {
+        return res.status(409).json({ error: lockConflict });
+      }
+
+      const { lines, errors: lineErrors } = buildScope3Lines(req.body.lines);
+      if (lineErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid Scope 3 lines', lineErrors });
+      }
+
+      const summary = summariseScope3Lines(lines);
+      inventory.set({ lines, ...summary });
+      await inventory.save();
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
+      await rollUpScope3(inventory.companyId.toString(), inventory.period, inventory.totalEmissionsTonnes);
+
+      res.json({ message: 'Scope 3 inventory updated successfully', inventory });
+    } catch (error) {
+      console.error('Update Scope 3 inventory error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// DELETE Scope 3 inventory
+router.delete('/scope3/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const inventory = await Scope3Inventory.findById(req.params.id);
+    if (!inventory) {
+      return res.status(404).json({ error: 'Scope 3 inventory not found' });
     }
 
+    if (!(await authorizeCompany(req, res, inventory.companyId, 'metrics.environment.write'))) {
+      return;
+    }
+
+    const lockConflict = await getPeriodLockConflict(inventory.companyId.toString(), inventory.period);
+    if (lockConflict) {
+      return res.status(409).json({ error: lockConflict });
+    }
+
+    await Scope3Inventory.findByIdAndDelete(req.params.id);
+    await rollUpScope3(inventory.companyId.toString(), inventory.period, undefined);
+
+    res.json({ message: 'Scope 3 inventory deleted successfully' });
+  } catch (error) {
+    console.error('Delete Scope 3 inventory error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Data Collection Hub Status
+router.get('/collection-hub/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId } = req.params;
+
+    const company = req.company as ICompany;
+
     // Get all metrics for the company
     const [environmental, social, governance] = await Promise.all([
       EnvironmentalMetrics.find({ companyId }).sort({ period: -1 }),
@@ -592,6 +1020,9 @@ router.get('/collection-hub/:companyId', authenticate, async (req: AuthRequest,
       ...governance.map(m => m.period)
     ])).sort().reverse();
 
+    // Open -> Submitted -> Reviewed -> Locked lifecycle of each period
+    const lifecycles = await getPeriodLifecycles(companyId, allPeriods);
+
     // Calculate collection status for each period
     const collectionStatus = allPeriods.map(period => {
       const envMetric = environmental.find(m => m.period === period);
@@ -611,6 +1042,9 @@ router.get('/collection-hub/:companyId', authenticate, async (req: AuthRequest,
         period,
         isComplete,
         completionPercentage: Math.round(completionPercentage),
+        lifecycleStatus: lifecycles[period].status,
+        locked: lifecycles[period].locked,
+        lockedBy: lifecycles[period].lockedBy,
         modules: {
           environment: {
             exists: !!envMetric,
@@ -674,19 +1108,41 @@ router.get('/collection-hub/:companyId', authenticate, async (req: AuthRequest,
   }
 });
 
-// GET all metrics for a company
-router.get('/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+// GET Data-quality dashboard: anomaly flags raised on saved metrics (?period&module&type to filter)
+router.get('/data-quality/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
-    // Verify company ownership
-    const company = await Company.findOne({
-      _id: req.params.companyId,
-      userId: req.userId
+    const { companyId } = req.params;
+
+    const query: any = { companyId };
+    ['period', 'module', 'type'].forEach(key => {
+      if (typeof req.query[key] === 'string') query[key] = req.query[key];
     });
 
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found or unauthorized' });
-    }
+    const flags = await DataQualityFlag.find(query).sort({ period: -1, module: 1, createdAt: -1 });
 
+    const countBy = (key: 'type' | 'module' | 'period') => flags.reduce((counts: Record<string, number>, flag) => {
+      counts[flag[key]] = (counts[flag[key]] || 0) + 1;
+      return counts;
+    }, {});
+
+    res.json({
+      summary: {
+        total: flags.length,
+        byType: countBy('type'),
+        byModule: countBy('module'),
+        byPeriod: countBy('period')
+      },
+      flags
+    });
+  } catch (error) {
+    console.error('Get data quality flags error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET all metrics for a company
+router.get('/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
     const [environmental, social, governance] = await Promise.all([
       EnvironmentalMetrics.find({ companyId: req.params.companyId }).sort({ period: -1 }),
       SocialMetrics.find({ companyId: req.params.companyId }).sort({ period: -1 }),
@@ -0,0 +1,115 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import ReportingPeriod from '../models/ReportingPeriod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { requirePermission } from '../middleware/companyAccess';
+import { isValidPeriod } from '../services/periodService';
+import { PERIOD_TRANSITIONS, getPeriodLifecycles, transitionPeriod } from '../services/periodLockService';
+import { getOpenThreads } from '../services/commentService';
+
+const router = express.Router();
+
+// GET Lifecycle of every period a company has moved on from Open
+router.get('/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId } = req.params;
+
+    const periods = await ReportingPeriod.find({ companyId })
+      .populate('transitions.userId', 'name email')
+      .sort({ period: -1 });
+
+    res.json({ periods, transitions: PERIOD_TRANSITIONS });
+  } catch (error) {
+    console.error('Get reporting periods error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Lifecycle of a single period
+router.get('/:companyId/:period', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId, period } = req.params;
+    if (!isValidPeriod(period)) {
+      return res.status(400).json({ error: 'Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)' });
+    }
+
+    const [reportingPeriod, lifecycles, openThreads] = await Promise.all([
+      ReportingPeriod.findOne({ companyId, period }).populate('transitions.userId', 'name email'),
+      getPeriodLifecycles(companyId, [period]),
+      getOpenThreads(companyId, period)
+    ]);
+    const lifecycle = lifecycles[period];
+
+    res.json({
+      period,
+      ...lifecycle,
+      nextStatuses: lifecycle.status === 'Locked' ? [] : PERIOD_TRANSITIONS[lifecycle.status],
+      transitions: reportingPeriod?.transitions || [],
+      // Everything that has to be cleared before the period can be locked
+      blockers: {
+        openThreads
+      }
+    });
+  } catch (error) {
+    console.error('Get reporting period error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Move a period through its lifecycle (Open -> Submitted -> Reviewed -> Locked)
+// Submitted and Reviewed are set by the review workflow (/api/reviews)
+// Locked periods are reopened through POST /api/admin/periods/:companyId/:period/reopen
+router.post(
+  '/:companyId/:period/transition',
+  authenticate,
+  requirePermission('periods.manage'),
+  [
+    body('status').isIn(['Open', 'Submitted', 'Reviewed', 'Locked']).withMessage('Status must be Open, Submitted, Reviewed or Locked'),
+    body('reason').optional().isString().trim()
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { companyId, period } = req.params;
+      if (!isValidPeriod(period)) {
+        return res.status(400).json({ error: 'Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)' });
+      }
+
+      // Data goes through a reviewer before it counts as Reviewed
+      const current = await ReportingPeriod.findOne({ companyId, period });
+      if (['Submitted', 'Reviewed'].includes(req.body.status) || current?.status === 'Submitted') {
+        return res.status(409).json({
+          error: 'Submitted and Reviewed are set by the review workflow - submit, withdraw or review the period through /api/reviews'
+        });
+      }
+
+      if (req.body.status === 'Locked') {
+        const openThreads = await getOpenThreads(companyId, period);
+        if (openThreads.length > 0) {
+          return res.status(409).json({
+            error: `Period ${period} has ${openThreads.length} open comment thread(s) - resolve them before locking`,
+            blockers: { openThreads }
+          });
+        }
+      }
+
+      const { reportingPeriod, error } = await transitionPeriod(companyId, period, req.body.status, req.userId as string, {
+        reason: req.body.reason
+      });
+      if (error) {
+        return res.status(409).json({ error });
+      }
+
+      res.json({ message: `Period ${period} is now ${req.body.status}`, reportingPeriod });
+    } catch (error) {
+      console.error('Transition reporting period error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+export default router;
@@ -1,8 +1,10 @@
 import express, { Response } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, requireUserSession, AuthRequest } from '../middleware/auth';
 import { getAllPlans, getPlanByType } from '../services/planService';
 import User from '../models/User';
 import Company from '../models/Company';
+import { authorizeCompany } from '../middleware/companyAccess';
+import { findPrimaryCompany } from '../services/membershipService';
 
 const router = express.Router();
 
@@ -26,7 +28,7 @@ router.get('/current', authenticate, async (req: AuthRequest, res: Response) =>
     }
 
     // Get company plan (plan is now company-specific)
-    const company = await Company.findOne({ userId: req.userId });
+    const company = await findPrimaryCompany(req.userId as string, req.apiKey);
     if (!company) {
       return res.status(404).json({ error: 'Company not found' });
     }
@@ -42,10 +44,12 @@ router.get('/current', authenticate, async (req: AuthRequest, res: Response) =>
   }
 });
 
-// Update company's plan (for admin testing or actual subscription)
+// Update company's plan (for admin testing or actual subscription) - not through an API key, which would
+// otherwise reach any company's plan through its creator's admin role
 router.put(
   '/update',
   authenticate,
+  requireUserSession,
   async (req: AuthRequest, res: Response) => {
     try {
       const { plan, companyId } = req.body;
@@ -65,8 +69,11 @@ router.put(
         // Admin can update any company's plan
         company = await Company.findById(companyId);
       } else {
-        // Regular users update their own company's plan
-        company = await Company.findOne({ userId: req.userId });
+        // Regular users update the plan of their own company, which only its owners manage
+        company = await authorizeCompany(req, res, (await findPrimaryCompany(user._id.toString()))?._id, 'company.manage');
+        if (!company) {
+          return;
+        }
       }
 
       if (!company) {
@@ -0,0 +1,62 @@
+import express, { Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { getPortfolio, summarisePortfolio, buildPortfolioExport } from '../services/portfolioService';
+import { findPrimaryCompany } from '../services/membershipService';
+import { isValidPeriod } from '../services/periodService';
+
+const router = express.Router();
+
+// BRSR readiness is checked for ?period, by default the current quarter
+const getReadinessPeriod = (period: unknown): string | null => {
+  if (typeof period === 'string') {
+    return isValidPeriod(period) ? period : null;
+  }
+
+  const now = new Date();
+  return `${now.getFullYear()}-Q${Math.floor((now.getMonth() + 3) / 3)}`;
+};
+
+// GET Portfolio dashboard - every company the user is a member of, side by side
+router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const period = getReadinessPeriod(req.query.period);
+    if (!period) {
+      return res.status(400).json({ error: 'Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)' });
+    }
+
+    const activeCompany = await findPrimaryCompany(req.userId as string, req.apiKey);
+    const companies = await getPortfolio(req.userId as string, period, activeCompany?._id.toString(), req.apiKey);
+
+    res.json({
+      period,
+      activeCompanyId: activeCompany?._id || null,
+      summary: summarisePortfolio(companies),
+      companies
+    });
+  } catch (error) {
+    console.error('Get portfolio error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Bulk export of the portfolio (?format=xlsx|csv) - companies where the user can export reports
+router.get('/export', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const period = getReadinessPeriod(req.query.period);
+    if (!period) {
+      return res.status(400).json({ error: 'Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)' });
+    }
+
+    const format = req.query.format === 'csv' ? 'csv' : 'xlsx';
+    const buffer = await buildPortfolioExport(req.userId as string, period, format, req.apiKey);
+
+    res.setHeader('Content-Disposition', `attachment; filename="esg-portfolio-${period}.${format}"`);
+    res.contentType(format === 'csv' ? 'text/csv' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.send(buffer);
+  } catch (error) {
+    console.error('Export portfolio error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,201 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import MetricReview from '../models/MetricReview';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { requirePermission, authorizeCompany } from '../middleware/companyAccess';
+import { getCompanyAccess } from '../services/membershipService';
+import { isValidPeriod } from '../services/periodService';
+import {
+  submitForReview,
+  canReview,
+  findReviewQueue,
+  getReviewRecords,
+  getInvalidFieldComments,
+  approveReview,
+  rejectReview,
+  withdrawReview
+} from '../services/reviewService';
+
+const router = express.Router();
+
+// GET Reviews waiting for the current user (auditors, admins and a company's other users)
+router.get('/queue', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const reviews = await findReviewQueue(req.userId as string, req.apiKey);
+    res.json({ reviews });
+  } catch (error) {
+    console.error('Get review queue error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Review history of a company (?period=2025-Q2 for one period)
+router.get('/company/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId } = req.params;
+
+    const query: any = { companyId };
+    if (req.query.period) query.period = req.query.period;
+
+    const reviews = await MetricReview.find(query)
+      .populate('submittedBy', 'name email')
+      .populate('reviewerId', 'name email')
+      .sort({ submittedAt: -1 });
+
+    res.json({ reviews });
+  } catch (error) {
+    console.error('Get company reviews error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Submit a period's E/S/G data for review
+router.post('/:companyId/:period/submit', authenticate, requirePermission('reviews.submit'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { companyId, period } = req.params;
+    if (!isValidPeriod(period)) {
+      return res.status(400).json({ error: 'Period must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)' });
+    }
+
+    const { review, error } = await submitForReview(companyId, period, req.userId as string);
+    if (error) {
+      return res.status(409).json({ error });
+    }
+
+    res.status(201).json({ message: `Period ${period} submitted for review`, review });
+  } catch (error) {
+    console.error('Submit for review error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Review with the submitted records and their changes since the last approval
+router.get('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const review = await MetricReview.findById(req.params.id)
+      .populate('submittedBy', 'name email')
+      .populate('reviewerId', 'name email');
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const isMember = !!(await getCompanyAccess(review.companyId.toString(), req.userId as string, req.apiKey));
+    const isReviewer = await canReview(req.userId as string, review, req.apiKey);
+    if (!isMember && !isReviewer) {
+      return res.status(404).json({ error: 'Review not found or unauthorized' });
+    }
+
+    res.json({ review, records: await getReviewRecords(review), canReview: isReviewer });
+  } catch (error) {
+    console.error('Get review error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Approve a review
+router.post(
+  '/:id/approve',
+  authenticate,
+  [body('comment').optional().isString().trim()],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const review = await MetricReview.findById(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+
+      if (!(await canReview(req.userId as string, review, req.apiKey))) {
+        return res.status(403).json({ error: 'You cannot review this submission' });
+      }
+
+      const { error } = await approveReview(review, req.userId as string, req.body.comment);
+      if (error) {
+        return res.status(409).json({ error });
+      }
+
+      res.json({ message: `Period ${review.period} approved`, review });
+    } catch (error) {
+      console.error('Approve review error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// POST Reject a review with comments on specific fields (facility fields name their facility metrics recordId)
+router.post(
+  '/:id/reject',
+  authenticate,
+  [
+    body('comment').optional().isString().trim(),
+    body('fieldComments').isArray({ min: 1 }).withMessage('Comment on at least one field when rejecting'),
+    body('fieldComments.*.module').isIn(['environment', 'social', 'governance', 'facility'])
+      .withMessage('Module must be one of environment, social, governance, facility'),
+    body('fieldComments.*.recordId').optional().isMongoId().withMessage('Invalid facility metrics ID'),
+    body('fieldComments.*.field').isString().trim().notEmpty().withMessage('Field is required'),
+    body('fieldComments.*.comment').isString().trim().notEmpty().withMessage('Comment is required')
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const review = await MetricReview.findById(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+
+      if (!(await canReview(req.userId as string, review, req.apiKey))) {
+        return res.status(403).json({ error: 'You cannot review this submission' });
+      }
+
+      const fieldComments = req.body.fieldComments.map(({ module, recordId, field, comment }: any) => ({ module, recordId, field, comment }));
+      const invalidFields = getInvalidFieldComments(review, fieldComments);
+      if (invalidFields.length > 0) {
+        return res.status(400).json({ error: 'Comments refer to fields that are not in this review', fields: invalidFields });
+      }
+
+      const { error } = await rejectReview(review, req.userId as string, fieldComments, req.body.comment);
+      if (error) {
+        return res.status(409).json({ error });
+      }
+
+      res.json({ message: `Period ${review.period} sent back for changes`, review });
+    } catch (error) {
+      console.error('Reject review error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// POST Withdraw a pending review (company owner)
+router.post('/:id/withdraw', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const review = await MetricReview.findById(req.params.id);
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    if (!(await authorizeCompany(req, res, review.companyId, 'reviews.submit'))) {
+      return;
+    }
+
+    const { error } = await withdrawReview(review, req.userId as string);
+    if (error) {
+      return res.status(409).json({ error });
+    }
+
+    res.json({ message: `Review of ${review.period} withdrawn`, review });
+  } catch (error) {
+    console.error('Withdraw review error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
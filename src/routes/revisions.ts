@@ -0,0 +1,212 @@
+import express, { Response } from 'express';
+import { Model } from 'mongoose';
+import FacilityMetrics from '../models/FacilityMetrics';
+import MetricRevision, { RevisionModule } from '../models/MetricRevision';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { METRIC_MODULES } from '../services/metricRecordService';
+import { diffSnapshots, applyRevision } from '../services/revisionService';
+import { rollUpParentPeriods } from '../services/periodService';
+import { rollUpFacilityMetrics } from '../services/facilityService';
+import { getPeriodLockConflict } from '../services/periodLockService';
+import { getCompanyAccess, hasPermission, ApiKeyRestriction } from '../services/membershipService';
+import { Permission, getModuleWritePermission } from '../config/companyRoles';
+
+const router = express.Router();
+
+const REVISION_MODELS: Record<RevisionModule, Model<any>> = {
+  environment: METRIC_MODULES.environment.model,
+  social: METRIC_MODULES.social.model,
+  governance: METRIC_MODULES.governance.model,
+  facility: FacilityMetrics
+};
+
+const isRevisionModule = (module: string): module is RevisionModule => module in REVISION_MODELS;
+
+const parseRevisionNumber = (value: any): number | null => {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+};
+
+// Facility metrics hold environmental and social values; restoring a revision can change both
+const getRestorePermissions = (module: RevisionModule): Permission[] =>
+  module === 'facility'
+    ? ['metrics.environment.write', 'metrics.social.write']
+    : [getModuleWritePermission(module)];
+
+// Load a metric record (or, once deleted, its latest revision) whose company gives the user all the permissions
+const findAccessibleRecord = async (
+  module: RevisionModule,
+  recordId: string,
+  userId: string | undefined,
+  permissions: Permission[],
+  apiKey?: ApiKeyRestriction
+) => {
+  const record = await REVISION_MODELS[module].findById(recordId);
+  const companyId = record
+    ? record.companyId
+    : (await MetricRevision.findOne({ module, recordId }).sort({ revision: -1 }))?.companyId;
+
+  if (!companyId || !userId) {
+    return null;
+  }
+
+  const access = await getCompanyAccess(companyId.toString(), userId, apiKey);
+  return access && permissions.every(permission => hasPermission(access, permission)) ? { record } : null;
+};
+
+// GET Revisions of a metric record, newest first (snapshots via the single revision route)
+router.get('/:module/:recordId', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { module, recordId } = req.params;
+    if (!isRevisionModule(module)) {
+      return res.status(400).json({ error: 'Module must be one of environment, social, governance, facility' });
+    }
+
+    const owned = await findAccessibleRecord(module, recordId, req.userId, ['company.read'], req.apiKey);
+    if (!owned) {
+      return res.status(404).json({ error: 'Metrics not found or unauthorized' });
+    }
+
+    const revisions = await MetricRevision.find({ module, recordId })
+      .select('-snapshot')
+      .populate('userId', 'name email')
+      .sort({ revision: -1 });
+
+    res.json({ recordExists: !!owned.record, revisions });
+  } catch (error) {
+    console.error('Get revisions error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Field diff between two revisions (?from=2&to=5, to defaults to the latest)
+router.get('/:module/:recordId/diff', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { module, recordId } = req.params;
+    if (!isRevisionModule(module)) {
+      return res.status(400).json({ error: 'Module must be one of environment, social, governance, facility' });
+    }
+
+    const from = parseRevisionNumber(req.query.from);
+    const to = req.query.to === undefined ? undefined : parseRevisionNumber(req.query.to);
+    if (!from || to === null) {
+      return res.status(400).json({ error: 'from (and optionally to) must be revision numbers' });
+    }
+
+    const owned = await findAccessibleRecord(module, recordId, req.userId, ['company.read'], req.apiKey);
+    if (!owned) {
+      return res.status(404).json({ error: 'Metrics not found or unauthorized' });
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      MetricRevision.findOne({ module, recordId, revision: from }),
+      to
+        ? MetricRevision.findOne({ module, recordId, revision: to })
+        : MetricRevision.findOne({ module, recordId }).sort({ revision: -1 })
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json({
+      from: fromRevision.revision,
+      to: toRevision.revision,
+      changes: diffSnapshots(fromRevision.snapshot, toRevision.snapshot)
+    });
+  } catch (error) {
+    console.error('Diff revisions error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET Single revision with its full snapshot
+router.get('/:module/:recordId/:revision', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { module, recordId } = req.params;
+    if (!isRevisionModule(module)) {
+      return res.status(400).json({ error: 'Module must be one of environment, social, governance, facility' });
+    }
+
+    const revisionNumber = parseRevisionNumber(req.params.revision);
+    if (!revisionNumber) {
+      return res.status(400).json({ error: 'Revision must be a revision number' });
+    }
+
+    const owned = await findAccessibleRecord(module, recordId, req.userId, ['company.read'], req.apiKey);
+    if (!owned) {
+      return res.status(404).json({ error: 'Metrics not found or unauthorized' });
+    }
+
+    const revision = await MetricRevision.findOne({ module, recordId, revision: revisionNumber })
+      .populate('userId', 'name email');
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json({ revision });
+  } catch (error) {
+    console.error('Get revision error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Restore a record to an earlier revision (recorded as a new revision)
+router.post('/:module/:recordId/:revision/restore', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { module, recordId } = req.params;
+    if (!isRevisionModule(module)) {
+      return res.status(400).json({ error: 'Module must be one of environment, social, governance, facility' });
+    }
+
+    const revisionNumber = parseRevisionNumber(req.params.revision);
+    if (!revisionNumber) {
+      return res.status(400).json({ error: 'Revision must be a revision number' });
+    }
+
+    const owned = await findAccessibleRecord(module, recordId, req.userId, getRestorePermissions(module), req.apiKey);
+    if (!owned) {
+      return res.status(404).json({ error: 'Metrics not found or unauthorized' });
+    }
+
+    const { record } = owned;
+    if (!record) {
+      return res.status(404).json({ error: 'Metrics have been deleted - submit them again for the period' });
+    }
+
+    // Roll-ups would overwrite restored values straight away
+    if (record.periodRollup || record.facilityRollup) {
+      return res.status(409).json({
+        error: record.periodRollup
+          ? `These metrics are computed from ${record.periodRollup.sourcePeriods.join(', ')}, restore those records instead`
+          : 'These metrics are rolled up from facility metrics, restore the facility records instead'
+      });
+    }
+
+    const lockConflict = await getPeriodLockConflict(record.companyId.toString(), record.period);
+    if (lockConflict) {
+      return res.status(409).json({ error: lockConflict });
+    }
+
+    const revision = await MetricRevision.findOne({ module, recordId, revision: revisionNumber });
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    applyRevision(record, revision, req.userId);
+    await record.save();
+
+    if (module === 'facility') {
+      await rollUpFacilityMetrics(record.companyId.toString(), record.period);
+    } else {
+      await rollUpParentPeriods(record.companyId.toString(), record.period);
+    }
+
+    res.json({ message: `Restored revision ${revisionNumber}`, metrics: record });
+  } catch (error) {
+    console.error('Restore revision error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
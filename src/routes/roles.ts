@@ -0,0 +1,139 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import CustomRole from '../models/CustomRole';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { requirePermission } from '../middleware/companyAccess';
+import { requireFeature } from '../middleware/requireFeature';
+import { PERMISSIONS } from '../config/companyRoles';
+import { getCompanyRoles, validateCustomRole, getRoleDeleteConflict } from '../services/roleService';
+
+const router = express.Router();
+
+const roleValidators = [
+  body('name').optional().isString().trim(),
+  body('description').optional().isString().trim(),
+  body('permissions').optional().isArray()
+];
+
+// GET The permission catalogue (must come before /:companyId to avoid route conflicts)
+router.get('/permissions', authenticate, (req: AuthRequest, res: Response) => {
+  res.json({
+    permissions: Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description }))
+  });
+});
+
+// GET Built-in and custom roles of a company with their permissions
+router.get('/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const roles = await getCompanyRoles(req.params.companyId);
+    res.json({ roles });
+  } catch (error) {
+    console.error('Get roles error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// POST Custom role (Enterprise) - members are given it by key
+router.post(
+  '/:companyId',
+  authenticate,
+  requirePermission('roles.manage'),
+  requireFeature('CUSTOM_ROLES'),
+  [body('key').isString().trim().notEmpty().withMessage('Key is required'), ...roleValidators],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { key, name, description, permissions } = req.body;
+      const validationErrors = validateCustomRole({ key, name, permissions });
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid role', validationErrors });
+      }
+
+      const existing = await CustomRole.findOne({ companyId: req.params.companyId, key });
+      if (existing) {
+        return res.status(409).json({ error: `A role with the key ${key} already exists`, roleId: existing._id });
+      }
+
+      const role = await CustomRole.create({
+        companyId: req.params.companyId,
+        key,
+        name,
+        description,
+        permissions,
+        createdBy: req.userId
+      });
+
+      res.status(201).json({
+        message: 'Role created successfully',
+        role
+      });
+    } catch (error) {
+      console.error('Create role error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// PUT update a custom role's name, description or permissions (the key cannot change)
+router.put(
+  '/:companyId/:key',
+  authenticate,
+  requirePermission('roles.manage'),
+  requireFeature('CUSTOM_ROLES'),
+  roleValidators,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const role = await CustomRole.findOne({ companyId: req.params.companyId, key: req.params.key });
+      if (!role) {
+        return res.status(404).json({ error: 'Role not found (built-in roles cannot be changed)' });
+      }
+
+      ['name', 'description', 'permissions'].forEach(field => {
+        if (req.body[field] !== undefined) role.set(field, req.body[field]);
+      });
+
+      const validationErrors = validateCustomRole(role.toObject());
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid role', validationErrors });
+      }
+
+      await role.save();
+      res.json({ message: 'Role updated successfully', role });
+    } catch (error) {
+      console.error('Update role error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// DELETE Custom role (not while members have it; allowed after leaving Enterprise so roles can be cleaned up)
+router.delete('/:companyId/:key', authenticate, requirePermission('roles.manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const role = await CustomRole.findOne({ companyId: req.params.companyId, key: req.params.key });
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found (built-in roles cannot be deleted)' });
+    }
+
+    const conflict = await getRoleDeleteConflict(role);
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+
+    await role.deleteOne();
+    res.json({ message: 'Role deleted successfully' });
+  } catch (error) {
+    console.error('Delete role error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,197 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { ICompany } from '../models/Company';
+import Target from '../models/Target';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { requirePermission, authorizeCompany } from '../middleware/companyAccess';
+import { getCompanyAccess, hasPermission, ApiKeyRestriction } from '../services/membershipService';
+import { Permission } from '../config/companyRoles';
+import { validateTarget, findTargetMetricValue, evaluateTarget, evaluateTargets } from '../services/targetService';
+
+const router = express.Router();
+
+const TARGET_FIELDS = ['name', 'metricKey', 'baselinePeriod', 'baselineValue', 'targetYear', 'targetValue', 'trajectory', 'milestones', 'isActive'];
+
+// Target details (shared by create and update) - metric, periods and milestones are checked by validateTarget
+const targetValidators = [
+  body('name').optional().isString().trim(),
+  body('metricKey').optional().isString(),
+  body('baselinePeriod').optional().isString(),
+  body('baselineValue').optional().isFloat({ min: 0 }).withMessage('Baseline value must be a non-negative number'),
+  body('targetYear').optional().isInt({ min: 2000, max: 2100 }).withMessage('Target year must be a year'),
+  body('targetValue').optional().isFloat({ min: 0 }).withMessage('Target value must be a non-negative number'),
+  body('trajectory').optional().isIn(['linear', 'milestones']).withMessage('Trajectory must be linear or milestones'),
+  body('milestones').optional().isArray(),
+  body('isActive').optional().isBoolean()
+];
+
+// Load a target whose company gives the user the permission
+const findAccessibleTarget = async (
+  targetId: string,
+  userId: string | undefined,
+  permission: Permission,
+  apiKey?: ApiKeyRestriction
+) => {
+  const target = await Target.findById(targetId);
+  if (!target || !userId) {
+    return null;
+  }
+
+  const access = await getCompanyAccess(target.companyId.toString(), userId, apiKey);
+  return access && hasPermission(access, permission) ? target : null;
+};
+
+// POST Target (the baseline value defaults to the stored metric for the baseline period)
+router.post(
+  '/',
+  authenticate,
+  [
+    body('companyId').notEmpty(),
+    body('metricKey').notEmpty().withMessage('Metric is required'),
+    body('baselinePeriod').notEmpty().withMessage('Baseline period is required'),
+    body('targetYear').notEmpty().withMessage('Target year is required'),
+    body('targetValue').notEmpty().withMessage('Target value is required'),
+    ...targetValidators
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const company = await authorizeCompany(req, res, req.body.companyId, 'targets.write');
+      if (!company) {
+        return;
+      }
+
+      const validationErrors = validateTarget(req.body);
+      if (validationErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid target', validationErrors });
+      }
+
+      const target = new Target({
+        ...Object.fromEntries(TARGET_FIELDS.filter(field => req.body[field] !== undefined).map(field => [field, req.body[field]])),
+        companyId: company._id,
+        createdBy: req.userId
+      });
+
+      if (target.baselineValue === undefined) {
+        const baselineValue = await findTargetMetricValue(company._id.toString(), target.metricKey, target.baselinePeriod);
+        if (baselineValue === null) {
+          return res.status(400).json({ error: `No ${target.metricKey} value is stored for ${target.baselinePeriod} - provide a baseline value` });
+        }
+        target.baselineValue = baselineValue;
+      }
+
+      await target.save();
+      const progress = await evaluateTarget(target);
+
+      res.status(201).json({
+        message: 'Target created successfully',
+        target,
+        progress
+      });
+    } catch (error) {
+      console.error('Create target error:', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// GET Target by ID with its progress (must come before /:companyId to avoid route conflicts)
+router.get('/id/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const target = await findAccessibleTarget(req.params.id, req.userId, 'company.read', req.apiKey);
+    if (!target) {
+      return res.status(404).json({ error: 'Target not found or unauthorized' });
+    }
+
+    const progress = await evaluateTarget(target);
+    res.json({ target, progress });
+  } catch (error) {
+    console.error('Get target error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// GET all targets for a company with their progress (inactive targets are listed without it)
+router.get('/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const company = req.company as ICompany;
+
+    const [active, inactive] = await Promise.all([
+      evaluateTargets(company._id.toString()),
+      Target.find({ companyId: company._id, isActive: false }).sort({ targetYear: 1 })
+    ]);
+
+    const targets = [
+      ...active.map(({ target, progress }) => ({ ...target.toObject(), progress })),
+      ...inactive.map(target => ({ ...target.toObject(), progress: null }))
+    ];
+
+    res.json({
+      summary: {
+        total: targets.length,
+        achieved: active.filter(({ progress }) => progress.status === 'achieved').length,
+        onTrack: active.filter(({ progress }) => progress.status === 'on-track').length,
+        offTrack: active.filter(({ progress }) => progress.status === 'off-track').length,
+        noData: active.filter(({ progress }) => progress.status === 'no-data').length
+      },
+      targets
+    });
+  } catch (error) {
+    console.error('Get targets error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// PUT update Target
+router.put('/:id', authenticate, targetValidators, async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const target = await findAccessibleTarget(req.params.id, req.userId, 'targets.write', req.apiKey);
+    if (!target) {
+      return res.status(404).json({ error: 'Target not found or unauthorized' });
+    }
+
+    TARGET_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) target.set(field, req.body[field]);
+    });
+
+    const validationErrors = validateTarget(target.toObject());
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid target', validationErrors });
+    }
+
+    await target.save();
+    const progress = await evaluateTarget(target);
+
+    res.json({ message: 'Target updated successfully', target, progress });
+  } catch (error) {
+    console.error('Update target error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// DELETE Target (tasks it raised are kept)
+router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const target = await findAccessibleTarget(req.params.id, req.userId, 'targets.write', req.apiKey);
+    if (!target) {
+      return res.status(404).json({ error: 'Target not found or unauthorized' });
+    }
+
+    await Target.findByIdAndDelete(target._id);
+    res.json({ message: 'Target deleted successfully' });
+  } catch (error) {
+    console.error('Delete target error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
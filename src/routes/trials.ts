@@ -1,6 +1,7 @@
 import express, { Response } from 'express';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import Company from '../models/Company';
+import { ICompany } from '../models/Company';
+import { requirePermission } from '../middleware/companyAccess';
 import { startTrial, convertTrialToPaid, getTrialEligibility, handleTrialExpiration, getTrialDaysRemaining } from '../services/trialService';
 
 const router = express.Router();
@@ -9,18 +10,9 @@ const router = express.Router();
  * Get trial status for company
  * GET /api/trials/status/:companyId
  */
-router.get('/status/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/status/:companyId', authenticate, requirePermission('company.read'), async (req: AuthRequest, res: Response) => {
   try {
-    const company = await Company.findById(req.params.companyId);
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found' });
-    }
-
-    // Check if user has access to this company
-    if (company.userId.toString() !== req.userId) {
-      return res.status(403).json({ error: 'Access denied' });
-    }
-
+    const company = req.company as ICompany;
     const daysRemaining = getTrialDaysRemaining(company);
     const isExpired = company.isTrial && company.trialEndDate && new Date() >= new Date(company.trialEndDate);
 
@@ -42,18 +34,8 @@ router.get('/status/:companyId', authenticate, async (req: AuthRequest, res: Res
  * Start trial for Pro plan
  * POST /api/trials/start/:companyId
  */
-router.post('/start/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/start/:companyId', authenticate, requirePermission('company.manage'), async (req: AuthRequest, res: Response) => {
   try {
-    const company = await Company.findById(req.params.companyId);
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found' });
-    }
-
-    // Check if user has access to this company
-    if (company.userId.toString() !== req.userId) {
-      return res.status(403).json({ error: 'Access denied' });
-    }
-
     const result = await startTrial(req.params.companyId);
     
     if (!result.success) {
@@ -74,18 +56,8 @@ router.post('/start/:companyId', authenticate, async (req: AuthRequest, res: Res
  * Convert trial to paid subscription
  * POST /api/trials/convert/:companyId
  */
-router.post('/convert/:companyId', authenticate, async (req: AuthRequest, res: Response) => {
+router.post('/convert/:companyId', authenticate, requirePermission('company.manage'), async (req: AuthRequest, res: Response) => {
   try {
-    const company = await Company.findById(req.params.companyId);
-    if (!company) {
-      return res.status(404).json({ error: 'Company not found' });
-    }
-
-    // Check if user has access to this company
-    if (company.userId.toString() !== req.userId) {
-      return res.status(403).json({ error: 'Access denied' });
-    }
-
     await convertTrialToPaid(req.params.companyId);
 
     res.json({
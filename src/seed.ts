@@ -4,11 +4,23 @@ import dotenv from 'dotenv';
 import { connectDatabase } from './config/database';
 import User from './models/User';
 import Company from './models/Company';
+import CompanyMember from './models/CompanyMember';
 import EnvironmentalMetrics from './models/EnvironmentalMetrics';
 import SocialMetrics from './models/SocialMetrics';
 import GovernanceMetrics from './models/GovernanceMetrics';
 import ESGScore from './models/ESGScore';
+import MetricRevision from './models/MetricRevision';
+import RevisionCounter from './models/RevisionCounter';
+import ReportingPeriod from './models/ReportingPeriod';
+import MetricReview from './models/MetricReview';
+import CommentThread from './models/CommentThread';
+import DataQualityFlag from './models/DataQualityFlag';
+import Target from './models/Target';
+import CustomRole from './models/CustomRole';
+import GroupConsolidation from './models/GroupConsolidation';
+import ApiKey from './models/ApiKey';
 import { calculateESGScore } from './services/esgScoring';
+import { submitForReview, approveReview } from './services/reviewService';
 
 dotenv.config();
 
@@ -22,10 +34,21 @@ const seedData = async () => {
     console.log('🗑️  Clearing existing data...');
     await User.deleteMany({});
     await Company.deleteMany({});
+    await CompanyMember.deleteMany({});
     await EnvironmentalMetrics.deleteMany({});
     await SocialMetrics.deleteMany({});
     await GovernanceMetrics.deleteMany({});
     await ESGScore.deleteMany({});
+    await MetricRevision.deleteMany({});
+    await RevisionCounter.deleteMany({});
+    await ReportingPeriod.deleteMany({});
+    await MetricReview.deleteMany({});
+    await CommentThread.deleteMany({});
+    await DataQualityFlag.deleteMany({});
+    await Target.deleteMany({});
+    await CustomRole.deleteMany({});
+    await GroupConsolidation.deleteMany({});
+    await ApiKey.deleteMany({});
     console.log('✅ Existing data cleared\n');
 
     // Create test users
@@ -145,10 +168,10 @@ const seedData = async () => {
           companyId: company._id,
           period,
           // Base values adjusted by company size
-          electricityUsageKwh: Math.round((45000 - i * 2000) * (company.employeeCount / 150)),
-          fuelConsumptionLitres: Math.round((3000 - i * 150) * (company.employeeCount / 150)),
+          electricityKwh: Math.round((45000 - i * 2000) * (company.employeeCount / 150)),
+          fuelLitres: Math.round((3000 - i * 150) * (company.employeeCount / 150)),
           waterUsageKL: Math.round((800 - i * 40) * (company.employeeCount / 150)),
-          wasteGeneratedKg: Math.round((4000 - i * 200) * (company.employeeCount / 150)),
+          totalWasteTonnes: Math.round((4000 - i * 200) * (company.employeeCount / 150)) / 1000,
           renewableEnergyPercent: Math.min(25 + i * 5, 40), // Increasing renewable energy
           carbonEmissionsTons: Math.round((120 - i * 8) * (company.employeeCount / 150))
         };
@@ -157,10 +180,10 @@ const seedData = async () => {
         const socialData = {
           companyId: company._id,
           period,
-          totalEmployees: company.employeeCount + i * 5, // Growing workforce
-          femaleEmployees: Math.round((company.employeeCount + i * 5) * (0.30 + improvement)), // Improving diversity
-          avgTrainingHours: 24 + i * 4, // Increasing training
-          workplaceIncidents: Math.max(1 - i, 0), // Improving safety
+          totalEmployeesPermanent: company.employeeCount + i * 5, // Growing workforce
+          femalePercentWorkforce: Math.round((0.30 + improvement) * 100), // Improving diversity
+          totalTrainingHoursPerEmployee: 24 + i * 4, // Increasing training
+          accidentIncidents: Math.max(1 - i, 0), // Improving safety
           employeeTurnoverPercent: Math.max(8 - i, 4) // Reducing turnover
         };
 
@@ -179,6 +202,14 @@ const seedData = async () => {
         await SocialMetrics.create(socialData);
         await GovernanceMetrics.create(govData);
 
+        // Seeded data is treated as reviewed - submitted by the owner, approved by another admin
+        const ownerId = company.userId.toString();
+        const reviewerId = ownerId === users[0]._id.toString() ? users[3]._id.toString() : users[0]._id.toString();
+        const { review } = await submitForReview(company._id.toString(), period, ownerId);
+        if (review) {
+          await approveReview(review, reviewerId, 'Seed data');
+        }
+
         // Calculate and save ESG score
         try {
           const scores = await calculateESGScore(company._id.toString(), period);
@@ -16,6 +16,16 @@ import complianceRoutes from './routes/compliance';
 import tasksRoutes from './routes/tasks';
 import plansRoutes from './routes/plans';
 import trialsRoutes from './routes/trials';
+import facilitiesRoutes from './routes/facilities';
+import revisionsRoutes from './routes/revisions';
+import periodsRoutes from './routes/periods';
+import reviewsRoutes from './routes/reviews';
+import commentsRoutes from './routes/comments';
+import targetsRoutes from './routes/targets';
+import rolesRoutes from './routes/roles';
+import portfolioRoutes from './routes/portfolio';
+import groupRoutes from './routes/groups';
+import apiKeyRoutes from './routes/apiKeys';
 
 // Load environment variables
 dotenv.config();
@@ -51,6 +61,16 @@ app.use('/api/compliance', complianceRoutes);
 app.use('/api/tasks', tasksRoutes);
 app.use('/api/plans', plansRoutes);
 app.use('/api/trials', trialsRoutes);
+app.use('/api/facilities', facilitiesRoutes);
+app.use('/api/revisions', revisionsRoutes);
+app.use('/api/periods', periodsRoutes);
+app.use('/api/reviews', reviewsRoutes);
+app.use('/api/comments', commentsRoutes);
+app.use('/api/targets', targetsRoutes);
+app.use('/api/roles', rolesRoutes);
+app.use('/api/portfolio', portfolioRoutes);
+app.use('/api/groups', groupRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -0,0 +1,217 @@
+import { Model } from 'mongoose';
+import Company from '../models/Company';
+import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
+import SocialMetrics from '../models/SocialMetrics';
+import GovernanceMetrics from '../models/GovernanceMetrics';
+import DataQualityFlag, { DataQualityFlagType } from '../models/DataQualityFlag';
+import {
+  ANOMALY_THRESHOLDS,
+  AnomalyField,
+  PlausibilityCheck,
+  ENVIRONMENTAL_ANOMALY_FIELDS,
+  SOCIAL_ANOMALY_FIELDS,
+  GOVERNANCE_ANOMALY_FIELDS,
+  ENVIRONMENTAL_PLAUSIBILITY_CHECKS,
+  SOCIAL_PLAUSIBILITY_CHECKS,
+  GOVERNANCE_PLAUSIBILITY_CHECKS
+} from '../config/anomalyDetection';
+import { parsePeriod } from './periodService';
+
+export type DataQualityModule = 'environment' | 'social' | 'governance';
+
+export interface DataQualityWarning {
+  type: DataQualityFlagType;
+  fields: string[];
+  message: string;
+  ruleKey?: string;
+  value?: number;
+  baseline?: number;
+  score?: number;
+}
+
+interface DataQualityDefinition {
+  model: Model<any>;
+  fields: AnomalyField[];
+  checks: PlausibilityCheck[];
+}
+
+const DATA_QUALITY_MODULES: Record<DataQualityModule, DataQualityDefinition> = {
+  environment: { model: EnvironmentalMetrics, fields: ENVIRONMENTAL_ANOMALY_FIELDS, checks: ENVIRONMENTAL_PLAUSIBILITY_CHECKS },
+  social: { model: SocialMetrics, fields: SOCIAL_ANOMALY_FIELDS, checks: SOCIAL_PLAUSIBILITY_CHECKS },
+  governance: { model: GovernanceMetrics, fields: GOVERNANCE_ANOMALY_FIELDS, checks: GOVERNANCE_PLAUSIBILITY_CHECKS }
+};
+
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const formatValue = (value: number): string => value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[], mean: number): number =>
+  Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+
+// Same-type periods (month, quarter or FY) before this one, most recent first
+const findEarlierRecords = async (model: Model<any>, companyId: string, period: string): Promise<any[]> => {
+  const type = parsePeriod(period)?.type;
+  const records = await model.find({ companyId, period: { $lt: period } }).sort({ period: -1 }).lean();
+  return records
+    .filter((record: any) => parsePeriod(record.period)?.type === type)
+    .slice(0, ANOMALY_THRESHOLDS.historyMaxPeriods);
+};
+
+const checkPeriodChange = (field: string, value: number, previous: any): DataQualityWarning | null => {
+  const before = previous?.[field];
+  if (!isNumber(before) || before <= 0 || value <= 0) return null;
+  if (Math.max(value, before) < ANOMALY_THRESHOLDS.percentChangeMinValue) return null;
+
+  // Falls are measured the other way round, so x10 and /10 are treated alike
+  const change = (Math.max(value, before) / Math.min(value, before) - 1) * 100;
+  if (change <= ANOMALY_THRESHOLDS.percentChange) return null;
+
+  const percentChange = round(((value - before) / before) * 100);
+  return {
+    type: 'period-change',
+    fields: [field],
+    message: `${field} changed from ${formatValue(before)} in ${previous.period} to ${formatValue(value)} (${percentChange > 0 ? '+' : ''}${formatValue(percentChange)}%)`,
+    value,
+    baseline: before,
+    score: percentChange
+  };
+};
+
+const checkHistory = (field: string, value: number, earlier: any[]): DataQualityWarning | null => {
+  const history = earlier.map(record => record[field]).filter(isNumber);
+  if (history.length < ANOMALY_THRESHOLDS.historyMinPeriods) return null;
+
+  const mean = average(history);
+  const deviation = standardDeviation(history, mean);
+  if (deviation === 0) return null;
+
+  const zScore = (value - mean) / deviation;
+  if (Math.abs(zScore) <= ANOMALY_THRESHOLDS.historyZScore) return null;
+
+  return {
+    type: 'history',
+    fields: [field],
+    message: `${field} of ${formatValue(value)} is ${formatValue(round(Math.abs(zScore)))} standard deviations from the company's average of ${formatValue(round(mean))} over the previous ${history.length} periods`,
+    value,
+    baseline: mean,
+    score: round(zScore)
+  };
+};
+
+// Totals are compared per employee so peers of different sizes are comparable
+const toPeerValue = (value: any, field: AnomalyField, employeeCount?: number): number | null => {
+  if (!isNumber(value)) return null;
+  if (field.scale === 'rate') return value;
+  return employeeCount ? value / employeeCount : null;
+};
+
+const checkPeers = async (
+  module: DataQualityModule,
+  companyId: string,
+  period: string,
+  values: Record<string, any>
+): Promise<DataQualityWarning[]> => {
+  const { model, fields } = DATA_QUALITY_MODULES[module];
+  const company = await Company.findById(companyId).select('industry employeeCount');
+  if (!company) return [];
+
+  const peers = await Company.find({ industry: company.industry, _id: { $ne: company._id } }).select('employeeCount');
+  if (peers.length < ANOMALY_THRESHOLDS.peerMinCompanies) return [];
+
+  const peerRecords = await model.find({ companyId: { $in: peers.map(peer => peer._id) }, period }).lean();
+  const employeesByCompany = new Map(peers.map(peer => [peer._id.toString(), peer.employeeCount]));
+
+  return fields.flatMap(field => {
+    const value = toPeerValue(values[field.field], field, company.employeeCount);
+    if (value === null) return [];
+
+    const peerValues = peerRecords
+      .map((record: any) => toPeerValue(record[field.field], field, employeesByCompany.get(record.companyId.toString())))
+      .filter(isNumber);
+    if (peerValues.length < ANOMALY_THRESHOLDS.peerMinCompanies) return [];
+
+    const mean = average(peerValues);
+    const deviation = standardDeviation(peerValues, mean);
+    if (deviation === 0) return [];
+
+    const zScore = (value - mean) / deviation;
+    if (Math.abs(zScore) <= ANOMALY_THRESHOLDS.peerZScore) return [];
+
+    const label = field.scale === 'total' ? `${field.field} per employee` : field.field;
+    return [{
+      type: 'peer' as DataQualityFlagType,
+      fields: [field.field],
+      message: `${label} of ${formatValue(round(value))} is ${formatValue(round(Math.abs(zScore)))} standard deviations from ${peerValues.length} ${company.industry} peers (average ${formatValue(round(mean))})`,
+      value,
+      baseline: mean,
+      score: round(zScore)
+    }];
+  });
+};
+
+const checkPlausibility = (checks: PlausibilityCheck[], values: Record<string, any>): DataQualityWarning[] =>
+  checks
+    .filter(check => check.fields.every(field => isNumber(values[field])) && check.isImplausible(values))
+    .map(check => ({ type: 'implausible' as DataQualityFlagType, fields: check.fields, message: check.message }));
+
+/**
+ * Flag values of a saved record that jump from earlier periods, stand out from industry peers or cannot be right
+ */
+export const detectAnomalies = async (module: DataQualityModule, record: any): Promise<DataQualityWarning[]> => {
+  const { model, fields, checks } = DATA_QUALITY_MODULES[module];
+  const values = typeof record.toObject === 'function' ? record.toObject() : record;
+  const companyId = values.companyId.toString();
+
+  const earlier = await findEarlierRecords(model, companyId, values.period);
+  const warnings: DataQualityWarning[] = [];
+
+  fields.forEach(({ field }) => {
+    const value = values[field];
+    if (!isNumber(value)) return;
+
+    const change = checkPeriodChange(field, value, earlier[0]);
+    if (change) warnings.push(change);
+    const history = checkHistory(field, value, earlier);
+    if (history) warnings.push(history);
+  });
+
+  warnings.push(...await checkPeers(module, companyId, values.period, values));
+  warnings.push(...checkPlausibility(checks, values));
+  return warnings;
+};
+
+/**
+ * Detect anomalies on a saved record and store them, with any consistency warnings,
+ * for the data-quality dashboard (replacing earlier flags)
+ */
+export const recordDataQualityFlags = async (
+  module: DataQualityModule,
+  record: any,
+  consistencyWarnings: DataQualityWarning[] = []
+): Promise<DataQualityWarning[]> => {
+  const warnings = [...consistencyWarnings, ...await detectAnomalies(module, record)];
+
+  await DataQualityFlag.deleteMany({ recordId: record._id });
+  if (warnings.length > 0) {
+    await DataQualityFlag.insertMany(warnings.map(warning => ({
+      ...warning,
+      companyId: record.companyId,
+      module,
+      recordId: record._id,
+      period: record.period
+    })));
+  }
+
+  return warnings;
+};
+
+/**
+ * Remove the flags of a deleted record
+ */
+export const clearDataQualityFlags = async (recordId: string): Promise<void> => {
+  await DataQualityFlag.deleteMany({ recordId });
+};
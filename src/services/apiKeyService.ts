@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import ApiKey, { IApiKey } from '../models/ApiKey';
+import Company from '../models/Company';
+import { companyHasFeature } from '../middleware/requireFeature';
+import { Permission, PERMISSIONS } from '../config/companyRoles';
+import {
+  API_KEY_PREFIX,
+  API_KEY_DISPLAY_LENGTH,
+  MAX_RATE_LIMIT_PER_MINUTE,
+  RATE_LIMIT_WINDOW_MS,
+  LAST_USED_INTERVAL_MS
+} from '../config/apiKeys';
+
+export interface ApiKeySettings {
+  name: string;
+  scopes: Permission[];
+  rateLimitPerMinute?: number;
+  expiresAt?: Date;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+// Keys are random, so a fast hash is enough to keep them unusable if the database leaks
+const hashApiKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+export const isApiKey = (token: string): boolean => token.startsWith(API_KEY_PREFIX);
+
+export const isApiKeyActive = (apiKey: IApiKey, now = new Date()): boolean =>
+  !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > now);
+
+/**
+ * Check a key's name, scopes and limits - scopes cannot go beyond what the creator can do in the company
+ */
+export const validateApiKeySettings = (
+  settings: { name?: string; scopes?: string[]; rateLimitPerMinute?: number; expiresAt?: Date },
+  creatorPermissions: Permission[]
+): string[] => {
+  const errors: string[] = [];
+
+  if (!settings.name || !settings.name.trim()) {
+    errors.push('Name is required');
+  }
+
+  const scopes = settings.scopes || [];
+  if (scopes.length === 0) {
+    errors.push('A key needs at least one scope');
+  }
+  const unknown = scopes.filter(scope => !(scope in PERMISSIONS));
+  if (unknown.length > 0) {
+    errors.push(`Unknown scopes: ${unknown.join(', ')}`);
+  }
+  const beyondCreator = scopes.filter(scope => scope in PERMISSIONS && !creatorPermissions.includes(scope as Permission));
+  if (beyondCreator.length > 0) {
+    errors.push(`Your role does not have these permissions: ${beyondCreator.join(', ')}`);
+  }
+
+  if (settings.rateLimitPerMinute !== undefined &&
+    (!Number.isInteger(settings.rateLimitPerMinute) || settings.rateLimitPerMinute < 1 || settings.rateLimitPerMinute > MAX_RATE_LIMIT_PER_MINUTE)) {
+    errors.push(`Rate limit must be between 1 and ${MAX_RATE_LIMIT_PER_MINUTE} requests per minute`);
+  }
+
+  if (settings.expiresAt && settings.expiresAt <= new Date()) {
+    errors.push('Expiry must be in the future');
+  }
+
+  return errors;
+};
+
+/**
+ * Store a new key and return it in clear - the only time it is available
+ */
+export const createApiKey = async (
+  companyId: string,
+  userId: string,
+  settings: ApiKeySettings,
+  rotatedFromId?: string
+): Promise<{ apiKey: IApiKey; key: string }> => {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+
+  const apiKey = await ApiKey.create({
+    companyId,
+    name: settings.name,
+    keyPrefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+    keyHash: hashApiKey(key),
+    scopes: settings.scopes,
+    rateLimitPerMinute: settings.rateLimitPerMinute,
+    expiresAt: settings.expiresAt,
+    rotatedFromId,
+    createdBy: userId
+  });
+
+  // keyHash is not selected by default - leave it out of the response like a loaded key
+  apiKey.set('keyHash', undefined);
+  return { apiKey, key };
+};
+
+/**
+ * Replace a key with a new one with the same settings
+ * The old key stops working at once, or after the grace period so integrations can switch over
+ */
+export const rotateApiKey = async (
+  apiKey: IApiKey,
+  userId: string,
+  graceMinutes = 0
+): Promise<{ apiKey: IApiKey; key: string }> => {
+  const replacement = await createApiKey(
+    apiKey.companyId.toString(),
+    userId,
+    {
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+      expiresAt: apiKey.expiresAt
+    },
+    apiKey._id.toString()
+  );
+
+  if (graceMinutes > 0) {
+    const graceEnd = new Date(Date.now() + graceMinutes * 60 * 1000);
+    if (!apiKey.expiresAt || apiKey.expiresAt > graceEnd) {
+      apiKey.expiresAt = graceEnd;
+    }
+  } else {
+    apiKey.revokedAt = new Date();
+    apiKey.set('revokedBy', userId);
+  }
+  await apiKey.save();
+
+  return replacement;
+};
+
+/**
+ * Find the active key for a bearer token and record its use
+ * Fails for unknown, revoked or expired keys, and once the company's plan no longer includes API access
+ */
+export const authenticateApiKey = async (
+  key: string,
+  ip?: string
+): Promise<{ apiKey?: IApiKey; error?: string; status?: number }> => {
+  const apiKey = await ApiKey.findOne({ keyHash: hashApiKey(key) });
+  const now = new Date();
+  if (!apiKey || !isApiKeyActive(apiKey, now)) {
+    return { error: 'Invalid, revoked or expired API key', status: 401 };
+  }
+
+  const company = await Company.findById(apiKey.companyId);
+  if (!company) {
+    return { error: 'Invalid, revoked or expired API key', status: 401 };
+  }
+  if (!companyHasFeature(company, company.plan, 'API_ACCESS')) {
+    return { error: 'API access is not available for the company\'s plan', status: 403 };
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+    await ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: now, lastUsedIp: ip } });
+  }
+
+  return { apiKey };
+};
+
+// Requests per key in the current window - kept in this process, so each server instance counts separately
+const rateLimitWindows = new Map<string, { windowStart: number; count: number }>();
+let lastSweep = Date.now();
+
+// Drop finished windows (keys no longer used, revoked or expired), at most once per window
+const sweepRateLimitWindows = (now: number): void => {
+  if (now - lastSweep < RATE_LIMIT_WINDOW_MS) return;
+  lastSweep = now;
+  for (const [keyId, window] of rateLimitWindows) {
+    if (now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+      rateLimitWindows.delete(keyId);
+    }
+  }
+};
+
+/**
+ * Count a request against the key's per-minute limit
+ */
+export const consumeRateLimit = (apiKey: IApiKey): RateLimitResult => {
+  const keyId = apiKey._id.toString();
+  const now = Date.now();
+  let window = rateLimitWindows.get(keyId);
+  if (!window || now - window.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    sweepRateLimitWindows(now);
+    window = { windowStart: now, count: 0 };
+    rateLimitWindows.set(keyId, window);
+  }
+
+  const limit = apiKey.rateLimitPerMinute;
+  const allowed = window.count < limit;
+  if (allowed) window.count++;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetSeconds: Math.ceil((window.windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000)
+  };
+};
@@ -0,0 +1,198 @@
+import Company from '../models/Company';
+import ESGScore from '../models/ESGScore';
+import {
+  MIN_BENCHMARK_COHORT_SIZE,
+  BENCHMARK_METRICS,
+  BenchmarkMetric,
+  getEmployeeBand
+} from '../config/benchmarking';
+import { findApprovedMetrics } from './reviewService';
+import { readEnvironmentalMetrics, readSocialMetrics } from './metricAccessor';
+
+export interface MetricBenchmark {
+  key: string;
+  label: string;
+  unit: string;
+  higherIsBetter: boolean;
+  value: number | null;
+  available: boolean; // False when the value is missing or too few peers reported it
+  cohortSize?: number;
+  percentile?: number; // 0-100, higher is always better
+  p25?: number;
+  median?: number;
+  p75?: number;
+}
+
+export interface CohortBenchmark {
+  type: 'industry' | 'industry-size';
+  label: string;
+  metrics: MetricBenchmark[];
+}
+
+export interface BenchmarkResult {
+  benchmark?: {
+    period: string;
+    industry: string;
+    employeeBand: string;
+    minCohortSize: number;
+    cohorts: CohortBenchmark[];
+  };
+  error?: string;
+}
+
+interface PeerValues {
+  companyId: string;
+  employeeBand: string;
+  values: Record<string, number | null>;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Linear interpolation between the closest ranks - a quartile landing exactly on one company's value
+// is averaged with its neighbours instead, so it never reveals that value
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  if (lower === upper) {
+    const neighbours = sorted.slice(Math.max(0, lower - 1), lower + 2);
+    return neighbours.reduce((sum, value) => sum + value, 0) / neighbours.length;
+  }
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Share of the cohort below the value, counting ties as half
+const percentileRank = (value: number, values: number[]): number => {
+  const below = values.filter(v => v < value).length;
+  const equal = values.filter(v => v === value).length;
+  return ((below + equal / 2) / values.length) * 100;
+};
+
+const benchmarkMetric = (
+  metric: BenchmarkMetric,
+  value: number | null,
+  cohortValues: number[],
+  peerCount: number
+): MetricBenchmark => {
+  const base = { key: metric.key, label: metric.label, unit: metric.unit, higherIsBetter: metric.higherIsBetter };
+  if (value === null || peerCount < MIN_BENCHMARK_COHORT_SIZE) {
+    return { ...base, value: value === null ? null : round(value), available: false };
+  }
+
+  const sorted = [...cohortValues].sort((a, b) => a - b);
+  const rank = percentileRank(value, sorted);
+  return {
+    ...base,
+    value: round(value),
+    available: true,
+    cohortSize: sorted.length,
+    percentile: Math.round(metric.higherIsBetter ? rank : 100 - rank),
+    p25: round(quantile(sorted, 0.25)),
+    median: round(quantile(sorted, 0.5)),
+    p75: round(quantile(sorted, 0.75))
+  };
+};
+
+const benchmarkCohort = (
+  type: CohortBenchmark['type'],
+  label: string,
+  own: PeerValues,
+  peers: PeerValues[]
+): CohortBenchmark => ({
+  type,
+  label,
+  metrics: BENCHMARK_METRICS.map(metric => {
+    const reporting = peers.filter(peer => peer.values[metric.key] !== null);
+    return benchmarkMetric(
+      metric,
+      own.values[metric.key],
+      reporting.map(peer => peer.values[metric.key] as number),
+      reporting.filter(peer => peer.companyId !== own.companyId).length
+    );
+  })
+});
+
+/**
+ * Load the benchmarked values of every company in an industry with an ESG score for the period
+ * Intensities use approved data only, like the scores themselves
+ */
+const loadPeerValues = async (industry: string, period: string): Promise<PeerValues[]> => {
+  const companies = await Company.find({ industry }).select('employeeCount annualRevenue');
+  const scores = await ESGScore.find({ companyId: { $in: companies.map(company => company._id) }, period })
+    .sort({ calculatedAt: -1 });
+
+  // Latest calculation per company
+  const latestScores = new Map<string, any>();
+  scores.forEach(score => {
+    const key = score.companyId.toString();
+    if (!latestScores.has(key)) latestScores.set(key, score);
+  });
+
+  return Promise.all(companies
+    .filter(company => latestScores.has(company._id.toString()))
+    .map(async company => {
+      const companyId = company._id.toString();
+      const [environmental, social] = await Promise.all([
+        findApprovedMetrics('environment', companyId, period),
+        findApprovedMetrics('social', companyId, period)
+      ]);
+
+      const inputs = {
+        company: { employeeCount: company.employeeCount, annualRevenue: company.annualRevenue },
+        score: latestScores.get(companyId),
+        environmental: readEnvironmentalMetrics(environmental),
+        social: readSocialMetrics(social)
+      };
+
+      return {
+        companyId,
+        employeeBand: getEmployeeBand(company.employeeCount),
+        values: Object.fromEntries(BENCHMARK_METRICS.map(metric => {
+          const value = metric.value(inputs);
+          return [metric.key, typeof value === 'number' && Number.isFinite(value) ? value : null];
+        }))
+      };
+    }));
+};
+
+/**
+ * Percentile position of a company against its industry, and against companies of a similar size in it
+ * Only quartiles of each cohort are returned - never another company's values
+ * Defaults to the company's most recently scored period
+ */
+export const getBenchmark = async (companyId: string, period?: string): Promise<BenchmarkResult> => {
+  const company = await Company.findById(companyId);
+  if (!company) {
+    return { error: 'Company not found' };
+  }
+
+  const targetPeriod = period || (await ESGScore.findOne({ companyId }).sort({ calculatedAt: -1 }))?.period;
+  if (!targetPeriod) {
+    return { error: 'No ESG score has been calculated for this company yet' };
+  }
+
+  const peers = await loadPeerValues(company.industry, targetPeriod);
+  const own = peers.find(peer => peer.companyId === companyId);
+  if (!own) {
+    return { error: `No ESG score has been calculated for ${targetPeriod}` };
+  }
+
+  const employeeBand = getEmployeeBand(company.employeeCount);
+  return {
+    benchmark: {
+      period: targetPeriod,
+      industry: company.industry,
+      employeeBand,
+      minCohortSize: MIN_BENCHMARK_COHORT_SIZE,
+      cohorts: [
+        benchmarkCohort('industry', company.industry, own, peers),
+        benchmarkCohort(
+          'industry-size',
+          `${company.industry}, ${employeeBand} employees`,
+          own,
+          peers.filter(peer => peer.employeeBand === employeeBand)
+        )
+      ]
+    }
+  };
+};
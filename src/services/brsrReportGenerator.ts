@@ -0,0 +1,359 @@
+import ExcelJS from 'exceljs';
+import Company from '../models/Company';
+import { BRSR_REQUIREMENTS, getActionForRequirement } from './complianceService';
+import { readEnvironmentalMetrics, readSocialMetrics, readGovernanceMetrics } from './metricAccessor';
+import { findApprovedMetrics } from './reviewService';
+
+type BRSRSection = 'A' | 'B' | 'C' | 'Core';
+type BRSRValue = string | number | boolean | undefined;
+
+interface BRSRContext {
+  company: any;
+  env: any;
+  social: any;
+  gov: any;
+}
+
+/**
+ * A single disclosure in SEBI's BRSR format
+ * `concept` is the element name used in the machine-readable instance
+ */
+interface BRSRQuestion {
+  ref: string;
+  section: BRSRSection;
+  heading: string;
+  principle?: 'P1' | 'P2' | 'P3' | 'P4' | 'P5' | 'P6' | 'P7' | 'P8' | 'P9';
+  question: string;
+  concept: string;
+  unit?: string;
+  requirementId?: string; // BRSR_REQUIREMENTS id flagged when unanswered
+  value: (ctx: BRSRContext) => BRSRValue;
+}
+
+export interface BRSRAnswer {
+  ref: string;
+  section: BRSRSection;
+  heading: string;
+  principle?: string;
+  question: string;
+  concept: string;
+  unit?: string;
+  value: BRSRValue;
+  answered: boolean;
+  requirementId?: string;
+  requirement?: string;
+  action?: string;
+}
+
+export interface BRSRReport {
+  company: { id: string; name: string; cin?: string; gst?: string };
+  period: string;
+  generatedAt: Date;
+  answers: BRSRAnswer[];
+  summary: { total: number; answered: number; unanswered: number; unansweredRequirementIds: string[] };
+}
+
+const num = (value: any): number | undefined =>
+  value === undefined || value === null || value === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+const round = (value: number | undefined, decimals: number = 2): number | undefined =>
+  value === undefined ? undefined : Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const yesNo = (value: any): string | undefined =>
+  value === undefined || value === null ? undefined : value ? 'Yes' : 'No';
+
+const text = (value: any): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+// Revenue is stored in INR; BRSR intensities are reported per crore of turnover here for readability
+const perCroreTurnover = (value: number | undefined, company: any): number | undefined => {
+  const revenue = num(company?.annualRevenue);
+  if (value === undefined || !revenue) return undefined;
+  return round(value / (revenue / 1e7), 4);
+};
+
+const totalEmployees = (social: any): number | undefined => {
+  const permanent = num(social?.totalEmployeesPermanent);
+  const contractual = num(social?.totalEmployeesContractual);
+  if (permanent === undefined && contractual === undefined) return undefined;
+  return (permanent || 0) + (contractual || 0);
+};
+
+const femalePercent = (social: any): number | undefined => num(social?.femalePercentWorkforce);
+
+const energyKwh = (env: any): number | undefined =>
+  num(env?.totalEnergyConsumption) ?? num(env?.electricityKwh);
+
+const wasteTonnes = (env: any): number | undefined => num(env?.totalWasteTonnes);
+
+const scope12 = (env: any): number | undefined => {
+  const scope1 = num(env?.scope1Emissions);
+  const scope2 = num(env?.scope2Emissions);
+  if (scope1 === undefined || scope2 === undefined) return undefined;
+  return round(scope1 + scope2, 3);
+};
+
+/**
+ * BRSR disclosures mapped from EcoTrack data
+ * Section A: General disclosures, Section B: Management and process, Section C: Principle-wise performance
+ */
+const BRSR_QUESTIONS: BRSRQuestion[] = [
+  // Section A - I. Details of the listed entity
+  { ref: 'A.I.1', section: 'A', heading: 'I. Details of the listed entity', question: 'Corporate Identity Number (CIN) of the Listed Entity', concept: 'CorporateIdentityNumber', value: c => text(c.company.cin) },
+  { ref: 'A.I.2', section: 'A', heading: 'I. Details of the listed entity', question: 'Name of the Listed Entity', concept: 'NameOfTheCompany', value: c => text(c.company.legalName) || text(c.company.name) },
+  { ref: 'A.I.3', section: 'A', heading: 'I. Details of the listed entity', question: 'GST Registration Number', concept: 'GSTIN', value: c => text(c.company.gst) },
+  { ref: 'A.I.4', section: 'A', heading: 'I. Details of the listed entity', question: 'Registered office address', concept: 'AddressOfRegisteredOffice', value: c => text(c.company.location) },
+  { ref: 'A.I.5', section: 'A', heading: 'I. Details of the listed entity', question: 'Financial year for which reporting is being done', concept: 'ReportingFinancialYear', value: c => num(c.company.reportingYear) },
+  // Section A - II. Products/services
+  { ref: 'A.II.16', section: 'A', heading: 'II. Products/services', question: 'Details of business activities (sector)', concept: 'DescriptionOfMainActivity', value: c => text(c.company.industry) },
+  // Section A - III. Operations
+  { ref: 'A.III.18', section: 'A', heading: 'III. Operations', question: 'Number of locations where plants and/or operations/offices of the entity are situated', concept: 'NumberOfLocations', value: c => (c.company.locations?.length ? c.company.locations.length : c.company.location ? 1 : undefined) },
+  // Section A - IV. Employees
+  { ref: 'A.IV.20.a', section: 'A', heading: 'IV. Employees', question: 'Permanent employees', concept: 'NumberOfPermanentEmployees', requirementId: 'S1', value: c => num(c.social.totalEmployeesPermanent) },
+  { ref: 'A.IV.20.b', section: 'A', heading: 'IV. Employees', question: 'Other than permanent employees', concept: 'NumberOfOtherThanPermanentEmployees', value: c => num(c.social.totalEmployeesContractual) },
+  { ref: 'A.IV.20.c', section: 'A', heading: 'IV. Employees', question: 'Female employees as % of total', concept: 'PercentageOfFemaleEmployees', unit: '%', requirementId: 'S2', value: c => femalePercent(c.social) },
+  { ref: 'A.IV.21', section: 'A', heading: 'IV. Employees', question: 'Participation/inclusion/representation of women in management', concept: 'PercentageOfWomenInManagement', unit: '%', value: c => num(c.social.womenInManagementPercent) },
+  { ref: 'A.IV.22', section: 'A', heading: 'IV. Employees', question: 'Turnover rate for permanent employees', concept: 'TurnoverRateForPermanentEmployees', unit: '%', value: c => num(c.social.employeeTurnoverPercent) },
+  // Section A - VI. CSR details
+  { ref: 'A.VI.24.ii', section: 'A', heading: 'VI. CSR Details', question: 'Turnover (in Rs.)', concept: 'Turnover', unit: 'INR', value: c => num(c.company.annualRevenue) },
+  { ref: 'A.VI.24.iii', section: 'A', heading: 'VI. CSR Details', question: 'Amount spent on CSR (in Rs.)', concept: 'AmountSpentOnCSR', unit: 'INR', requirementId: 'S5', value: c => num(c.social.csrSpend) },
+
+  // Section B - Policy and management processes (does the policy cover each principle)
+  { ref: 'B.1.P1', section: 'B', heading: 'Policy and management processes', principle: 'P1', question: 'Policy covering ethics, transparency and accountability', concept: 'PolicyCoversPrinciple1', requirementId: 'G6', value: c => yesNo(c.gov.codeOfConductExists || c.gov.antiCorruptionPolicy) },
+  { ref: 'B.1.P2', section: 'B', heading: 'Policy and management processes', principle: 'P2', question: 'Policy covering sustainable and safe goods and services', concept: 'PolicyCoversPrinciple2', value: c => yesNo(c.gov.supplierEsgGuidelinesExists) },
+  { ref: 'B.1.P3', section: 'B', heading: 'Policy and management processes', principle: 'P3', question: 'Policy covering well-being of employees', concept: 'PolicyCoversPrinciple3', requirementId: 'S6', value: c => (text(c.social.healthSafetyPolicies) ? 'Yes' : undefined) },
+  { ref: 'B.1.P4', section: 'B', heading: 'Policy and management processes', principle: 'P4', question: 'Policy covering stakeholder engagement', concept: 'PolicyCoversPrinciple4', value: c => (text(c.social.keyStakeholderGroups) ? 'Yes' : undefined) },
+  { ref: 'B.1.P5', section: 'B', heading: 'Policy and management processes', principle: 'P5', question: 'Policy covering human rights', concept: 'PolicyCoversPrinciple5', requirementId: 'G5', value: c => yesNo(c.social.antiHarassmentProcessExists || c.gov.whistleblowerPolicyExists) },
+  { ref: 'B.1.P6', section: 'B', heading: 'Policy and management processes', principle: 'P6', question: 'Policy covering protection and restoration of the environment', concept: 'PolicyCoversPrinciple6', requirementId: 'E6', value: c => yesNo(c.env.environmentalPolicyExists) },
+  { ref: 'B.1.P7', section: 'B', heading: 'Policy and management processes', principle: 'P7', question: 'Policy covering responsible public and regulatory policy advocacy', concept: 'PolicyCoversPrinciple7', value: () => undefined },
+  { ref: 'B.1.P8', section: 'B', heading: 'Policy and management processes', principle: 'P8', question: 'Policy covering inclusive growth and equitable development', concept: 'PolicyCoversPrinciple8', value: c => (text(c.social.csrActivities) ? 'Yes' : undefined) },
+  { ref: 'B.1.P9', section: 'B', heading: 'Policy and management processes', principle: 'P9', question: 'Policy covering consumer responsibility', concept: 'PolicyCoversPrinciple9', value: c => yesNo(c.gov.dataPrivacyPolicy) },
+  { ref: 'B.9', section: 'B', heading: 'Governance, leadership and oversight', question: 'Does the entity have a specified Committee of the Board responsible for decision making on sustainability related issues?', concept: 'WhetherEntityHasSustainabilityCommittee', requirementId: 'G7', value: c => yesNo(c.gov.esgCommitteeExists) },
+
+  // Section C - Principle 1
+  { ref: 'C.P1.E.0a', section: 'C', heading: 'Principle 1 - Essential indicators', principle: 'P1', question: 'Number of board members', concept: 'NumberOfBoardOfDirectors', requirementId: 'G1', value: c => num(c.gov.boardMembers) },
+  { ref: 'C.P1.E.0b', section: 'C', heading: 'Principle 1 - Essential indicators', principle: 'P1', question: 'Number of independent directors', concept: 'NumberOfIndependentDirectors', requirementId: 'G2', value: c => num(c.gov.independentDirectors) },
+  { ref: 'C.P1.E.2', section: 'C', heading: 'Principle 1 - Essential indicators', principle: 'P1', question: 'Number of fines/penalties/settlements/compounding fees paid to regulators', concept: 'NumberOfRegulatoryProceedings', requirementId: 'G3', value: c => num(c.gov.complianceViolations) },
+  { ref: 'C.P1.E.4', section: 'C', heading: 'Principle 1 - Essential indicators', principle: 'P1', question: 'Does the entity have an anti-corruption or anti-bribery policy?', concept: 'WhetherEntityHasAntiCorruptionPolicy', requirementId: 'G4', value: c => yesNo(c.gov.antiCorruptionPolicy) },
+  // Section C - Principle 3
+  { ref: 'C.P3.E.8', section: 'C', heading: 'Principle 3 - Essential indicators', principle: 'P3', question: 'Training hours per employee', concept: 'TrainingHoursPerEmployee', unit: 'hours', requirementId: 'S3', value: c => num(c.social.totalTrainingHoursPerEmployee) },
+  { ref: 'C.P3.E.11', section: 'C', heading: 'Principle 3 - Essential indicators', principle: 'P3', question: 'Total recordable work-related injuries', concept: 'TotalRecordableWorkRelatedInjuries', requirementId: 'S4', value: c => num(c.social.accidentIncidents) },
+  // Section C - Principle 5
+  { ref: 'C.P5.E.3', section: 'C', heading: 'Principle 5 - Essential indicators', principle: 'P5', question: 'Median remuneration/salary/wages', concept: 'MedianRemuneration', unit: 'INR', value: c => num(c.social.medianRemuneration) },
+  { ref: 'C.P5.E.6', section: 'C', heading: 'Principle 5 - Essential indicators', principle: 'P5', question: 'Mechanism to redress grievances (incl. sexual harassment)', concept: 'GrievanceRedressalMechanism', value: c => text(c.social.grievanceRedressalMechanism) || yesNo(c.social.antiHarassmentProcessExists) },
+  // Section C - Principle 6
+  { ref: 'C.P6.E.1', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Total energy consumption', concept: 'TotalEnergyConsumption', unit: 'kWh', requirementId: 'E1', value: c => energyKwh(c.env) },
+  { ref: 'C.P6.E.1a', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Energy from renewable sources', concept: 'PercentageOfRenewableEnergy', unit: '%', requirementId: 'E5', value: c => num(c.env.renewableEnergyPercent) },
+  { ref: 'C.P6.E.3', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Total volume of water withdrawal', concept: 'TotalVolumeOfWaterWithdrawal', unit: 'KL', requirementId: 'E2', value: c => num(c.env.waterUsageKL) },
+  { ref: 'C.P6.E.3a', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Water withdrawal - surface water', concept: 'WaterWithdrawalSurfaceWater', unit: 'KL', value: c => num(c.env.waterSourceSurface) },
+  { ref: 'C.P6.E.3b', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Water withdrawal - groundwater', concept: 'WaterWithdrawalGroundwater', unit: 'KL', value: c => num(c.env.waterSourceGroundwater) },
+  { ref: 'C.P6.E.3c', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Water withdrawal - third party (municipal)', concept: 'WaterWithdrawalThirdPartyWater', unit: 'KL', value: c => num(c.env.waterSourceMunicipal) },
+  { ref: 'C.P6.E.3d', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Water withdrawal - others', concept: 'WaterWithdrawalOthers', unit: 'KL', value: c => num(c.env.waterSourceOther) },
+  { ref: 'C.P6.E.7a', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Total Scope 1 emissions', concept: 'TotalScope1Emissions', unit: 'tCO2e', requirementId: 'E4', value: c => num(c.env.scope1Emissions) },
+  { ref: 'C.P6.E.7b', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Total Scope 2 emissions', concept: 'TotalScope2Emissions', unit: 'tCO2e', requirementId: 'E8', value: c => num(c.env.scope2Emissions) },
+  { ref: 'C.P6.E.9a', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Total waste generated', concept: 'TotalWasteGenerated', unit: 'tonnes', requirementId: 'E3', value: c => wasteTonnes(c.env) },
+  { ref: 'C.P6.E.9b', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Hazardous waste generated', concept: 'HazardousWasteGenerated', unit: 'tonnes', value: c => num(c.env.hazardousWasteTonnes) },
+  { ref: 'C.P6.E.9c', section: 'C', heading: 'Principle 6 - Essential indicators', principle: 'P6', question: 'Waste recovered through recycling', concept: 'WasteRecoveredThroughRecycling', unit: 'tonnes', value: c => num(c.env.recycledWasteTonnes) },
+  { ref: 'C.P6.L.2', section: 'C', heading: 'Principle 6 - Leadership indicators', principle: 'P6', question: 'Total Scope 3 emissions', concept: 'TotalScope3Emissions', unit: 'tCO2e', value: c => num(c.env.scope3Emissions) },
+  // Section C - Principle 8
+  { ref: 'C.P8.E.3', section: 'C', heading: 'Principle 8 - Essential indicators', principle: 'P8', question: 'CSR projects undertaken', concept: 'DetailsOfCSRProjects', requirementId: 'S5', value: c => text(c.social.csrActivities) },
+
+  // BRSR Core - key performance indicators (Annexure I)
+  { ref: 'Core.1.1', section: 'Core', heading: '1. Green-house gas (GHG) footprint', question: 'Total Scope 1 and Scope 2 emissions', concept: 'CoreTotalScope1And2Emissions', unit: 'tCO2e', requirementId: 'E8', value: c => scope12(c.env) },
+  { ref: 'Core.1.2', section: 'Core', heading: '1. Green-house gas (GHG) footprint', question: 'GHG emission intensity (Scope 1 + 2) per crore of turnover', concept: 'CoreGHGEmissionIntensity', unit: 'tCO2e/Rs. crore', value: c => perCroreTurnover(scope12(c.env), c.company) },
+  { ref: 'Core.2.1', section: 'Core', heading: '2. Water footprint', question: 'Total water consumption', concept: 'CoreTotalWaterConsumption', unit: 'KL', requirementId: 'E2', value: c => num(c.env.waterUsageKL) },
+  { ref: 'Core.2.2', section: 'Core', heading: '2. Water footprint', question: 'Water consumption intensity per crore of turnover', concept: 'CoreWaterConsumptionIntensity', unit: 'KL/Rs. crore', value: c => perCroreTurnover(num(c.env.waterUsageKL), c.company) },
+  { ref: 'Core.3.1', section: 'Core', heading: '3. Energy footprint', question: 'Total energy consumed', concept: 'CoreTotalEnergyConsumed', unit: 'kWh', requirementId: 'E1', value: c => energyKwh(c.env) },
+  { ref: 'Core.3.2', section: 'Core', heading: '3. Energy footprint', question: '% of energy consumed from renewable sources', concept: 'CorePercentageOfRenewableEnergy', unit: '%', requirementId: 'E5', value: c => num(c.env.renewableEnergyPercent) },
+  { ref: 'Core.3.3', section: 'Core', heading: '3. Energy footprint', question: 'Energy intensity per crore of turnover', concept: 'CoreEnergyIntensity', unit: 'kWh/Rs. crore', value: c => perCroreTurnover(energyKwh(c.env), c.company) },
+  { ref: 'Core.4.1', section: 'Core', heading: '4. Embracing circularity', question: 'Total waste generated', concept: 'CoreTotalWasteGenerated', unit: 'tonnes', requirementId: 'E3', value: c => wasteTonnes(c.env) },
+  { ref: 'Core.4.2', section: 'Core', heading: '4. Embracing circularity', question: 'Waste recovered through recycling, re-using or other recovery operations', concept: 'CoreWasteRecovered', unit: 'tonnes', value: c => num(c.env.recycledWasteTonnes) ?? num(c.env.divertedFromDisposalTonnes) },
+  { ref: 'Core.5.1', section: 'Core', heading: '5. Enhancing employee wellbeing and safety', question: 'Number of recordable work-related injuries', concept: 'CoreRecordableWorkRelatedInjuries', requirementId: 'S4', value: c => num(c.social.accidentIncidents) },
+  { ref: 'Core.6.1', section: 'Core', heading: '6. Enabling gender diversity in business', question: 'Female employees as % of total workforce', concept: 'CorePercentageOfFemaleEmployees', unit: '%', requirementId: 'S2', value: c => femalePercent(c.social) },
+  { ref: 'Core.7.1', section: 'Core', heading: '7. Enabling inclusive development', question: 'Amount spent on CSR', concept: 'CoreAmountSpentOnCSR', unit: 'INR', requirementId: 'S5', value: c => num(c.social.csrSpend) },
+  { ref: 'Core.8.1', section: 'Core', heading: '8. Fairness in engaging with customers and suppliers', question: 'Does the entity have a data privacy policy?', concept: 'CoreWhetherEntityHasDataPrivacyPolicy', value: c => yesNo(c.gov.dataPrivacyPolicy) },
+  { ref: 'Core.9.1', section: 'Core', heading: '9. Open-ness of business', question: 'Are material ESG risks disclosed?', concept: 'CoreWhetherMaterialESGRisksDisclosed', value: c => yesNo(c.gov.materialEsgRisksDisclosed) },
+];
+
+const SECTION_SHEETS: Record<BRSRSection, string> = {
+  A: 'Section A - General',
+  B: 'Section B - Management',
+  C: 'Section C - Principles',
+  Core: 'BRSR Core',
+};
+
+/**
+ * Build the BRSR report for a company and period
+ * Unanswered disclosures carry the BRSR_REQUIREMENTS id they map to (where one exists)
+ */
+export const buildBRSRReport = async (companyId: string, period: string): Promise<BRSRReport> => {
+  const company = await Company.findById(companyId);
+
+  if (!company) {
+    throw new Error('Company not found');
+  }
+
+  // Only approved metrics are disclosed
+  const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
+    findApprovedMetrics('environment', companyId, period),
+    findApprovedMetrics('social', companyId, period),
+    findApprovedMetrics('governance', companyId, period)
+  ]);
+
+  if (!envMetrics && !socialMetrics && !govMetrics) {
+    throw new Error(`Metrics for period ${period} have not been approved yet. Submit the period for review before exporting.`);
+  }
+
+  const ctx: BRSRContext = {
+    company: company.toObject(),
+    env: readEnvironmentalMetrics(envMetrics) || {},
+    social: readSocialMetrics(socialMetrics) || {},
+    gov: readGovernanceMetrics(govMetrics) || {}
+  };
+
+  const answers: BRSRAnswer[] = BRSR_QUESTIONS.map(q => {
+    const value = q.value(ctx);
+    const answered = value !== undefined && value !== '';
+    const requirement = q.requirementId ? BRSR_REQUIREMENTS.find(r => r.id === q.requirementId) : undefined;
+
+    return {
+      ref: q.ref,
+      section: q.section,
+      heading: q.heading,
+      principle: q.principle,
+      question: q.question,
+      concept: q.concept,
+      unit: q.unit,
+      value,
+      answered,
+      ...(!answered && requirement ? {
+        requirementId: requirement.id,
+        requirement: requirement.requirement,
+        action: getActionForRequirement(requirement)
+      } : {})
+    };
+  });
+
+  const unanswered = answers.filter(a => !a.answered);
+
+  return {
+    company: {
+      id: company._id.toString(),
+      name: company.name,
+      cin: company.cin,
+      gst: company.gst
+    },
+    period,
+    generatedAt: new Date(),
+    answers,
+    summary: {
+      total: answers.length,
+      answered: answers.length - unanswered.length,
+      unanswered: unanswered.length,
+      unansweredRequirementIds: Array.from(new Set(unanswered.map(a => a.requirementId).filter(Boolean))) as string[]
+    }
+  };
+};
+
+/**
+ * Generate the BRSR workbook in SEBI's section layout (A, B, C and BRSR Core)
+ */
+export const generateBRSRExcel = async (companyId: string, period: string): Promise<Buffer> => {
+  const report = await buildBRSRReport(companyId, period);
+  const workbook = new ExcelJS.Workbook();
+
+  // Cover sheet
+  const coverSheet = workbook.addWorksheet('Cover');
+  coverSheet.columns = [
+    { header: 'Field', key: 'field', width: 30 },
+    { header: 'Value', key: 'value', width: 40 }
+  ];
+  coverSheet.addRows([
+    { field: 'Report', value: 'Business Responsibility and Sustainability Report (BRSR)' },
+    { field: 'Company Name', value: report.company.name },
+    { field: 'CIN', value: report.company.cin || 'Not provided' },
+    { field: 'Reporting Period', value: report.period },
+    { field: 'Disclosures Answered', value: `${report.summary.answered} of ${report.summary.total}` },
+    { field: 'Open Requirements', value: report.summary.unansweredRequirementIds.join(', ') || 'None' }
+  ]);
+
+  (Object.keys(SECTION_SHEETS) as BRSRSection[]).forEach(section => {
+    const sheet = workbook.addWorksheet(SECTION_SHEETS[section]);
+    sheet.columns = [
+      { header: 'Ref', key: 'ref', width: 12 },
+      { header: 'Heading', key: 'heading', width: 32 },
+      { header: 'Principle', key: 'principle', width: 10 },
+      { header: 'Question', key: 'question', width: 60 },
+      { header: 'Response', key: 'response', width: 22 },
+      { header: 'Unit', key: 'unit', width: 16 },
+      { header: 'Status', key: 'status', width: 14 },
+      { header: 'Requirement', key: 'requirement', width: 50 }
+    ];
+    sheet.getRow(1).font = { bold: true };
+
+    report.answers
+      .filter(a => a.section === section)
+      .forEach(a => {
+        const row = sheet.addRow({
+          ref: a.ref,
+          heading: a.heading,
+          principle: a.principle || '',
+          question: a.question,
+          response: a.answered ? a.value : '',
+          unit: a.unit || '',
+          status: a.answered ? 'Answered' : 'Unanswered',
+          requirement: !a.answered && a.requirementId ? `${a.requirementId}: ${a.action}` : ''
+        });
+
+        if (!a.answered) {
+          row.getCell('status').font = { bold: true, color: { argb: 'FFEF4444' } };
+          row.getCell('response').fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFEE2E2' } };
+        }
+      });
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+};
+
+/**
+ * Generate a machine-readable, XBRL-style instance of the BRSR report
+ * Facts reference a single duration context for the period; unanswered disclosures are listed separately
+ */
+export const generateBRSRInstance = async (companyId: string, period: string): Promise<any> => {
+  const report = await buildBRSRReport(companyId, period);
+  const contextId = `FY_${period.replace(/[^A-Za-z0-9]/g, '_')}`;
+  const units = Array.from(new Set(report.answers.map(a => a.unit).filter(Boolean))) as string[];
+
+  return {
+    documentType: 'BRSR',
+    generatedAt: report.generatedAt.toISOString(),
+    entity: {
+      identifier: report.company.cin || report.company.id,
+      scheme: report.company.cin ? 'CIN' : 'ecotrack:companyId',
+      name: report.company.name
+    },
+    contexts: [{ id: contextId, period: report.period }],
+    units: units.map(unit => ({ id: unit, measure: unit })),
+    facts: report.answers
+      .filter(a => a.answered)
+      .map(a => ({
+        concept: a.concept,
+        ref: a.ref,
+        contextRef: contextId,
+        ...(a.unit ? { unitRef: a.unit } : {}),
+        ...(typeof a.value === 'number' ? { decimals: 'INF' } : {}),
+        value: a.value
+      })),
+    unanswered: report.answers
+      .filter(a => !a.answered)
+      .map(a => ({
+        concept: a.concept,
+        ref: a.ref,
+        question: a.question,
+        requirementId: a.requirementId || null,
+        action: a.action || null
+      })),
+    summary: report.summary
+  };
+};
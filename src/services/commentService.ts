@@ -0,0 +1,164 @@
+import Company from '../models/Company';
+import User, { IUser } from '../models/User';
+import Evidence from '../models/Evidence';
+import Task from '../models/Task';
+import CommentThread, { CommentTargetType, ICommentThread, IComment } from '../models/CommentThread';
+import { METRIC_MODULES, MetricModule } from './metricRecordService';
+import { getDescendantPeriods } from './periodService';
+import { emailService } from './emailService';
+import { getCompanyMembers, ApiKeyRestriction } from './membershipService';
+import { Permission, getModuleWritePermission } from '../config/companyRoles';
+
+// @mentions are written as @email (e.g. "@priya@example.com can you check this?")
+const MENTION_PATTERN = /@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+export interface CompanyUser {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+interface CommentTarget {
+  label: string; // Shown in notification emails
+  period?: string;
+}
+
+const isMetricTarget = (targetType: CommentTargetType): targetType is MetricModule => targetType in METRIC_MODULES;
+
+/**
+ * Users who can take part in a company's threads - its members, whatever their role
+ */
+export const getCompanyUsers = async (companyId: string): Promise<CompanyUser[]> => {
+  const members = await getCompanyMembers(companyId);
+  return members
+    .map(member => member.userId as unknown as IUser)
+    .filter(user => user)
+    .map(user => ({ _id: user._id.toString(), name: user.name, email: user.email }));
+};
+
+/**
+ * Scope an API key needs to comment on a target - the one for changing the data the thread is about
+ * (members can always comment, whatever their role)
+ */
+export const getCommentWritePermission = (targetType: CommentTargetType): Permission => {
+  if (isMetricTarget(targetType)) return getModuleWritePermission(targetType);
+  return targetType === 'evidence' ? 'evidence.upload' : 'tasks.write';
+};
+
+/**
+ * Whether a request may use the company's threads - an API key only in its own company and with the permission as a scope
+ */
+export const isKeyAllowed = (apiKey: ApiKeyRestriction | undefined, companyId: string, permission: Permission): boolean =>
+  !apiKey || (apiKey.companyId === companyId && apiKey.scopes.includes(permission));
+
+/**
+ * Whether the user takes part in the company's threads - through an API key, see isKeyAllowed
+ */
+export const isCompanyUser = async (
+  userId: string,
+  companyId: string,
+  apiKey?: ApiKeyRestriction,
+  permission: Permission = 'company.read'
+): Promise<boolean> =>
+  isKeyAllowed(apiKey, companyId, permission) &&
+  (await getCompanyUsers(companyId)).some(user => user._id === userId);
+
+/**
+ * Check a thread target belongs to the company and describe it
+ * Metric threads are about one field of the record; evidence and task threads are about the whole item
+ */
+export const resolveCommentTarget = async (
+  companyId: string,
+  targetType: CommentTargetType,
+  targetId: string,
+  field?: string
+): Promise<{ target?: CommentTarget; error?: string }> => {
+  if (isMetricTarget(targetType)) {
+    const { model } = METRIC_MODULES[targetType];
+    if (!field) {
+      return { error: 'Field is required for threads on metrics' };
+    }
+    if (model.schema.pathType(field) === 'adhocOrUndefined') {
+      return { error: `Unknown ${targetType} metric field: ${field}` };
+    }
+
+    const record = await model.findOne({ _id: targetId, companyId });
+    if (!record) return { error: 'Metrics not found' };
+
+    const moduleName = targetType.charAt(0).toUpperCase() + targetType.slice(1);
+    return { target: { label: `${moduleName} metrics ${record.period} - ${field}`, period: record.period } };
+  }
+
+  if (field) {
+    return { error: 'Field can only be set for threads on metrics' };
+  }
+
+  if (targetType === 'evidence') {
+    const evidence = await Evidence.findOne({ _id: targetId, companyId });
+    if (!evidence) return { error: 'Evidence not found' };
+    return { target: { label: `Evidence ${evidence.originalFileName}`, period: evidence.tags?.period } };
+  }
+
+  const task = await Task.findOne({ _id: targetId, companyId });
+  if (!task) return { error: 'Task not found' };
+  return { target: { label: `Task ${task.title}` } };
+};
+
+/**
+ * Company users @mentioned in a comment, and mentions that match no company user
+ */
+export const parseMentions = (body: string, companyUsers: CompanyUser[]): { mentions: string[]; unknown: string[] } => {
+  const emails = Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[1].toLowerCase())));
+  const mentioned = companyUsers.filter(user => emails.includes(user.email));
+
+  return {
+    mentions: mentioned.map(user => user._id),
+    unknown: emails.filter(email => !mentioned.some(user => user.email === email))
+  };
+};
+
+/**
+ * Email a new comment to the users it mentions and everyone already in the thread (never its author)
+ * Email failures are logged, not thrown - the comment is already saved
+ */
+export const notifyThreadComment = async (thread: ICommentThread, comment: IComment): Promise<void> => {
+  const authorId = comment.userId.toString();
+  const mentioned = comment.mentions.map(id => id.toString());
+  const participants = [thread.createdBy, ...thread.comments.map(existing => existing.userId)].map(id => id.toString());
+  const recipientIds = Array.from(new Set([...mentioned, ...participants])).filter(id => id !== authorId);
+  if (recipientIds.length === 0) return;
+
+  const [author, company, recipients, { target }] = await Promise.all([
+    User.findById(authorId).select('name'),
+    Company.findById(thread.companyId).select('name'),
+    User.find({ _id: { $in: recipientIds } }).select('name email'),
+    resolveCommentTarget(thread.companyId.toString(), thread.targetType, thread.targetId.toString(), thread.field)
+  ]);
+
+  for (const recipient of recipients) {
+    try {
+      await emailService.sendCommentNotification(recipient.email, recipient.name, {
+        authorName: author?.name || 'A team member',
+        companyName: company?.name || '',
+        subject: target?.label || 'a discussion',
+        body: comment.body,
+        threadId: thread._id.toString(),
+        mentioned: mentioned.includes(recipient._id.toString())
+      });
+    } catch (error) {
+      console.error(`❌ Failed to send comment notification to ${recipient.email}:`, error);
+    }
+  }
+};
+
+/**
+ * Open threads on a period's data (including the months and quarters inside it) - they block closing it
+ */
+export const getOpenThreads = (companyId: string, period: string) =>
+  CommentThread.find({
+    companyId,
+    period: { $in: [period, ...getDescendantPeriods(period)] },
+    status: 'Open'
+  })
+    .select('targetType targetId field period createdBy createdAt')
+    .sort({ createdAt: 1 });
@@ -2,13 +2,23 @@ import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
 import SocialMetrics from '../models/SocialMetrics';
 import GovernanceMetrics from '../models/GovernanceMetrics';
 import Evidence from '../models/Evidence';
+import { hasDerivedScope12 } from './emissionCalculator';
+import { findMetricsForPeriod } from './periodService';
+import {
+  readEnvironmentalMetrics,
+  readSocialMetrics,
+  readGovernanceMetrics,
+  EnvironmentalMetricsView,
+  SocialMetricsView,
+  GovernanceMetricsView
+} from './metricAccessor';
 
 /**
  * BRSR (Business Responsibility and Sustainability Reporting) Requirements
  * Based on SEBI guidelines for ESG reporting
  */
 
-interface BRSRRequirement {
+export interface BRSRRequirement {
   id: string;
   area: 'Environmental' | 'Social' | 'Governance';
   requirement: string;
@@ -17,7 +27,7 @@ interface BRSRRequirement {
 }
 
 // Define BRSR requirements
-const BRSR_REQUIREMENTS: BRSRRequirement[] = [
+export const BRSR_REQUIREMENTS: BRSRRequirement[] = [
   // Environmental Requirements
   { id: 'E1', area: 'Environmental', requirement: 'Energy consumption data', mandatory: true, category: 'mandatory' },
   { id: 'E2', area: 'Environmental', requirement: 'Water consumption data', mandatory: true, category: 'mandatory' },
@@ -53,26 +63,26 @@ const isRequirementCovered = async (
   requirement: BRSRRequirement,
   companyId: string,
   period: string,
-  envMetrics: any,
-  socialMetrics: any,
-  govMetrics: any,
+  envMetrics: EnvironmentalMetricsView | null,
+  socialMetrics: SocialMetricsView | null,
+  govMetrics: GovernanceMetricsView | null,
   evidence: any[]
 ): Promise<boolean> => {
   switch (requirement.id) {
     // Environmental
-    case 'E1': return !!(envMetrics?.electricityKwh || envMetrics?.electricityUsageKwh || envMetrics?.totalEnergyConsumption);
+    case 'E1': return !!(envMetrics?.electricityKwh || envMetrics?.totalEnergyConsumption);
     case 'E2': return !!(envMetrics?.waterUsageKL);
-    case 'E3': return !!(envMetrics?.totalWasteTonnes || envMetrics?.wasteGeneratedKg);
+    case 'E3': return !!(envMetrics?.totalWasteTonnes);
     case 'E4': return !!(envMetrics?.scope1Emissions || envMetrics?.carbonEmissionsTons);
     case 'E5': return !!(envMetrics?.renewableEnergyPercent && envMetrics.renewableEnergyPercent > 0);
     case 'E6': return !!(envMetrics?.environmentalPolicyExists);
     case 'E7': return evidence.some(e => e.evidenceType?.toLowerCase().includes('waste') || e.evidenceType?.toLowerCase().includes('disposal'));
-    case 'E8': return !!(envMetrics?.scope1Emissions && envMetrics?.scope2Emissions);
+    case 'E8': return hasDerivedScope12(envMetrics);
     
     // Social
-    case 'S1': return !!(socialMetrics?.totalEmployeesPermanent || socialMetrics?.totalEmployees || socialMetrics?.totalEmployeesContractual);
-    case 'S2': return !!(socialMetrics?.femalePercentWorkforce || socialMetrics?.femaleEmployees);
-    case 'S3': return !!(socialMetrics?.totalTrainingHoursPerEmployee || socialMetrics?.avgTrainingHours);
+    case 'S1': return !!(socialMetrics?.totalEmployeesPermanent || socialMetrics?.totalEmployeesContractual);
+    case 'S2': return !!(socialMetrics?.femalePercentWorkforce);
+    case 'S3': return !!(socialMetrics?.totalTrainingHoursPerEmployee);
     case 'S4': return !!(socialMetrics?.accidentIncidents !== undefined);
     case 'S5': return !!(socialMetrics?.csrSpend);
     case 'S6': return !!(socialMetrics?.healthSafetyPolicies);
@@ -121,15 +131,16 @@ export const calculateBRSRReadiness = async (
 }> => {
   // Get latest metrics for the period
   const [envMetrics, socialMetrics, govMetrics, evidence] = await Promise.all([
-    EnvironmentalMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-    SocialMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-    GovernanceMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
+    EnvironmentalMetrics.findOne({ companyId, period }),
+    SocialMetrics.findOne({ companyId, period }),
+    // Governance is often captured once for the quarter or FY
+    findMetricsForPeriod(GovernanceMetrics, companyId, period),
     Evidence.find({ companyId })
   ]);
 
-  const envMetricsObj = envMetrics?.toObject() || {};
-  const socialMetricsObj = socialMetrics?.toObject() || {};
-  const govMetricsObj = govMetrics?.toObject() || {};
+  const envMetricsObj = readEnvironmentalMetrics(envMetrics);
+  const socialMetricsObj = readSocialMetrics(socialMetrics);
+  const govMetricsObj = readGovernanceMetrics(govMetrics);
 
   // Check each requirement
   const requirementChecks = await Promise.all(
@@ -201,7 +212,7 @@ export const calculateBRSRReadiness = async (
 /**
  * Get actionable text for a requirement
  */
-const getActionForRequirement = (req: BRSRRequirement): string => {
+export const getActionForRequirement = (req: BRSRRequirement): string => {
   const actionMap: Record<string, string> = {
     'E1': 'Add electricity consumption data',
     'E2': 'Add water consumption data',
@@ -210,7 +221,7 @@ const getActionForRequirement = (req: BRSRRequirement): string => {
     'E5': 'Add renewable energy usage percentage',
     'E6': 'Upload environmental policy document',
     'E7': 'Upload waste disposal proof',
-    'E8': 'Calculate and add carbon footprint',
+    'E8': 'Add electricity and fuel activity data to calculate Scope 1 & 2 emissions',
     'S1': 'Add total employee count',
     'S2': 'Add gender diversity data',
     'S3': 'Add training hours data',
@@ -0,0 +1,201 @@
+import { Model, Schema } from 'mongoose';
+import Company from '../models/Company';
+import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
+import SocialMetrics from '../models/SocialMetrics';
+import GovernanceMetrics from '../models/GovernanceMetrics';
+import ConsistencyRule, { IConsistencyRule } from '../models/ConsistencyRule';
+import {
+  RuleModule,
+  RuleSeverity,
+  RuleOperator,
+  RuleTerm,
+  ConsistencyRuleDefinition,
+  DEFAULT_CONSISTENCY_RULES
+} from '../config/consistencyRules';
+import { parsePeriod } from './periodService';
+import { DataQualityWarning } from './anomalyService';
+
+const RULE_MODELS: Record<RuleModule, Model<any>> = {
+  environment: EnvironmentalMetrics,
+  social: SocialMetrics,
+  governance: GovernanceMetrics
+};
+
+export interface ConsistencyResult {
+  key: string;
+  name: string;
+  severity: RuleSeverity;
+  fields: string[]; // Metric fields the rule reads
+  message: string;
+  left: number;
+  right: number;
+}
+
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const formatValue = (value: number): string => value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+/**
+ * Active rules, optionally for one module
+ * The built-in rules are stored on first use so admins can edit them like their own
+ */
+export const getConsistencyRules = async (module?: RuleModule): Promise<IConsistencyRule[]> => {
+  if (await ConsistencyRule.countDocuments() === 0) {
+    // Another request may have stored them first
+    await ConsistencyRule.insertMany(DEFAULT_CONSISTENCY_RULES, { ordered: false }).catch(error => {
+      if (error.code !== 11000) throw error;
+    });
+  }
+
+  return ConsistencyRule.find({ isActive: true, ...(module ? { module } : {}) }).sort({ module: 1, key: 1 });
+};
+
+const readTermValue = (source: RuleTerm['source'], field: string, values: any, company: any): any =>
+  (source === 'company' ? company : values)?.[field];
+
+const readTerm = (term: RuleTerm, values: any, company: any): number | null => {
+  const value = readTermValue(term.source, term.field, values, company);
+  if (!isNumber(value)) return null;
+
+  let result = value * (term.multiplier ?? 1);
+  if (term.divideBy) {
+    const divisor = readTermValue(term.divideBy.source, term.divideBy.field, values, company);
+    if (!isNumber(divisor) || divisor === 0) return null;
+    result /= divisor;
+  }
+  return result;
+};
+
+const sumTerms = (terms: RuleTerm[], values: any, company: any): number | null => {
+  const parts = terms.map(term => readTerm(term, values, company));
+  if (parts.some(part => part === null)) return null;
+  return (parts as number[]).reduce((sum, part) => sum + part, 0);
+};
+
+const getMetricFields = (terms: RuleTerm[]): string[] => terms.flatMap(term => [
+  ...(term.source === 'company' ? [] : [term.field]),
+  ...(term.divideBy && term.divideBy.source !== 'company' ? [term.divideBy.field] : [])
+]);
+
+const holds = (left: number, operator: RuleOperator, right: number, tolerancePercent: number): boolean => {
+  const allowed = Math.abs(right) * (tolerancePercent || 0) / 100;
+  switch (operator) {
+    case '==': return Math.abs(left - right) <= allowed;
+    case '<=': return left <= right + allowed;
+    case '>=': return left >= right - allowed;
+    default: return true;
+  }
+};
+
+/**
+ * Rules the values break
+ * A rule is skipped when one of its fields has no value or it does not apply to the period type
+ */
+export const evaluateConsistencyRules = (
+  rules: ConsistencyRuleDefinition[],
+  values: any,
+  company: any
+): ConsistencyResult[] => {
+  const periodType = parsePeriod(values?.period || '')?.type;
+
+  return rules.flatMap(rule => {
+    if (rule.periodTypes?.length && (!periodType || !rule.periodTypes.includes(periodType))) return [];
+
+    const left = sumTerms(rule.left, values, company);
+    const right = sumTerms(rule.right, values, company);
+    if (left === null || right === null || holds(left, rule.operator, right, rule.tolerancePercent)) return [];
+
+    return [{
+      key: rule.key,
+      name: rule.name,
+      severity: rule.severity,
+      fields: Array.from(new Set([...getMetricFields(rule.left), ...getMetricFields(rule.right)])),
+      message: `${rule.message} (${formatValue(left)} vs ${formatValue(right)})`,
+      left,
+      right
+    }];
+  });
+};
+
+/**
+ * Run the active rules of a module against a record (saved or not)
+ */
+export const checkConsistency = async (module: RuleModule, record: any): Promise<ConsistencyResult[]> => {
+  const values = typeof record.toObject === 'function' ? record.toObject() : record;
+  const [rules, company] = await Promise.all([
+    getConsistencyRules(module),
+    Company.findById(values.companyId).lean()
+  ]);
+
+  return evaluateConsistencyRules(rules, values, company);
+};
+
+/**
+ * Why a record cannot be saved, or null if it breaks no blocking rule
+ */
+export const getConsistencyConflict = (
+  results: ConsistencyResult[]
+): { error: string; violations: ConsistencyResult[] } | null => {
+  const violations = results.filter(result => result.severity === 'blocking');
+  if (violations.length === 0) return null;
+
+  return {
+    error: `Inconsistent values: ${violations.map(violation => violation.message).join('; ')}`,
+    violations
+  };
+};
+
+/**
+ * Metric fields involved in a broken rule - they don't count towards data completeness
+ */
+export const getInconsistentFields = (results: ConsistencyResult[]): string[] =>
+  Array.from(new Set(results.flatMap(result => result.fields)));
+
+export const toDataQualityWarning = (result: ConsistencyResult): DataQualityWarning => ({
+  type: 'consistency',
+  fields: result.fields,
+  message: result.message,
+  ruleKey: result.key,
+  value: result.left,
+  baseline: result.right
+});
+
+const validateTermField = (path: string, term: any, model: Model<any>, errors: string[]): void => {
+  if (term?.source !== undefined && !['metrics', 'company'].includes(term.source)) {
+    errors.push(`${path}.source must be metrics or company`);
+    return;
+  }
+
+  const schema: Schema = term?.source === 'company' ? Company.schema : model.schema;
+  if (typeof term?.field !== 'string' || schema.path(term.field)?.instance !== 'Number') {
+    errors.push(`${path}.field must be a numeric ${term?.source === 'company' ? 'company' : 'metric'} field`);
+  }
+};
+
+/**
+ * Check that every term of a rule reads a numeric field of its module or of the company
+ */
+export const validateConsistencyRule = (data: { module: RuleModule; left?: any; right?: any }): string[] => {
+  const errors: string[] = [];
+  const model = RULE_MODELS[data.module];
+
+  (['left', 'right'] as const).forEach(side => {
+    const terms = data[side];
+    if (!Array.isArray(terms) || terms.length === 0) {
+      errors.push(`${side} must be a non-empty array of terms`);
+      return;
+    }
+
+    terms.forEach((term, i) => {
+      validateTermField(`${side}[${i}]`, term, model, errors);
+      if (term?.multiplier !== undefined && typeof term.multiplier !== 'number') {
+        errors.push(`${side}[${i}].multiplier must be a number`);
+      }
+      if (term?.divideBy !== undefined) {
+        validateTermField(`${side}[${i}].divideBy`, term.divideBy, model, errors);
+      }
+    });
+  });
+
+  return errors;
+};
@@ -0,0 +1,317 @@
+import Company, { ICompany } from '../models/Company';
+import Scope3Inventory from '../models/Scope3Inventory';
+import GroupConsolidation, { IGroupConsolidation, IGroupEntity, IGroupBRSRArea } from '../models/GroupConsolidation';
+import { aggregateFacilityValues } from './facilityService';
+import { findApprovedMetrics, findApprovedMetricsForPeriod } from './reviewService';
+import { readEnvironmentalMetrics, readSocialMetrics } from './metricAccessor';
+import { calculateBRSRReadiness } from './complianceService';
+import { scoreMetricSet } from './esgScoring';
+import { AggregationRule } from '../config/facilityAggregation';
+import {
+  ConsolidationBoundary,
+  GROUP_ENVIRONMENTAL_AGGREGATION,
+  GROUP_SOCIAL_AGGREGATION,
+  CONTRIBUTION_FIELDS,
+  MAX_GROUP_DEPTH
+} from '../config/groupConsolidation';
+
+const hasValue = (value: any): boolean => value !== undefined && value !== null && !isNaN(Number(value));
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export interface GroupMember {
+  company: ICompany;
+  depth: number;
+  equitySharePercent: number; // Group's effective equity: the shares multiplied down the chain
+  operationalControl: boolean; // Every link from the parent down to the entity is controlled
+}
+
+/**
+ * The company and its subsidiaries, breadth first, down to MAX_GROUP_DEPTH levels
+ */
+export const getGroupEntities = async (groupCompanyId: string): Promise<GroupMember[]> => {
+  const root = await Company.findById(groupCompanyId);
+  if (!root) return [];
+
+  const members: GroupMember[] = [{ company: root, depth: 0, equitySharePercent: 100, operationalControl: true }];
+  const visited = new Set([root._id.toString()]);
+  let level = members;
+
+  for (let depth = 1; depth <= MAX_GROUP_DEPTH && level.length > 0; depth++) {
+    const parents = new Map(level.map(member => [member.company._id.toString(), member]));
+    const children = await Company.find({ parentCompanyId: { $in: [...parents.keys()] } }).sort({ name: 1 });
+
+    level = children
+      .filter(child => !visited.has(child._id.toString()))
+      .map(child => {
+        visited.add(child._id.toString());
+        const parent = parents.get(child.parentCompanyId!.toString())!;
+        return {
+          company: child,
+          depth,
+          equitySharePercent: round((parent.equitySharePercent * (child.equitySharePercent ?? 100)) / 100),
+          operationalControl: parent.operationalControl && child.operationalControl !== false
+        };
+      });
+    members.push(...level);
+  }
+
+  return members;
+};
+
+/**
+ * Share (0-1) of an entity's figures that counts towards the group under a boundary
+ */
+export const getInclusionShare = (member: GroupMember, boundary: ConsolidationBoundary): number => {
+  if (boundary === 'equity-share') return member.equitySharePercent / 100;
+  return member.operationalControl ? 1 : 0;
+};
+
+/**
+ * Why a company cannot be made a subsidiary of the parent, or null if it can
+ * Rejects cycles and groups nested deeper than MAX_GROUP_DEPTH
+ */
+export const getGroupLinkConflict = async (companyId: string, parentCompanyId: string): Promise<string | null> => {
+  if (companyId === parentCompanyId) {
+    return 'A company cannot be its own parent';
+  }
+
+  const subsidiaries = await getGroupEntities(companyId);
+  if (subsidiaries.some(member => member.company._id.toString() === parentCompanyId)) {
+    return 'The parent is a subsidiary of this company - the link would create a cycle';
+  }
+
+  // Levels above the new parent, stopping once the limit is already exceeded
+  let parentDepth = 0;
+  let ancestorId = (await Company.findById(parentCompanyId).select('parentCompanyId'))?.parentCompanyId;
+  while (ancestorId && parentDepth <= MAX_GROUP_DEPTH) {
+    parentDepth++;
+    ancestorId = (await Company.findById(ancestorId).select('parentCompanyId'))?.parentCompanyId;
+  }
+
+  const subtreeDepth = Math.max(...subsidiaries.map(member => member.depth));
+  if (parentDepth + 1 + subtreeDepth > MAX_GROUP_DEPTH) {
+    return `Groups can be at most ${MAX_GROUP_DEPTH} levels deep`;
+  }
+  return null;
+};
+
+// Summed fields count in proportion to the entity's share; averages then weight by the scaled headcount or energy
+const scaleValues = (values: Record<string, any>, rules: AggregationRule[], share: number): Record<string, any> => {
+  const scaled = { ...values };
+  rules
+    .filter(rule => rule.method === 'sum' && hasValue(scaled[rule.field]))
+    .forEach(rule => {
+      scaled[rule.field] = Number(scaled[rule.field]) * share;
+    });
+  return scaled;
+};
+
+interface EntityFigures {
+  member: GroupMember;
+  share: number;
+  environmental: Record<string, any> | null;
+  social: Record<string, any> | null;
+  eliminatedScope3Tonnes: number;
+  brsr: Awaited<ReturnType<typeof calculateBRSRReadiness>> | null;
+}
+
+/**
+ * An included entity's approved metrics for the period, scaled by its share
+ * Scope 3 bought from other included entities is removed - the seller's Scope 1/2 already count it
+ */
+const loadEntityFigures = async (
+  member: GroupMember,
+  share: number,
+  period: string,
+  includedIds: Set<string>
+): Promise<EntityFigures> => {
+  const companyId = member.company._id.toString();
+  if (share === 0) {
+    return { member, share, environmental: null, social: null, eliminatedScope3Tonnes: 0, brsr: null };
+  }
+
+  const [envRecord, socialRecord, inventory, brsr] = await Promise.all([
+    findApprovedMetrics('environment', companyId, period),
+    findApprovedMetrics('social', companyId, period),
+    Scope3Inventory.findOne({ companyId, period }),
+    calculateBRSRReadiness(companyId, period)
+  ]);
+
+  const intraGroupLines = (inventory?.lines || []).filter(line =>
+    line.counterpartyCompanyId &&
+    line.counterpartyCompanyId.toString() !== companyId &&
+    includedIds.has(line.counterpartyCompanyId.toString())
+  );
+  let eliminatedScope3Tonnes = round(intraGroupLines.reduce((sum, line) => sum + line.emissionsTonnes, 0));
+
+  const env = readEnvironmentalMetrics(envRecord) as Record<string, any> | null;
+  if (env) {
+    const scope3 = hasValue(env.scope3Emissions) ? Number(env.scope3Emissions) : inventory?.totalEmissionsTonnes;
+    if (hasValue(scope3)) {
+      eliminatedScope3Tonnes = Math.min(eliminatedScope3Tonnes, Number(scope3));
+      env.scope3Emissions = Number(scope3) - eliminatedScope3Tonnes;
+    }
+  }
+
+  const social = readSocialMetrics(socialRecord) as Record<string, any> | null;
+
+  return {
+    member,
+    share,
+    environmental: env ? scaleValues(env, GROUP_ENVIRONMENTAL_AGGREGATION, share) : null,
+    social: social ? scaleValues(social, GROUP_SOCIAL_AGGREGATION, share) : null,
+    eliminatedScope3Tonnes: round(eliminatedScope3Tonnes * share),
+    brsr
+  };
+};
+
+/**
+ * Group BRSR readiness - a requirement is covered only once every included entity covers it
+ */
+const combineBRSRReadiness = (figures: EntityFigures[]): IGroupConsolidation['brsrReadiness'] => {
+  const assessed = figures.filter(entity => entity.brsr);
+  if (assessed.length === 0) {
+    return { overallReadiness: 0, breakdown: [] };
+  }
+
+  const breakdown: IGroupBRSRArea[] = assessed[0].brsr!.breakdown.map(area => {
+    const requirements = area.requirements.map(requirement => {
+      const missingEntities = assessed
+        .filter(entity => !entity.brsr!.breakdown
+          .find(entityArea => entityArea.area === area.area)
+          ?.requirements.find(entityRequirement => entityRequirement.id === requirement.id)?.covered)
+        .map(entity => entity.member.company.name);
+
+      return {
+        id: requirement.id,
+        requirement: requirement.requirement,
+        covered: missingEntities.length === 0,
+        missingEntities
+      };
+    });
+    const covered = requirements.filter(requirement => requirement.covered).length;
+
+    return { area: area.area, covered, total: requirements.length, missing: requirements.length - covered, requirements };
+  });
+
+  const total = breakdown.reduce((sum, area) => sum + area.total, 0);
+  const covered = breakdown.reduce((sum, area) => sum + area.covered, 0);
+  return { overallReadiness: total > 0 ? Math.round((covered / total) * 100) : 0, breakdown };
+};
+
+/**
+ * Consolidate the group under a company for a period and save the snapshot
+ * Entities count in full (operational control) or by effective equity (equity share); each entity's
+ * approved metrics are used, so only periods approved for that entity contribute.
+ * The group score takes governance, policies and industry from the parent's own approved records.
+ */
+export const consolidateGroup = async (
+  groupCompanyId: string,
+  period: string,
+  boundary: ConsolidationBoundary,
+  userId: string
+): Promise<IGroupConsolidation> => {
+  const members = await getGroupEntities(groupCompanyId);
+  if (members.length === 0) {
+    throw new Error('Company not found');
+  }
+  const parent = members[0];
+
+  const shares = members.map(member => getInclusionShare(member, boundary));
+  const includedIds = new Set(members.filter((_, i) => shares[i] > 0).map(member => member.company._id.toString()));
+  const figures = await Promise.all(
+    members.map((member, i) => loadEntityFigures(member, shares[i], period, includedIds))
+  );
+
+  const envRecords = figures.filter(entity => entity.environmental).map(entity => entity.environmental);
+  const socialRecords = figures.filter(entity => entity.social).map(entity => entity.social);
+
+  const environmental = aggregateFacilityValues(envRecords, GROUP_ENVIRONMENTAL_AGGREGATION);
+  if (hasValue(environmental.scope1Emissions) || hasValue(environmental.scope2Emissions)) {
+    environmental.carbonEmissionsTons = round(Number(environmental.scope1Emissions || 0) + Number(environmental.scope2Emissions || 0));
+  }
+  const social = aggregateFacilityValues(socialRecords, GROUP_SOCIAL_AGGREGATION);
+  const groupValues: Record<string, number | undefined> = { ...environmental, ...social };
+
+  const entities: IGroupEntity[] = figures.map(entity => {
+    const contributions: IGroupEntity['contributions'] = {};
+    CONTRIBUTION_FIELDS.forEach(({ field }) => {
+      const value = entity.environmental?.[field] ?? entity.social?.[field];
+      if (!hasValue(value)) return;
+      const groupTotal = Number(groupValues[field] || 0);
+      contributions[field] = {
+        value: round(Number(value)),
+        percentOfGroup: groupTotal > 0 ? Math.round((Number(value) / groupTotal) * 1000) / 10 : null
+      };
+    });
+
+    const missingModules = entity.share > 0
+      ? [!entity.environmental && 'environment', !entity.social && 'social'].filter(Boolean) as string[]
+      : [];
+
+    return {
+      companyId: entity.member.company._id,
+      name: entity.member.company.name,
+      parentCompanyId: entity.member.company.parentCompanyId || undefined,
+      depth: entity.member.depth,
+      equitySharePercent: entity.member.equitySharePercent,
+      operationalControl: entity.member.operationalControl,
+      inclusionPercent: Math.round(entity.share * 1000) / 10,
+      missingModules,
+      contributions,
+      eliminatedScope3Tonnes: entity.eliminatedScope3Tonnes,
+      brsrReadiness: entity.brsr ? entity.brsr.overallReadiness : null
+    };
+  });
+
+  // Group score - the parent's own record supplies the fields that are not consolidated
+  let esgScore: IGroupConsolidation['esgScore'] = null;
+  let scoreError: string | undefined;
+  const [parentEnv, parentSocial, govMetrics] = await Promise.all([
+    findApprovedMetrics('environment', groupCompanyId, period),
+    findApprovedMetrics('social', groupCompanyId, period),
+    findApprovedMetricsForPeriod('governance', groupCompanyId, period)
+  ]);
+
+  const missingMetrics: string[] = [];
+  if (envRecords.length === 0) missingMetrics.push('Environmental');
+  if (socialRecords.length === 0) missingMetrics.push('Social');
+  if (!govMetrics) missingMetrics.push('Governance');
+
+  if (missingMetrics.length > 0) {
+    scoreError = `Missing approved metrics for period ${period}: ${missingMetrics.join(', ')}`;
+  } else {
+    try {
+      esgScore = await scoreMetricSet({
+        envMetrics: { ...(readEnvironmentalMetrics(parentEnv) || {}), ...environmental },
+        socialMetrics: { ...(readSocialMetrics(parentSocial) || {}), ...social },
+        govMetrics,
+        company: {
+          industry: parent.company.industry,
+          employeeCount: Math.round(figures.reduce((sum, entity) => sum + (entity.member.company.employeeCount || 0) * entity.share, 0))
+        }
+      });
+    } catch (error: any) {
+      scoreError = error.message;
+    }
+  }
+
+  const consolidation = await GroupConsolidation.findOneAndUpdate(
+    { groupCompanyId, period, boundary },
+    {
+      entities,
+      environmental,
+      social,
+      eliminatedScope3Tonnes: round(entities.reduce((sum, entity) => sum + entity.eliminatedScope3Tonnes, 0)),
+      esgScore,
+      scoreError: scoreError || null,
+      brsrReadiness: combineBRSRReadiness(figures),
+      calculatedBy: userId,
+      calculatedAt: new Date()
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  return consolidation!;
+};
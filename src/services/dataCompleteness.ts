@@ -1,6 +1,7 @@
 import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
 import SocialMetrics from '../models/SocialMetrics';
 import GovernanceMetrics from '../models/GovernanceMetrics';
+import { readEnvironmentalMetrics, readSocialMetrics, readGovernanceMetrics } from './metricAccessor';
 
 /**
  * Calculate risk level based on ESG score
@@ -20,12 +21,14 @@ const isMissing = (value: any): boolean => {
 
 /**
  * Calculate data completeness for Environmental metrics
+ * Fields that break a consistency rule count as incomplete
  */
-export const getEnvironmentalCompleteness = (metrics: any): {
+export const getEnvironmentalCompleteness = (metrics: any, inconsistentFields: string[] = []): {
   completeness: number;
   completed: string[];
   missing: string[];
   missingCritical: string[];
+  inconsistent: string[];
 } => {
   const requiredFields = [
     { key: 'electricityKwh', label: 'Electricity (kWh)', critical: true },
@@ -41,11 +44,18 @@ export const getEnvironmentalCompleteness = (metrics: any): {
   const completed: string[] = [];
   const missing: string[] = [];
   const missingCritical: string[] = [];
+  const inconsistent: string[] = [];
+  const values: Record<string, any> = readEnvironmentalMetrics(metrics) || {};
 
   requiredFields.forEach(field => {
-    const value = metrics[field.key] ?? metrics[field.key.replace('Kwh', 'UsageKwh')] ?? metrics[field.key.replace('Litres', 'ConsumptionLitres')];
+    const value = values[field.key];
     if (!isMissing(value)) {
-      completed.push(field.label);
+      // Present but breaking a consistency rule - not counted as complete
+      if (inconsistentFields.includes(field.key)) {
+        inconsistent.push(field.label);
+      } else {
+        completed.push(field.label);
+      }
     } else {
       missing.push(field.label);
       if (field.critical) {
@@ -58,17 +68,19 @@ export const getEnvironmentalCompleteness = (metrics: any): {
   const completedCount = completed.length;
   const completeness = Math.round((completedCount / totalFields) * 100);
 
-  return { completeness, completed, missing, missingCritical };
+  return { completeness, completed, missing, missingCritical, inconsistent };
 };
 
 /**
  * Calculate data completeness for Social metrics
+ * Fields that break a consistency rule count as incomplete
  */
-export const getSocialCompleteness = (metrics: any): {
+export const getSocialCompleteness = (metrics: any, inconsistentFields: string[] = []): {
   completeness: number;
   completed: string[];
   missing: string[];
   missingCritical: string[];
+  inconsistent: string[];
 } => {
   const requiredFields = [
     { key: 'totalEmployeesPermanent', label: 'Permanent Employees', critical: true },
@@ -77,18 +89,23 @@ export const getSocialCompleteness = (metrics: any): {
     { key: 'accidentIncidents', label: 'Accident Incidents', critical: true },
     { key: 'totalTrainingHoursPerEmployee', label: 'Training Hours/Employee', critical: true },
     { key: 'csrSpend', label: 'CSR Spend', critical: false },
-    { key: 'totalEmployees', label: 'Total Employees (Legacy)', critical: false },
-    { key: 'femaleEmployees', label: 'Female Employees (Legacy)', critical: false },
   ];
 
   const completed: string[] = [];
   const missing: string[] = [];
   const missingCritical: string[] = [];
+  const inconsistent: string[] = [];
+  const values: Record<string, any> = readSocialMetrics(metrics) || {};
 
   requiredFields.forEach(field => {
-    const value = metrics[field.key];
+    const value = values[field.key];
     if (!isMissing(value)) {
-      completed.push(field.label);
+      // Present but breaking a consistency rule - not counted as complete
+      if (inconsistentFields.includes(field.key)) {
+        inconsistent.push(field.label);
+      } else {
+        completed.push(field.label);
+      }
     } else {
       missing.push(field.label);
       if (field.critical) {
@@ -101,17 +118,19 @@ export const getSocialCompleteness = (metrics: any): {
   const completedCount = completed.length;
   const completeness = Math.round((completedCount / totalFields) * 100);
 
-  return { completeness, completed, missing, missingCritical };
+  return { completeness, completed, missing, missingCritical, inconsistent };
 };
 
 /**
  * Calculate data completeness for Governance metrics
+ * Fields that break a consistency rule count as incomplete
  */
-export const getGovernanceCompleteness = (metrics: any): {
+export const getGovernanceCompleteness = (metrics: any, inconsistentFields: string[] = []): {
   completeness: number;
   completed: string[];
   missing: string[];
   missingCritical: string[];
+  inconsistent: string[];
 } => {
   const requiredFields = [
     { key: 'boardMembers', label: 'Board Members', critical: true },
@@ -125,11 +144,18 @@ export const getGovernanceCompleteness = (metrics: any): {
   const completed: string[] = [];
   const missing: string[] = [];
   const missingCritical: string[] = [];
+  const inconsistent: string[] = [];
+  const values: Record<string, any> = readGovernanceMetrics(metrics) || {};
 
   requiredFields.forEach(field => {
-    const value = metrics[field.key];
+    const value = values[field.key];
     if (!isMissing(value)) {
-      completed.push(field.label);
+      // Present but breaking a consistency rule - not counted as complete
+      if (inconsistentFields.includes(field.key)) {
+        inconsistent.push(field.label);
+      } else {
+        completed.push(field.label);
+      }
     } else {
       missing.push(field.label);
       if (field.critical) {
@@ -142,7 +168,7 @@ export const getGovernanceCompleteness = (metrics: any): {
   const completedCount = completed.length;
   const completeness = Math.round((completedCount / totalFields) * 100);
 
-  return { completeness, completed, missing, missingCritical };
+  return { completeness, completed, missing, missingCritical, inconsistent };
 };
 
 /**
@@ -4,6 +4,10 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
+// User-written text (names, comments) must not inject markup into emails
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
 // Email service for sending password reset emails
 class EmailService {
   private transporter: nodemailer.Transporter;
@@ -520,6 +524,80 @@ class EmailService {
     }
   }
 
+  /**
+   * Send a new comment on a metric, evidence or task thread (to mentioned users and thread participants)
+   */
+  async sendCommentNotification(
+    email: string,
+    name: string,
+    comment: { authorName: string; companyName: string; subject: string; body: string; threadId: string; mentioned: boolean }
+  ): Promise<void> {
+    const threadUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/dashboard/comments/${comment.threadId}`;
+    const intro = comment.mentioned
+      ? `${escapeHtml(comment.authorName)} mentioned you in a comment on <strong>${escapeHtml(comment.subject)}</strong>`
+      : `${escapeHtml(comment.authorName)} replied on <strong>${escapeHtml(comment.subject)}</strong>`;
+
+    const mailOptions = {
+      from: `"EcoTrack India" <${process.env.GMAIL_USER || process.env.SMTP_USER || 'noreply@ecotrack.in'}>`,
+      to: email,
+      subject: `${comment.mentioned ? 'You were mentioned' : 'New comment'}: ${comment.subject} - EcoTrack India`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>New Comment</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0;">🌱 EcoTrack India</h1>
+          </div>
+
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb;">
+            <p style="color: #4b5563;">Hello ${escapeHtml(name)},</p>
+
+            <p style="color: #4b5563;">${intro}${comment.companyName ? ` for ${escapeHtml(comment.companyName)}` : ''}:</p>
+
+            <div style="background: #fff; border-left: 4px solid #10b981; padding: 15px; margin: 20px 0; border-radius: 4px;">
+              <p style="color: #111827; margin: 0; white-space: pre-wrap;">${escapeHtml(comment.body)}</p>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${escapeHtml(threadUrl)}"
+                 style="display: inline-block; background: #10b981; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+                View Discussion
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+            <p style="color: #9ca3af; font-size: 12px; text-align: center; margin: 0;">
+              This is an automated email. Please do not reply to this message.<br>
+              © ${new Date().getFullYear()} EcoTrack India. All rights reserved.
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        ${comment.authorName} ${comment.mentioned ? 'mentioned you in a comment' : 'replied'} on ${comment.subject}:
+
+        ${comment.body}
+
+        View the discussion: ${threadUrl}
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Comment notification sent to ${email}`);
+    } catch (error) {
+      console.error('❌ Error sending comment notification:', error);
+      throw new Error('Failed to send comment notification');
+    }
+  }
+
   /**
    * Verify email configuration
    */
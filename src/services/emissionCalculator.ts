@@ -0,0 +1,156 @@
+import { IEnvironmentalMetrics } from '../models/EnvironmentalMetrics';
+import { getEmissionFactorSet, FuelType } from '../config/emissionFactors';
+
+interface ActivityData {
+  electricityKwh?: number;
+  fuelLitres?: number;
+  fuelType?: FuelType;
+  coalTonnes?: number;
+}
+
+interface EmissionResult {
+  factorSet: string;
+  factorVersion: string;
+  scope1Emissions?: number; // tCO2e, undefined when there is no fuel activity data
+  scope2Emissions?: number; // tCO2e, undefined when there is no electricity activity data
+}
+
+const hasValue = (value: any): boolean => value !== undefined && value !== null && !isNaN(Number(value));
+
+const toTonnes = (kg: number): number => Math.round((kg / 1000) * 1000) / 1000;
+
+/**
+ * Calculate Scope 1 and Scope 2 emissions (tCO2e) from activity data
+ * Scope 1: fuel and coal combustion, Scope 2: grid electricity (location-based)
+ */
+export const calculateEmissionsFromActivity = (activity: ActivityData, factorVersion?: string): EmissionResult => {
+  const factors = getEmissionFactorSet(factorVersion);
+  if (!factors) {
+    throw new Error(`Unknown emission factor version: ${factorVersion}`);
+  }
+
+  const result: EmissionResult = {
+    factorSet: factors.factorSet,
+    factorVersion: factors.version
+  };
+
+  if (hasValue(activity.fuelLitres) || hasValue(activity.coalTonnes)) {
+    const fuelFactor = factors.fuels[activity.fuelType || 'diesel'];
+    const fuelKg = hasValue(activity.fuelLitres) ? Number(activity.fuelLitres) * fuelFactor.value : 0;
+    const coalKg = hasValue(activity.coalTonnes) ? Number(activity.coalTonnes) * factors.coal.value : 0;
+    result.scope1Emissions = toTonnes(fuelKg + coalKg);
+  }
+
+  if (hasValue(activity.electricityKwh)) {
+    result.scope2Emissions = toTonnes(Number(activity.electricityKwh) * factors.electricity.value);
+  }
+
+  return result;
+};
+
+/**
+ * Fill Scope 1/2 on an environmental record from its activity fields
+ * Precedence per scope: recorded override > calculated from activity > hand-entered value
+ */
+export const applyEmissionCalculation = (metrics: IEnvironmentalMetrics): void => {
+  const calculated = calculateEmissionsFromActivity(
+    {
+      electricityKwh: metrics.electricityKwh ?? metrics.electricityUsageKwh,
+      fuelLitres: metrics.fuelLitres ?? metrics.fuelConsumptionLitres,
+      fuelType: metrics.fuelType,
+      coalTonnes: metrics.coalTonnes
+    },
+    metrics.emissionFactorVersion
+  );
+  const override = metrics.emissionsOverride;
+
+  const resolve = (overrideValue?: number, calculatedValue?: number, enteredValue?: number) => {
+    if (hasValue(overrideValue)) return { value: overrideValue, method: 'override' as const };
+    if (hasValue(calculatedValue)) return { value: calculatedValue, method: 'calculated' as const };
+    return { value: enteredValue, method: 'manual' as const };
+  };
+
+  const scope1 = resolve(override?.scope1Emissions, calculated.scope1Emissions, metrics.scope1Emissions);
+  const scope2 = resolve(override?.scope2Emissions, calculated.scope2Emissions, metrics.scope2Emissions);
+
+  metrics.scope1Emissions = scope1.value;
+  metrics.scope2Emissions = scope2.value;
+
+  if (!hasValue(scope1.value) && !hasValue(scope2.value)) {
+    metrics.emissionsCalculation = undefined;
+    return;
+  }
+
+  metrics.carbonEmissionsTons = toTonnes((Number(scope1.value || 0) + Number(scope2.value || 0)) * 1000);
+  metrics.emissionsCalculation = {
+    factorSet: calculated.factorSet,
+    factorVersion: calculated.factorVersion,
+    scope1Method: scope1.method,
+    scope2Method: scope2.method,
+    scope1Calculated: calculated.scope1Emissions,
+    scope2Calculated: calculated.scope2Emissions,
+    calculatedAt: new Date()
+  };
+};
+
+type EmissionMethod = 'calculated' | 'override' | 'manual';
+
+/**
+ * The combined method for a scope is only as strong as its weakest part
+ */
+const combineEmissionMethods = (methods: EmissionMethod[]): EmissionMethod => {
+  if (methods.length === 0 || methods.includes('manual')) return 'manual';
+  if (methods.includes('override')) return 'override';
+  return 'calculated';
+};
+
+/**
+ * Provenance for Scope 1/2 totals summed from several records (facilities or sub-periods)
+ */
+export const combineEmissionCalculations = (records: any[]): IEnvironmentalMetrics['emissionsCalculation'] => {
+  const calculations = records.map(r => r?.emissionsCalculation).filter(Boolean) as NonNullable<IEnvironmentalMetrics['emissionsCalculation']>[];
+  if (calculations.length === 0) {
+    return undefined;
+  }
+
+  const methodsFor = (scope: 'scope1' | 'scope2') => records
+    .filter(r => hasValue(r?.[`${scope}Emissions`]))
+    .map(r => (r.emissionsCalculation?.[`${scope}Method`] || 'manual') as EmissionMethod);
+  const sumCalculated = (key: 'scope1Calculated' | 'scope2Calculated') => {
+    const values = calculations.filter(c => hasValue(c[key]));
+    return values.length > 0 ? toTonnes(values.reduce((sum, c) => sum + Number(c[key]), 0) * 1000) : undefined;
+  };
+
+  return {
+    factorSet: [...new Set(calculations.map(c => c.factorSet))].join(', '),
+    factorVersion: [...new Set(calculations.map(c => c.factorVersion))].join(', '),
+    scope1Method: combineEmissionMethods(methodsFor('scope1')),
+    scope2Method: combineEmissionMethods(methodsFor('scope2')),
+    scope1Calculated: sumCalculated('scope1Calculated'),
+    scope2Calculated: sumCalculated('scope2Calculated'),
+    calculatedAt: new Date()
+  };
+};
+
+/**
+ * Total Scope 1 + 2 emissions (tCO2e) for scoring
+ * Falls back to the legacy carbonEmissionsTons field for records saved before derivation existed
+ */
+export const getScope12Emissions = (metrics: any): number => {
+  if (hasValue(metrics?.scope1Emissions) || hasValue(metrics?.scope2Emissions)) {
+    return Number(metrics.scope1Emissions || 0) + Number(metrics.scope2Emissions || 0);
+  }
+  return Number(metrics?.carbonEmissionsTons || 0);
+};
+
+/**
+ * Whether both Scope 1 and Scope 2 figures have recorded provenance (calculated or overridden with a reason)
+ */
+export const hasDerivedScope12 = (metrics: any): boolean => {
+  const calculation = metrics?.emissionsCalculation;
+  if (!calculation) return false;
+  return (
+    hasValue(metrics.scope1Emissions) && calculation.scope1Method !== 'manual' &&
+    hasValue(metrics.scope2Emissions) && calculation.scope2Method !== 'manual'
+  );
+};
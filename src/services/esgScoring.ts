@@ -2,20 +2,104 @@ import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
 import SocialMetrics from '../models/SocialMetrics';
 import GovernanceMetrics from '../models/GovernanceMetrics';
 import Company from '../models/Company';
+import Facility from '../models/Facility';
+import FacilityMetrics from '../models/FacilityMetrics';
+import { getScope12Emissions, applyEmissionCalculation } from './emissionCalculator';
+import { getMethodology, resolveRulesForIndustry, findBand } from './methodologyService';
+import { findMetricsForPeriod } from './periodService';
+import { findApprovedMetrics, findApprovedMetricsForPeriod, findApprovedFacilityMetrics } from './reviewService';
+import {
+  readEnvironmentalMetrics,
+  readSocialMetrics,
+  readGovernanceMetrics,
+  getTotalEmployees,
+  EnvironmentalMetricsView,
+  SocialMetricsView,
+  GovernanceMetricsView
+} from './metricAccessor';
+import { convertValue } from './unitService';
+import { ScoringRules, ScoreBand } from '../config/scoringMethodology';
+import { IScoringMethodology } from '../models/ScoringMethodology';
+
+type Pillar = 'Environmental' | 'Social' | 'Governance';
 
-interface ESGScores {
+/**
+ * One step of a pillar score: which rule fired, on what input, and the points it added or removed
+ * The points of a pillar's contributions always sum to its score
+ */
+export interface ScoreContribution {
+  pillar: Pillar;
+  rule: string;
+  label: string;
+  input: number | boolean | null;
+  band: string | null;
+  points: number;
+}
+
+interface PillarResult {
+  score: number;
+  contributions: ScoreContribution[];
+}
+
+export interface ESGScores {
   environmentalScore: number;
   socialScore: number;
   governanceScore: number;
   overallScore: number;
+  methodologyVersion: number;
+  contributions: ScoreContribution[];
 }
 
+const roundInput = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Collects contributions for a pillar while its score is being built
+ */
+const createTrace = (pillar: Pillar, baseScore: number) => {
+  const contributions: ScoreContribution[] = [
+    { pillar, rule: 'baseScore', label: 'Base score', input: null, band: null, points: baseScore }
+  ];
+
+  return {
+    contributions,
+    // Record a fixed adjustment (e.g. a policy being in place)
+    add: (rule: string, label: string, input: number | boolean | null, band: string | null, points: number): number => {
+      contributions.push({ pillar, rule, label, input: typeof input === 'number' ? roundInput(input) : input, band, points });
+      return points;
+    },
+    // Record the band hit for a banded rule
+    band: (rule: string, label: string, value: number, bands: ScoreBand[]): number => {
+      const hit = findBand(value, bands);
+      const points = hit ? hit.points : 0;
+      contributions.push({ pillar, rule, label, input: roundInput(value), band: hit ? `${hit.op} ${hit.value}` : null, points });
+      return points;
+    },
+    // Record missing input so the breakdown shows why a rule did not contribute
+    skip: (rule: string, label: string): void => {
+      contributions.push({ pillar, rule, label, input: null, band: 'no data', points: 0 });
+    },
+    // Clamp to 0-100, recording the adjustment if one was needed
+    finish: (score: number): PillarResult => {
+      const clamped = Math.max(0, Math.min(100, score));
+      if (clamped !== score) {
+        contributions.push({ pillar, rule: 'clamp', label: 'Capped to 0-100 range', input: roundInput(score), band: null, points: roundInput(clamped - score) });
+      }
+      return { score: clamped, contributions };
+    }
+  };
+};
+
 /**
  * Calculate Environmental Score (0-100)
  * Factors: Energy efficiency, waste management, renewable energy adoption
  */
-const calculateEnvironmentalScore = (metrics: any, company: any): number => {
-  let score = 100;
+const calculateEnvironmentalScore = (
+  metrics: EnvironmentalMetricsView,
+  company: any,
+  rules: ScoringRules['environmental']
+): PillarResult => {
+  const trace = createTrace('Environmental', rules.baseScore);
+  let score = rules.baseScore;
 
   // Validate company has employeeCount
   const employeeCount = Number(company?.employeeCount || 0);
@@ -25,161 +109,208 @@ const calculateEnvironmentalScore = (metrics: any, company: any): number => {
   }
 
   // Per-employee metrics (better efficiency)
-  const electricityUsage = Number(metrics.electricityUsageKwh || 0);
-  const wasteGenerated = Number(metrics.wasteGeneratedKg || 0);
+  const electricityUsage = Number(metrics.electricityKwh || 0);
+  // Waste bands are per employee in kg
+  const wasteGenerated = convertValue(Number(metrics.totalWasteTonnes || 0), 't', 'kg');
   const waterUsage = Number(metrics.waterUsageKL || 0);
-  const carbonEmissions = Number(metrics.carbonEmissionsTons || 0);
+  const carbonEmissions = getScope12Emissions(metrics);
   const renewableEnergyPercent = Number(metrics.renewableEnergyPercent || 0);
 
   if (!isNaN(electricityUsage) && electricityUsage > 0 && company.employeeCount > 0) {
     const energyPerEmployee = electricityUsage / company.employeeCount;
     // Energy efficiency (0-30 points)
-    // Penalize high energy usage (>500 kWh per employee/month is poor)
-    if (energyPerEmployee > 500) score -= 15;
-    else if (energyPerEmployee > 300) score -= 8;
-    else if (energyPerEmployee < 150) score += 5; // Bonus for efficiency
+    score += trace.band('energyPerEmployeeKwh', 'Energy per employee (kWh)', energyPerEmployee, rules.energyPerEmployeeKwh);
+  } else {
+    trace.skip('energyPerEmployeeKwh', 'Energy per employee (kWh)');
   }
 
   if (!isNaN(wasteGenerated) && wasteGenerated > 0 && company.employeeCount > 0) {
     const wastePerEmployee = wasteGenerated / company.employeeCount;
     // Waste management (0-25 points)
-    // Less than 50kg per employee is good
-    if (wastePerEmployee > 100) score -= 15;
-    else if (wastePerEmployee > 50) score -= 8;
-    else score += 5;
+    score += trace.band('wastePerEmployeeKg', 'Waste per employee (kg)', wastePerEmployee, rules.wastePerEmployeeKg);
+  } else {
+    trace.skip('wastePerEmployeeKg', 'Waste per employee (kg)');
   }
 
   if (!isNaN(waterUsage) && waterUsage > 0 && company.employeeCount > 0) {
     const waterPerEmployee = waterUsage / company.employeeCount;
     // Water conservation (0-15 points)
-    if (waterPerEmployee > 5) score -= 10;
-    else if (waterPerEmployee < 2) score += 5;
+    score += trace.band('waterPerEmployeeKL', 'Water per employee (KL)', waterPerEmployee, rules.waterPerEmployeeKL);
+  } else {
+    trace.skip('waterPerEmployeeKL', 'Water per employee (KL)');
   }
 
   // Renewable energy adoption (0-30 points) - Major factor
   if (!isNaN(renewableEnergyPercent) && renewableEnergyPercent >= 0 && renewableEnergyPercent <= 100) {
-    score += (renewableEnergyPercent * 0.3);
+    score += trace.add(
+      'renewablePointsPerPercent',
+      'Renewable energy (%)',
+      renewableEnergyPercent,
+      `x ${rules.renewablePointsPerPercent} per %`,
+      roundInput(renewableEnergyPercent * rules.renewablePointsPerPercent)
+    );
   }
 
-  // Carbon emissions (penalty)
+  // Carbon emissions - Scope 1 + 2 (penalty)
   if (!isNaN(carbonEmissions) && carbonEmissions > 0 && company.employeeCount > 0) {
     const carbonPerEmployee = carbonEmissions / company.employeeCount;
-    if (carbonPerEmployee > 5) score -= 10;
-    else if (carbonPerEmployee < 2) score += 5;
+    score += trace.band('carbonPerEmployeeTonnes', 'Scope 1+2 emissions per employee (tCO2e)', carbonPerEmployee, rules.carbonPerEmployeeTonnes);
+  } else {
+    trace.skip('carbonPerEmployeeTonnes', 'Scope 1+2 emissions per employee (tCO2e)');
   }
 
-  return Math.max(0, Math.min(100, score));
+  return trace.finish(score);
 };
 
 /**
  * Calculate Social Score (0-100)
  * Factors: Gender diversity, training, safety, retention
  */
-const calculateSocialScore = (metrics: any): number => {
-  let score = 50; // Base score
+const calculateSocialScore = (metrics: SocialMetricsView, rules: ScoringRules['social']): PillarResult => {
+  const trace = createTrace('Social', rules.baseScore);
+  let score = rules.baseScore;
 
   // Gender diversity (0-25 points)
-  // Support both new field (femalePercentWorkforce) and legacy field (femaleEmployees/totalEmployees)
-  let femalePercentage = 0;
-  if (metrics.femalePercentWorkforce !== undefined && metrics.femalePercentWorkforce !== null) {
-    femalePercentage = Number(metrics.femalePercentWorkforce);
-  } else if (metrics.femaleEmployees && metrics.totalEmployees) {
-    femalePercentage = (Number(metrics.femaleEmployees) / Number(metrics.totalEmployees)) * 100;
-  } else if (metrics.totalEmployeesPermanent) {
-    // Try to use permanent employees if available
-    const totalEmployees = Number(metrics.totalEmployeesPermanent) + Number(metrics.totalEmployeesContractual || 0);
-    if (metrics.femaleEmployees && totalEmployees > 0) {
-      femalePercentage = (Number(metrics.femaleEmployees) / totalEmployees) * 100;
-    }
-  }
+  const femalePercentage = Number(metrics.femalePercentWorkforce || 0);
 
   if (!isNaN(femalePercentage) && femalePercentage > 0) {
-    if (femalePercentage >= 40) score += 25;
-    else if (femalePercentage >= 30) score += 18;
-    else if (femalePercentage >= 20) score += 12;
-    else if (femalePercentage >= 10) score += 6;
+    score += trace.band('femalePercent', 'Female share of workforce (%)', femalePercentage, rules.femalePercent);
+  } else {
+    trace.skip('femalePercent', 'Female share of workforce (%)');
   }
 
   // Training & development (0-25 points)
-  // Support both new field (totalTrainingHoursPerEmployee) and legacy field (avgTrainingHours)
-  const trainingHours = Number(metrics.totalTrainingHoursPerEmployee || metrics.avgTrainingHours || 0);
+  const trainingHours = Number(metrics.totalTrainingHoursPerEmployee || 0);
   if (!isNaN(trainingHours) && trainingHours > 0) {
-    if (trainingHours >= 40) score += 25;
-    else if (trainingHours >= 24) score += 18;
-    else if (trainingHours >= 12) score += 12;
-    else if (trainingHours >= 6) score += 6;
+    score += trace.band('trainingHours', 'Training hours per employee', trainingHours, rules.trainingHours);
+  } else {
+    trace.skip('trainingHours', 'Training hours per employee');
   }
 
   // Workplace safety (0-25 points)
-  // Support both new fields (accidentIncidents) and legacy field (workplaceIncidents)
-  const incidents = Number(metrics.accidentIncidents || metrics.workplaceIncidents || 0);
-  const totalEmployees = Number(metrics.totalEmployeesPermanent || metrics.totalEmployees || 0);
+  const incidents = Number(metrics.accidentIncidents || 0);
+  const totalEmployees = Number(metrics.totalEmployeesPermanent || 0);
   if (!isNaN(incidents) && !isNaN(totalEmployees) && totalEmployees > 0) {
     const incidentRate = (incidents / totalEmployees) * 100;
-    if (incidentRate === 0) score += 25;
-    else if (incidentRate < 1) score += 18;
-    else if (incidentRate < 3) score += 10;
-    else score -= 10;
+    score += trace.band('incidentRatePercent', 'Incidents per 100 employees', incidentRate, rules.incidentRatePercent);
+  } else {
+    trace.skip('incidentRatePercent', 'Incidents per 100 employees');
   }
 
   // Employee retention (0-25 points)
   const turnoverPercent = Number(metrics.employeeTurnoverPercent || 0);
   if (!isNaN(turnoverPercent) && turnoverPercent >= 0) {
-    if (turnoverPercent < 5) score += 25;
-    else if (turnoverPercent < 10) score += 18;
-    else if (turnoverPercent < 15) score += 12;
-    else if (turnoverPercent < 25) score += 6;
-    else score -= 5;
+    score += trace.band('turnoverPercent', 'Employee turnover (%)', turnoverPercent, rules.turnoverPercent);
   }
 
-  return Math.max(0, Math.min(100, score));
+  return trace.finish(score);
 };
 
 /**
  * Calculate Governance Score (0-100)
  * Factors: Board composition, policies, compliance
  */
-const calculateGovernanceScore = (metrics: any): number => {
-  let score = 50; // Base score
+const calculateGovernanceScore = (metrics: GovernanceMetricsView, rules: ScoringRules['governance']): PillarResult => {
+  const trace = createTrace('Governance', rules.baseScore);
+  let score = rules.baseScore;
 
   // Board independence (0-30 points)
   const independentDirectors = Number(metrics.independentDirectors || 0);
   const boardMembers = Number(metrics.boardMembers || 0);
   if (!isNaN(independentDirectors) && !isNaN(boardMembers) && boardMembers > 0) {
     const independenceRatio = independentDirectors / boardMembers;
-    if (independenceRatio >= 0.5) score += 30;
-    else if (independenceRatio >= 0.33) score += 20;
-    else if (independenceRatio >= 0.25) score += 10;
+    score += trace.band('boardIndependenceRatio', 'Independent director ratio', independenceRatio, rules.boardIndependenceRatio);
+  } else {
+    trace.skip('boardIndependenceRatio', 'Independent director ratio');
   }
 
   // Policy framework (0-40 points)
-  if (metrics.antiCorruptionPolicy === true) score += 20;
-  if (metrics.dataPrivacyPolicy === true) score += 20;
+  const hasAntiCorruptionPolicy = metrics.antiCorruptionPolicy === true;
+  const hasDataPrivacyPolicy = metrics.dataPrivacyPolicy === true;
+  score += trace.add('antiCorruptionPolicyPoints', 'Anti-corruption policy', hasAntiCorruptionPolicy, hasAntiCorruptionPolicy ? 'in place' : 'not in place', hasAntiCorruptionPolicy ? rules.antiCorruptionPolicyPoints : 0);
+  score += trace.add('dataPrivacyPolicyPoints', 'Data privacy policy', hasDataPrivacyPolicy, hasDataPrivacyPolicy ? 'in place' : 'not in place', hasDataPrivacyPolicy ? rules.dataPrivacyPolicyPoints : 0);
 
   // Compliance record (0-30 points)
   const complianceViolations = Number(metrics.complianceViolations || 0);
   if (!isNaN(complianceViolations)) {
-    if (complianceViolations === 0) score += 30;
-    else if (complianceViolations === 1) score += 15;
-    else if (complianceViolations === 2) score += 5;
-    else score -= 20; // Major penalty for violations
+    score += trace.band('complianceViolations', 'Compliance violations', complianceViolations, rules.complianceViolations);
   }
 
-  return Math.max(0, Math.min(100, score));
+  return trace.finish(score);
 };
 
+export interface ScoringInputs {
+  envMetrics: any;
+  socialMetrics: any;
+  govMetrics: any;
+  company: any;
+}
+
 /**
- * Calculate overall ESG score with weighted average
- * Environmental: 40%, Social: 30%, Governance: 30%
+ * A partial set of metric fields to try out, per pillar
  */
-export const calculateESGScore = async (companyId: string, period: string): Promise<ESGScores> => {
-  // Fetch latest metrics for the period
-  const [envMetrics, socialMetrics, govMetrics, company] = await Promise.all([
-    EnvironmentalMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-    SocialMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-    GovernanceMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-    Company.findById(companyId)
-  ]);
+export interface MetricsPatch {
+  environmental?: Record<string, any>;
+  social?: Record<string, any>;
+  governance?: Record<string, any>;
+}
+
+export interface RuleDelta {
+  pillar: Pillar;
+  rule: string;
+  label: string;
+  baselineInput: number | boolean | null;
+  simulatedInput: number | boolean | null;
+  baselinePoints: number;
+  simulatedPoints: number;
+  delta: number;
+}
+
+export interface ScoreSimulation {
+  period: string;
+  methodologyVersion: number;
+  baseline: ESGScores;
+  simulated: ESGScores;
+  deltas: {
+    environmentalScore: number;
+    socialScore: number;
+    governanceScore: number;
+    overallScore: number;
+    rules: RuleDelta[];
+  };
+}
+
+// Environmental fields that feed the Scope 1/2 calculation
+const EMISSION_ACTIVITY_FIELDS = [
+  'electricityKwh', 'electricityUsageKwh', 'fuelLitres', 'fuelConsumptionLitres',
+  'fuelType', 'coalTonnes', 'emissionFactorVersion', 'emissionsOverride'
+];
+
+/**
+ * Fetch the metrics for the period and the company being scored
+ * approvedOnly reads the records as approved in the period's review instead of as currently stored
+ * With a facility, its environmental and social metrics and headcount replace the company-level ones
+ */
+const loadScoringInputs = async (
+  companyId: string,
+  period: string,
+  facilityId?: string,
+  approvedOnly = false
+): Promise<ScoringInputs> => {
+  const [envMetrics, socialMetrics, govMetrics, company] = await Promise.all(approvedOnly
+    ? [
+      findApprovedMetrics('environment', companyId, period),
+      findApprovedMetrics('social', companyId, period),
+      findApprovedMetricsForPeriod('governance', companyId, period),
+      Company.findById(companyId)
+    ]
+    : [
+      EnvironmentalMetrics.findOne({ companyId, period }),
+      SocialMetrics.findOne({ companyId, period }),
+      // Governance is often captured once for the quarter or FY
+      findMetricsForPeriod(GovernanceMetrics, companyId, period),
+      Company.findById(companyId)
+    ]);
 
   // Provide detailed error message about what's missing
   if (!company) {
@@ -191,6 +322,12 @@ export const calculateESGScore = async (companyId: string, period: string): Prom
   if (!socialMetrics) missingMetrics.push('Social');
   if (!govMetrics) missingMetrics.push('Governance');
 
+  if (missingMetrics.length > 0 && approvedOnly) {
+    throw new Error(
+      `Missing approved metrics for period ${period}: ${missingMetrics.join(', ')}. ` +
+      `Submit the period for review and have it approved before scoring.`
+    );
+  }
   if (missingMetrics.length > 0) {
     throw new Error(
       `Missing metrics for period ${period}: ${missingMetrics.join(', ')}. ` +
@@ -198,9 +335,48 @@ export const calculateESGScore = async (companyId: string, period: string): Prom
     );
   }
 
-  const environmentalScore = calculateEnvironmentalScore(envMetrics, company);
-  const socialScore = calculateSocialScore(socialMetrics);
-  const governanceScore = calculateGovernanceScore(govMetrics);
+  if (!facilityId) {
+    return { envMetrics, socialMetrics, govMetrics, company };
+  }
+
+  const [facility, facilityMetrics] = await Promise.all([
+    Facility.findOne({ _id: facilityId, companyId }),
+    approvedOnly
+      ? findApprovedFacilityMetrics(companyId, facilityId, period)
+      : FacilityMetrics.findOne({ facilityId, companyId, period })
+  ]);
+
+  if (!facility) {
+    throw new Error('Facility not found');
+  }
+  if (!facilityMetrics) {
+    throw new Error(`Missing ${approvedOnly ? 'approved ' : ''}metrics for facility ${facility.name} in period ${period}`);
+  }
+
+  const { environmental, social } = facilityMetrics.toObject();
+  const headcount = getTotalEmployees(readSocialMetrics(social));
+  const facilityCompany = company.toObject();
+  if (headcount > 0) {
+    facilityCompany.employeeCount = headcount;
+  }
+
+  return { envMetrics: environmental, socialMetrics: social, govMetrics, company: facilityCompany };
+};
+
+/**
+ * Score a set of metrics with a methodology - no database access
+ */
+const scoreMetrics = (inputs: ScoringInputs, methodology: IScoringMethodology): ESGScores => {
+  const { envMetrics, socialMetrics, govMetrics, company } = inputs;
+  const rules = resolveRulesForIndustry(methodology, company.industry);
+  const { weights } = methodology;
+
+  const environmental = calculateEnvironmentalScore(readEnvironmentalMetrics(envMetrics) as EnvironmentalMetricsView, company, rules.environmental);
+  const social = calculateSocialScore(readSocialMetrics(socialMetrics) as SocialMetricsView, rules.social);
+  const governance = calculateGovernanceScore(readGovernanceMetrics(govMetrics) as GovernanceMetricsView, rules.governance);
+  const environmentalScore = environmental.score;
+  const socialScore = social.score;
+  const governanceScore = governance.score;
 
   // Validate scores are valid numbers
   if (isNaN(environmentalScore) || isNaN(socialScore) || isNaN(governanceScore)) {
@@ -211,11 +387,11 @@ export const calculateESGScore = async (companyId: string, period: string): Prom
     );
   }
 
-  // Weighted average: E(40%) + S(30%) + G(30%)
+  // Weighted average using methodology weights
   const overallScore = 
-    (environmentalScore * 0.4) + 
-    (socialScore * 0.3) + 
-    (governanceScore * 0.3);
+    (environmentalScore * weights.environmental) + 
+    (socialScore * weights.social) + 
+    (governanceScore * weights.governance);
 
   // Final validation
   if (isNaN(overallScore)) {
@@ -226,7 +402,110 @@ export const calculateESGScore = async (companyId: string, period: string): Prom
     environmentalScore: Math.round(environmentalScore * 10) / 10,
     socialScore: Math.round(socialScore * 10) / 10,
     governanceScore: Math.round(governanceScore * 10) / 10,
-    overallScore: Math.round(overallScore * 10) / 10
+    overallScore: Math.round(overallScore * 10) / 10,
+    methodologyVersion: methodology.version,
+    contributions: [...environmental.contributions, ...social.contributions, ...governance.contributions]
   };
 };
 
+/**
+ * Calculate overall ESG score with weighted average
+ * Weights and thresholds come from the scoring methodology (active one unless a version is given)
+ * Scores only use approved metrics (see reviewService)
+ * Pass a facility to score one plant instead of the company roll-up, from its metrics as approved
+ */
+export const calculateESGScore = async (
+  companyId: string,
+  period: string,
+  methodologyVersion?: number,
+  facilityId?: string
+): Promise<ESGScores> => {
+  const inputs = await loadScoringInputs(companyId, period, facilityId, true);
+  const methodology = await getMethodology(methodologyVersion);
+  return scoreMetrics(inputs, methodology);
+};
+
+/**
+ * Score metrics that are not one company's stored records, such as a consolidated group
+ */
+export const scoreMetricSet = async (inputs: ScoringInputs, methodologyVersion?: number): Promise<ESGScores> =>
+  scoreMetrics(inputs, await getMethodology(methodologyVersion));
+
+/**
+ * Score the period as approved and again with the patch applied, without saving anything
+ * The baseline matches the stored score, which is calculated from approved metrics only
+ * Scope 1/2 are re-derived when the patch touches emission activity data
+ */
+export const simulateESGScore = async (
+  companyId: string,
+  period: string,
+  patch: MetricsPatch,
+  methodologyVersion?: number
+): Promise<ScoreSimulation> => {
+  const inputs = await loadScoringInputs(companyId, period, undefined, true);
+  const methodology = await getMethodology(methodologyVersion);
+
+  // Score each side from its own plain copy - scoring may normalise values in place
+  const plain = (value: any) => (typeof value?.toObject === 'function' ? value.toObject() : { ...value });
+  const toPlain = (source: ScoringInputs): ScoringInputs => ({
+    envMetrics: plain(source.envMetrics),
+    socialMetrics: plain(source.socialMetrics),
+    govMetrics: plain(source.govMetrics),
+    company: plain(source.company)
+  });
+
+  const baseline = scoreMetrics(toPlain(inputs), methodology);
+
+  const simulatedInputs = toPlain(inputs);
+  Object.assign(simulatedInputs.envMetrics, patch.environmental || {});
+  Object.assign(simulatedInputs.socialMetrics, patch.social || {});
+  Object.assign(simulatedInputs.govMetrics, patch.governance || {});
+  if (Object.keys(patch.environmental || {}).some(field => EMISSION_ACTIVITY_FIELDS.includes(field))) {
+    applyEmissionCalculation(simulatedInputs.envMetrics);
+  }
+
+  const simulated = scoreMetrics(simulatedInputs, methodology);
+
+  // Per-rule deltas, only for rules whose input or points moved
+  const key = (c: ScoreContribution) => `${c.pillar}:${c.rule}`;
+  const baselineByRule = new Map(baseline.contributions.map(c => [key(c), c]));
+  const simulatedByRule = new Map(simulated.contributions.map(c => [key(c), c]));
+  const ruleKeys = [...new Set([...baselineByRule.keys(), ...simulatedByRule.keys()])];
+
+  const rules: RuleDelta[] = ruleKeys
+    .map(ruleKey => {
+      const before = baselineByRule.get(ruleKey);
+      const after = simulatedByRule.get(ruleKey);
+      const reference = (after || before) as ScoreContribution;
+      const baselinePoints = before?.points || 0;
+      const simulatedPoints = after?.points || 0;
+      return {
+        pillar: reference.pillar,
+        rule: reference.rule,
+        label: reference.label,
+        baselineInput: before ? before.input : null,
+        simulatedInput: after ? after.input : null,
+        baselinePoints,
+        simulatedPoints,
+        delta: roundInput(simulatedPoints - baselinePoints)
+      };
+    })
+    .filter(r => r.delta !== 0 || r.baselineInput !== r.simulatedInput);
+
+  const diff = (field: 'environmentalScore' | 'socialScore' | 'governanceScore' | 'overallScore') =>
+    Math.round((simulated[field] - baseline[field]) * 10) / 10;
+
+  return {
+    period,
+    methodologyVersion: methodology.version,
+    baseline,
+    simulated,
+    deltas: {
+      environmentalScore: diff('environmentalScore'),
+      socialScore: diff('socialScore'),
+      governanceScore: diff('governanceScore'),
+      overallScore: diff('overallScore'),
+      rules
+    }
+  };
+};
@@ -0,0 +1,102 @@
+import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
+import SocialMetrics from '../models/SocialMetrics';
+import Scope3Inventory from '../models/Scope3Inventory';
+import FacilityMetrics from '../models/FacilityMetrics';
+import { combineEmissionCalculations } from './emissionCalculator';
+import { mergeSubmittedValues } from './unitService';
+import { rollUpParentPeriods } from './periodService';
+import { AggregationRule, ENVIRONMENTAL_AGGREGATION, SOCIAL_AGGREGATION } from '../config/facilityAggregation';
+import { ENVIRONMENTAL_METRIC_UNITS } from '../config/units';
+
+const hasValue = (value: any): boolean => value !== undefined && value !== null && !isNaN(Number(value));
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Combine facility records field by field
+ * Fields no facility reports are returned as undefined so the roll-up clears them
+ */
+export const aggregateFacilityValues = (records: any[], rules: AggregationRule[]): Record<string, number | undefined> => {
+  const result: Record<string, number | undefined> = {};
+
+  rules.forEach(rule => {
+    const reporting = records.filter(record => hasValue(record?.[rule.field]));
+    if (reporting.length === 0) {
+      result[rule.field] = undefined;
+      return;
+    }
+
+    if (rule.method === 'sum') {
+      result[rule.field] = round(reporting.reduce((sum, record) => sum + Number(record[rule.field]), 0));
+      return;
+    }
+
+    const weightField = (rule.weightFields || []).find(field =>
+      reporting.every(record => hasValue(record[field]))
+    );
+    const weights = reporting.map(record => (weightField ? Number(record[weightField]) : 1));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    result[rule.field] = totalWeight > 0
+      ? round(reporting.reduce((sum, record, i) => sum + Number(record[rule.field]) * weights[i], 0) / totalWeight)
+      : round(reporting.reduce((sum, record) => sum + Number(record[rule.field]), 0) / reporting.length);
+  });
+
+  return result;
+};
+
+/**
+ * Re-derive the company-level environmental and social records for a period from its facilities
+ * Only the aggregated fields are written - policies, narratives and Scope 3 stay company-level
+ */
+export const rollUpFacilityMetrics = async (companyId: string, period: string): Promise<void> => {
+  const facilityMetrics = await FacilityMetrics.find({ companyId, period });
+
+  const [envMetrics, socialMetrics] = await Promise.all([
+    EnvironmentalMetrics.findOne({ companyId, period }),
+    SocialMetrics.findOne({ companyId, period })
+  ]);
+
+  // No facility data left - company records become hand-maintained again
+  if (facilityMetrics.length === 0) {
+    if (envMetrics?.facilityRollup) {
+      envMetrics.facilityRollup = undefined;
+      await envMetrics.save();
+    }
+    if (socialMetrics?.facilityRollup) {
+      socialMetrics.facilityRollup = undefined;
+      await socialMetrics.save();
+    }
+    return;
+  }
+
+  const environmental = facilityMetrics.map(m => m.environmental || {});
+  const social = facilityMetrics.map(m => m.social || {});
+  const facilityRollup = { facilityCount: facilityMetrics.length, rolledUpAt: new Date() };
+
+  const env = envMetrics || new EnvironmentalMetrics({ companyId, period });
+  const envValues = aggregateFacilityValues(environmental, ENVIRONMENTAL_AGGREGATION);
+  Object.assign(env, envValues);
+  // Originals submitted per facility don't describe the company totals
+  env.set('submittedValues', mergeSubmittedValues(env.submittedValues, envValues, {}, ENVIRONMENTAL_METRIC_UNITS));
+  env.emissionsCalculation = combineEmissionCalculations(environmental);
+  env.carbonEmissionsTons = hasValue(env.scope1Emissions) || hasValue(env.scope2Emissions)
+    ? round(Number(env.scope1Emissions || 0) + Number(env.scope2Emissions || 0))
+    : undefined;
+  env.facilityRollup = facilityRollup;
+
+  if (!envMetrics) {
+    // Scope 3 comes from the category inventory when one exists for the period
+    const scope3 = await Scope3Inventory.findOne({ companyId, period });
+    if (scope3) {
+      env.scope3Emissions = scope3.totalEmissionsTonnes;
+    }
+  }
+
+  const soc = socialMetrics || new SocialMetrics({ companyId, period });
+  Object.assign(soc, aggregateFacilityValues(social, SOCIAL_AGGREGATION));
+  soc.facilityRollup = facilityRollup;
+
+  await Promise.all([env.save(), soc.save()]);
+  await rollUpParentPeriods(companyId, period);
+};
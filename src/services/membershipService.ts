@@ -0,0 +1,173 @@
+import Company, { ICompany } from '../models/Company';
+import User, { IUser } from '../models/User';
+import CompanyMember, { ICompanyMember } from '../models/CompanyMember';
+import { Permission, PermissionModule, LEGACY_MEMBER_ROLES } from '../config/companyRoles';
+import { findRole, getMemberPermissions } from './roleService';
+
+export interface CompanyAccess {
+  company: ICompany;
+  role: string;
+  permissions: Permission[];
+}
+
+/**
+ * What a request made with an API key is limited to (see apiKeyService)
+ * The key acts as the member who created it, in the key's company and with the key's scopes only
+ */
+export interface ApiKeyRestriction {
+  keyId: string;
+  companyId: string;
+  scopes: Permission[];
+}
+
+export const hasPermission = (access: CompanyAccess, permission: Permission): boolean =>
+  access.permissions.includes(permission);
+
+// Through an API key: no other company, and only permissions both the key and its creator have
+const restrictToApiKey = (access: CompanyAccess | null, apiKey?: ApiKeyRestriction): CompanyAccess | null => {
+  if (!access || !apiKey) return access;
+  if (!access.company._id.equals(apiKey.companyId)) return null;
+  return { ...access, permissions: access.permissions.filter(permission => apiKey.scopes.includes(permission)) };
+};
+
+/**
+ * Role a user had before memberships existed: the company's owner, or a user attached through User.companyId
+ */
+const getLegacyRole = (company: ICompany, user: IUser): string | null => {
+  if (company.userId.equals(user._id)) return 'owner';
+  if (user.role !== 'ADMIN' && user.companyId?.equals(company._id)) return LEGACY_MEMBER_ROLES[user.role];
+  return null;
+};
+
+/**
+ * Store a membership, keeping the existing one if another request stored it first
+ */
+export const addCompanyMember = async (
+  companyId: string,
+  userId: string,
+  role: string,
+  addedBy?: string,
+  modules?: PermissionModule[]
+): Promise<ICompanyMember> => {
+  try {
+    return await CompanyMember.create({ companyId, userId, role, modules, addedBy });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return (await CompanyMember.findOne({ companyId, userId })) as ICompanyMember;
+    }
+    throw error;
+  }
+};
+
+/**
+ * The member's role and what it lets them do - no permissions if their custom role has been deleted
+ */
+const resolveAccess = async (company: ICompany, member: ICompanyMember): Promise<CompanyAccess> => {
+  const role = await findRole(company._id.toString(), member.role);
+  return {
+    company,
+    role: role?.key || member.role,
+    permissions: role ? getMemberPermissions(role, member.modules) : []
+  };
+};
+
+// Owners and User.companyId users get their membership stored the first time they are checked
+const findCompanyAccess = async (companyId: string, userId: string): Promise<CompanyAccess | null> => {
+  const [company, member] = await Promise.all([
+    Company.findById(companyId),
+    CompanyMember.findOne({ companyId, userId })
+  ]);
+  if (!company) return null;
+  if (member) return resolveAccess(company, member);
+
+  const user = await User.findById(userId);
+  const role = user ? getLegacyRole(company, user) : null;
+  if (!role) return null;
+
+  return resolveAccess(company, await addCompanyMember(companyId, userId, role));
+};
+
+/**
+ * The company, the user's role in it and their permissions, or null if the user is not a member
+ * Pass the request's API key, if any, to limit the access to it
+ */
+export const getCompanyAccess = async (
+  companyId: string,
+  userId: string,
+  apiKey?: ApiKeyRestriction
+): Promise<CompanyAccess | null> => restrictToApiKey(await findCompanyAccess(companyId, userId), apiKey);
+
+/**
+ * Every company the user is a member of, with their role and permissions, oldest membership first
+ */
+export const findMemberCompanies = async (userId: string, apiKey?: ApiKeyRestriction): Promise<CompanyAccess[]> => {
+  const user = await User.findById(userId);
+  if (!user) return [];
+
+  const legacyCompanies = await Company.find({
+    $or: [{ userId: user._id }, ...(user.companyId ? [{ _id: user.companyId }] : [])]
+  }).select('_id');
+  await Promise.all(legacyCompanies.map(company => getCompanyAccess(company._id.toString(), userId)));
+
+  const members = await CompanyMember.find({ userId }).populate('companyId').sort({ createdAt: 1 });
+  const companies = await Promise.all(members
+    .filter(member => member.companyId)
+    .map(member => resolveAccess(member.companyId as unknown as ICompany, member)));
+  return companies
+    .map(access => restrictToApiKey(access, apiKey))
+    .filter((access): access is CompanyAccess => !!access);
+};
+
+/**
+ * The company a user works in when none is named: the active company they switched to,
+ * else one they own, else their first membership (with an API key, always the key's company)
+ */
+export const findPrimaryCompany = async (userId: string, apiKey?: ApiKeyRestriction): Promise<ICompany | null> => {
+  const [user, companies] = await Promise.all([
+    User.findById(userId).select('activeCompanyId'),
+    findMemberCompanies(userId, apiKey)
+  ]);
+  const active = user?.activeCompanyId && companies.find(access => access.company._id.equals(user.activeCompanyId));
+  return (active || companies.find(access => access.role === 'owner') || companies[0])?.company || null;
+};
+
+/**
+ * Members of a company with their user details, oldest first
+ */
+export const getCompanyMembers = async (companyId: string): Promise<ICompanyMember[]> => {
+  const company = await Company.findById(companyId);
+  if (!company) return [];
+
+  const legacyUsers = await User.find({ $or: [{ _id: company.userId }, { companyId: company._id }] }).select('_id');
+  await Promise.all(legacyUsers.map(user => getCompanyAccess(companyId, user._id.toString())));
+
+  return CompanyMember.find({ companyId })
+    .populate('userId', 'name email role')
+    .sort({ createdAt: 1 });
+};
+
+/**
+ * Why a member's role cannot be changed or the member removed, or null if it can
+ * A company always keeps at least one owner
+ */
+export const getMemberChangeConflict = async (member: ICompanyMember, newRole?: string): Promise<string | null> => {
+  if (member.role !== 'owner' || newRole === 'owner') return null;
+
+  const owners = await CompanyMember.countDocuments({ companyId: member.companyId, role: 'owner' });
+  return owners <= 1 ? 'A company must keep at least one owner' : null;
+};
+
+/**
+ * Remove a membership, detaching the user's legacy links to the company so it is not restored
+ * Company.userId passes to another owner when its user leaves
+ */
+export const removeCompanyMember = async (member: ICompanyMember): Promise<void> => {
+  await CompanyMember.deleteOne({ _id: member._id });
+  await User.updateOne({ _id: member.userId, companyId: member.companyId }, { $set: { companyId: null } });
+  await User.updateOne({ _id: member.userId, activeCompanyId: member.companyId }, { $set: { activeCompanyId: null } });
+
+  const nextOwner = await CompanyMember.findOne({ companyId: member.companyId, role: 'owner' }).sort({ createdAt: 1 });
+  if (nextOwner) {
+    await Company.updateOne({ _id: member.companyId, userId: member.userId }, { $set: { userId: nextOwner.userId } });
+  }
+};
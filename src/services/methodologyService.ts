@@ -0,0 +1,169 @@
+import ScoringMethodology, { IScoringMethodology } from '../models/ScoringMethodology';
+import {
+  ScoreBand,
+  ScoringRules,
+  ScoringWeights,
+  IndustryRuleOverrides,
+  DEFAULT_SCORING_RULES,
+  DEFAULT_SCORING_WEIGHTS,
+  DEFAULT_METHODOLOGY_NAME
+} from '../config/scoringMethodology';
+
+const BAND_OPERATORS = ['>', '>=', '<', '<=', '=='];
+
+/**
+ * Get the active methodology
+ * Creates version 1 from the built-in defaults if none has been configured yet
+ */
+export const getActiveMethodology = async (): Promise<IScoringMethodology> => {
+  let methodology = await ScoringMethodology.findOne({ isActive: true });
+
+  if (!methodology) {
+    const count = await ScoringMethodology.countDocuments();
+    if (count === 0) {
+      methodology = await ScoringMethodology.create({
+        name: DEFAULT_METHODOLOGY_NAME,
+        version: 1,
+        description: 'Built-in default weights and thresholds',
+        isActive: true,
+        weights: DEFAULT_SCORING_WEIGHTS,
+        rules: DEFAULT_SCORING_RULES,
+        industryRules: []
+      });
+    } else {
+      // Fall back to the latest version if none is flagged active
+      methodology = await ScoringMethodology.findOne().sort({ version: -1 });
+    }
+  }
+
+  return methodology as IScoringMethodology;
+};
+
+/**
+ * Get a methodology by version, or the active one if no version is given
+ */
+export const getMethodology = async (version?: number): Promise<IScoringMethodology> => {
+  if (version === undefined || version === null) {
+    return getActiveMethodology();
+  }
+
+  const methodology = await ScoringMethodology.findOne({ version });
+  if (!methodology) {
+    throw new Error(`Scoring methodology version ${version} not found`);
+  }
+  return methodology;
+};
+
+/**
+ * Get the next free version number
+ */
+export const getNextMethodologyVersion = async (): Promise<number> => {
+  const latest = await ScoringMethodology.findOne().sort({ version: -1 });
+  return latest ? latest.version + 1 : 1;
+};
+
+/**
+ * Resolve the rules a company's industry is scored with
+ * Industry overrides replace individual rules within a pillar
+ */
+export const resolveRulesForIndustry = (methodology: { rules: ScoringRules; industryRules?: Array<{ industry: string; rules: IndustryRuleOverrides }> }, industry?: string): ScoringRules => {
+  const base = methodology.rules;
+  const override = methodology.industryRules?.find(r => r.industry === industry)?.rules;
+
+  if (!override) {
+    return base;
+  }
+
+  return {
+    environmental: { ...base.environmental, ...(override.environmental || {}) },
+    social: { ...base.social, ...(override.social || {}) },
+    governance: { ...base.governance, ...(override.governance || {}) }
+  };
+};
+
+/**
+ * Points awarded by the first matching band (0 if none match)
+ */
+export const applyBands = (value: number, bands: ScoreBand[]): number => {
+  const band = findBand(value, bands);
+  return band ? band.points : 0;
+};
+
+/**
+ * First band whose comparison matches the value
+ */
+export const findBand = (value: number, bands: ScoreBand[]): ScoreBand | undefined => {
+  return (bands || []).find(band => {
+    switch (band.op) {
+      case '>': return value > band.value;
+      case '>=': return value >= band.value;
+      case '<': return value < band.value;
+      case '<=': return value <= band.value;
+      case '==': return value === band.value;
+      default: return false;
+    }
+  });
+};
+
+const validateBands = (path: string, bands: any, errors: string[]): void => {
+  if (!Array.isArray(bands)) {
+    errors.push(`${path} must be an array of bands`);
+    return;
+  }
+  bands.forEach((band, i) => {
+    if (!BAND_OPERATORS.includes(band?.op)) errors.push(`${path}[${i}].op must be one of ${BAND_OPERATORS.join(', ')}`);
+    if (typeof band?.value !== 'number') errors.push(`${path}[${i}].value must be a number`);
+    if (typeof band?.points !== 'number') errors.push(`${path}[${i}].points must be a number`);
+  });
+};
+
+const validatePillar = (path: string, pillar: any, template: any, partial: boolean, errors: string[]): void => {
+  if (pillar === undefined) {
+    if (!partial) errors.push(`${path} is required`);
+    return;
+  }
+  Object.keys(template).forEach(key => {
+    const value = pillar[key];
+    if (value === undefined) {
+      if (!partial) errors.push(`${path}.${key} is required`);
+      return;
+    }
+    if (Array.isArray(template[key])) {
+      validateBands(`${path}.${key}`, value, errors);
+    } else if (typeof value !== 'number') {
+      errors.push(`${path}.${key} must be a number`);
+    }
+  });
+  Object.keys(pillar).forEach(key => {
+    if (!(key in template)) errors.push(`${path}.${key} is not a known rule`);
+  });
+};
+
+/**
+ * Validate weights, rules and industry overrides before saving a methodology
+ */
+export const validateMethodology = (data: { weights?: ScoringWeights; rules?: any; industryRules?: any[] }): string[] => {
+  const errors: string[] = [];
+
+  if (data.weights) {
+    const { environmental, social, governance } = data.weights;
+    const sum = Number(environmental) + Number(social) + Number(governance);
+    if (isNaN(sum) || Math.abs(sum - 1) > 0.0001) {
+      errors.push('weights must sum to 1');
+    }
+  }
+
+  if (data.rules) {
+    (Object.keys(DEFAULT_SCORING_RULES) as Array<keyof ScoringRules>).forEach(pillar => {
+      validatePillar(`rules.${pillar}`, data.rules[pillar], DEFAULT_SCORING_RULES[pillar], false, errors);
+    });
+  }
+
+  (data.industryRules || []).forEach((entry, i) => {
+    (Object.keys(DEFAULT_SCORING_RULES) as Array<keyof ScoringRules>).forEach(pillar => {
+      validatePillar(`industryRules[${i}].rules.${pillar}`, entry?.rules?.[pillar], DEFAULT_SCORING_RULES[pillar], true, errors);
+    });
+  });
+
+  return errors;
+};
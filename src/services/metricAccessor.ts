@@ -0,0 +1,182 @@
+import { Document } from 'mongoose';
+import { IEnvironmentalMetrics } from '../models/EnvironmentalMetrics';
+import { ISocialMetrics } from '../models/SocialMetrics';
+import { IGovernanceMetrics } from '../models/GovernanceMetrics';
+import {
+  LegacyFieldMapping,
+  ENVIRONMENTAL_LEGACY_FIELDS,
+  SOCIAL_LEGACY_FIELDS,
+  LEGACY_FEMALE_HEADCOUNT_FIELD
+} from '../config/legacyFields';
+import { ENVIRONMENTAL_METRIC_UNITS, SOCIAL_METRIC_UNITS } from '../config/units';
+import { convertValue, MetricFieldError } from './unitService';
+
+export type LegacyPillar = 'environmental' | 'social';
+
+// Canonical views - legacy fields are folded into their canonical counterparts
+export type EnvironmentalMetricsView = Omit<
+  IEnvironmentalMetrics,
+  keyof Document | 'electricityUsageKwh' | 'fuelConsumptionLitres' | 'wasteGeneratedKg'
+>;
+export type SocialMetricsView = Omit<
+  ISocialMetrics,
+  keyof Document | 'totalEmployees' | 'femaleEmployees' | 'avgTrainingHours' | 'workplaceIncidents'
+>;
+export type GovernanceMetricsView = Omit<IGovernanceMetrics, keyof Document>;
+
+const LEGACY_FIELDS: Record<LegacyPillar, LegacyFieldMapping[]> = {
+  environmental: ENVIRONMENTAL_LEGACY_FIELDS,
+  social: SOCIAL_LEGACY_FIELDS
+};
+
+const FIELD_UNITS: Record<LegacyPillar, Record<string, string>> = {
+  environmental: ENVIRONMENTAL_METRIC_UNITS,
+  social: SOCIAL_METRIC_UNITS
+};
+
+const hasValue = (value: any): boolean => value !== undefined && value !== null && value !== '' && !isNaN(Number(value));
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const toPlain = (record: any): Record<string, any> =>
+  typeof record?.toObject === 'function' ? record.toObject() : { ...record };
+
+const convertLegacyValue = (value: any, mapping: LegacyFieldMapping, fieldUnits: Record<string, string>): number => {
+  const canonicalUnit = fieldUnits[mapping.canonical];
+  return mapping.fromUnit && canonicalUnit
+    ? convertValue(Number(value), mapping.fromUnit, canonicalUnit)
+    : Number(value);
+};
+
+/**
+ * Female share of the workforce (%) from a legacy headcount, or undefined without a workforce total
+ */
+const getFemalePercentFromHeadcount = (record: Record<string, any>): number | undefined => {
+  const femaleEmployees = record[LEGACY_FEMALE_HEADCOUNT_FIELD];
+  if (!hasValue(femaleEmployees)) return undefined;
+
+  const total = hasValue(record.totalEmployees)
+    ? Number(record.totalEmployees)
+    : Number(record.totalEmployeesPermanent || 0) + Number(record.totalEmployeesContractual || 0);
+
+  return total > 0 ? Math.min(100, round((Number(femaleEmployees) / total) * 100)) : undefined;
+};
+
+/**
+ * Canonical values a record's legacy fields stand for, and the legacy fields to drop
+ * Canonical fields that already hold a value always win
+ */
+export const getLegacyFieldUpdate = (
+  record: any,
+  pillar: LegacyPillar
+): { set: Record<string, number>; unset: string[] } => {
+  const values = toPlain(record);
+  const set: Record<string, number> = {};
+  const unset: string[] = [];
+
+  LEGACY_FIELDS[pillar].forEach(mapping => {
+    if (values[mapping.legacy] === undefined) return;
+    unset.push(mapping.legacy);
+
+    if (hasValue(values[mapping.legacy]) && !hasValue(values[mapping.canonical])) {
+      set[mapping.canonical] = convertLegacyValue(values[mapping.legacy], mapping, FIELD_UNITS[pillar]);
+    }
+  });
+
+  if (pillar === 'social' && values[LEGACY_FEMALE_HEADCOUNT_FIELD] !== undefined) {
+    unset.push(LEGACY_FEMALE_HEADCOUNT_FIELD);
+    const femalePercent = getFemalePercentFromHeadcount(values);
+    if (femalePercent !== undefined && !hasValue(values.femalePercentWorkforce)) {
+      set.femalePercentWorkforce = femalePercent;
+    }
+  }
+
+  return { set, unset };
+};
+
+/**
+ * Move a stored record's legacy fields onto their canonical fields in place (not saved)
+ * Returns whether anything changed
+ */
+export const migrateLegacyFields = (record: Document, pillar: LegacyPillar): boolean => {
+  const { set, unset } = getLegacyFieldUpdate(record, pillar);
+  if (unset.length === 0) return false;
+
+  record.set(set);
+  unset.forEach(field => record.set(field, undefined));
+  return true;
+};
+
+const toCanonical = (record: any, pillar: LegacyPillar): Record<string, any> => {
+  const values = toPlain(record);
+  const { set, unset } = getLegacyFieldUpdate(values, pillar);
+  unset.forEach(field => delete values[field]);
+  return { ...values, ...set };
+};
+
+/**
+ * Environmental metrics as the canonical schema, whether or not the record has been migrated
+ * Scoring, completeness, compliance, tasks and reports read metrics only through these accessors
+ */
+export const readEnvironmentalMetrics = (record: any): EnvironmentalMetricsView | null =>
+  record ? (toCanonical(record, 'environmental') as EnvironmentalMetricsView) : null;
+
+export const readSocialMetrics = (record: any): SocialMetricsView | null =>
+  record ? (toCanonical(record, 'social') as SocialMetricsView) : null;
+
+export const readGovernanceMetrics = (record: any): GovernanceMetricsView | null =>
+  record ? (toPlain(record) as GovernanceMetricsView) : null;
+
+/**
+ * Total headcount (permanent + contractual) from a social record
+ */
+export const getTotalEmployees = (social: SocialMetricsView | null): number =>
+  Number(social?.totalEmployeesPermanent || 0) + Number(social?.totalEmployeesContractual || 0);
+
+/**
+ * Rewrite legacy fields in a submission as canonical ones, before unit normalisation
+ * { value, unit } quantities move across unchanged since they carry their own unit
+ */
+export const translateLegacySubmission = (
+  values: any,
+  pillar: LegacyPillar
+): { values: any; errors: MetricFieldError[] } => {
+  const translated = { ...(values || {}) };
+  const errors: MetricFieldError[] = [];
+
+  LEGACY_FIELDS[pillar].forEach(mapping => {
+    if (!(mapping.legacy in translated)) return;
+    const value = translated[mapping.legacy];
+    delete translated[mapping.legacy];
+
+    if (mapping.canonical in translated) return;
+    if (value !== null && typeof value === 'object') {
+      translated[mapping.canonical] = value;
+    } else if (hasValue(value)) {
+      translated[mapping.canonical] = convertLegacyValue(value, mapping, FIELD_UNITS[pillar]);
+    } else {
+      errors.push({ type: 'field', location: 'body', path: mapping.legacy, value, msg: 'Value must be numeric' });
+    }
+  });
+
+  if (pillar === 'social' && LEGACY_FEMALE_HEADCOUNT_FIELD in translated) {
+    const femalePercent = getFemalePercentFromHeadcount({ ...values, ...translated });
+    delete translated[LEGACY_FEMALE_HEADCOUNT_FIELD];
+
+    if (!('femalePercentWorkforce' in translated)) {
+      if (femalePercent === undefined) {
+        errors.push({
+          type: 'field',
+          location: 'body',
+          path: LEGACY_FEMALE_HEADCOUNT_FIELD,
+          value: values[LEGACY_FEMALE_HEADCOUNT_FIELD],
+          msg: 'femaleEmployees needs a workforce total to be recorded as femalePercentWorkforce'
+        });
+      } else {
+        translated.femalePercentWorkforce = femalePercent;
+      }
+    }
+  }
+
+  return { values: translated, errors };
+};
@@ -0,0 +1,435 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { Model } from 'mongoose';
+import { ValidationChain, validationResult } from 'express-validator';
+import { IMPORT_COLUMNS, ImportModule, ImportColumn, MAX_IMPORT_ROWS } from '../config/metricImport';
+import { normaliseQuantities, SubmittedQuantity } from './unitService';
+import { getPeriodConflict, formatMonth } from './periodService';
+import { METRIC_MODULES, getRollupConflict, createMetricRecord, updateMetricRecord } from './metricRecordService';
+import { getPeriodLockConflict } from './periodLockService';
+import { DataQualityWarning } from './anomalyService';
+import { checkConsistency, getConsistencyConflict, getInconsistentFields } from './consistencyService';
+
+const SHEET_NAMES: Record<ImportModule, string> = {
+  environment: 'Environmental Metrics',
+  social: 'Social Metrics',
+  governance: 'Governance Metrics'
+};
+
+export interface ImportRowError {
+  column: string;
+  field: string;
+  value: any;
+  msg: string;
+}
+
+export interface ParsedImportRow {
+  row: number; // Spreadsheet row number, header is row 1
+  values: Record<string, any>;
+  errors: ImportRowError[];
+}
+
+export interface ImportRowResult {
+  row: number;
+  period: string | null;
+  action: 'create' | 'update' | 'skip';
+  metricsId?: string;
+  errors: ImportRowError[];
+  warnings?: DataQualityWarning[]; // Anomalies on the imported values (not raised on a dry run)
+}
+
+export const isImportModule = (module: string): module is ImportModule => module in SHEET_NAMES;
+
+const getFieldType = (model: Model<any>, field: string): string => model.schema.path(field)?.instance || 'String';
+
+// Template heading, with the canonical unit for fields that take one
+const getColumnLabel = (module: ImportModule, column: ImportColumn): string => {
+  const unit = METRIC_MODULES[module].fieldUnits[column.field];
+  return unit ? `${column.header} (${unit})` : column.header;
+};
+
+const describeColumn = (module: ImportModule, column: ImportColumn): { type: string; allowed: string } => {
+  const { model } = METRIC_MODULES[module];
+  if (column.field === 'period') {
+    return { type: 'Period', allowed: 'Month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)' };
+  }
+
+  const options = model.schema.path(column.field)?.options || {};
+  const type = getFieldType(model, column.field);
+  if (type === 'Boolean') return { type: 'Yes / No', allowed: 'Yes, No' };
+  if (options.enum) return { type: 'Text', allowed: options.enum.join(', ') };
+  if (type === 'Number') {
+    const range = [options.min !== undefined ? `min ${options.min}` : '', options.max !== undefined ? `max ${options.max}` : '']
+      .filter(Boolean)
+      .join(', ');
+    return { type: 'Number', allowed: range };
+  }
+  return { type: 'Text', allowed: '' };
+};
+
+/**
+ * Blank import template for a module: a data sheet with one column per field, and the rules for each column
+ */
+export const buildImportTemplate = async (module: ImportModule, format: 'xlsx' | 'csv'): Promise<Buffer> => {
+  const { fieldUnits } = METRIC_MODULES[module];
+  const sheetName = SHEET_NAMES[module];
+  const columns = IMPORT_COLUMNS[module];
+  const workbook = new ExcelJS.Workbook();
+
+  const dataSheet = workbook.addWorksheet(sheetName);
+  dataSheet.columns = columns.map(column => ({
+    header: getColumnLabel(module, column),
+    key: column.field,
+    width: Math.max(14, getColumnLabel(module, column).length + 2)
+  }));
+  // Keep periods as typed - Excel would otherwise turn 2025-04 into a date
+  dataSheet.getColumn('period').numFmt = '@';
+  dataSheet.getRow(1).font = { bold: true };
+  dataSheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  if (format === 'csv') {
+    const buffer = await workbook.csv.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  const instructionsSheet = workbook.addWorksheet('Instructions');
+  instructionsSheet.columns = [
+    { header: 'Column', key: 'column', width: 40 },
+    { header: 'Field', key: 'field', width: 32 },
+    { header: 'Type', key: 'type', width: 12 },
+    { header: 'Unit', key: 'unit', width: 10 },
+    { header: 'Allowed Values', key: 'allowed', width: 60 }
+  ];
+  instructionsSheet.getRow(1).font = { bold: true };
+  instructionsSheet.addRows(
+    columns.map(column => ({
+      column: getColumnLabel(module, column),
+      field: column.field,
+      unit: fieldUnits[column.field] || '',
+      ...describeColumn(module, column)
+    }))
+  );
+  instructionsSheet.addRow({});
+  instructionsSheet.addRow({ column: 'One row per period. Rows for a period that already has data update that record.' });
+  instructionsSheet.addRow({ column: 'Numbers are read in the column unit, or add a unit to the cell (e.g. 12 MWh).' });
+  instructionsSheet.addRow({ column: 'Leave a cell blank to keep the stored value.' });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+};
+
+// Plain value of a cell, unwrapping formulas, rich text and hyperlinks
+const getCellValue = (value: any): any => {
+  if (value === null || value === undefined || value instanceof Date || typeof value !== 'object') return value;
+  if ('result' in value) return getCellValue(value.result);
+  if ('richText' in value) return value.richText.map((part: any) => part.text).join('');
+  if ('text' in value) return value.text;
+  if ('error' in value) return value.error;
+  return String(value);
+};
+
+const normaliseHeader = (header: string): string => header.replace(/\(.*\)\s*$/, '').trim().toLowerCase();
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1'];
+const FALSE_VALUES = ['no', 'n', 'false', '0'];
+
+// Day zero of Excel date serials
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * Convert a cell to the field's type
+ * Numbers may carry a unit ("12 MWh"), which unit normalisation converts afterwards
+ */
+const parseCell = (raw: any, field: string, type: string): { value?: any; error?: string } => {
+  const value = getCellValue(raw);
+  if (value === null || value === undefined || String(value).trim() === '') return {};
+
+  if (field === 'period') {
+    // Excel may still have turned a month into a date, or a date serial in a text cell
+    const date = value instanceof Date
+      ? value
+      : typeof value === 'number' ? new Date(EXCEL_EPOCH + value * 24 * 60 * 60 * 1000) : null;
+    return date
+      ? { value: formatMonth(date.getUTCFullYear(), date.getUTCMonth() + 1) }
+      : { value: String(value).trim() };
+  }
+
+  if (type === 'Boolean') {
+    if (typeof value === 'boolean') return { value };
+    const text = String(value).trim().toLowerCase();
+    if (TRUE_VALUES.includes(text)) return { value: true };
+    if (FALSE_VALUES.includes(text)) return { value: false };
+    return { error: 'Value must be Yes or No' };
+  }
+
+  if (type === 'Number') {
+    if (typeof value === 'number') return { value };
+    // Indian (1,00,000) and international (100,000) digit grouping
+    const text = String(value).trim().replace(/,/g, '');
+    if (text !== '' && !isNaN(Number(text))) return { value: Number(text) };
+
+    const quantity = text.match(/^(-?\d*\.?\d+)\s*([A-Za-z][\w-]*)$/);
+    if (quantity) return { value: { value: Number(quantity[1]), unit: quantity[2] } };
+    return { error: 'Value must be numeric' };
+  }
+
+  return { value: value instanceof Date ? value.toISOString().slice(0, 10) : String(value).trim() };
+};
+
+const readWorksheet = async (buffer: Buffer, filename: string, sheetName: string): Promise<ExcelJS.Worksheet | null> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    if (filename.toLowerCase().endsWith('.csv')) {
+      // Keep cells as text so periods and codes are not read as dates or numbers
+      return await workbook.csv.read(Readable.from(buffer), { map: (value: any) => value });
+    }
+    // exceljs declares its own Buffer type, which Node's generic Buffer does not satisfy
+    await workbook.xlsx.load(buffer as any);
+  } catch (error) {
+    return null;
+  }
+  return workbook.getWorksheet(sheetName) || workbook.worksheets[0] || null;
+};
+
+/**
+ * Read a filled-in template into one entry per data row
+ * File-level problems (unreadable file, no period column, too many rows) are returned separately
+ */
+export const parseImportFile = async (
+  module: ImportModule,
+  buffer: Buffer,
+  filename: string
+): Promise<{ rows: ParsedImportRow[]; unknownColumns: string[]; fileErrors: string[] }> => {
+  const { model } = METRIC_MODULES[module];
+  const worksheet = await readWorksheet(buffer, filename, SHEET_NAMES[module]);
+  if (!worksheet) {
+    return { rows: [], unknownColumns: [], fileErrors: ['The file could not be read as an Excel workbook (.xlsx) or CSV'] };
+  }
+
+  // Match headings against template labels or raw field names, ignoring any unit suffix
+  const columnsByHeader = new Map<string, ImportColumn>();
+  IMPORT_COLUMNS[module].forEach(column => {
+    columnsByHeader.set(column.header.toLowerCase(), column);
+    columnsByHeader.set(column.field.toLowerCase(), column);
+  });
+
+  const columnsByIndex = new Map<number, ImportColumn>();
+  const unknownColumns: string[] = [];
+  worksheet.getRow(1).eachCell((cell, index) => {
+    const header = String(getCellValue(cell.value) ?? '').trim();
+    const column = columnsByHeader.get(normaliseHeader(header));
+    if (column) {
+      columnsByIndex.set(index, column);
+    } else if (header) {
+      unknownColumns.push(header);
+    }
+  });
+
+  if (!Array.from(columnsByIndex.values()).some(column => column.field === 'period')) {
+    return { rows: [], unknownColumns, fileErrors: ['The file has no Period column - start from the import template'] };
+  }
+
+  const rows: ParsedImportRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const values: Record<string, any> = {};
+    const errors: ImportRowError[] = [];
+    columnsByIndex.forEach((column, index) => {
+      const { value, error } = parseCell(row.getCell(index).value, column.field, getFieldType(model, column.field));
+      if (error) {
+        errors.push({ column: getColumnLabel(module, column), field: column.field, value: getCellValue(row.getCell(index).value), msg: error });
+      } else if (value !== undefined) {
+        values[column.field] = value;
+      }
+    });
+
+    // Rows with nothing in the template columns are ignored
+    if (Object.keys(values).length > 0 || errors.length > 0) {
+      rows.push({ row: rowNumber, values, errors });
+    }
+  });
+
+  const fileErrors: string[] = [];
+  if (rows.length === 0) fileErrors.push('The file has no data rows');
+  if (rows.length > MAX_IMPORT_ROWS) fileErrors.push(`The file has ${rows.length} data rows, the limit is ${MAX_IMPORT_ROWS}`);
+
+  return { rows, unknownColumns, fileErrors };
+};
+
+const getColumnForField = (module: ImportModule, field: string): string => {
+  const column = IMPORT_COLUMNS[module].find(entry => entry.field === field);
+  return column ? getColumnLabel(module, column) : field;
+};
+
+/**
+ * Validate a row with the module's request validators and the model's own rules (min/max, enums)
+ * Returns the values converted to canonical units
+ */
+const validateImportRow = async (
+  module: ImportModule,
+  companyId: string,
+  row: ParsedImportRow,
+  validators: ValidationChain[]
+): Promise<{ values: Record<string, any>; submittedValues: Record<string, SubmittedQuantity>; errors: ImportRowError[] }> => {
+  const { model, fieldUnits } = METRIC_MODULES[module];
+  const toRowError = (field: string, value: any, msg: string): ImportRowError =>
+    ({ column: getColumnForField(module, field), field, value, msg });
+
+  const { values, submittedValues, errors: unitErrors } = normaliseQuantities(row.values, fieldUnits);
+  const errors = unitErrors.map(error => toRowError(error.path, error.value, error.msg));
+  if (errors.length > 0) return { values, submittedValues, errors };
+
+  // Same checks as the POST /api/metrics/<module> body
+  const req: any = { body: { ...values, companyId } };
+  await Promise.all(validators.map(chain => chain.run(req)));
+  validationResult(req).array().forEach((error: any) => {
+    errors.push(toRowError(error.path, error.value, error.msg));
+  });
+
+  const validationError = new model({ ...values, companyId }).validateSync();
+  Object.values(validationError?.errors || {}).forEach((error: any) => {
+    if (!errors.some(existing => existing.field === error.path)) {
+      errors.push(toRowError(error.path, error.value, error.message));
+    }
+  });
+
+  return { values, submittedValues, errors };
+};
+
+/**
+ * Upsert one validated row into the company's record for its period
+ * Nothing is saved on a dry run, but blocking consistency rules are still checked
+ */
+const upsertImportRow = async (
+  module: ImportModule,
+  companyId: string,
+  values: Record<string, any>,
+  submittedValues: Record<string, SubmittedQuantity>,
+  userId: string | undefined,
+  dryRun: boolean
+): Promise<{
+  action: 'create' | 'update';
+  metricsId?: string;
+  warnings?: DataQualityWarning[];
+  error?: string;
+  fields?: string[];
+}> => {
+  const { model } = METRIC_MODULES[module];
+  const existing = await model.findOne({ companyId, period: values.period });
+
+  const lockConflict = await getPeriodLockConflict(companyId, values.period);
+  if (lockConflict) {
+    return { action: existing ? 'update' : 'create', error: lockConflict, fields: ['period'] };
+  }
+
+  if (existing) {
+    const rollupConflict = getRollupConflict(module, existing, values);
+    if (rollupConflict) {
+      return { action: 'update', ...rollupConflict };
+    }
+
+    if (dryRun) {
+      const consistencyConflict = getConsistencyConflict(await checkConsistency(module, { ...existing.toObject(), ...values }));
+      return consistencyConflict
+        ? { action: 'update', error: consistencyConflict.error, fields: getInconsistentFields(consistencyConflict.violations) }
+        : { action: 'update', metricsId: existing._id.toString() };
+    }
+
+    const { warnings, error, violations } = await updateMetricRecord(module, existing, values, submittedValues, userId, 'import');
+    if (error) {
+      return { action: 'update', error, fields: getInconsistentFields(violations || []) };
+    }
+    return { action: 'update', metricsId: existing._id.toString(), warnings };
+  }
+
+  const periodConflict = await getPeriodConflict(model, companyId, values.period);
+  if (periodConflict) {
+    return { action: 'create', error: periodConflict, fields: ['period'] };
+  }
+
+  if (dryRun) {
+    const consistencyConflict = getConsistencyConflict(await checkConsistency(module, { ...values, companyId }));
+    return consistencyConflict
+      ? { action: 'create', error: consistencyConflict.error, fields: getInconsistentFields(consistencyConflict.violations) }
+      : { action: 'create' };
+  }
+
+  const { metrics, warnings, error, violations } = await createMetricRecord(module, { ...values, companyId }, submittedValues, userId, 'import');
+  if (error) {
+    return { action: 'create', error, fields: getInconsistentFields(violations || []) };
+  }
+  return { action: 'create', metricsId: metrics._id.toString(), warnings };
+};
+
+/**
+ * Validate every row and upsert the valid ones, returning a per-row report
+ * Invalid rows are skipped without stopping the rest of the import
+ */
+export const importMetricRows = async (
+  module: ImportModule,
+  companyId: string,
+  rows: ParsedImportRow[],
+  validators: ValidationChain[],
+  userId: string | undefined,
+  dryRun: boolean
+): Promise<ImportRowResult[]> => {
+  const results: ImportRowResult[] = [];
+  const seenPeriods = new Map<string, number>();
+
+  // Rows run in order so roll-ups from earlier rows are visible to later ones
+  for (const row of rows) {
+    const period = row.values.period ? String(row.values.period) : null;
+    const errors = [...row.errors];
+
+    if (period && seenPeriods.has(period)) {
+      errors.push({
+        column: getColumnForField(module, 'period'),
+        field: 'period',
+        value: period,
+        msg: `Period ${period} already appears in row ${seenPeriods.get(period)}`
+      });
+    } else if (period) {
+      seenPeriods.set(period, row.row);
+    }
+
+    if (errors.length > 0) {
+      results.push({ row: row.row, period, action: 'skip', errors });
+      continue;
+    }
+
+    const validated = await validateImportRow(module, companyId, row, validators);
+    if (validated.errors.length > 0) {
+      results.push({ row: row.row, period, action: 'skip', errors: validated.errors });
+      continue;
+    }
+
+    const outcome = await upsertImportRow(module, companyId, validated.values, validated.submittedValues, userId, dryRun);
+    if (outcome.error) {
+      const fields = outcome.fields || ['period'];
+      results.push({
+        row: row.row,
+        period,
+        action: 'skip',
+        errors: fields.map(field => ({
+          column: getColumnForField(module, field),
+          field,
+          value: validated.values[field],
+          msg: outcome.error as string
+        }))
+      });
+      continue;
+    }
+
+    results.push({
+      row: row.row,
+      period,
+      action: outcome.action,
+      metricsId: outcome.metricsId,
+      errors: [],
+      warnings: outcome.warnings
+    });
+  }
+
+  return results;
+};
@@ -0,0 +1,193 @@
+import { Model } from 'mongoose';
+import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
+import SocialMetrics from '../models/SocialMetrics';
+import GovernanceMetrics from '../models/GovernanceMetrics';
+import Scope3Inventory from '../models/Scope3Inventory';
+import { RevisionSource } from '../models/MetricRevision';
+import { ENVIRONMENTAL_METRIC_UNITS, SOCIAL_METRIC_UNITS } from '../config/units';
+import { ROLLED_UP_ENVIRONMENTAL_FIELDS, ROLLED_UP_SOCIAL_FIELDS } from '../config/facilityAggregation';
+import { mergeSubmittedValues, SubmittedQuantity } from './unitService';
+import { migrateLegacyFields, LegacyPillar } from './metricAccessor';
+import { applyEmissionCalculation } from './emissionCalculator';
+import { getPeriodRolledUpFields, rollUpParentPeriods } from './periodService';
+import { setRevisionAuthor, IDENTITY_FIELDS } from './revisionService';
+import { recordDataQualityFlags, DataQualityWarning } from './anomalyService';
+import { checkConsistency, getConsistencyConflict, toDataQualityWarning, ConsistencyResult } from './consistencyService';
+import { evaluateTargets } from './targetService';
+
+export type MetricModule = 'environment' | 'social' | 'governance';
+
+interface MetricModuleDefinition {
+  model: Model<any>;
+  fieldUnits: Record<string, string>;
+  rolledUpFields: string[]; // Fields owned by the facility roll-up
+  pillar?: LegacyPillar;
+}
+
+export interface MetricSaveResult {
+  metrics?: any;
+  warnings: DataQualityWarning[];
+  error?: string;
+  violations?: ConsistencyResult[]; // Blocking consistency rules that stopped the save
+}
+
+export const METRIC_MODULES: Record<MetricModule, MetricModuleDefinition> = {
+  environment: {
+    model: EnvironmentalMetrics,
+    fieldUnits: ENVIRONMENTAL_METRIC_UNITS,
+    rolledUpFields: ROLLED_UP_ENVIRONMENTAL_FIELDS,
+    pillar: 'environmental'
+  },
+  social: {
+    model: SocialMetrics,
+    fieldUnits: SOCIAL_METRIC_UNITS,
+    rolledUpFields: ROLLED_UP_SOCIAL_FIELDS,
+    pillar: 'social'
+  },
+  governance: {
+    model: GovernanceMetrics,
+    fieldUnits: {},
+    rolledUpFields: []
+  }
+};
+
+/**
+ * Why an update cannot be applied to a rolled-up record, or null if it can
+ */
+export const getRollupConflict = (
+  module: MetricModule,
+  metrics: any,
+  update: any
+): { error: string; fields: string[] } | null => {
+  const { model, rolledUpFields } = METRIC_MODULES[module];
+
+  const periodRolledUpFields = metrics.periodRollup ? getPeriodRolledUpFields(model, update) : [];
+  if (periodRolledUpFields.length > 0) {
+    return {
+      error: `These fields are computed from ${metrics.periodRollup.sourcePeriods.join(', ')} and must be edited there`,
+      fields: periodRolledUpFields
+    };
+  }
+
+  const facilityRolledUpFields = metrics.facilityRollup
+    ? Object.keys(update || {}).filter(field => rolledUpFields.includes(field))
+    : [];
+  if (facilityRolledUpFields.length > 0) {
+    return {
+      error: 'These fields are rolled up from facility metrics and must be edited per facility',
+      fields: facilityRolledUpFields
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Why an update cannot be applied because it would move the record to another company, facility or period,
+ * or null if it leaves them as stored - create a record in the other period instead
+ */
+export const getIdentityConflict = (metrics: any, update: any): { error: string; fields: string[] } | null => {
+  const fields = IDENTITY_FIELDS.filter(field =>
+    update?.[field] !== undefined && String(update[field]) !== String(metrics.get(field) ?? '')
+  );
+  if (fields.length === 0) return null;
+
+  return { error: 'The company, facility and period of stored metrics cannot be changed', fields };
+};
+
+/**
+ * Check the consistency rules, then save the record, roll it up into its quarter and FY, flag anomalies
+ * and re-check the company's targets. Nothing is saved when a blocking rule is broken
+ */
+const saveMetricRecord = async (
+  module: MetricModule,
+  metrics: any,
+  userId: string | undefined,
+  source: RevisionSource
+): Promise<MetricSaveResult> => {
+  const results = await checkConsistency(module, metrics);
+  const consistencyConflict = getConsistencyConflict(results);
+  if (consistencyConflict) {
+    return { warnings: [], ...consistencyConflict };
+  }
+
+  setRevisionAuthor(metrics, userId, source);
+  await metrics.save();
+  await rollUpParentPeriods(metrics.companyId.toString(), metrics.period);
+
+  const warnings = await recordDataQualityFlags(
+    module,
+    metrics,
+    results.filter(result => result.severity === 'warning').map(toDataQualityWarning)
+  );
+
+  // Targets on the module's metrics may have gone off track - the save stands either way
+  try {
+    await evaluateTargets(metrics.companyId.toString(), module);
+  } catch (error) {
+    console.error('Error evaluating targets:', error);
+  }
+
+  return { metrics, warnings };
+};
+
+/**
+ * Create the record for a company and period, then roll it up into its quarter and FY
+ * Returns the data-quality warnings raised on the saved values, or the blocking rules it breaks
+ */
+export const createMetricRecord = async (
+  module: MetricModule,
+  values: any,
+  submittedValues: Record<string, SubmittedQuantity>,
+  userId: string | undefined,
+  source: RevisionSource = 'form'
+): Promise<MetricSaveResult> => {
+  const { model, fieldUnits, pillar } = METRIC_MODULES[module];
+  const metrics = new model(values);
+
+  if (pillar) {
+    metrics.set('submittedValues', mergeSubmittedValues(undefined, values, submittedValues, fieldUnits));
+  }
+  if (module === 'environment') {
+    applyEmissionCalculation(metrics);
+
+    // Scope 3 comes from the category inventory when one exists for the period
+    const scope3 = await Scope3Inventory.findOne({ companyId: metrics.companyId, period: metrics.period });
+    if (scope3) {
+      metrics.scope3Emissions = scope3.totalEmissionsTonnes;
+    }
+  }
+
+  return saveMetricRecord(module, metrics, userId, source);
+};
+
+/**
+ * Apply an update to a stored record, then roll it up into its quarter and FY
+ * The record's company, facility and period never change (see getIdentityConflict)
+ * Check getRollupConflict first - rolled-up fields are overwritten by the next roll-up
+ * Returns the data-quality warnings raised on the saved values, or the blocking rules it breaks
+ */
+export const updateMetricRecord = async (
+  module: MetricModule,
+  metrics: any,
+  update: any,
+  submittedValues: Record<string, SubmittedQuantity>,
+  userId: string | undefined,
+  source: RevisionSource = 'form'
+): Promise<MetricSaveResult> => {
+  const { fieldUnits, pillar } = METRIC_MODULES[module];
+
+  const values = { ...update };
+  IDENTITY_FIELDS.forEach(field => delete values[field]);
+  Object.assign(metrics, values);
+  if (pillar) {
+    migrateLegacyFields(metrics, pillar);
+    metrics.set('submittedValues', mergeSubmittedValues(metrics.submittedValues, update, submittedValues, fieldUnits));
+  }
+  // Rolled-up emissions are calculated per facility or sub-period
+  if (module === 'environment' && !metrics.facilityRollup && !metrics.periodRollup) {
+    applyEmissionCalculation(metrics);
+  }
+
+  return saveMetricRecord(module, metrics, userId, source);
+};
@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import ReportingPeriod, { IReportingPeriod, PeriodStatus } from '../models/ReportingPeriod';
+import { getParentPeriods } from './periodService';
+
+export const PERIOD_STATUSES: PeriodStatus[] = ['Open', 'Submitted', 'Reviewed', 'Locked'];
+
+/**
+ * Lifecycle steps a period can take from each status
+ * Submitted and Reviewed periods can be sent back to Open; only an admin reopens a Locked one
+ */
+export const PERIOD_TRANSITIONS: Record<PeriodStatus, PeriodStatus[]> = {
+  Open: ['Submitted'],
+  Submitted: ['Reviewed', 'Open'],
+  Reviewed: ['Locked', 'Open'],
+  Locked: ['Open']
+};
+
+export interface PeriodLifecycle {
+  status: PeriodStatus;
+  locked: boolean; // The period or a quarter/FY containing it is Locked
+  lockedBy?: string; // Period holding the lock
+}
+
+/**
+ * Why data for a period cannot change, or null if it can
+ * A locked quarter or FY also locks its months, as their roll-ups would rewrite it
+ */
+export const getPeriodLockConflict = async (companyId: string, period: string): Promise<string | null> => {
+  const periods = [period, ...getParentPeriods(period)];
+  const locked = await ReportingPeriod.find({ companyId, period: { $in: periods }, status: 'Locked' }).select('period');
+  const lockedPeriod = periods.find(candidate => locked.some(lifecycle => lifecycle.period === candidate));
+
+  if (!lockedPeriod) return null;
+
+  return lockedPeriod === period
+    ? `Period ${period} is locked - an admin must reopen it before its data can change`
+    : `Period ${period} is inside locked period ${lockedPeriod} - an admin must reopen it before its data can change`;
+};
+
+/**
+ * Lifecycle state of each period for a company (periods never moved on are Open)
+ */
+export const getPeriodLifecycles = async (companyId: string, periods: string[]): Promise<Record<string, PeriodLifecycle>> => {
+  const related = Array.from(new Set(periods.flatMap(period => [period, ...getParentPeriods(period)])));
+  const stored = await ReportingPeriod.find({ companyId, period: { $in: related } }).select('period status');
+  const statusOf = (period: string): PeriodStatus =>
+    stored.find(lifecycle => lifecycle.period === period)?.status || 'Open';
+
+  return Object.fromEntries(periods.map(period => {
+    const lockedBy = [period, ...getParentPeriods(period)].find(candidate => statusOf(candidate) === 'Locked');
+    return [period, { status: statusOf(period), locked: !!lockedBy, lockedBy }];
+  }));
+};
+
+/**
+ * Move a period to a new lifecycle status, recording who moved it
+ * Reopening a Locked period needs an admin and a reason
+ */
+export const transitionPeriod = async (
+  companyId: string,
+  period: string,
+  to: PeriodStatus,
+  userId: string,
+  options: { reason?: string; isAdmin?: boolean } = {}
+): Promise<{ reportingPeriod?: IReportingPeriod; error?: string }> => {
+  const reportingPeriod = (await ReportingPeriod.findOne({ companyId, period }))
+    || new ReportingPeriod({ companyId, period, status: 'Open' });
+  const from = reportingPeriod.status;
+
+  if (!PERIOD_TRANSITIONS[from].includes(to)) {
+    return { error: `Period ${period} cannot move from ${from} to ${to}` };
+  }
+
+  const reason = options.reason?.trim();
+  if (from === 'Locked') {
+    if (!options.isAdmin) {
+      return { error: `Period ${period} is locked - only an admin can reopen it` };
+    }
+    if (!reason) {
+      return { error: 'A reason is required to reopen a locked period' };
+    }
+  }
+
+  reportingPeriod.status = to;
+  reportingPeriod.transitions.push({ from, to, userId: new mongoose.Types.ObjectId(userId), reason, at: new Date() });
+  if (to === 'Locked') {
+    reportingPeriod.lockedAt = new Date();
+    reportingPeriod.lockedBy = new mongoose.Types.ObjectId(userId);
+  } else {
+    reportingPeriod.lockedAt = undefined;
+    reportingPeriod.lockedBy = undefined;
+  }
+
+  await reportingPeriod.save();
+  return { reportingPeriod };
+};
@@ -0,0 +1,292 @@
+import { Model } from 'mongoose';
+import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
+import SocialMetrics from '../models/SocialMetrics';
+import GovernanceMetrics from '../models/GovernanceMetrics';
+import Scope3Inventory from '../models/Scope3Inventory';
+import { combineEmissionCalculations } from './emissionCalculator';
+import { readEnvironmentalMetrics, readSocialMetrics, readGovernanceMetrics } from './metricAccessor';
+import {
+  PeriodAggregationRule,
+  ENVIRONMENTAL_PERIOD_AGGREGATION,
+  SOCIAL_PERIOD_AGGREGATION,
+  GOVERNANCE_PERIOD_AGGREGATION
+} from '../config/periodAggregation';
+
+/**
+ * Reporting periods
+ * - month: 2025-04
+ * - quarter: 2025-Q2 (calendar quarter, Q2 = April-June)
+ * - financial year: FY2025-26 (Indian FY, April 2025 - March 2026)
+ */
+export type PeriodType = 'month' | 'quarter' | 'financial-year';
+
+export interface ParsedPeriod {
+  period: string;
+  type: PeriodType;
+  year: number; // Calendar year (month/quarter) or the year the FY starts in
+  index: number; // Month (1-12), quarter (1-4) or 1 for a financial year
+}
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+const QUARTER_PATTERN = /^(\d{4})-Q([1-4])$/;
+const FINANCIAL_YEAR_PATTERN = /^FY(\d{4})-(\d{2})$/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export const formatMonth = (year: number, month: number): string => `${year}-${pad(month)}`;
+export const formatQuarter = (year: number, quarter: number): string => `${year}-Q${quarter}`;
+export const formatFinancialYear = (startYear: number): string => `FY${startYear}-${pad((startYear + 1) % 100)}`;
+
+export const PERIODS_PER_YEAR: Record<PeriodType, number> = {
+  month: 12,
+  quarter: 4,
+  'financial-year': 1,
+};
+
+/**
+ * Parse a period string, or null if it is not a recognised format
+ */
+export const parsePeriod = (period: string): ParsedPeriod | null => {
+  if (typeof period !== 'string') return null;
+
+  let match = period.match(MONTH_PATTERN);
+  if (match) return { period, type: 'month', year: Number(match[1]), index: Number(match[2]) };
+
+  match = period.match(QUARTER_PATTERN);
+  if (match) return { period, type: 'quarter', year: Number(match[1]), index: Number(match[2]) };
+
+  match = period.match(FINANCIAL_YEAR_PATTERN);
+  if (match && Number(match[2]) === (Number(match[1]) + 1) % 100) {
+    return { period, type: 'financial-year', year: Number(match[1]), index: 1 };
+  }
+
+  return null;
+};
+
+export const isValidPeriod = (period: string): boolean => parsePeriod(period) !== null;
+
+/**
+ * Position on a single axis with one step per period of the type, so gaps and year boundaries are counted correctly
+ */
+export const getPeriodOrdinal = (parsed: ParsedPeriod): number => parsed.year * PERIODS_PER_YEAR[parsed.type] + parsed.index - 1;
+
+export const getPeriodFromOrdinal = (type: PeriodType, ordinal: number): string => {
+  const perYear = PERIODS_PER_YEAR[type];
+  const year = Math.floor(ordinal / perYear);
+  const index = (ordinal % perYear) + 1;
+  if (type === 'month') return formatMonth(year, index);
+  if (type === 'quarter') return formatQuarter(year, index);
+  return formatFinancialYear(year);
+};
+
+// Indian FY a calendar month falls in (April starts a new FY)
+const financialYearOfMonth = (year: number, month: number): string =>
+  formatFinancialYear(month >= 4 ? year : year - 1);
+
+/**
+ * Longer periods containing this one, shortest first (month -> quarter -> FY)
+ */
+export const getParentPeriods = (period: string): string[] => {
+  const parsed = parsePeriod(period);
+  if (!parsed) return [];
+
+  if (parsed.type === 'month') {
+    return [formatQuarter(parsed.year, Math.ceil(parsed.index / 3)), financialYearOfMonth(parsed.year, parsed.index)];
+  }
+  if (parsed.type === 'quarter') {
+    return [financialYearOfMonth(parsed.year, parsed.index * 3)];
+  }
+  return [];
+};
+
+/**
+ * Periods one level down that a period is rolled up from (quarter -> months, FY -> quarters)
+ */
+export const getChildPeriods = (period: string): string[] => {
+  const parsed = parsePeriod(period);
+  if (!parsed) return [];
+
+  if (parsed.type === 'quarter') {
+    const firstMonth = (parsed.index - 1) * 3 + 1;
+    return [0, 1, 2].map(offset => formatMonth(parsed.year, firstMonth + offset));
+  }
+  if (parsed.type === 'financial-year') {
+    return [
+      formatQuarter(parsed.year, 2),
+      formatQuarter(parsed.year, 3),
+      formatQuarter(parsed.year, 4),
+      formatQuarter(parsed.year + 1, 1)
+    ];
+  }
+  return [];
+};
+
+/**
+ * Every shorter period inside this one (FY -> quarters and months)
+ */
+export const getDescendantPeriods = (period: string): string[] => {
+  return getChildPeriods(period).flatMap(child => [child, ...getDescendantPeriods(child)]);
+};
+
+interface PeriodAggregation {
+  model: Model<any>;
+  rules: PeriodAggregationRule[];
+  read: (record: any) => any; // Canonical view of a sub-period record
+  label: string;
+}
+
+const PERIOD_AGGREGATION: PeriodAggregation[] = [
+  { model: EnvironmentalMetrics, rules: ENVIRONMENTAL_PERIOD_AGGREGATION, read: readEnvironmentalMetrics, label: 'Environmental' },
+  { model: SocialMetrics, rules: SOCIAL_PERIOD_AGGREGATION, read: readSocialMetrics, label: 'Social' },
+  { model: GovernanceMetrics, rules: GOVERNANCE_PERIOD_AGGREGATION, read: readGovernanceMetrics, label: 'Governance' }
+];
+
+const hasValue = (value: any): boolean => value !== undefined && value !== null && value !== '';
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Combine sub-period records (ordered oldest first) field by field
+ * Fields no sub-period reports are returned as undefined so the roll-up clears them
+ */
+export const aggregatePeriodValues = (records: any[], rules: PeriodAggregationRule[]): Record<string, any> => {
+  const result: Record<string, any> = {};
+
+  rules.forEach(({ field, method }) => {
+    const values = records.map(record => record?.[field]).filter(hasValue);
+    if (values.length === 0) {
+      result[field] = undefined;
+      return;
+    }
+
+    switch (method) {
+      case 'sum':
+        result[field] = round(values.reduce((sum, value) => sum + Number(value), 0));
+        break;
+      case 'average':
+        result[field] = round(values.reduce((sum, value) => sum + Number(value), 0) / values.length);
+        break;
+      case 'last':
+        result[field] = values[values.length - 1];
+        break;
+      case 'any':
+        result[field] = values.some(value => value === true);
+        break;
+    }
+  });
+
+  return result;
+};
+
+// Records for the periods, keyed by period
+const findByPeriod = async (model: Model<any>, companyId: string, periods: string[]): Promise<Map<string, any>> => {
+  const records = await model.find({ companyId, period: { $in: periods } });
+  return new Map(records.map(record => [record.period, record]));
+};
+
+/**
+ * Why data cannot be entered directly for this period, or null if it can
+ * Each period hierarchy holds hand-entered data at one granularity only - longer periods are computed
+ */
+export const getPeriodConflict = async (model: Model<any>, companyId: string, period: string): Promise<string | null> => {
+  const descendants = getDescendantPeriods(period);
+  if (descendants.length > 0) {
+    const finer = await model.findOne({ companyId, period: { $in: descendants } });
+    if (finer) {
+      return `${period} is computed from shorter periods (e.g. ${finer.period}), enter data there instead`;
+    }
+  }
+
+  const parents = getParentPeriods(period);
+  if (parents.length > 0) {
+    const coarser = await model.findOne({ companyId, period: { $in: parents }, periodRollup: { $exists: false } });
+    if (coarser) {
+      return `Data has already been entered for the whole of ${coarser.period}, update that record instead`;
+    }
+  }
+
+  return null;
+};
+
+const rollUpPeriod = async (
+  { model, rules, read }: PeriodAggregation,
+  companyId: string,
+  period: string
+): Promise<void> => {
+  const children = getChildPeriods(period);
+  const [childRecords, existing] = await Promise.all([
+    findByPeriod(model, companyId, children),
+    model.findOne({ companyId, period })
+  ]);
+
+  const sourcePeriods = children.filter(child => childRecords.has(child));
+
+  // No sub-period data left - the record becomes hand-maintained again
+  if (sourcePeriods.length === 0) {
+    if (existing?.periodRollup) {
+      existing.periodRollup = undefined;
+      await existing.save();
+    }
+    return;
+  }
+
+  // Hand-entered data for the whole period predates the sub-periods - leave it alone
+  if (existing && !existing.periodRollup) {
+    console.warn(`Skipping roll-up of ${model.modelName} ${period}: data was entered for the whole period`);
+    return;
+  }
+
+  const records = sourcePeriods.map(child => read(childRecords.get(child)));
+  const record = existing || new model({ companyId, period });
+  record.set(aggregatePeriodValues(records, rules));
+
+  if (model === EnvironmentalMetrics) {
+    record.emissionsCalculation = combineEmissionCalculations(records);
+
+    // A Scope 3 inventory for the whole period takes precedence over the sub-period sum
+    const scope3 = await Scope3Inventory.findOne({ companyId, period });
+    if (scope3) {
+      record.scope3Emissions = scope3.totalEmissionsTonnes;
+    }
+  }
+
+  record.periodRollup = {
+    granularity: parsePeriod(children[0])?.type === 'month' ? 'month' : 'quarter',
+    sourcePeriods,
+    complete: sourcePeriods.length === children.length,
+    rolledUpAt: new Date()
+  };
+  await record.save();
+};
+
+/**
+ * Recompute the quarter and financial year containing a period after its data changed
+ */
+export const rollUpParentPeriods = async (companyId: string, period: string): Promise<void> => {
+  for (const parent of getParentPeriods(period)) {
+    for (const aggregation of PERIOD_AGGREGATION) {
+      await rollUpPeriod(aggregation, companyId, parent);
+    }
+  }
+};
+
+/**
+ * Record for a period, falling back to the quarter or FY containing it
+ * For point-in-time data (board composition, policies) that is often only captured once a year
+ */
+export const findMetricsForPeriod = async (model: Model<any>, companyId: string, period: string): Promise<any> => {
+  for (const candidate of [period, ...getParentPeriods(period)]) {
+    const record = await model.findOne({ companyId, period: candidate });
+    if (record) return record;
+  }
+  return null;
+};
+
+/**
+ * Fields in an update that the period roll-up owns (edit the shorter periods instead)
+ */
+export const getPeriodRolledUpFields = (model: Model<any>, update: any): string[] => {
+  const aggregation = PERIOD_AGGREGATION.find(entry => entry.model === model);
+  const fields = (aggregation?.rules || []).map(rule => rule.field);
+  return Object.keys(update || {}).filter(field => fields.includes(field));
+};
@@ -0,0 +1,215 @@
+import ExcelJS from 'exceljs';
+import ESGScore from '../models/ESGScore';
+import Task, { ITask } from '../models/Task';
+import Evidence, { IEvidence } from '../models/Evidence';
+import { calculateBRSRReadiness } from './complianceService';
+import { findMemberCompanies, hasPermission, CompanyAccess, ApiKeyRestriction } from './membershipService';
+
+// Evidence expiring within this many days is flagged (as on the evidence dashboard)
+const EXPIRING_EVIDENCE_DAYS = 30;
+
+export interface PortfolioCompany {
+  companyId: string;
+  name: string;
+  industry: string;
+  role: string;
+  isActive: boolean;
+  latestScore: {
+    period: string;
+    overallScore: number;
+    environmentalScore: number;
+    socialScore: number;
+    governanceScore: number;
+    calculatedAt: Date;
+  } | null;
+  brsrReadiness: number;
+  overdueTasks: number;
+  expiringEvidence: number;
+}
+
+interface PortfolioDetail {
+  company: PortfolioCompany;
+  overdueTasks: ITask[];
+  expiringEvidence: IEvidence[];
+}
+
+// Open tasks past their due date, whether or not the task sync has marked them Overdue yet
+const findOverdueTasks = (companyId: string, now: Date) =>
+  Task.find({
+    companyId,
+    $or: [
+      { status: 'Overdue' },
+      { status: { $in: ['Pending', 'In Progress'] }, dueDate: { $lt: now } }
+    ]
+  }).sort({ dueDate: 1 });
+
+const findExpiringEvidence = (companyId: string, now: Date) =>
+  Evidence.find({
+    companyId,
+    expiryDate: { $gt: now, $lte: new Date(now.getTime() + EXPIRING_EVIDENCE_DAYS * 24 * 60 * 60 * 1000) }
+  }).sort({ expiryDate: 1 });
+
+const getPortfolioDetail = async (access: CompanyAccess, period: string, activeCompanyId?: string): Promise<PortfolioDetail> => {
+  const companyId = access.company._id.toString();
+  const now = new Date();
+
+  const [score, readiness, overdueTasks, expiringEvidence] = await Promise.all([
+    // Period strings do not sort by date (2025-04 vs 2025-Q2 vs FY2025-26), so latest is the last calculated
+    ESGScore.findOne({ companyId }).sort({ calculatedAt: -1 }),
+    calculateBRSRReadiness(companyId, period),
+    findOverdueTasks(companyId, now),
+    findExpiringEvidence(companyId, now)
+  ]);
+
+  return {
+    company: {
+      companyId,
+      name: access.company.name,
+      industry: access.company.industry,
+      role: access.role,
+      isActive: companyId === activeCompanyId,
+      latestScore: score
+        ? {
+            period: score.period,
+            overallScore: score.overallScore,
+            environmentalScore: score.environmentalScore,
+            socialScore: score.socialScore,
+            governanceScore: score.governanceScore,
+            calculatedAt: score.calculatedAt
+          }
+        : null,
+      brsrReadiness: readiness.overallReadiness,
+      overdueTasks: overdueTasks.length,
+      expiringEvidence: expiringEvidence.length
+    },
+    overdueTasks,
+    expiringEvidence
+  };
+};
+
+const getPortfolioDetails = async (
+  userId: string,
+  period: string,
+  activeCompanyId?: string,
+  permission: 'company.read' | 'report.export' = 'company.read',
+  apiKey?: ApiKeyRestriction
+): Promise<PortfolioDetail[]> => {
+  const companies = (await findMemberCompanies(userId, apiKey)).filter(access => hasPermission(access, permission));
+  return Promise.all(companies.map(access => getPortfolioDetail(access, period, activeCompanyId)));
+};
+
+/**
+ * Every company the user can view, side by side: latest ESG score, BRSR readiness for the period,
+ * overdue tasks and evidence expiring within 30 days
+ */
+export const getPortfolio = async (
+  userId: string,
+  period: string,
+  activeCompanyId?: string,
+  apiKey?: ApiKeyRestriction
+): Promise<PortfolioCompany[]> =>
+  (await getPortfolioDetails(userId, period, activeCompanyId, 'company.read', apiKey)).map(detail => detail.company);
+
+/**
+ * Totals across a portfolio (the average score covers companies with a score)
+ */
+export const summarisePortfolio = (companies: PortfolioCompany[]) => {
+  const scored = companies.filter(company => company.latestScore);
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+  return {
+    companies: companies.length,
+    averageScore: average(scored.map(company => company.latestScore!.overallScore)),
+    averageBrsrReadiness: average(companies.map(company => company.brsrReadiness)),
+    overdueTasks: companies.reduce((sum, company) => sum + company.overdueTasks, 0),
+    expiringEvidence: companies.reduce((sum, company) => sum + company.expiringEvidence, 0)
+  };
+};
+
+/**
+ * Portfolio export covering the companies whose reports the user can export
+ * xlsx has a summary sheet plus the overdue tasks and expiring evidence behind it; csv is the summary only
+ */
+export const buildPortfolioExport = async (
+  userId: string,
+  period: string,
+  format: 'xlsx' | 'csv',
+  apiKey?: ApiKeyRestriction
+): Promise<Buffer> => {
+  const details = await getPortfolioDetails(userId, period, undefined, 'report.export', apiKey);
+  const workbook = new ExcelJS.Workbook();
+
+  const summarySheet = workbook.addWorksheet('Portfolio');
+  summarySheet.columns = [
+    { header: 'Company', key: 'name', width: 32 },
+    { header: 'Industry', key: 'industry', width: 20 },
+    { header: 'Role', key: 'role', width: 18 },
+    { header: 'Score Period', key: 'scorePeriod', width: 14 },
+    { header: 'Overall Score', key: 'overallScore', width: 14 },
+    { header: 'Environmental', key: 'environmentalScore', width: 14 },
+    { header: 'Social', key: 'socialScore', width: 10 },
+    { header: 'Governance', key: 'governanceScore', width: 12 },
+    { header: `BRSR Readiness % (${period})`, key: 'brsrReadiness', width: 26 },
+    { header: 'Overdue Tasks', key: 'overdueTasks', width: 14 },
+    { header: 'Expiring Evidence', key: 'expiringEvidence', width: 18 }
+  ];
+  summarySheet.getRow(1).font = { bold: true };
+  summarySheet.views = [{ state: 'frozen', ySplit: 1 }];
+  summarySheet.addRows(
+    details.map(({ company }) => ({
+      ...company,
+      scorePeriod: company.latestScore?.period ?? '',
+      overallScore: company.latestScore?.overallScore ?? '',
+      environmentalScore: company.latestScore?.environmentalScore ?? '',
+      socialScore: company.latestScore?.socialScore ?? '',
+      governanceScore: company.latestScore?.governanceScore ?? ''
+    }))
+  );
+
+  if (format === 'csv') {
+    const buffer = await workbook.csv.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  const taskSheet = workbook.addWorksheet('Overdue Tasks');
+  taskSheet.columns = [
+    { header: 'Company', key: 'company', width: 32 },
+    { header: 'Task', key: 'title', width: 50 },
+    { header: 'ESG Area', key: 'esgArea', width: 14 },
+    { header: 'Priority', key: 'priority', width: 10 },
+    { header: 'Due Date', key: 'dueDate', width: 14 }
+  ];
+  taskSheet.getRow(1).font = { bold: true };
+  details.forEach(({ company, overdueTasks }) => {
+    taskSheet.addRows(overdueTasks.map(task => ({
+      company: company.name,
+      title: task.title,
+      esgArea: task.esgArea,
+      priority: task.priority,
+      dueDate: task.dueDate
+    })));
+  });
+
+  const evidenceSheet = workbook.addWorksheet('Expiring Evidence');
+  evidenceSheet.columns = [
+    { header: 'Company', key: 'company', width: 32 },
+    { header: 'Evidence', key: 'evidenceType', width: 30 },
+    { header: 'ESG Area', key: 'esgArea', width: 14 },
+    { header: 'File', key: 'originalFileName', width: 40 },
+    { header: 'Expiry Date', key: 'expiryDate', width: 14 }
+  ];
+  evidenceSheet.getRow(1).font = { bold: true };
+  details.forEach(({ company, expiringEvidence }) => {
+    evidenceSheet.addRows(expiringEvidence.map(evidence => ({
+      company: company.name,
+      evidenceType: evidence.evidenceType,
+      esgArea: evidence.esgArea,
+      originalFileName: evidence.originalFileName,
+      expiryDate: evidence.expiryDate
+    })));
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+};
@@ -4,9 +4,21 @@ import path from 'path';
 import fs from 'fs';
 import Company from '../models/Company';
 import ESGScore from '../models/ESGScore';
-import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
-import SocialMetrics from '../models/SocialMetrics';
-import GovernanceMetrics from '../models/GovernanceMetrics';
+import Facility from '../models/Facility';
+import FacilityMetrics from '../models/FacilityMetrics';
+import ScoringMethodology from '../models/ScoringMethodology';
+import { DEFAULT_SCORING_WEIGHTS } from '../config/scoringMethodology';
+import { ENVIRONMENTAL_METRIC_UNITS } from '../config/units';
+import { calculateESGScore } from './esgScoring';
+import { findApprovedMetrics, findApprovedFacilityMetrics } from './reviewService';
+import { toPreferredUnit, UnitPreferences } from './unitService';
+import {
+  readEnvironmentalMetrics,
+  readSocialMetrics,
+  readGovernanceMetrics,
+  getTotalEmployees,
+  EnvironmentalMetricsView
+} from './metricAccessor';
 
 const getRatingLabel = (score: number): { label: string; color: string } => {
   if (score >= 80) return { label: 'Excellent', color: '#10B981' };
@@ -15,6 +27,35 @@ const getRatingLabel = (score: number): { label: string; color: string } => {
   return { label: 'Needs Improvement', color: '#EF4444' };
 };
 
+// Environmental quantities shown in reports, in report order
+const ENVIRONMENTAL_REPORT_FIELDS: Array<{ label: string; field: string }> = [
+  { label: 'Electricity Usage', field: 'electricityKwh' },
+  { label: 'Fuel Consumption', field: 'fuelLitres' },
+  { label: 'Water Usage', field: 'waterUsageKL' },
+  { label: 'Waste Generated', field: 'totalWasteTonnes' },
+  { label: 'Renewable Energy', field: 'renewableEnergyPercent' },
+  { label: 'Carbon Emissions', field: 'carbonEmissionsTons' }
+];
+
+/**
+ * Environmental values present on a record, converted to the user's preferred units
+ */
+const getEnvironmentalReportRows = (
+  envMetrics: EnvironmentalMetricsView,
+  unitPreferences?: UnitPreferences | null
+): Array<{ label: string; value: number; unit: string }> => {
+  return ENVIRONMENTAL_REPORT_FIELDS
+    .map(({ label, field }) => ({ label, field, value: (envMetrics as Record<string, any>)[field] }))
+    .filter(({ value }) => value !== undefined && value !== null)
+    .map(({ label, field, value }) => {
+      const canonicalUnit = ENVIRONMENTAL_METRIC_UNITS[field];
+      if (!canonicalUnit) {
+        return { label, value: Number(value), unit: '%' };
+      }
+      return { label, ...toPreferredUnit(Number(value), canonicalUnit, unitPreferences) };
+    });
+};
+
 // Helper function to draw a table
 const drawTable = (
   doc: PDFDocument,
@@ -76,13 +117,49 @@ const drawTable = (
   return currentY;
 };
 
-export const generatePDFReport = async (companyId: string, period?: string): Promise<Buffer> => {
+/**
+ * Load the score and metrics a report is built from
+ * Company reports use the stored (rolled-up) score, facility reports are scored live from the facility's approved metrics
+ */
+const loadReportData = async (companyId: string, period?: string, facilityId?: string) => {
   const company = await Company.findById(companyId);
   
   if (!company) {
     throw new Error('Company not found');
   }
 
+  if (facilityId) {
+    const facility = await Facility.findOne({ _id: facilityId, companyId });
+    if (!facility) {
+      throw new Error('Facility not found');
+    }
+
+    const latest = period
+      ? await FacilityMetrics.findOne({ facilityId, period })
+      : await FacilityMetrics.findOne({ facilityId }).sort({ period: -1 });
+    const facilityMetrics = latest && await findApprovedFacilityMetrics(companyId, facilityId, latest.period);
+
+    if (!facilityMetrics) {
+      throw new Error(`No approved metrics found for facility ${facility.name} for period ${period || 'latest'}.`);
+    }
+
+    const reportPeriod = facilityMetrics.period;
+    const [scores, govMetrics] = await Promise.all([
+      calculateESGScore(companyId, reportPeriod, undefined, facilityId),
+      findApprovedMetrics('governance', companyId, reportPeriod)
+    ]);
+    const { environmental, social } = facilityMetrics.toObject();
+
+    return {
+      company,
+      facility,
+      esgScore: { period: reportPeriod, ...scores },
+      envMetrics: readEnvironmentalMetrics(environmental),
+      socialMetrics: readSocialMetrics(social),
+      govMetrics: readGovernanceMetrics(govMetrics)
+    };
+  }
+
   // Find ESG score for the specified period, or latest if not specified
   let esgScore;
   if (period) {
@@ -98,12 +175,38 @@ export const generatePDFReport = async (companyId: string, period?: string): Pro
   // Use the period from the found score
   const reportPeriod = esgScore.period;
 
+  // Reports show the metrics as approved, the same data the score was calculated from
   const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
-    EnvironmentalMetrics.findOne({ companyId, period: reportPeriod }).sort({ createdAt: -1 }),
-    SocialMetrics.findOne({ companyId, period: reportPeriod }).sort({ createdAt: -1 }),
-    GovernanceMetrics.findOne({ companyId, period: reportPeriod }).sort({ createdAt: -1 })
+    findApprovedMetrics('environment', companyId, reportPeriod),
+    findApprovedMetrics('social', companyId, reportPeriod),
+    findApprovedMetrics('governance', companyId, reportPeriod)
   ]);
 
+  return {
+    company,
+    facility: null,
+    esgScore,
+    envMetrics: readEnvironmentalMetrics(envMetrics),
+    socialMetrics: readSocialMetrics(socialMetrics),
+    govMetrics: readGovernanceMetrics(govMetrics)
+  };
+};
+
+export const generatePDFReport = async (
+  companyId: string,
+  period?: string,
+  facilityId?: string,
+  unitPreferences?: UnitPreferences | null
+): Promise<Buffer> => {
+  const { company, facility, esgScore, envMetrics, socialMetrics, govMetrics } = await loadReportData(companyId, period, facilityId);
+  const reportPeriod = esgScore.period;
+
+  const methodology = esgScore.methodologyVersion ? await ScoringMethodology.findOne({ version: esgScore.methodologyVersion }) : null;
+
+  // Weights of the methodology that produced the score (scores saved before methodologies used the defaults)
+  const weights = methodology?.weights || DEFAULT_SCORING_WEIGHTS;
+  const formatWeight = (weight: number): string => `${Math.round(weight * 100)}%`;
+
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({ 
       margin: 40,
@@ -185,7 +288,7 @@ export const generatePDFReport = async (companyId: string, period?: string): Pro
        .font('Helvetica')
        .fillColor('#4B5563')
        .text(`Industry: ${company.industry}`, companyBoxX + 10, 50, { width: 180 })
-       .text(`Location: ${company.location}`, companyBoxX + 10, 65, { width: 180 })
+       .text(facility ? `Facility: ${facility.name}, ${facility.location}` : `Location: ${company.location}`, companyBoxX + 10, 65, { width: 180 })
        .text(`Employees: ${company.employeeCount?.toLocaleString() || 'N/A'}`, companyBoxX + 10, 80, { width: 180 });
 
     // Report Period Badge
@@ -258,9 +361,9 @@ export const generatePDFReport = async (companyId: string, period?: string): Pro
 
     const breakdownHeaders = ['Category', 'Score', 'Weight', 'Weighted Score'];
     const breakdownRows = [
-      ['Environmental', `${envScore.toFixed(1)}/100`, '40%', `${(envScore * 0.4).toFixed(1)}`],
-      ['Social', `${socialScore.toFixed(1)}/100`, '30%', `${(socialScore * 0.3).toFixed(1)}`],
-      ['Governance', `${govScore.toFixed(1)}/100`, '30%', `${(govScore * 0.3).toFixed(1)}`]
+      ['Environmental', `${envScore.toFixed(1)}/100`, formatWeight(weights.environmental), `${(envScore * weights.environmental).toFixed(1)}`],
+      ['Social', `${socialScore.toFixed(1)}/100`, formatWeight(weights.social), `${(socialScore * weights.social).toFixed(1)}`],
+      ['Governance', `${govScore.toFixed(1)}/100`, formatWeight(weights.governance), `${(govScore * weights.governance).toFixed(1)}`]
     ];
     const breakdownWidths = [150, 100, 100, 120];
 
@@ -285,26 +388,11 @@ export const generatePDFReport = async (companyId: string, period?: string): Pro
       currentY += 25;
 
       const envHeaders = ['Metric', 'Value', 'Unit'];
-      const envRows: string[][] = [];
-      
-      if (envMetrics.electricityUsageKwh !== undefined && envMetrics.electricityUsageKwh !== null) {
-        envRows.push(['Electricity Usage', Number(envMetrics.electricityUsageKwh).toLocaleString(), 'kWh']);
-      }
-      if (envMetrics.fuelConsumptionLitres !== undefined && envMetrics.fuelConsumptionLitres !== null) {
-        envRows.push(['Fuel Consumption', Number(envMetrics.fuelConsumptionLitres).toLocaleString(), 'Liters']);
-      }
-      if (envMetrics.waterUsageKL !== undefined && envMetrics.waterUsageKL !== null) {
-        envRows.push(['Water Usage', Number(envMetrics.waterUsageKL).toLocaleString(), 'KL']);
-      }
-      if (envMetrics.wasteGeneratedKg !== undefined && envMetrics.wasteGeneratedKg !== null) {
-        envRows.push(['Waste Generated', Number(envMetrics.wasteGeneratedKg).toLocaleString(), 'kg']);
-      }
-      if (envMetrics.renewableEnergyPercent !== undefined && envMetrics.renewableEnergyPercent !== null) {
-        envRows.push(['Renewable Energy', `${Number(envMetrics.renewableEnergyPercent).toFixed(1)}`, '%']);
-      }
-      if (envMetrics.carbonEmissionsTons !== undefined && envMetrics.carbonEmissionsTons !== null) {
-        envRows.push(['Carbon Emissions', Number(envMetrics.carbonEmissionsTons).toLocaleString(), 'tons']);
-      }
+      const envRows: string[][] = getEnvironmentalReportRows(envMetrics, unitPreferences).map(({ label, value, unit }) => [
+        label,
+        unit === '%' ? value.toFixed(1) : value.toLocaleString(),
+        unit
+      ]);
 
       if (envRows.length > 0) {
         const envWidths = [200, 150, 100];
@@ -333,31 +421,22 @@ export const generatePDFReport = async (companyId: string, period?: string): Pro
       const socialHeaders = ['Metric', 'Value', 'Unit'];
       const socialRows: string[][] = [];
       
-      // Support both new and legacy fields
-      const totalEmployees = socialMetrics.totalEmployeesPermanent 
-        ? (Number(socialMetrics.totalEmployeesPermanent) + Number(socialMetrics.totalEmployeesContractual || 0))
-        : Number(socialMetrics.totalEmployees || 0);
+      const totalEmployees = getTotalEmployees(socialMetrics);
       
       if (totalEmployees > 0) {
         socialRows.push(['Total Employees', totalEmployees.toLocaleString(), '']);
       }
       
-      // Female percentage - support both new and legacy fields
       if (socialMetrics.femalePercentWorkforce !== undefined && socialMetrics.femalePercentWorkforce !== null) {
         socialRows.push(['Female Workforce', `${Number(socialMetrics.femalePercentWorkforce).toFixed(1)}`, '%']);
-      } else if (socialMetrics.femaleEmployees && totalEmployees > 0) {
-        const femalePercent = (Number(socialMetrics.femaleEmployees) / totalEmployees) * 100;
-        socialRows.push(['Female Workforce', `${Number(socialMetrics.femaleEmployees).toLocaleString()} (${femalePercent.toFixed(1)}%)`, '']);
       }
       
-      // Training hours - support both new and legacy fields
-      const trainingHours = socialMetrics.totalTrainingHoursPerEmployee || socialMetrics.avgTrainingHours;
+      const trainingHours = socialMetrics.totalTrainingHoursPerEmployee;
       if (trainingHours !== undefined && trainingHours !== null) {
         socialRows.push(['Training Hours per Employee', Number(trainingHours).toFixed(1), 'hours']);
       }
       
-      // Incidents - support both new and legacy fields
-      const incidents = socialMetrics.accidentIncidents || socialMetrics.workplaceIncidents;
+      const incidents = socialMetrics.accidentIncidents;
       if (incidents !== undefined && incidents !== null) {
         socialRows.push(['Workplace Incidents', Number(incidents).toString(), '']);
       }
@@ -421,6 +500,66 @@ export const generatePDFReport = async (companyId: string, period?: string): Pro
       }
     }
 
+    // Appendix: How your score was computed (scores saved before breakdowns were stored have none)
+    const contributions = esgScore.contributions || [];
+    if (contributions.length > 0) {
+      doc.addPage();
+      currentY = 50;
+
+      doc.fontSize(18)
+         .font('Helvetica-Bold')
+         .fillColor('#111827')
+         .text('Appendix: How your score was computed', 50, currentY);
+
+      currentY += 28;
+
+      doc.fontSize(10)
+         .font('Helvetica')
+         .fillColor('#4B5563')
+         .text(
+           `Each pillar starts from a base score and every rule adds or removes points based on the band your data falls in. Scored with methodology version ${esgScore.methodologyVersion || 'N/A'}.`,
+           50,
+           currentY,
+           { width: doc.page.width - 100 }
+         );
+
+      currentY += 40;
+
+      const pillars: Array<{ pillar: string; score: number; color: string }> = [
+        { pillar: 'Environmental', score: esgScore.environmentalScore, color: '#059669' },
+        { pillar: 'Social', score: esgScore.socialScore, color: '#3B82F6' },
+        { pillar: 'Governance', score: esgScore.governanceScore, color: '#8B5CF6' }
+      ];
+
+      pillars.forEach(({ pillar, score, color }) => {
+        const pillarRows = contributions
+          .filter(c => c.pillar === pillar)
+          .map(c => [
+            c.label,
+            c.input === null || c.input === undefined ? '-' : typeof c.input === 'boolean' ? (c.input ? 'Yes' : 'No') : c.input.toString(),
+            c.band || '-',
+            `${c.points > 0 ? '+' : ''}${c.points}`
+          ]);
+
+        if (pillarRows.length === 0) return;
+
+        // Keep each pillar's table on one page
+        if (currentY + 55 + pillarRows.length * 25 > doc.page.height - 60) {
+          doc.addPage();
+          currentY = 50;
+        }
+
+        doc.fontSize(14)
+           .font('Helvetica-Bold')
+           .fillColor('#111827')
+           .text(`${pillar} (${score.toFixed(1)} / 100)`, 50, currentY);
+
+        currentY += 22;
+        currentY = drawTable(doc, currentY, ['Rule', 'Input', 'Band', 'Points'], pillarRows, [200, 90, 110, 70], color);
+        currentY += 20;
+      });
+    }
+
     // Add footer to the last page (simple approach to avoid recursion)
     const footerText = `Generated by EcoTrack India on ${new Date().toLocaleDateString('en-IN', { 
       year: 'numeric', 
@@ -447,33 +586,13 @@ export const generatePDFReport = async (companyId: string, period?: string): Pro
   });
 };
 
-export const generateExcelReport = async (companyId: string, period?: string): Promise<Buffer> => {
-  const company = await Company.findById(companyId);
-  
-  if (!company) {
-    throw new Error('Company not found');
-  }
-
-  // Find ESG score for the specified period, or latest if not specified
-  let esgScore;
-  if (period) {
-    esgScore = await ESGScore.findOne({ companyId, period }).sort({ createdAt: -1 });
-  } else {
-    esgScore = await ESGScore.findOne({ companyId }).sort({ period: -1 });
-  }
-
-  if (!esgScore) {
-    throw new Error(`ESG score not found for period ${period || 'latest'}. Please calculate scores first.`);
-  }
-
-  // Use the period from the found score
-  const reportPeriod = esgScore.period;
-
-  const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
-    EnvironmentalMetrics.findOne({ companyId, period: reportPeriod }).sort({ createdAt: -1 }),
-    SocialMetrics.findOne({ companyId, period: reportPeriod }).sort({ createdAt: -1 }),
-    GovernanceMetrics.findOne({ companyId, period: reportPeriod }).sort({ createdAt: -1 })
-  ]);
+export const generateExcelReport = async (
+  companyId: string,
+  period?: string,
+  facilityId?: string,
+  unitPreferences?: UnitPreferences | null
+): Promise<Buffer> => {
+  const { company, facility, esgScore, envMetrics, socialMetrics, govMetrics } = await loadReportData(companyId, period, facilityId);
 
   const workbook = new ExcelJS.Workbook();
 
@@ -492,13 +611,15 @@ export const generateExcelReport = async (companyId: string, period?: string): P
   summarySheet.addRows([
     { metric: 'Company Name', value: company.name },
     { metric: 'Industry', value: company.industry },
+    { metric: 'Facility', value: facility ? `${facility.name} (${facility.location})` : 'All facilities (company roll-up)' },
     { metric: 'Employees', value: company.employeeCount },
     { metric: 'Reporting Period', value: esgScore.period },
     { metric: '', value: '' },
     { metric: 'Overall ESG Score', value: overallScore.toFixed(1) },
     { metric: 'Environmental Score', value: envScore.toFixed(1) },
     { metric: 'Social Score', value: socialScore.toFixed(1) },
-    { metric: 'Governance Score', value: govScore.toFixed(1) }
+    { metric: 'Governance Score', value: govScore.toFixed(1) },
+    { metric: 'Scoring Methodology Version', value: esgScore.methodologyVersion || 'N/A' }
   ]);
 
   // Environmental Sheet
@@ -509,14 +630,12 @@ export const generateExcelReport = async (companyId: string, period?: string): P
       { header: 'Value', key: 'value', width: 20 }
     ];
 
-    envSheet.addRows([
-      { metric: 'Electricity Usage (kWh)', value: envMetrics.electricityUsageKwh },
-      { metric: 'Fuel Consumption (L)', value: envMetrics.fuelConsumptionLitres },
-      { metric: 'Water Usage (KL)', value: envMetrics.waterUsageKL },
-      { metric: 'Waste Generated (kg)', value: envMetrics.wasteGeneratedKg },
-      { metric: 'Renewable Energy (%)', value: envMetrics.renewableEnergyPercent },
-      { metric: 'Carbon Emissions (tons)', value: envMetrics.carbonEmissionsTons }
-    ]);
+    envSheet.addRows(
+      getEnvironmentalReportRows(envMetrics, unitPreferences).map(({ label, value, unit }) => ({
+        metric: `${label} (${unit})`,
+        value
+      }))
+    );
   }
 
   // Social Sheet
@@ -529,29 +648,21 @@ export const generateExcelReport = async (companyId: string, period?: string): P
 
     const rows: Array<{ metric: string; value: string | number }> = [];
     
-    // Total employees - support both new and legacy fields
-    const totalEmployees = socialMetrics.totalEmployeesPermanent 
-      ? (Number(socialMetrics.totalEmployeesPermanent) + Number(socialMetrics.totalEmployeesContractual || 0))
-      : Number(socialMetrics.totalEmployees || 0);
+    const totalEmployees = getTotalEmployees(socialMetrics);
     if (totalEmployees > 0) {
       rows.push({ metric: 'Total Employees', value: totalEmployees });
     }
     
-    // Female percentage - support both new and legacy fields
     if (socialMetrics.femalePercentWorkforce !== undefined && socialMetrics.femalePercentWorkforce !== null) {
       rows.push({ metric: 'Female % of Workforce', value: `${Number(socialMetrics.femalePercentWorkforce).toFixed(1)}%` });
-    } else if (socialMetrics.femaleEmployees && totalEmployees > 0) {
-      rows.push({ metric: 'Female Employees', value: Number(socialMetrics.femaleEmployees) });
     }
     
-    // Training hours - support both new and legacy fields
-    const trainingHours = socialMetrics.totalTrainingHoursPerEmployee || socialMetrics.avgTrainingHours;
+    const trainingHours = socialMetrics.totalTrainingHoursPerEmployee;
     if (trainingHours !== undefined && trainingHours !== null) {
       rows.push({ metric: 'Training Hours per Employee', value: Number(trainingHours).toFixed(1) });
     }
     
-    // Incidents - support both new and legacy fields
-    const incidents = socialMetrics.accidentIncidents || socialMetrics.workplaceIncidents;
+    const incidents = socialMetrics.accidentIncidents;
     if (incidents !== undefined && incidents !== null) {
       rows.push({ metric: 'Workplace Incidents', value: Number(incidents) });
     }
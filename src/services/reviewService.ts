@@ -0,0 +1,256 @@
+import User from '../models/User';
+import MetricRevision from '../models/MetricRevision';
+import FacilityMetrics from '../models/FacilityMetrics';
+import MetricReview, { IMetricReview, IFieldComment, IReviewedRecord } from '../models/MetricReview';
+import { METRIC_MODULES, MetricModule } from './metricRecordService';
+import { ensureRevision, diffSnapshots } from './revisionService';
+import { transitionPeriod } from './periodLockService';
+import { getParentPeriods } from './periodService';
+import { getCompanyAccess, findMemberCompanies, hasPermission, ApiKeyRestriction } from './membershipService';
+
+const REVIEW_MODULES = Object.keys(METRIC_MODULES) as MetricModule[];
+
+type ReviewResult = { review?: IMetricReview; error?: string };
+
+// A period has one record per E/S/G module but one per facility
+const isSameRecord = (a: IReviewedRecord, b: IReviewedRecord): boolean =>
+  a.module === b.module && (a.module !== 'facility' || a.recordId.equals(b.recordId));
+
+/**
+ * Send a period's E/S/G records and facility metrics for review, moving the period to Submitted
+ * The review covers the records as they are now (their latest revision)
+ */
+export const submitForReview = async (companyId: string, period: string, userId: string): Promise<ReviewResult> => {
+  const pending = await MetricReview.findOne({ companyId, period, status: 'Pending' });
+  if (pending) {
+    return { error: `Period ${period} is already waiting for review` };
+  }
+
+  const records = [];
+  for (const module of REVIEW_MODULES) {
+    const record = await METRIC_MODULES[module].model.findOne({ companyId, period });
+    if (record) {
+      records.push({ module, recordId: record._id, revision: await ensureRevision(module, record) });
+    }
+  }
+  for (const record of await FacilityMetrics.find({ companyId, period })) {
+    records.push({ module: 'facility', recordId: record._id, revision: await ensureRevision('facility', record) });
+  }
+
+  if (records.length === 0) {
+    return { error: `No metrics have been entered for period ${period}` };
+  }
+
+  const { error } = await transitionPeriod(companyId, period, 'Submitted', userId);
+  if (error) {
+    return { error };
+  }
+
+  const review = await MetricReview.create({ companyId, period, records, submittedBy: userId });
+  return { review };
+};
+
+/**
+ * Whether a user may review a company's submissions - never their own
+ * Admins and members whose role has reviews.approve (e.g. External Auditors and ESG Managers) can review
+ * Through an API key only the key's scopes count, never the creator's admin role
+ */
+export const canReview = async (userId: string, review: IMetricReview, apiKey?: ApiKeyRestriction): Promise<boolean> => {
+  if (review.submittedBy.toString() === userId) return false;
+
+  const user = await User.findById(userId);
+  if (!user) return false;
+  if (user.role === 'ADMIN' && !apiKey) return true;
+
+  const access = await getCompanyAccess(review.companyId.toString(), userId, apiKey);
+  return !!access && hasPermission(access, 'reviews.approve');
+};
+
+/**
+ * Pending reviews a user can pick up, oldest first
+ */
+export const findReviewQueue = async (userId: string, apiKey?: ApiKeyRestriction): Promise<IMetricReview[]> => {
+  const user = await User.findById(userId);
+  if (!user) return [];
+
+  const query: any = { status: 'Pending', submittedBy: { $ne: userId } };
+  if (user.role !== 'ADMIN' || apiKey) {
+    const companies = await findMemberCompanies(userId, apiKey);
+    query.companyId = {
+      $in: companies
+        .filter(access => hasPermission(access, 'reviews.approve'))
+        .map(access => access.company._id)
+    };
+  }
+
+  return MetricReview.find(query)
+    .populate('companyId', 'name industry')
+    .populate('submittedBy', 'name email')
+    .sort({ submittedAt: 1 });
+};
+
+/**
+ * Submitted records of a review, each with its changes since the last approved review
+ */
+export const getReviewRecords = async (review: IMetricReview) => {
+  const previous = await MetricReview.findOne({
+    companyId: review.companyId,
+    period: review.period,
+    status: 'Approved',
+    reviewedAt: { $lt: review.reviewedAt || new Date() }
+  }).sort({ reviewedAt: -1 });
+
+  return Promise.all(review.records.map(async entry => {
+    const previousEntry = previous?.records.find(record => isSameRecord(record, entry));
+    const [submitted, approved, latest] = await Promise.all([
+      MetricRevision.findOne({ module: entry.module, recordId: entry.recordId, revision: entry.revision }),
+      previousEntry
+        ? MetricRevision.findOne({ module: entry.module, recordId: previousEntry.recordId, revision: previousEntry.revision })
+        : null,
+      MetricRevision.findOne({ module: entry.module, recordId: entry.recordId }).sort({ revision: -1 }).select('revision')
+    ]);
+
+    return {
+      module: entry.module,
+      recordId: entry.recordId,
+      revision: entry.revision,
+      snapshot: submitted?.snapshot || null,
+      changesSinceApproval: diffSnapshots(approved?.snapshot || {}, submitted?.snapshot || {}),
+      changedSinceSubmission: !!latest && latest.revision > entry.revision
+    };
+  }));
+};
+
+/**
+ * Fields a rejection comments on that are not on the reviewed records
+ * Facility comments name the facility metrics record, as a review has one per facility
+ */
+export const getInvalidFieldComments = (review: IMetricReview, fieldComments: IFieldComment[]): string[] =>
+  fieldComments
+    .filter(({ module, recordId, field }) => {
+      if (module === 'facility') {
+        return !recordId ||
+          !review.records.some(record => record.module === 'facility' && record.recordId.equals(recordId)) ||
+          FacilityMetrics.schema.pathType(field) === 'adhocOrUndefined';
+      }
+      return !review.records.some(record => record.module === module) ||
+        METRIC_MODULES[module as MetricModule].model.schema.pathType(field) === 'adhocOrUndefined';
+    })
+    .map(({ module, recordId, field }) => (module === 'facility' ? `${module}.${recordId}.${field}` : `${module}.${field}`));
+
+/**
+ * Approve a pending review - its records become the data scores and reports use
+ */
+export const approveReview = async (review: IMetricReview, userId: string, comment?: string): Promise<ReviewResult> => {
+  if (review.status !== 'Pending') {
+    return { error: `This review is already ${review.status.toLowerCase()}` };
+  }
+
+  const { error } = await transitionPeriod(review.companyId.toString(), review.period, 'Reviewed', userId);
+  if (error) {
+    return { error };
+  }
+
+  review.set({ status: 'Approved', reviewerId: userId, reviewedAt: new Date(), comment });
+  await review.save();
+  return { review };
+};
+
+/**
+ * Reject a pending review with comments on the fields to fix, reopening the period
+ */
+export const rejectReview = async (
+  review: IMetricReview,
+  userId: string,
+  fieldComments: IFieldComment[],
+  comment?: string
+): Promise<ReviewResult> => {
+  if (review.status !== 'Pending') {
+    return { error: `This review is already ${review.status.toLowerCase()}` };
+  }
+
+  const { error } = await transitionPeriod(review.companyId.toString(), review.period, 'Open', userId);
+  if (error) {
+    return { error };
+  }
+
+  review.set({ status: 'Rejected', reviewerId: userId, reviewedAt: new Date(), comment, fieldComments });
+  await review.save();
+  return { review };
+};
+
+/**
+ * Pull a pending review back so the period can be edited again
+ */
+export const withdrawReview = async (review: IMetricReview, userId: string): Promise<ReviewResult> => {
+  if (review.status !== 'Pending') {
+    return { error: `This review is already ${review.status.toLowerCase()}` };
+  }
+
+  const { error } = await transitionPeriod(review.companyId.toString(), review.period, 'Open', userId);
+  if (error) {
+    return { error };
+  }
+
+  review.status = 'Withdrawn';
+  await review.save();
+  return { review };
+};
+
+/**
+ * Latest approved review of a period, or null if it has never been approved
+ */
+export const findApprovedReview = (companyId: string, period: string) =>
+  MetricReview.findOne({ companyId, period, status: 'Approved' }).sort({ reviewedAt: -1 });
+
+/**
+ * A record as it was approved for the period (a document rebuilt from the revision, not saved)
+ */
+export const findApprovedMetrics = async (module: MetricModule, companyId: string, period: string): Promise<any> => {
+  const review = await findApprovedReview(companyId, period);
+  const entry = review?.records.find(record => record.module === module);
+  if (!entry) return null;
+
+  const revision = await MetricRevision.findOne({ module, recordId: entry.recordId, revision: entry.revision });
+  if (!revision) return null;
+
+  return METRIC_MODULES[module].model.hydrate({ ...revision.snapshot, _id: entry.recordId });
+};
+
+/**
+ * A facility's metrics as approved for the period (a document rebuilt from the revision, not saved)
+ */
+export const findApprovedFacilityMetrics = async (companyId: string, facilityId: string, period: string): Promise<any> => {
+  const review = await findApprovedReview(companyId, period);
+  const entries = review?.records.filter(record => record.module === 'facility') || [];
+  if (entries.length === 0) return null;
+
+  const revision = await MetricRevision.findOne({
+    module: 'facility',
+    facilityId,
+    $or: entries.map(entry => ({ recordId: entry.recordId, revision: entry.revision }))
+  });
+  if (!revision) return null;
+
+  return FacilityMetrics.hydrate({ ...revision.snapshot, _id: revision.recordId });
+};
+
+/**
+ * Approved record for a period, falling back to the approved quarter or FY containing it
+ */
+export const findApprovedMetricsForPeriod = async (module: MetricModule, companyId: string, period: string): Promise<any> => {
+  for (const candidate of [period, ...getParentPeriods(period)]) {
+    const record = await findApprovedMetrics(module, companyId, candidate);
+    if (record) return record;
+  }
+  return null;
+};
+
+/**
+ * Most recently approved period
+ * Period strings do not sort by date (2025-04 vs 2025-Q2 vs FY2025-26), so this goes by approval time
+ */
+export const findLatestApprovedPeriod = async (companyId: string): Promise<string | null> => {
+  const review = await MetricReview.findOne({ companyId, status: 'Approved' }).sort({ reviewedAt: -1 });
+  return review ? review.period : null;
+};
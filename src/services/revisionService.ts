@@ -0,0 +1,223 @@
+import { Schema, Document, Model } from 'mongoose';
+import MetricRevision, { RevisionModule, RevisionSource, IFieldChange, IMetricRevision } from '../models/MetricRevision';
+import RevisionCounter from '../models/RevisionCounter';
+
+interface RevisionAuthor {
+  userId?: string;
+  source: RevisionSource;
+  restoredFrom?: number;
+}
+
+// Bookkeeping fields left out of snapshots
+const OMITTED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+// Paths refreshed on every calculation or roll-up, which on their own are not a change
+const IGNORED_CHANGE_PATTERN = /(^|\.)(_id|calculatedAt|rolledUpAt)$/;
+
+// Fields identifying the record - neither a restore nor an update moves a record
+export const IDENTITY_FIELDS = ['companyId', 'facilityId', 'period'];
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && value.constructor === Object;
+
+// Drop unset values so snapshots only hold what the record stores
+const compact = (values: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(
+    Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, isPlainObject(value) ? compact(value) : value])
+  );
+
+/**
+ * Stored fields of a record (document or lean object) as kept in a revision snapshot
+ */
+export const toSnapshot = (record: any): Record<string, any> => {
+  const values = typeof record?.toObject === 'function' ? record.toObject({ flattenMaps: true }) : { ...(record || {}) };
+  OMITTED_FIELDS.forEach(field => delete values[field]);
+  return compact(values);
+};
+
+const flatten = (values: Record<string, any>, prefix = '', result: Record<string, any> = {}): Record<string, any> => {
+  Object.entries(values || {}).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flatten(value, path, result);
+    } else {
+      result[path] = value;
+    }
+  });
+  return result;
+};
+
+// Comparable form of a value - unset and null both mean "no value"
+const comparable = (value: any): string | undefined =>
+  value === undefined || value === null ? undefined : JSON.stringify(value);
+
+/**
+ * Field-level changes between two snapshots, nested values as dotted paths
+ */
+export const diffSnapshots = (from: Record<string, any>, to: Record<string, any>): IFieldChange[] => {
+  const before = flatten(from);
+  const after = flatten(to);
+
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => !IGNORED_CHANGE_PATTERN.test(field))
+    .filter(field => comparable(before[field]) !== comparable(after[field]))
+    .sort()
+    .map(field => ({ field, from: before[field], to: after[field] }));
+};
+
+/**
+ * Attribute the next save of a record to a user (saves without an author are recorded as system saves)
+ */
+export const setRevisionAuthor = (
+  record: Document,
+  userId: string | undefined,
+  source: RevisionSource = 'form',
+  restoredFrom?: number
+): void => {
+  record.$locals.revisionAuthor = { userId, source, restoredFrom };
+};
+
+/**
+ * Reserve the next revision numbers of a record and return the first
+ * The counter starts from the record's latest revision the first time, for history kept before counters existed
+ */
+export const allocateRevisions = async (module: RevisionModule, recordId: any, count = 1): Promise<number> => {
+  const increment = () => RevisionCounter.findOneAndUpdate({ module, recordId }, { $inc: { revision: count } }, { new: true });
+
+  let counter = await increment();
+  if (!counter) {
+    const last = await MetricRevision.findOne({ module, recordId }).sort({ revision: -1 }).select('revision');
+    try {
+      counter = await RevisionCounter.create({ module, recordId, revision: (last?.revision || 0) + count });
+    } catch (error: any) {
+      // Another save created the counter first
+      if (error?.code !== 11000) throw error;
+      counter = await increment();
+    }
+  }
+
+  return counter!.revision - count + 1;
+};
+
+const recordRevision = async (module: RevisionModule, record: Document): Promise<void> => {
+  const previous = record.$locals.revisionPrevious as Record<string, any> | null;
+  const author = (record.$locals.revisionAuthor || { source: 'system' }) as RevisionAuthor;
+  delete record.$locals.revisionPrevious;
+  delete record.$locals.revisionAuthor;
+
+  const snapshot = toSnapshot(record);
+  const previousSnapshot = previous ? toSnapshot(previous) : null;
+  const changes = diffSnapshots(previousSnapshot || {}, snapshot);
+  if (previousSnapshot && changes.length === 0) return;
+
+  // Records saved before revisions were kept get their stored state as a baseline first
+  const needsBaseline = !!previous && !!previousSnapshot && !(await MetricRevision.exists({ module, recordId: record._id }));
+  let revision = await allocateRevisions(module, record._id, needsBaseline ? 2 : 1);
+  const identity = {
+    module,
+    recordId: record._id,
+    companyId: snapshot.companyId,
+    facilityId: snapshot.facilityId,
+    period: snapshot.period
+  };
+
+  if (needsBaseline) {
+    await MetricRevision.create({
+      ...identity,
+      revision: revision++,
+      source: 'system',
+      changes: diffSnapshots({}, previousSnapshot!),
+      snapshot: previousSnapshot,
+      createdAt: previous!.updatedAt || previous!.createdAt
+    });
+  }
+
+  await MetricRevision.create({
+    ...identity,
+    revision,
+    userId: author.userId,
+    source: author.source,
+    restoredFrom: author.restoredFrom,
+    changes,
+    snapshot
+  });
+};
+
+/**
+ * Schema plugin keeping an immutable revision (author, time, field diff and snapshot) for every save
+ * Saves that change nothing are not recorded
+ */
+export const trackRevisions = (schema: Schema, options: { module: RevisionModule }): void => {
+  schema.pre('save', async function () {
+    // Stored version to diff the save against
+    this.$locals.revisionPrevious = this.isNew
+      ? null
+      : await (this.constructor as Model<any>).findById(this._id).lean();
+  });
+
+  schema.post('save', async function (record: Document) {
+    await recordRevision(options.module, record);
+  });
+};
+
+/**
+ * Latest revision number of a record, recording its stored state first if it has none yet
+ */
+export const ensureRevision = async (module: RevisionModule, record: Document): Promise<number> => {
+  const last = await MetricRevision.findOne({ module, recordId: record._id }).sort({ revision: -1 }).select('revision');
+  if (last) return last.revision;
+
+  const snapshot = toSnapshot(record);
+  const revision = await allocateRevisions(module, record._id);
+  await MetricRevision.create({
+    module,
+    recordId: record._id,
+    companyId: snapshot.companyId,
+    facilityId: snapshot.facilityId,
+    period: snapshot.period,
+    revision,
+    source: 'system',
+    changes: diffSnapshots({}, snapshot),
+    snapshot,
+    createdAt: record.get('updatedAt') || record.get('createdAt')
+  });
+  return revision;
+};
+
+/**
+ * Record the deletion of a record as its last revision - call before deleting it
+ * The snapshot keeps the deleted values so the history still shows what was removed
+ */
+export const recordDeletion = async (module: RevisionModule, record: Document, userId?: string): Promise<void> => {
+  const snapshot = toSnapshot(record);
+  await MetricRevision.create({
+    module,
+    recordId: record._id,
+    companyId: snapshot.companyId,
+    facilityId: snapshot.facilityId,
+    period: snapshot.period,
+    revision: await allocateRevisions(module, record._id),
+    userId,
+    source: 'delete',
+    changes: diffSnapshots(snapshot, {}),
+    snapshot
+  });
+};
+
+/**
+ * Put a record back to a revision's snapshot (not saved) - the save is recorded as a restore
+ */
+export const applyRevision = (record: Document, revision: IMetricRevision, userId?: string): void => {
+  const snapshot = { ...revision.snapshot };
+  IDENTITY_FIELDS.forEach(field => delete snapshot[field]);
+
+  // Fields set since the revision are cleared
+  Object.keys(toSnapshot(record))
+    .filter(field => !IDENTITY_FIELDS.includes(field) && !(field in snapshot))
+    .forEach(field => record.set(field, undefined));
+
+  record.set(snapshot);
+  setRevisionAuthor(record, userId, 'restore', revision.revision);
+};
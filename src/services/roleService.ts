@@ -0,0 +1,117 @@
+import CustomRole, { ICustomRole } from '../models/CustomRole';
+import CompanyMember from '../models/CompanyMember';
+import {
+  Permission,
+  PermissionModule,
+  RoleDefinition,
+  BUILT_IN_ROLES,
+  PERMISSIONS,
+  PERMISSION_MODULES,
+  RENAMED_ROLES,
+  isBuiltInRole,
+  getModuleWritePermission
+} from '../config/companyRoles';
+
+const ROLE_KEY_PATTERN = /^[a-z][a-z0-9-]{1,39}$/;
+
+const toRoleDefinition = (role: ICustomRole): RoleDefinition => ({
+  key: role.key,
+  name: role.name,
+  description: role.description || '',
+  permissions: role.permissions,
+  builtIn: false
+});
+
+/**
+ * The built-in roles followed by the company's custom roles
+ */
+export const getCompanyRoles = async (companyId: string): Promise<RoleDefinition[]> => {
+  const customRoles = await CustomRole.find({ companyId }).sort({ name: 1 });
+  return [...Object.values(BUILT_IN_ROLES), ...customRoles.map(toRoleDefinition)];
+};
+
+/**
+ * A role by key - built-in, renamed built-in or one of the company's custom roles
+ */
+export const findRole = async (companyId: string, key: string): Promise<RoleDefinition | null> => {
+  const builtInKey = RENAMED_ROLES[key] || key;
+  if (isBuiltInRole(builtInKey)) return BUILT_IN_ROLES[builtInKey];
+
+  const customRole = await CustomRole.findOne({ companyId, key });
+  return customRole ? toRoleDefinition(customRole) : null;
+};
+
+/**
+ * A role's permissions for one member - module-limited members keep only their modules' metric write permissions
+ */
+export const getMemberPermissions = (role: RoleDefinition, modules?: PermissionModule[]): Permission[] => {
+  if (!modules || modules.length === 0) return role.permissions;
+
+  const excluded = PERMISSION_MODULES
+    .filter(module => !modules.includes(module))
+    .map(getModuleWritePermission);
+  return role.permissions.filter(permission => !excluded.includes(permission));
+};
+
+/**
+ * Why a role and module limit cannot be given to a member, or null if they can
+ * Data Contributors must be limited to at least one module
+ */
+export const validateMemberRole = async (
+  companyId: string,
+  roleKey: string,
+  modules?: string[]
+): Promise<string | null> => {
+  if (!(await findRole(companyId, roleKey))) {
+    return `Unknown role ${roleKey}`;
+  }
+
+  const unknownModules = (modules || []).filter(module => !PERMISSION_MODULES.includes(module as PermissionModule));
+  if (unknownModules.length > 0) {
+    return `Modules must be among ${PERMISSION_MODULES.join(', ')}`;
+  }
+
+  if (roleKey === 'data-contributor' && (!modules || modules.length === 0)) {
+    return 'Data Contributors must be given at least one module';
+  }
+  return null;
+};
+
+/**
+ * Check a custom role's key, name and permissions
+ */
+export const validateCustomRole = (role: { key?: string; name?: string; permissions?: string[] }): string[] => {
+  const errors: string[] = [];
+
+  if (!role.key || !ROLE_KEY_PATTERN.test(role.key)) {
+    errors.push('Key must be 2-40 lowercase letters, digits or hyphens, starting with a letter');
+  } else if (isBuiltInRole(role.key) || RENAMED_ROLES[role.key]) {
+    errors.push(`${role.key} is a built-in role`);
+  }
+
+  if (!role.name || !role.name.trim()) {
+    errors.push('Name is required');
+  }
+
+  const permissions = role.permissions || [];
+  if (permissions.length === 0) {
+    errors.push('A role needs at least one permission');
+  }
+  const unknown = permissions.filter(permission => !(permission in PERMISSIONS));
+  if (unknown.length > 0) {
+    errors.push(`Unknown permissions: ${unknown.join(', ')}`);
+  }
+  if (permissions.length > 0 && !permissions.includes('company.read')) {
+    errors.push('A role must include company.read');
+  }
+
+  return errors;
+};
+
+/**
+ * Why a custom role cannot be deleted, or null if it can
+ */
+export const getRoleDeleteConflict = async (role: ICustomRole): Promise<string | null> => {
+  const members = await CompanyMember.countDocuments({ companyId: role.companyId, role: role.key });
+  return members > 0 ? `${members} member(s) still have the ${role.name} role` : null;
+};
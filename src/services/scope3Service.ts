@@ -0,0 +1,125 @@
+import mongoose from 'mongoose';
+import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
+import { IScope3Line } from '../models/Scope3Inventory';
+import { SCOPE3_CATEGORIES, Scope3CategoryId } from '../config/scope3Categories';
+import { rollUpParentPeriods } from './periodService';
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Validate submitted Scope 3 lines and calculate emissions (tCO2e) for each
+ * Spend-based: INR x EEIO factor, activity-based: quantity x activity factor
+ * counterpartyCompanyId marks purchases from another entity of the company's group
+ */
+export const buildScope3Lines = (input: any[]): { lines: IScope3Line[]; errors: string[] } => {
+  const lines: IScope3Line[] = [];
+  const errors: string[] = [];
+
+  (input || []).forEach((raw, index) => {
+    const label = `Line ${index + 1}`;
+    const category = SCOPE3_CATEGORIES[raw?.category as Scope3CategoryId];
+    if (!category) {
+      errors.push(`${label}: unknown Scope 3 category '${raw?.category}'`);
+      return;
+    }
+
+    let factor = raw.factor !== undefined && raw.factor !== null ? Number(raw.factor) : undefined;
+    let factorSource: string | undefined = raw.factorSource;
+    let quantity: number;
+
+    if (raw.method === 'spend') {
+      quantity = Number(raw.spendInr);
+      if (raw.spendInr === undefined || isNaN(quantity) || quantity < 0) {
+        errors.push(`${label}: spend-based lines require a non-negative spendInr`);
+        return;
+      }
+      if (factor === undefined) {
+        errors.push(`${label}: spend-based lines require an EEIO factor (kg CO2e per INR)`);
+        return;
+      }
+    } else if (raw.method === 'activity') {
+      quantity = Number(raw.activityValue);
+      if (raw.activityValue === undefined || isNaN(quantity) || quantity < 0) {
+        errors.push(`${label}: activity-based lines require a non-negative activityValue`);
+        return;
+      }
+      if (!['km', 'tonne-km', 'kg'].includes(raw.activityUnit)) {
+        errors.push(`${label}: activityUnit must be one of km, tonne-km, kg`);
+        return;
+      }
+      if (factor === undefined) {
+        const defaultFactor = category.defaultActivityFactor;
+        if (!defaultFactor || defaultFactor.unit !== raw.activityUnit) {
+          errors.push(`${label}: no default factor for ${category.name} in ${raw.activityUnit}, please provide one`);
+          return;
+        }
+        factor = defaultFactor.value;
+        factorSource = factorSource || defaultFactor.source;
+      }
+    } else {
+      errors.push(`${label}: method must be 'spend' or 'activity'`);
+      return;
+    }
+
+    if (isNaN(factor) || factor < 0) {
+      errors.push(`${label}: factor must be a non-negative number`);
+      return;
+    }
+
+    if (raw.counterpartyCompanyId && !mongoose.isValidObjectId(raw.counterpartyCompanyId)) {
+      errors.push(`${label}: counterpartyCompanyId must be a company ID`);
+      return;
+    }
+
+    lines.push({
+      category: category.id,
+      method: raw.method,
+      description: raw.description,
+      spendInr: raw.method === 'spend' ? quantity : undefined,
+      activityValue: raw.method === 'activity' ? quantity : undefined,
+      activityUnit: raw.method === 'activity' ? raw.activityUnit : undefined,
+      factor,
+      factorSource,
+      emissionsTonnes: round((quantity * factor) / 1000),
+      counterpartyCompanyId: raw.counterpartyCompanyId || undefined
+    });
+  });
+
+  return { lines, errors };
+};
+
+/**
+ * Sum line emissions per category and overall
+ */
+export const summariseScope3Lines = (lines: IScope3Line[]): {
+  categoryTotals: Array<{ category: Scope3CategoryId; emissionsTonnes: number }>;
+  totalEmissionsTonnes: number;
+} => {
+  const totals = new Map<Scope3CategoryId, number>();
+  lines.forEach(line => {
+    totals.set(line.category, (totals.get(line.category) || 0) + line.emissionsTonnes);
+  });
+
+  const categoryTotals = Array.from(totals.entries())
+    .map(([category, emissionsTonnes]) => ({ category, emissionsTonnes: round(emissionsTonnes) }))
+    .sort((a, b) => SCOPE3_CATEGORIES[a.category].number - SCOPE3_CATEGORIES[b.category].number);
+
+  const totalEmissionsTonnes = round(categoryTotals.reduce((sum, c) => sum + c.emissionsTonnes, 0));
+
+  return { categoryTotals, totalEmissionsTonnes };
+};
+
+/**
+ * Roll the Scope 3 inventory total up into the period's environmental metrics
+ * Pass undefined to clear it (e.g. when the inventory is deleted)
+ */
+export const rollUpScope3 = async (companyId: string, period: string, totalEmissionsTonnes?: number): Promise<void> => {
+  const envMetrics = await EnvironmentalMetrics.findOne({ companyId, period });
+  if (!envMetrics) {
+    return;
+  }
+
+  envMetrics.scope3Emissions = totalEmissionsTonnes;
+  await envMetrics.save();
+  await rollUpParentPeriods(companyId, period);
+};
@@ -0,0 +1,274 @@
+import { Model } from 'mongoose';
+import EnvironmentalMetrics from '../models/EnvironmentalMetrics';
+import SocialMetrics from '../models/SocialMetrics';
+import GovernanceMetrics from '../models/GovernanceMetrics';
+import Target, { ITarget } from '../models/Target';
+import Task from '../models/Task';
+import { TARGET_METRICS, TARGET_SETTINGS, TargetMetric, TargetModule, getTargetMetric } from '../config/targets';
+import { parsePeriod, ParsedPeriod, PeriodType, PERIODS_PER_YEAR, getPeriodOrdinal, getPeriodFromOrdinal } from './periodService';
+import { readEnvironmentalMetrics, readSocialMetrics, readGovernanceMetrics } from './metricAccessor';
+
+export type TargetStatus = 'achieved' | 'on-track' | 'off-track' | 'no-data';
+
+export interface TrajectoryPoint {
+  period: string;
+  value: number;
+}
+
+export interface TargetProgress {
+  status: TargetStatus;
+  direction: 'decrease' | 'increase';
+  metric: { key: string; label: string; unit: string };
+  targetPeriod: string;
+  trajectory: TrajectoryPoint[]; // Baseline, milestones and target - expected values are interpolated between them
+  latestPeriod: string | null;
+  latestValue: number | null;
+  expectedValue: number | null; // Trajectory value for the latest period
+  gap: number | null; // How far the latest value is behind the trajectory, negative when ahead
+  gapPercent: number | null;
+  progressPercent: number | null; // Share of the baseline-to-target change achieved so far
+}
+
+interface TargetModuleDefinition {
+  model: Model<any>;
+  read: (record: any) => any;
+  esgArea: 'Environmental' | 'Social' | 'Governance';
+}
+
+const TARGET_MODULES: Record<TargetModule, TargetModuleDefinition> = {
+  environment: { model: EnvironmentalMetrics, read: readEnvironmentalMetrics, esgArea: 'Environmental' },
+  social: { model: SocialMetrics, read: readSocialMetrics, esgArea: 'Social' },
+  governance: { model: GovernanceMetrics, read: readGovernanceMetrics, esgArea: 'Governance' }
+};
+
+// Open tasks count as already raised, so an off-track target has at most one at a time
+const OPEN_TASK_STATUSES = ['Pending', 'In Progress', 'Overdue'];
+
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const formatValue = (value: number): string => value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+// Last period of the type that ends in the year: December, Q4, or the FY ending in March of it
+const getYearEndOrdinal = (type: PeriodType, year: number): number =>
+  type === 'financial-year' ? year - 1 : (year + 1) * PERIODS_PER_YEAR[type] - 1;
+
+interface TrajectoryAnchor {
+  ordinal: number;
+  value: number;
+}
+
+const getTrajectoryAnchors = (target: ITarget, baseline: ParsedPeriod): TrajectoryAnchor[] => {
+  const milestones = target.trajectory === 'milestones' ? target.milestones : [];
+  return [
+    { ordinal: getPeriodOrdinal(baseline), value: target.baselineValue },
+    ...milestones.map(milestone => ({ ordinal: getYearEndOrdinal(baseline.type, milestone.year), value: milestone.value })),
+    { ordinal: getYearEndOrdinal(baseline.type, target.targetYear), value: target.targetValue }
+  ];
+};
+
+// Linear between anchors, held at the target value once its deadline has passed
+const getExpectedValue = (anchors: TrajectoryAnchor[], ordinal: number): number => {
+  const last = anchors[anchors.length - 1];
+  if (ordinal >= last.ordinal) return last.value;
+  if (ordinal <= anchors[0].ordinal) return anchors[0].value;
+
+  const upper = anchors.findIndex(anchor => anchor.ordinal >= ordinal);
+  const from = anchors[upper - 1];
+  const to = anchors[upper];
+  return from.value + ((to.value - from.value) * (ordinal - from.ordinal)) / (to.ordinal - from.ordinal);
+};
+
+/**
+ * Problems with a target's metric, periods and milestones (empty if it is valid)
+ */
+export const validateTarget = (data: {
+  metricKey?: string;
+  baselinePeriod?: string;
+  targetYear?: number;
+  trajectory?: string;
+  milestones?: any;
+}): string[] => {
+  const errors: string[] = [];
+
+  if (!data.metricKey || !getTargetMetric(data.metricKey)) {
+    errors.push(`metricKey must be one of ${TARGET_METRICS.map(metric => metric.key).join(', ')}`);
+  }
+
+  const baseline = parsePeriod(data.baselinePeriod as string);
+  if (!baseline) {
+    errors.push('baselinePeriod must be a month (2025-04), quarter (2025-Q2) or financial year (FY2025-26)');
+    return errors;
+  }
+
+  const baselineOrdinal = getPeriodOrdinal(baseline);
+  const targetOrdinal = getYearEndOrdinal(baseline.type, Number(data.targetYear));
+  if (!(targetOrdinal > baselineOrdinal)) {
+    errors.push(`targetYear must end after the baseline period ${baseline.period}`);
+  }
+
+  if (data.trajectory === 'milestones') {
+    const milestones = Array.isArray(data.milestones) ? data.milestones : [];
+    if (milestones.length === 0) {
+      errors.push('milestones are required for a milestones trajectory');
+    }
+
+    let previous = baselineOrdinal;
+    milestones.forEach((milestone: any, i: number) => {
+      if (!Number.isInteger(milestone?.year) || !isNumber(milestone?.value) || milestone.value < 0) {
+        errors.push(`milestones[${i}] must have a year and a non-negative value`);
+        return;
+      }
+      const ordinal = getYearEndOrdinal(baseline.type, milestone.year);
+      if (ordinal <= previous || ordinal >= targetOrdinal) {
+        errors.push(`milestones[${i}].year must be after the baseline and earlier milestones, and before the target year`);
+      }
+      previous = Math.max(previous, ordinal);
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * The stored value of a target metric for a period, or null if it has not been reported
+ */
+export const findTargetMetricValue = async (
+  companyId: string,
+  metricKey: string,
+  period: string
+): Promise<number | null> => {
+  const metric = getTargetMetric(metricKey);
+  if (!metric) return null;
+
+  const { model, read } = TARGET_MODULES[metric.module];
+  const value = read(await model.findOne({ companyId, period }).lean())?.[metric.field];
+  return isNumber(value) ? value : null;
+};
+
+// Most recent stored value in a period of the baseline's type, from the baseline on
+const findLatestValue = async (
+  companyId: string,
+  metric: TargetMetric,
+  baseline: ParsedPeriod
+): Promise<TrajectoryPoint | null> => {
+  const { model, read } = TARGET_MODULES[metric.module];
+  const records = await model.find({ companyId }).lean();
+
+  const values = records
+    .map((record: any) => ({ parsed: parsePeriod(record.period), value: read(record)?.[metric.field] }))
+    .filter(({ parsed, value }) =>
+      parsed && parsed.type === baseline.type && getPeriodOrdinal(parsed) >= getPeriodOrdinal(baseline) && isNumber(value))
+    .sort((a, b) => getPeriodOrdinal(b.parsed as ParsedPeriod) - getPeriodOrdinal(a.parsed as ParsedPeriod));
+
+  return values.length > 0 ? { period: (values[0].parsed as ParsedPeriod).period, value: values[0].value } : null;
+};
+
+/**
+ * Where a target stands: the latest stored value of its metric against the trajectory for that period
+ * Within TARGET_SETTINGS.onTrackTolerancePercent of the trajectory still counts as on track
+ */
+export const getTargetProgress = async (target: ITarget): Promise<TargetProgress> => {
+  const metric = getTargetMetric(target.metricKey) as TargetMetric;
+  const baseline = parsePeriod(target.baselinePeriod) as ParsedPeriod;
+  const anchors = getTrajectoryAnchors(target, baseline);
+  const direction = target.targetValue < target.baselineValue ? 'decrease' : 'increase';
+
+  const base = {
+    direction,
+    metric: { key: metric.key, label: metric.label, unit: metric.unit },
+    targetPeriod: getPeriodFromOrdinal(baseline.type, anchors[anchors.length - 1].ordinal),
+    trajectory: anchors.map(anchor => ({ period: getPeriodFromOrdinal(baseline.type, anchor.ordinal), value: round(anchor.value) }))
+  } as const;
+
+  const latest = await findLatestValue(target.companyId.toString(), metric, baseline);
+  if (!latest) {
+    return {
+      ...base,
+      status: 'no-data',
+      latestPeriod: null,
+      latestValue: null,
+      expectedValue: null,
+      gap: null,
+      gapPercent: null,
+      progressPercent: null
+    };
+  }
+
+  const expected = getExpectedValue(anchors, getPeriodOrdinal(parsePeriod(latest.period) as ParsedPeriod));
+  const gap = direction === 'decrease' ? latest.value - expected : expected - latest.value;
+  const tolerance = Math.abs(expected) * (TARGET_SETTINGS.onTrackTolerancePercent / 100);
+  const change = target.targetValue - target.baselineValue;
+
+  const achieved = direction === 'decrease' ? latest.value <= target.targetValue : latest.value >= target.targetValue;
+  const status: TargetStatus = achieved ? 'achieved' : gap <= tolerance ? 'on-track' : 'off-track';
+
+  return {
+    ...base,
+    status,
+    latestPeriod: latest.period,
+    latestValue: round(latest.value),
+    expectedValue: round(expected),
+    gap: round(gap),
+    gapPercent: expected !== 0 ? round((gap / Math.abs(expected)) * 100) : null,
+    progressPercent: change !== 0 ? round(((latest.value - target.baselineValue) / change) * 100) : null
+  };
+};
+
+/**
+ * Raise a recommendation task for an off-track target, unless one is already open
+ */
+const syncTargetTask = async (target: ITarget, progress: TargetProgress): Promise<void> => {
+  if (progress.status !== 'off-track') return;
+
+  const sourceId = `target-${target._id}`;
+  const open = await Task.exists({ companyId: target.companyId, sourceId, status: { $in: OPEN_TASK_STATUSES } });
+  if (open) return;
+
+  const metric = getTargetMetric(target.metricKey) as TargetMetric;
+  const { unit } = progress.metric;
+  const gap = progress.gap as number;
+
+  await Task.create({
+    companyId: target.companyId,
+    userId: target.createdBy,
+    title: `Get ${metric.label.toLowerCase()} back on track for the ${target.targetYear} target`,
+    description: `${progress.latestPeriod}: ${formatValue(progress.latestValue as number)} ${unit} against `
+      + `${formatValue(progress.expectedValue as number)} ${unit} on the trajectory to `
+      + `${formatValue(target.targetValue)} ${unit} by ${target.targetYear}`,
+    relatedTo: 'Score',
+    esgArea: TARGET_MODULES[metric.module].esgArea,
+    priority: (progress.gapPercent ?? Infinity) >= TARGET_SETTINGS.highPriorityGapPercent ? 'High' : 'Medium',
+    status: 'Pending',
+    dueDate: new Date(Date.now() + TARGET_SETTINGS.taskDueDays * 24 * 60 * 60 * 1000),
+    impact: `Closes a ${formatValue(gap)} ${unit} gap to the trajectory`,
+    source: 'recommendation',
+    sourceId
+  });
+};
+
+/**
+ * Progress of a target, raising a recommendation task if it is active and off track
+ */
+export const evaluateTarget = async (target: ITarget): Promise<TargetProgress> => {
+  const progress = await getTargetProgress(target);
+  if (target.isActive) {
+    await syncTargetTask(target, progress);
+  }
+  return progress;
+};
+
+/**
+ * Progress of a company's active targets (optionally only those on one module's metrics)
+ * Off-track targets get a recommendation task
+ */
+export const evaluateTargets = async (
+  companyId: string,
+  module?: TargetModule
+): Promise<{ target: ITarget; progress: TargetProgress }[]> => {
+  const metricKeys = TARGET_METRICS.filter(metric => !module || metric.module === module).map(metric => metric.key);
+  const targets = await Target.find({ companyId, isActive: true, metricKey: { $in: metricKeys } }).sort({ targetYear: 1 });
+
+  return Promise.all(targets.map(async target => ({ target, progress: await evaluateTarget(target) })));
+};
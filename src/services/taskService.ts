@@ -4,16 +4,148 @@ import SocialMetrics from '../models/SocialMetrics';
 import GovernanceMetrics from '../models/GovernanceMetrics';
 import Evidence from '../models/Evidence';
 import { calculateBRSRReadiness } from './complianceService';
+import { simulateESGScore, MetricsPatch } from './esgScoring';
+import { findApprovedMetrics, findApprovedMetricsForPeriod } from './reviewService';
+import {
+  readEnvironmentalMetrics,
+  readSocialMetrics,
+  readGovernanceMetrics,
+  EnvironmentalMetricsView,
+  SocialMetricsView,
+  GovernanceMetricsView
+} from './metricAccessor';
+
+interface ScoreRecommendation {
+  sourceId: string;
+  title: string;
+  description: string;
+  esgArea: 'Environmental' | 'Social' | 'Governance';
+  patch: MetricsPatch;
+}
 
 /**
- * Generate tasks based on compliance gaps, missing data, and expiring documents
+ * Candidate improvements for the period, each as a metrics patch
  */
-export const generateTasks = async (
+const getRecommendationCandidates = (
+  envMetrics: EnvironmentalMetricsView | null,
+  socialMetrics: SocialMetricsView | null,
+  govMetrics: GovernanceMetricsView | null
+): ScoreRecommendation[] => {
+  const candidates: ScoreRecommendation[] = [];
+
+  const boardMembers = Number(govMetrics?.boardMembers || 0);
+  const independentDirectors = Number(govMetrics?.independentDirectors || 0);
+  if (boardMembers > 0 && independentDirectors / boardMembers < 0.5) {
+    candidates.push({
+      sourceId: 'score-gov-independent-director',
+      title: 'Appoint an additional independent director',
+      description: `The board has ${independentDirectors} independent director(s) out of ${boardMembers} members`,
+      esgArea: 'Governance',
+      patch: { governance: { boardMembers: boardMembers + 1, independentDirectors: independentDirectors + 1 } }
+    });
+  }
+
+  if (govMetrics && govMetrics.antiCorruptionPolicy !== true) {
+    candidates.push({
+      sourceId: 'score-gov-anti-corruption',
+      title: 'Adopt an anti-corruption policy',
+      description: 'No anti-corruption policy is recorded for this period',
+      esgArea: 'Governance',
+      patch: { governance: { antiCorruptionPolicy: true } }
+    });
+  }
+
+  if (govMetrics && govMetrics.dataPrivacyPolicy !== true) {
+    candidates.push({
+      sourceId: 'score-gov-data-privacy',
+      title: 'Adopt a data privacy policy',
+      description: 'No data privacy policy is recorded for this period',
+      esgArea: 'Governance',
+      patch: { governance: { dataPrivacyPolicy: true } }
+    });
+  }
+
+  const renewablePercent = Number(envMetrics?.renewableEnergyPercent || 0);
+  if (envMetrics && renewablePercent < 90) {
+    candidates.push({
+      sourceId: 'score-env-renewable',
+      title: 'Increase renewable energy share by 10 percentage points',
+      description: `Renewable energy is currently ${renewablePercent}% of consumption`,
+      esgArea: 'Environmental',
+      patch: { environmental: { renewableEnergyPercent: renewablePercent + 10 } }
+    });
+  }
+
+  const trainingHours = Number(socialMetrics?.totalTrainingHoursPerEmployee || 0);
+  if (socialMetrics && trainingHours < 24) {
+    candidates.push({
+      sourceId: 'score-social-training',
+      title: 'Raise training to 24 hours per employee',
+      description: `Employees currently receive ${trainingHours} training hours on average`,
+      esgArea: 'Social',
+      patch: { social: { totalTrainingHoursPerEmployee: 24 } }
+    });
+  }
+
+  return candidates;
+};
+
+/**
+ * Recommendation tasks whose impact comes from simulating the change against the current methodology
+ * Changes that would not raise the score are left out; null when the period cannot be simulated
+ */
+const getScoreRecommendations = async (companyId: string, period: string): Promise<any[] | null> => {
+  // Simulated against the approved metrics, like the stored score
+  const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
+    findApprovedMetrics('environment', companyId, period),
+    findApprovedMetrics('social', companyId, period),
+    findApprovedMetricsForPeriod('governance', companyId, period)
+  ]);
+
+  // Scores can only be simulated for complete, approved periods
+  if (!envMetrics || !socialMetrics || !govMetrics) {
+    return null;
+  }
+
+  const tasks: any[] = [];
+  const candidates = getRecommendationCandidates(
+    readEnvironmentalMetrics(envMetrics),
+    readSocialMetrics(socialMetrics),
+    readGovernanceMetrics(govMetrics)
+  );
+  for (const candidate of candidates) {
+    const { deltas } = await simulateESGScore(companyId, period, candidate.patch);
+    const pillarDelta = deltas[`${candidate.esgArea.toLowerCase()}Score` as 'environmentalScore' | 'socialScore' | 'governanceScore'];
+    if (pillarDelta <= 0) continue;
+
+    tasks.push({
+      title: candidate.title,
+      description: candidate.description,
+      relatedTo: 'Score',
+      esgArea: candidate.esgArea,
+      priority: deltas.overallScore >= 3 ? 'High' : deltas.overallScore >= 1 ? 'Medium' : 'Low',
+      status: 'Pending',
+      dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
+      impact: `${candidate.esgArea} score +${pillarDelta} (overall +${deltas.overallScore})`,
+      impactScore: pillarDelta,
+      source: 'recommendation',
+      sourceId: `${candidate.sourceId}-${period}`
+    });
+  }
+
+  return tasks;
+};
+
+/**
+ * Generate tasks, and whether score recommendations could be worked out for the period
+ */
+const collectTasks = async (
   companyId: string,
   userId: string,
   period: string
-): Promise<any[]> => {
+): Promise<{ tasks: any[]; recommendationsChecked: boolean }> => {
   const tasks: any[] = [];
+  let recommendationsChecked = false;
 
   // Get compliance gaps
   try {
@@ -74,14 +206,17 @@ export const generateTasks = async (
 
   // Get missing critical data
   try {
-    const [envMetrics, socialMetrics, govMetrics] = await Promise.all([
-      EnvironmentalMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-      SocialMetrics.findOne({ companyId, period }).sort({ createdAt: -1 }),
-      GovernanceMetrics.findOne({ companyId, period }).sort({ createdAt: -1 })
+    const [envRecord, socialRecord, govRecord] = await Promise.all([
+      EnvironmentalMetrics.findOne({ companyId, period }),
+      SocialMetrics.findOne({ companyId, period }),
+      GovernanceMetrics.findOne({ companyId, period })
     ]);
+    const envMetrics = readEnvironmentalMetrics(envRecord);
+    const socialMetrics = readSocialMetrics(socialRecord);
+    const govMetrics = readGovernanceMetrics(govRecord);
 
     // Check for missing critical environmental data
-    if (!envMetrics?.electricityKwh && !envMetrics?.electricityUsageKwh) {
+    if (!envMetrics?.electricityKwh) {
       tasks.push({
         title: 'Add electricity consumption data',
         description: 'Electricity data is required for environmental metrics',
@@ -112,7 +247,7 @@ export const generateTasks = async (
     }
 
     // Check for missing critical social data
-    if (!socialMetrics?.totalEmployeesPermanent && !socialMetrics?.totalEmployees) {
+    if (!socialMetrics?.totalEmployeesPermanent) {
       tasks.push({
         title: 'Add employee count data',
         description: 'Employee count is required for social metrics',
@@ -146,9 +281,29 @@ export const generateTasks = async (
     console.error('Error generating missing data tasks:', error);
   }
 
-  return tasks;
+  // Score improvement recommendations, sized by simulating the change
+  try {
+    const recommendations = await getScoreRecommendations(companyId, period);
+    if (recommendations) {
+      tasks.push(...recommendations);
+      recommendationsChecked = true;
+    }
+  } catch (error) {
+    console.error('Error generating score recommendation tasks:', error);
+  }
+
+  return { tasks, recommendationsChecked };
 };
 
+/**
+ * Generate tasks based on compliance gaps, missing data, expiring documents and score recommendations
+ */
+export const generateTasks = async (
+  companyId: string,
+  userId: string,
+  period: string
+): Promise<any[]> => (await collectTasks(companyId, userId, period)).tasks;
+
 /**
  * Sync tasks - generate new tasks and update existing ones
  */
@@ -158,13 +313,13 @@ export const syncTasks = async (
   period: string
 ): Promise<void> => {
   // Generate new tasks
-  const newTasks = await generateTasks(companyId, userId, period);
+  const { tasks: newTasks, recommendationsChecked } = await collectTasks(companyId, userId, period);
 
   // Get existing tasks
   const existingTasks = await Task.find({
     companyId,
     status: { $in: ['Pending', 'In Progress'] },
-    source: { $in: ['compliance', 'missing-data', 'expiring-document'] }
+    source: { $in: ['compliance', 'missing-data', 'expiring-document', 'recommendation'] }
   });
 
   // Create a map of existing tasks by sourceId
@@ -183,6 +338,31 @@ export const syncTasks = async (
     }
   }
 
+  // Open recommendations for the period follow the latest simulation: their impact is refreshed, and those
+  // that would no longer raise the score (the data or methodology changed) are closed
+  if (recommendationsChecked) {
+    const recommendations = new Map(
+      newTasks.filter(task => task.source === 'recommendation').map(task => [task.sourceId, task])
+    );
+    const openRecommendations = await Task.find({
+      companyId,
+      source: 'recommendation',
+      sourceId: { $regex: `-${period}$` },
+      status: { $in: ['Pending', 'In Progress', 'Overdue'] }
+    });
+
+    for (const task of openRecommendations) {
+      const latest = recommendations.get(task.sourceId);
+      if (latest) {
+        const { title, description, priority, impact, impactScore } = latest;
+        task.set({ title, description, priority, impact, impactScore });
+      } else {
+        task.set({ status: 'Completed', completedAt: new Date() });
+      }
+      await task.save();
+    }
+  }
+
   // Update overdue tasks
   const now = new Date();
   await Task.updateMany(
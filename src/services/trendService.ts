@@ -0,0 +1,228 @@
+import ESGScore from '../models/ESGScore';
+import MetricReview from '../models/MetricReview';
+import { TREND_METRICS, TrendMetric, FORECAST_SETTINGS } from '../config/trendAnalysis';
+import {
+  parsePeriod,
+  ParsedPeriod,
+  PeriodType,
+  PERIODS_PER_YEAR,
+  getPeriodOrdinal,
+  getPeriodFromOrdinal
+} from './periodService';
+import { findApprovedMetrics } from './reviewService';
+import { readEnvironmentalMetrics, readSocialMetrics, readGovernanceMetrics } from './metricAccessor';
+
+export interface TrendPoint {
+  period: string;
+  value: number;
+  yearOnYearChange: number | null; // Against the same month/quarter a year earlier, or the previous FY
+  yearOnYearPercent: number | null;
+}
+
+export interface ForecastPoint {
+  period: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+  unit: string;
+  points: TrendPoint[];
+  cagrPercent: number | null; // First to last point, when they are at least a year apart
+  model: 'linear' | 'seasonal' | null; // null when there are too few points to forecast
+  forecast: ForecastPoint[];
+}
+
+export interface TrendResult {
+  trends?: {
+    granularity: PeriodType;
+    periods: string[];
+    series: TrendSeries[];
+  };
+  error?: string;
+}
+
+interface SeriesPoint {
+  period: string;
+  ordinal: number;
+  value: number;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const isNumber = (value: any): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const seasonOf = (ordinal: number, perYear: number): number => ((ordinal % perYear) + perYear) % perYear;
+
+const fitLine = (xs: number[], ys: number[]) => {
+  const xMean = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const yMean = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const sxx = xs.reduce((sum, x) => sum + (x - xMean) ** 2, 0);
+  const sxy = xs.reduce((sum, x, i) => sum + (x - xMean) * (ys[i] - yMean), 0);
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  return { xMean, sxx, at: (x: number) => yMean + slope * (x - xMean) };
+};
+
+/**
+ * Project the next periods with a least-squares line, adding seasonal offsets once every season
+ * has been seen in enough years. The band widens with distance from the data.
+ */
+const forecastSeries = (
+  points: SeriesPoint[],
+  type: PeriodType,
+  metric: TrendMetric
+): Pick<TrendSeries, 'model' | 'forecast'> => {
+  if (points.length < FORECAST_SETTINGS.minPoints) {
+    return { model: null, forecast: [] };
+  }
+
+  const perYear = PERIODS_PER_YEAR[type];
+  const xs = points.map(point => point.ordinal);
+  const ys = points.map(point => point.value);
+
+  const seasonCounts = new Array(perYear).fill(0);
+  xs.forEach(x => seasonCounts[seasonOf(x, perYear)]++);
+  const seasonal = perYear > 1 && seasonCounts.every(count => count >= FORECAST_SETTINGS.seasonalMinYears);
+
+  // Additive season offsets, centred so they don't shift the level. The line and the offsets
+  // are refitted in turn, as a season-skewed line would otherwise bias the offsets.
+  const offsets = new Array(perYear).fill(0);
+  const deseasonalise = () => ys.map((y, i) => y - offsets[seasonOf(xs[i], perYear)]);
+  let line = fitLine(xs, ys);
+
+  for (let iteration = 0; seasonal && iteration < 20; iteration++) {
+    const sums = new Array(perYear).fill(0);
+    xs.forEach((x, i) => { sums[seasonOf(x, perYear)] += ys[i] - line.at(x); });
+    const means = sums.map((sum, season) => sum / seasonCounts[season]);
+    const meanOffset = means.reduce((sum, mean) => sum + mean, 0) / perYear;
+    means.forEach((mean, season) => { offsets[season] = mean - meanOffset; });
+    line = fitLine(xs, deseasonalise());
+  }
+
+  const fitted = (x: number) => line.at(x) + offsets[seasonOf(x, perYear)];
+
+  const parameters = 2 + (seasonal ? perYear - 1 : 0);
+  const squaredResiduals = xs.reduce((sum, x, i) => sum + (ys[i] - fitted(x)) ** 2, 0);
+  const standardError = Math.sqrt(squaredResiduals / Math.max(1, points.length - parameters));
+
+  const clamp = (value: number) => Math.min(metric.max ?? Infinity, Math.max(0, value));
+  const last = xs[xs.length - 1];
+
+  const forecast = Array.from({ length: FORECAST_SETTINGS.periods }, (_, i) => {
+    const x = last + i + 1;
+    const leverage = line.sxx > 0 ? (x - line.xMean) ** 2 / line.sxx : 0;
+    const margin = FORECAST_SETTINGS.confidenceZ * standardError * Math.sqrt(1 + 1 / points.length + leverage);
+    const value = fitted(x);
+    return {
+      period: getPeriodFromOrdinal(type, x),
+      value: round(clamp(value)),
+      lower: round(clamp(value - margin)),
+      upper: round(clamp(value + margin))
+    };
+  });
+
+  return { model: seasonal ? 'seasonal' : 'linear', forecast };
+};
+
+const buildSeries = (metric: TrendMetric, points: SeriesPoint[], type: PeriodType): TrendSeries => {
+  const perYear = PERIODS_PER_YEAR[type];
+  const byOrdinal = new Map(points.map(point => [point.ordinal, point.value]));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const years = first && last ? (last.ordinal - first.ordinal) / perYear : 0;
+  const cagrPercent = years >= 1 && first.value > 0 && last.value > 0
+    ? round((Math.pow(last.value / first.value, 1 / years) - 1) * 100)
+    : null;
+
+  return {
+    key: metric.key,
+    label: metric.label,
+    unit: metric.unit,
+    points: points.map(point => {
+      const previous = byOrdinal.get(point.ordinal - perYear);
+      return {
+        period: point.period,
+        value: round(point.value),
+        yearOnYearChange: previous !== undefined ? round(point.value - previous) : null,
+        yearOnYearPercent: previous !== undefined && previous !== 0 ? round(((point.value - previous) / previous) * 100) : null
+      };
+    }),
+    cagrPercent,
+    ...forecastSeries(points, type, metric)
+  };
+};
+
+/**
+ * Time series of ESG scores and key metrics with year-on-year deltas, CAGR and a forecast of the next periods
+ * Uses stored scores and approved metrics, like reports. Defaults to the period type the company reports most.
+ */
+export const getTrends = async (companyId: string, granularity?: PeriodType): Promise<TrendResult> => {
+  const [scores, approvedPeriods] = await Promise.all([
+    ESGScore.find({ companyId }).sort({ calculatedAt: -1 }),
+    MetricReview.distinct('period', { companyId, status: 'Approved' }) as Promise<string[]>
+  ]);
+
+  const allPeriods = Array.from(new Set([...scores.map(score => score.period), ...approvedPeriods]))
+    .map(parsePeriod)
+    .filter((parsed): parsed is ParsedPeriod => parsed !== null);
+
+  if (allPeriods.length === 0) {
+    return { error: 'No ESG scores or approved metrics found for this company' };
+  }
+
+  const counts = allPeriods.reduce((totals: Record<string, number>, parsed) => {
+    totals[parsed.type] = (totals[parsed.type] || 0) + 1;
+    return totals;
+  }, {});
+  const type = granularity || (Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0] as PeriodType);
+
+  const periods = allPeriods.filter(parsed => parsed.type === type).sort((a, b) => getPeriodOrdinal(a) - getPeriodOrdinal(b));
+  if (periods.length === 0) {
+    return { error: `No ESG scores or approved metrics found for ${type} periods` };
+  }
+
+  // Latest calculation per period
+  const latestScores = new Map<string, any>();
+  scores.forEach(score => {
+    if (!latestScores.has(score.period)) latestScores.set(score.period, score);
+  });
+
+  const values = await Promise.all(periods.map(async parsed => {
+    const approved = approvedPeriods.includes(parsed.period);
+    const [environment, social, governance] = approved
+      ? await Promise.all([
+        findApprovedMetrics('environment', companyId, parsed.period),
+        findApprovedMetrics('social', companyId, parsed.period),
+        findApprovedMetrics('governance', companyId, parsed.period)
+      ])
+      : [null, null, null];
+
+    return {
+      score: latestScores.get(parsed.period) || null,
+      environment: readEnvironmentalMetrics(environment),
+      social: readSocialMetrics(social),
+      governance: readGovernanceMetrics(governance)
+    } as Record<string, any>;
+  }));
+
+  const series = TREND_METRICS.map(metric => buildSeries(
+    metric,
+    periods.flatMap((parsed, i) => {
+      const value = values[i][metric.source]?.[metric.field];
+      return isNumber(value) ? [{ period: parsed.period, ordinal: getPeriodOrdinal(parsed), value }] : [];
+    }),
+    type
+  ));
+
+  return {
+    trends: {
+      granularity: type,
+      periods: periods.map(parsed => parsed.period),
+      series
+    }
+  };
+};
@@ -0,0 +1,148 @@
+import { UNITS, UnitDefinition, UnitDimension } from '../config/units';
+
+export interface SubmittedQuantity {
+  value: number;
+  unit: string;
+}
+
+export type UnitPreferences = Partial<Record<UnitDimension, string>>;
+
+// Same shape as express-validator errors so clients handle both alike
+export interface MetricFieldError {
+  type: 'field';
+  location: 'body';
+  path: string;
+  value: any;
+  msg: string;
+}
+
+const round = (value: number): number => Math.round(value * 1000000) / 1000000;
+
+export const getUnit = (unit: string): UnitDefinition | null => UNITS[unit] || null;
+
+/**
+ * Convert a value between two units of the same dimension
+ */
+export const convertValue = (value: number, fromUnit: string, toUnit: string): number => {
+  const from = getUnit(fromUnit);
+  const to = getUnit(toUnit);
+  if (!from || !to) {
+    throw new Error(`Unknown unit: ${!from ? fromUnit : toUnit}`);
+  }
+  if (from.dimension !== to.dimension) {
+    throw new Error(`Cannot convert ${from.dimension} (${fromUnit}) to ${to.dimension} (${toUnit})`);
+  }
+
+  return fromUnit === toUnit ? value : round((value * from.toBase) / to.toBase);
+};
+
+const isQuantity = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && 'value' in value && 'unit' in value;
+
+/**
+ * Replace { value, unit } submissions with the value in the field's canonical unit
+ * Plain numbers are taken as already canonical; the original quantities are returned for storage
+ */
+export const normaliseQuantities = (
+  values: any,
+  fieldUnits: Record<string, string>,
+  pathPrefix = ''
+): { values: any; submittedValues: Record<string, SubmittedQuantity>; errors: MetricFieldError[] } => {
+  const normalised = { ...(values || {}) };
+  const submittedValues: Record<string, SubmittedQuantity> = {};
+  const errors: MetricFieldError[] = [];
+
+  // Originals are only ever recorded from submissions
+  delete normalised.submittedValues;
+
+  Object.keys(normalised).forEach(field => {
+    const quantity = normalised[field];
+    if (!isQuantity(quantity)) return;
+
+    const path = `${pathPrefix}${field}`;
+    const canonicalUnit = fieldUnits[field];
+    const unit = getUnit(quantity.unit);
+    const value = Number(quantity.value);
+
+    if (!canonicalUnit) {
+      errors.push({ type: 'field', location: 'body', path, value: quantity, msg: `${field} does not take a unit` });
+    } else if (quantity.value === null || quantity.value === '' || isNaN(value)) {
+      errors.push({ type: 'field', location: 'body', path, value: quantity, msg: 'Value must be numeric' });
+    } else if (!unit) {
+      errors.push({ type: 'field', location: 'body', path, value: quantity, msg: `Unknown unit: ${quantity.unit}` });
+    } else if (unit.dimension !== getUnit(canonicalUnit)?.dimension) {
+      errors.push({
+        type: 'field',
+        location: 'body',
+        path,
+        value: quantity,
+        msg: `${field} is measured in ${canonicalUnit}, ${quantity.unit} is not a compatible unit`
+      });
+    } else {
+      normalised[field] = convertValue(value, unit.unit, canonicalUnit);
+      submittedValues[field] = { value, unit: unit.unit };
+    }
+  });
+
+  return { values: normalised, submittedValues, errors };
+};
+
+/**
+ * Merge newly submitted quantities into a record's stored originals
+ * Fields updated with a plain number lose their original, since it no longer describes the value
+ */
+export const mergeSubmittedValues = (
+  current: Map<string, SubmittedQuantity> | Record<string, SubmittedQuantity> | undefined,
+  update: any,
+  submittedValues: Record<string, SubmittedQuantity>,
+  fieldUnits: Record<string, string>
+): Record<string, SubmittedQuantity> | undefined => {
+  const merged: Record<string, SubmittedQuantity> = current instanceof Map
+    ? Object.fromEntries(current)
+    : { ...(current || {}) };
+
+  Object.keys(update || {})
+    .filter(field => fieldUnits[field])
+    .forEach(field => {
+      if (submittedValues[field]) {
+        merged[field] = submittedValues[field];
+      } else {
+        delete merged[field];
+      }
+    });
+
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+/**
+ * Validate a user's preferred display units (one unit per dimension)
+ */
+export const getUnitPreferenceErrors = (preferences: any): string[] => {
+  if (preferences === null || typeof preferences !== 'object' || Array.isArray(preferences)) {
+    return ['Preferred units must be an object keyed by dimension'];
+  }
+
+  return Object.entries(preferences).flatMap(([dimension, unit]) => {
+    const definition = getUnit(String(unit));
+    if (!definition) return [`Unknown unit: ${unit}`];
+    if (definition.dimension !== dimension) return [`${unit} is not a unit of ${dimension}`];
+    return [];
+  });
+};
+
+/**
+ * Express a stored (canonical) value in the user's preferred unit for its dimension
+ */
+export const toPreferredUnit = (
+  value: number,
+  canonicalUnit: string,
+  preferences?: UnitPreferences | null
+): SubmittedQuantity => {
+  const dimension = getUnit(canonicalUnit)?.dimension;
+  const preferred = dimension ? preferences?.[dimension] : undefined;
+
+  if (!preferred || getUnit(preferred)?.dimension !== dimension) {
+    return { value, unit: canonicalUnit };
+  }
+  return { value: convertValue(value, canonicalUnit, preferred), unit: preferred };
+};
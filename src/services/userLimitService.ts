@@ -1,13 +1,13 @@
-import User from '../models/User';
 import Company from '../models/Company';
 import { getPlanByType } from './planService';
+import { getCompanyMembers } from './membershipService';
 
 /**
- * Get current user count for a company
+ * Get current user count for a company (its members, whatever their role)
  */
 export const getCompanyUserCount = async (companyId: string): Promise<number> => {
-  const count = await User.countDocuments({ companyId });
-  return count;
+  const members = await getCompanyMembers(companyId);
+  return members.length;
 };
 
 /**